@@ -1,67 +1,134 @@
 import { NextRequest } from 'next/server'
+import { z } from 'zod'
 import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { METRICS, PERMISSIONS, ROLE_HIERARCHY, ROLES } from '@/lib/constants'
+import { can } from '@/lib/permissions'
+import { getEmployeeEventPayload } from '@/lib/webhooks'
+import { WebhookService } from '@/services/webhook.service'
 
 // API Route: /api/employee/create
-// Solo para uso backend seguro
+// Requiere sesión con permiso EMPLOYEES_CREATE; la organización es la del usuario que llama
+// Emite employee_created una vez creado el empleado
+
+/**
+ * Campo de texto opcional: el formulario envía '' cuando no se completa
+ */
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform(value => value || undefined)
+
+const createEmployeeSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Email inválido'),
+  firstName: z.string().trim().min(1, 'El nombre es obligatorio'),
+  lastName: z.string().trim().min(1, 'El apellido es obligatorio'),
+  role: z.enum(Object.values(ROLES) as [string, ...string[]], { message: 'Rol inválido' }),
+  phone: optionalText,
+  departmentId: optionalText,
+  positionId: optionalText,
+  managerId: optionalText,
+  hireDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha de ingreso inválida (YYYY-MM-DD)'),
+  password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres.'),
+})
+
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { email, firstName, lastName, role, phone, departmentId, positionId, hireDate, organizationId } = body
+    // 1. Verificar sesión y permiso del usuario que llama
+    const sessionClient = await createServerSupabaseClient()
+    const { data: { user: caller } } = await sessionClient.auth.getUser()
+    if (!caller?.email) {
+      return Response.json({ error: 'No autenticado' }, { status: 401 })
+    }
 
-    // Validación básica
-    if (!email || !firstName || !lastName || !role || !hireDate || !organizationId) {
-      return Response.json({ error: 'Faltan campos obligatorios: email, firstName, lastName, role, hireDate, organizationId' }, { status: 400 })
+    const supabase = createAdminSupabaseClient()
+
+    const { data: callerEmployee } = await supabase
+      .from('employees')
+      .select('id, organization_id, role, permissions, is_active')
+      .eq('email', caller.email)
+      .single()
+
+    if (!callerEmployee || !can(callerEmployee, PERMISSIONS.EMPLOYEES_CREATE)) {
+      return Response.json({ error: 'No tienes permiso para crear empleados' }, { status: 403 })
     }
 
-    // Construir metadatos para el trigger
-    const user_metadata = {
-      full_name: `${firstName} ${lastName}`,
-      first_name: firstName,
-      last_name: lastName,
-      role,
-      phone,
-      department_id: departmentId,
-      position_id: positionId,
-      hire_date: hireDate,
-      organization_id: organizationId
+    // 2. Validar el cuerpo (organizationId del cuerpo se ignora)
+    const parsed = createEmployeeSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return Response.json(
+        { error: parsed.error.issues.map(issue => issue.message).join('; ') },
+        { status: 400 }
+      )
     }
+    const { email, firstName, lastName, role, phone, departmentId, positionId, managerId, hireDate, password } = parsed.data
 
-    const supabase = createAdminSupabaseClient()
+    if ((ROLE_HIERARCHY[role] || 0) > (ROLE_HIERARCHY[callerEmployee.role] || 0)) {
+      return Response.json({ error: 'No puedes asignar un rol superior al tuyo' }, { status: 403 })
+    }
 
-    // Log de datos recibidos
-    console.log('Datos recibidos para crear usuario:', {
-      email,
-      firstName,
-      lastName,
-      role,
-      hireDate,
-      organizationId,
-      user_metadata
-    });
-
-    // 1. Crear usuario en Supabase Auth
-    // Usar la contraseña enviada desde el frontend
-    const { password } = body;
-    if (!password || password.length < 8) {
-      return Response.json({ error: 'La contraseña debe tener al menos 8 caracteres.' }, { status: 400 });
+    const organizationId = callerEmployee.organization_id
+
+    // El responsable directo debe pertenecer a la misma organización
+    if (managerId) {
+      const { data: manager } = await supabase
+        .from('employees')
+        .select('id')
+        .eq('id', managerId)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (!manager) {
+        return Response.json({ error: 'Responsable directo inválido' }, { status: 400 })
+      }
+    }
+
+    // Departamento y cargo también: el cliente de servicio no aplica RLS
+    if (departmentId) {
+      const { data: department } = await supabase
+        .from('departments')
+        .select('id')
+        .eq('id', departmentId)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (!department) {
+        return Response.json({ error: 'Departamento inválido' }, { status: 400 })
+      }
+    }
+
+    if (positionId) {
+      const { data: position } = await supabase
+        .from('positions')
+        .select('id')
+        .eq('id', positionId)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (!position) {
+        return Response.json({ error: 'Cargo inválido' }, { status: 400 })
+      }
     }
+
+    // 3. Crear usuario en Supabase Auth
     const { data: user, error: authError } = await supabase.auth.admin.createUser({
       email,
       email_confirm: true,
       password
-    });
+    })
 
     if (authError || !user?.user) {
-      console.error('❌ Supabase Auth Error:', authError);
-      return Response.json({ error: authError?.message || 'Error creando usuario', details: authError }, { status: 400 });
+      console.error('❌ Supabase Auth Error:', authError?.message)
+      return Response.json({ error: authError?.message || 'Error creando usuario' }, { status: 400 })
     }
 
     // Generar employee_code: EMP + año + 4 dígitos aleatorios
-    const year = new Date().getFullYear();
-    const randomDigits = Math.floor(1000 + Math.random() * 9000);
-    const employeeCode = `EMP${year}${randomDigits}`;
+    const year = new Date().getFullYear()
+    const randomDigits = Math.floor(1000 + Math.random() * 9000)
+    const employeeCode = `EMP${year}${randomDigits}`
 
-    // 2. Insertar datos en employees manualmente
+    // 4. Insertar datos en employees
     const { error: dbError } = await supabase.from('employees').insert({
       id: user.user.id,
       email,
@@ -70,20 +137,35 @@ export async function POST(request: NextRequest) {
       phone,
       department_id: departmentId,
       position_id: positionId,
+      manager_id: managerId,
       hire_date: hireDate,
       organization_id: organizationId,
       role,
       is_active: true,
-      employee_code: employeeCode
-    });
+      employee_code: employeeCode,
+      created_by: callerEmployee.id
+    })
+
     if (dbError) {
-      console.error('❌ DB Error:', dbError);
-      return Response.json({ error: dbError.message || 'Error creando empleado', details: dbError }, { status: 400 });
+      console.error('❌ DB Error:', dbError.message)
+
+      // Revertir el usuario de Auth para no dejar cuentas sin empleado
+      const { error: rollbackError } = await supabase.auth.admin.deleteUser(user.user.id)
+      if (rollbackError) {
+        console.error('❌ Error revirtiendo usuario de Auth:', user.user.id, rollbackError.message)
+      }
+
+      return Response.json({ error: dbError.message || 'Error creando empleado' }, { status: 400 })
+    }
+
+    const eventPayload = await getEmployeeEventPayload(supabase, organizationId, user.user.id)
+    if (eventPayload) {
+      await new WebhookService(supabase).emit(organizationId, METRICS.EVENTS.EMPLOYEE_CREATED, eventPayload)
     }
 
     return Response.json({ user: user.user }, { status: 201 })
   } catch (error) {
     console.error('❌ API Route Critical Error:', error)
-    return Response.json({ error: 'Error crítico en API', details: String(error) }, { status: 500 })
+    return Response.json({ error: 'Error crítico en API' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { authorizeCronRequest } from '@/lib/cron'
+import { ShiftAutoCloseService } from '@/services/shift-auto-close.service'
+
+// API Route: /api/jobs/close-open-shifts
+// Cierra o marca para revisión los turnos sin salida según
+// work_policies.auto_close_mode, y notifica al empleado y a su manager
+//
+// Pensado para un cron cada hora:
+//   Authorization: Bearer $CRON_SECRET
+// Parámetro opcional (query): organizationId=<uuid>
+
+async function runJob(request: NextRequest) {
+  try {
+    const unauthorized = authorizeCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const organizationId = request.nextUrl.searchParams.get('organizationId') || undefined
+
+    const shiftAutoCloseService = new ShiftAutoCloseService(createAdminSupabaseClient())
+    const results = await shiftAutoCloseService.closeOpenShifts(organizationId)
+
+    const closed = results.reduce((sum, result) => sum + result.closed, 0)
+    const flagged = results.reduce((sum, result) => sum + result.flagged, 0)
+    console.log(`Turnos abiertos: ${closed} cerrados, ${flagged} marcados para revisión`)
+
+    const failed = results.some(result => result.error)
+    return Response.json({ closed, flagged, results }, { status: failed ? 207 : 200 })
+  } catch (error) {
+    console.error('❌ Error en cierre automático de turnos:', error)
+    return Response.json({ error: 'Error al cerrar turnos abiertos' }, { status: 500 })
+  }
+}
+
+// GET para crons que solo invocan por GET (p. ej. Vercel Cron)
+export async function GET(request: NextRequest) {
+  return runJob(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runJob(request)
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { authorizeCronRequest } from '@/lib/cron'
+import { WebhookDeliveryService } from '@/services/webhook-delivery.service'
+
+// API Route: /api/jobs/deliver-webhooks
+// Reparte los eventos emitidos a los endpoints suscritos, envía las entregas
+// pendientes firmadas con HMAC y reprograma las fallidas con espera creciente
+//
+// Pensado para un cron cada minuto:
+//   Authorization: Bearer $CRON_SECRET
+// Parámetro opcional (query): organizationId=<uuid>
+
+async function runJob(request: NextRequest) {
+  try {
+    const unauthorized = authorizeCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const organizationId = request.nextUrl.searchParams.get('organizationId') || undefined
+
+    const webhookDeliveryService = new WebhookDeliveryService(createAdminSupabaseClient())
+    const result = await webhookDeliveryService.processWebhooks(organizationId)
+
+    console.log(
+      `Webhooks: ${result.dispatched} eventos repartidos, ${result.delivered} entregados, ` +
+      `${result.retrying} por reintentar, ${result.failed} fallidos`
+    )
+
+    return Response.json(result)
+  } catch (error) {
+    console.error('❌ Error en entrega de webhooks:', error)
+    return Response.json({ error: 'Error al entregar webhooks' }, { status: 500 })
+  }
+}
+
+// GET para crons que solo invocan por GET (p. ej. Vercel Cron)
+export async function GET(request: NextRequest) {
+  return runJob(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runJob(request)
+}
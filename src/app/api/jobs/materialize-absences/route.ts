@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { authorizeCronRequest } from '@/lib/cron'
+import { AbsenceService } from '@/services/absence.service'
+
+// API Route: /api/jobs/materialize-absences
+// Proceso de cierre de día: registra como 'absent' a los empleados activos
+// sin asistencia en un día laborable (omite feriados y permisos aprobados)
+//
+// Pensado para un cron diario después de medianoche:
+//   Authorization: Bearer $CRON_SECRET
+// Parámetros opcionales (query): date=YYYY-MM-DD, organizationId=<uuid>
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+async function runJob(request: NextRequest) {
+  try {
+    const unauthorized = authorizeCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const date = request.nextUrl.searchParams.get('date') || undefined
+    const organizationId = request.nextUrl.searchParams.get('organizationId') || undefined
+
+    if (date && !DATE_PATTERN.test(date)) {
+      return Response.json({ error: 'La fecha debe tener el formato YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const absenceService = new AbsenceService(createAdminSupabaseClient())
+    const results = await absenceService.materializeAbsences({ date, organizationId })
+
+    const created = results.reduce((sum, result) => sum + result.created, 0)
+    console.log(`Ausencias registradas: ${created} en ${results.length} organizaciones`)
+
+    const failed = results.some(result => result.error)
+    return Response.json({ created, results }, { status: failed ? 207 : 200 })
+  } catch (error) {
+    console.error('❌ Error en proceso de ausencias:', error)
+    return Response.json({ error: 'Error al registrar ausencias' }, { status: 500 })
+  }
+}
+
+// GET para crons que solo invocan por GET (p. ej. Vercel Cron)
+export async function GET(request: NextRequest) {
+  return runJob(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runJob(request)
+}
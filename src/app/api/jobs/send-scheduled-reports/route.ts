@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { authorizeCronRequest } from '@/lib/cron'
+import { ReportScheduleRunnerService } from '@/services/report-schedule-runner.service'
+
+// API Route: /api/jobs/send-scheduled-reports
+// Genera y entrega los reportes programados cuyo envío venció y calcula el
+// siguiente; cada ejecución queda en report_runs
+//
+// Pensado para un cron cada hora (los envíos se programan por hora local):
+//   Authorization: Bearer $CRON_SECRET
+// Parámetro opcional (query): organizationId=<uuid>
+
+async function runJob(request: NextRequest) {
+  try {
+    const unauthorized = authorizeCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const organizationId = request.nextUrl.searchParams.get('organizationId') || undefined
+
+    const runnerService = new ReportScheduleRunnerService(createAdminSupabaseClient())
+    const result = await runnerService.runDueSchedules(organizationId)
+
+    console.log(`Reportes programados: ${result.succeeded} enviados, ${result.failed} fallidos`)
+
+    return Response.json(result, { status: result.failed > 0 ? 207 : 200 })
+  } catch (error) {
+    console.error('❌ Error en envío de reportes programados:', error)
+    return Response.json({ error: 'Error al enviar reportes programados' }, { status: 500 })
+  }
+}
+
+// GET para crons que solo invocan por GET (p. ej. Vercel Cron)
+export async function GET(request: NextRequest) {
+  return runJob(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runJob(request)
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { authenticateKiosk } from '@/lib/kiosk'
+import { apiError, apiSuccess } from '@/lib/api'
+import { resolveTimezone } from '@/lib/timezone'
+
+// API Route: GET /api/kiosk/device
+// Datos de la terminal de quiosco autenticada (X-Kiosk-Token); la terminal
+// lo consulta al activarse y al abrir la pantalla de marcaje
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateKiosk(request)
+    if (caller instanceof Response) return caller
+
+    const { data: organization } = await caller.supabase
+      .from('organizations')
+      .select('name, timezone')
+      .eq('id', caller.kiosk.organization_id)
+      .single()
+
+    return apiSuccess({
+      id: caller.kiosk.id,
+      name: caller.kiosk.name,
+      organization_name: organization?.name ?? null,
+      timezone: resolveTimezone(organization?.timezone),
+    })
+  } catch (error) {
+    console.error('❌ Error en GET /api/kiosk/device:', error)
+    return apiError('Error al obtener la terminal', 500)
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { authenticateKiosk } from '@/lib/kiosk'
+import { createOfficeQrCode, getOfficeQrSecret } from '@/lib/office-qr'
+import { apiError, apiSuccess } from '@/lib/api'
+
+// API Route: GET /api/kiosk/office-qr
+// Código actual del QR de la oficina para la pantalla que lo muestra; la
+// pantalla es una terminal de quiosco autorizada (X-Kiosk-Token)
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateKiosk(request)
+    if (caller instanceof Response) return caller
+
+    const secret = await getOfficeQrSecret(caller.supabase, caller.kiosk.organization_id)
+    const { code, expiresAt } = createOfficeQrCode(secret, caller.kiosk.organization_id)
+
+    return apiSuccess({ code, expires_at: expiresAt })
+  } catch (error) {
+    console.error('❌ Error en GET /api/kiosk/office-qr:', error)
+    return apiError('Error al generar el QR de la oficina', 500)
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { KIOSK_CONFIG } from '@/lib/constants'
+import {
+  authenticateKiosk,
+  getClientIp,
+  verifyEmployeeQrCode,
+  verifyKioskPin,
+  type KioskCaller,
+} from '@/lib/kiosk'
+import { apiError, apiSuccess } from '@/lib/api'
+import { AttendanceService } from '@/services/attendance.service'
+import type { Employee } from '@/types/database'
+
+// API Route: POST /api/kiosk/punch
+// Marcaje desde una terminal de quiosco autenticada (X-Kiosk-Token)
+// El empleado se identifica con su código + PIN o con su QR rotativo; la
+// entrada/salida se registra en su nombre con la terminal, la IP y el user agent
+
+const punchSchema = z.union([
+  z.object({
+    action: z.enum(['check_in', 'check_out']),
+    employee_code: z.string().trim().min(1, 'El código es obligatorio').transform(code => code.toUpperCase()),
+    pin: z.string().min(1, 'El PIN es obligatorio'),
+  }),
+  z.object({
+    action: z.enum(['check_in', 'check_out']),
+    qr: z.string().min(1),
+  }),
+])
+
+type PunchRequest = z.infer<typeof punchSchema>
+
+type KioskEmployee = Pick<
+  Employee,
+  'id' | 'full_name' | 'is_active' | 'kiosk_pin_hash' | 'kiosk_pin_failed_attempts' | 'kiosk_pin_locked_until'
+>
+
+const KIOSK_EMPLOYEE_SELECT = 'id, full_name, is_active, kiosk_pin_hash, kiosk_pin_failed_attempts, kiosk_pin_locked_until'
+
+// Mismo mensaje para código inexistente y PIN erróneo: no revela qué códigos existen
+const INVALID_CREDENTIALS = 'Código o PIN incorrecto'
+
+/**
+ * Identifica al empleado de la organización de la terminal
+ * Devuelve el empleado o la respuesta de error
+ */
+async function identifyEmployee(caller: KioskCaller, body: PunchRequest): Promise<KioskEmployee | Response> {
+  const { supabase, kiosk } = caller
+
+  if ('qr' in body) {
+    const employeeId = verifyEmployeeQrCode(body.qr)
+    if (!employeeId) return apiError('Código QR inválido o caducado', 401)
+
+    const { data: employee } = await supabase
+      .from('employees')
+      .select(KIOSK_EMPLOYEE_SELECT)
+      .eq('id', employeeId)
+      .eq('organization_id', kiosk.organization_id)
+      .maybeSingle()
+
+    if (!employee || !employee.is_active) return apiError('Código QR inválido o caducado', 401)
+    return employee
+  }
+
+  const { data: employee } = await supabase
+    .from('employees')
+    .select(KIOSK_EMPLOYEE_SELECT)
+    .eq('employee_code', body.employee_code)
+    .eq('organization_id', kiosk.organization_id)
+    .maybeSingle()
+
+  if (!employee || !employee.is_active || !employee.kiosk_pin_hash) {
+    return apiError(INVALID_CREDENTIALS, 401)
+  }
+
+  if (employee.kiosk_pin_locked_until && new Date(employee.kiosk_pin_locked_until) > new Date()) {
+    return apiError('PIN bloqueado por intentos fallidos. Usa tu código QR o inténtalo más tarde', 423)
+  }
+
+  if (!(await verifyKioskPin(body.pin, employee.kiosk_pin_hash))) {
+    const failedAttempts = (employee.kiosk_pin_failed_attempts || 0) + 1
+    const locked = failedAttempts >= KIOSK_CONFIG.MAX_PIN_ATTEMPTS
+
+    await supabase
+      .from('employees')
+      .update({
+        kiosk_pin_failed_attempts: locked ? 0 : failedAttempts,
+        kiosk_pin_locked_until: locked
+          ? new Date(Date.now() + KIOSK_CONFIG.PIN_LOCKOUT_MINUTES * 60 * 1000).toISOString()
+          : null,
+      })
+      .eq('id', employee.id)
+
+    return locked
+      ? apiError(`PIN bloqueado durante ${KIOSK_CONFIG.PIN_LOCKOUT_MINUTES} minutos por intentos fallidos`, 423)
+      : apiError(INVALID_CREDENTIALS, 401)
+  }
+
+  if (employee.kiosk_pin_failed_attempts) {
+    await supabase
+      .from('employees')
+      .update({ kiosk_pin_failed_attempts: 0, kiosk_pin_locked_until: null })
+      .eq('id', employee.id)
+  }
+
+  return employee
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateKiosk(request)
+    if (caller instanceof Response) return caller
+
+    const parsed = punchSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError('Identifícate con tu código y PIN o con tu código QR', 400)
+    }
+
+    const employee = await identifyEmployee(caller, parsed.data)
+    if (employee instanceof Response) return employee
+
+    const attendanceService = new AttendanceService(caller.supabase)
+    const source = {
+      kioskId: caller.kiosk.id,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    }
+
+    const result = parsed.data.action === 'check_in'
+      ? await attendanceService.checkIn(employee.id, caller.kiosk.organization_id, null, source)
+      : await attendanceService.checkOut(employee.id, null, source)
+
+    if (!result.success) {
+      return apiError(result.message, 409)
+    }
+
+    return apiSuccess({
+      action: parsed.data.action,
+      message: result.message,
+      employee: { id: employee.id, full_name: employee.full_name },
+      attendance: {
+        attendance_date: result.data?.attendance_date,
+        check_in_time: result.data?.check_in_time,
+        check_out_time: result.data?.check_out_time ?? null,
+        status: result.data?.status,
+      },
+    })
+  } catch (error) {
+    console.error('❌ Error en POST /api/kiosk/punch:', error)
+    return apiError('Error al registrar el marcaje', 500)
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { apiError, apiSuccess, authenticateApiRequest, requireSession } from '@/lib/api'
+import { getClientIp } from '@/lib/kiosk'
+import { getOfficeQrSecret, verifyOfficeQrCode } from '@/lib/office-qr'
+import { AttendanceService, type AttendanceResponse, type AttendanceSource } from '@/services/attendance.service'
+import { SystemConfigService } from '@/services/system-config.service'
+
+// API Route: POST /api/v1/attendance/punch
+// Entrada, salida y descansos del usuario desde el navegador (requiere sesión)
+// El marcaje se escribe aquí con el cliente de servicio: el QR de la oficina y
+// las geocercas se validan en el servidor y el navegador no escribe en attendances
+
+const punchSchema = z.object({
+  action: z.enum(['check_in', 'check_out', 'start_break', 'end_break']),
+  location: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    accuracy: z.number().nonnegative().optional(),
+    timestamp: z.string().optional(),
+  }).nullable().optional(),
+  office_qr_code: z.string().min(1).optional(),
+  break_type: z.enum(['lunch', 'short_break', 'personal', 'medical']).default('short_break'),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const parsed = punchSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const { employee, supabase } = caller
+    const { action, location, office_qr_code: officeQrCode, break_type: breakType } = parsed.data
+    const source: AttendanceSource = {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    }
+
+    if (action === 'check_in' && officeQrCode) {
+      const policy = await new SystemConfigService(supabase).getActiveWorkPolicy(employee.organization_id)
+
+      if (policy?.require_office_qr) {
+        const secret = await getOfficeQrSecret(supabase, employee.organization_id)
+        const verification = verifyOfficeQrCode(secret, employee.organization_id, officeQrCode)
+
+        if (!verification.valid) {
+          return apiError(verification.message, 409)
+        }
+
+        source.officeQrCode = officeQrCode
+        source.officeQrVerified = true
+      }
+    }
+
+    const attendanceService = new AttendanceService(supabase)
+    let result: AttendanceResponse
+
+    switch (action) {
+      case 'check_in':
+        result = await attendanceService.checkIn(employee.id, employee.organization_id, location ?? null, source)
+        break
+      case 'check_out':
+        result = await attendanceService.checkOut(employee.id, location ?? null, source)
+        break
+      case 'start_break':
+        result = await attendanceService.startBreak(employee.id, breakType)
+        break
+      case 'end_break':
+        result = await attendanceService.endBreak(employee.id)
+        break
+    }
+
+    if (!result.success) {
+      return apiError(result.message, 409)
+    }
+
+    return apiSuccess({ message: result.message, attendance: result.data ?? null })
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/attendance/punch:', error)
+    return apiError('Error al registrar el marcaje', 500)
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { ATTENDANCE_STATUS } from '@/lib/constants'
+import {
+  ATTENDANCE_API_SELECT,
+  apiError,
+  apiPaginated,
+  authenticateApiRequest,
+  booleanParam,
+  commaSeparated,
+  dateParam,
+  getPageRange,
+  paginationSchema,
+  parseQuery,
+  resolveEmployeeIds,
+} from '@/lib/api'
+import type { AttendanceFilters, AttendanceStatus } from '@/types/database'
+
+// API Route: GET /api/v1/attendance
+// Registros de asistencia dentro del alcance del usuario: toda la organización,
+// su equipo o solo los propios (ver getAttendanceScope en lib/api)
+// Filtros (AttendanceFilters): employee_id, department_id, date_from, date_to,
+// status=late,absent, is_approved, page, limit, sortBy, sortOrder
+
+const attendanceFiltersSchema = paginationSchema(['attendance_date', 'check_in_time', 'work_hours', 'created_at']).extend({
+  employee_id: z.string().uuid().optional(),
+  department_id: z.string().uuid().optional(),
+  date_from: dateParam.optional(),
+  date_to: dateParam.optional(),
+  status: commaSeparated(z.enum(Object.values(ATTENDANCE_STATUS) as [AttendanceStatus, ...AttendanceStatus[]])).optional(),
+  is_approved: booleanParam.optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const parsed = parseQuery(request, attendanceFiltersSchema)
+    if (parsed instanceof Response) return parsed
+    const filters: AttendanceFilters = parsed
+
+    const employeeIds = await resolveEmployeeIds(caller, filters)
+    if (employeeIds?.length === 0) {
+      return apiPaginated([], parsed, 0)
+    }
+
+    let query = caller.supabase
+      .from('attendances')
+      .select(ATTENDANCE_API_SELECT, { count: 'exact' })
+      .eq('organization_id', caller.employee.organization_id)
+
+    if (employeeIds) query = query.in('employee_id', employeeIds)
+    if (filters.date_from) query = query.gte('attendance_date', filters.date_from)
+    if (filters.date_to) query = query.lte('attendance_date', filters.date_to)
+    if (filters.status?.length) query = query.in('status', filters.status)
+    if (filters.is_approved !== undefined) query = query.eq('is_approved', filters.is_approved)
+
+    const [from, to] = getPageRange(parsed)
+    const { data, count, error } = await query
+      .order(parsed.sortBy || 'attendance_date', { ascending: parsed.sortOrder === 'asc' })
+      .range(from, to)
+
+    if (error) throw error
+
+    return apiPaginated(data || [], parsed, count || 0)
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/attendance:', error)
+    return apiError('Error al obtener asistencias', 500)
+  }
+}
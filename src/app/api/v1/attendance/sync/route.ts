@@ -0,0 +1,170 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { OFFLINE_SYNC_CONFIG } from '@/lib/constants'
+import { apiError, apiSuccess, authenticateApiRequest, requireSession, type ApiCaller } from '@/lib/api'
+import { getClientIp } from '@/lib/kiosk'
+import { getOfficeQrSecret, verifyOfficeQrCode } from '@/lib/office-qr'
+import { AttendanceService, type AttendanceResponse, type AttendanceSource } from '@/services/attendance.service'
+import { SystemConfigService } from '@/services/system-config.service'
+import type { AttendanceSyncStatus } from '@/types/database'
+
+// API Route: POST /api/v1/attendance/sync
+// Sincroniza los marcajes que el usuario registró sin conexión (requiere sesión)
+// Cada evento se aplica con la hora del dispositivo en orden cronológico y queda
+// en attendance_sync_events; se rechazan los duplicados (mismo id), los antiguos
+// (MAX_EVENT_AGE_HOURS) y los que llegan con la hora adelantada
+// Los aplicados quedan pendientes de revisión: la hora la pone el dispositivo
+
+const syncSchema = z.object({
+  events: z.array(z.object({
+    id: z.string().uuid(),
+    action: z.enum(['check_in', 'check_out']),
+    recorded_at: z.string().datetime({ offset: true }),
+    location: z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+      accuracy: z.number().nonnegative().optional(),
+      timestamp: z.string().optional(),
+    }).nullable().optional(),
+    office_qr_code: z.string().min(1).optional(),
+  })).min(1).max(OFFLINE_SYNC_CONFIG.MAX_EVENTS_PER_SYNC),
+})
+
+type SyncEvent = z.infer<typeof syncSchema>['events'][number]
+
+interface SyncResult {
+  id: string
+  status: AttendanceSyncStatus
+  message: string
+}
+
+/**
+ * Rechaza eventos fuera de la ventana aceptada antes de reservar su id
+ */
+function checkFreshness(event: SyncEvent, now: Date): SyncResult | null {
+  const recordedAt = new Date(event.recorded_at).getTime()
+
+  if (recordedAt > now.getTime() + OFFLINE_SYNC_CONFIG.MAX_CLOCK_SKEW_MINUTES * 60 * 1000) {
+    return { id: event.id, status: 'rejected', message: 'La hora del dispositivo está adelantada' }
+  }
+
+  if (recordedAt < now.getTime() - OFFLINE_SYNC_CONFIG.MAX_EVENT_AGE_HOURS * 60 * 60 * 1000) {
+    return {
+      id: event.id,
+      status: 'stale',
+      message: `El marcaje tiene más de ${OFFLINE_SYNC_CONFIG.MAX_EVENT_AGE_HOURS} horas: solicita una corrección de asistencia`,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Aplica un evento con AttendanceService y deja constancia del resultado
+ */
+async function applyEvent(
+  caller: ApiCaller,
+  event: SyncEvent,
+  requireOfficeQr: boolean,
+  baseSource: AttendanceSource
+): Promise<SyncResult> {
+  const { employee, supabase } = caller
+
+  // Reservar el id: si ya existe, el evento se envió antes
+  const { error: claimError } = await supabase
+    .from('attendance_sync_events')
+    .insert({
+      id: event.id,
+      employee_id: employee.id,
+      organization_id: employee.organization_id,
+      action: event.action,
+      recorded_at: event.recorded_at,
+      status: 'rejected',
+    })
+
+  if (claimError) {
+    if (claimError.code === '23505') {
+      return { id: event.id, status: 'duplicate', message: 'El marcaje ya se había sincronizado' }
+    }
+    throw claimError
+  }
+
+  const source: AttendanceSource = { ...baseSource, recordedAt: event.recorded_at }
+
+  if (event.action === 'check_in' && requireOfficeQr) {
+    // El código caduca a los segundos: se verifica contra la hora del marcaje
+    const secret = await getOfficeQrSecret(supabase, employee.organization_id)
+    const verification = event.office_qr_code
+      ? verifyOfficeQrCode(secret, employee.organization_id, event.office_qr_code, new Date(event.recorded_at))
+      : { valid: false as const, message: 'Escanea el código QR de la oficina para registrar tu entrada' }
+
+    if (!verification.valid) {
+      return recordResult(caller, event.id, { success: false, message: verification.message })
+    }
+
+    source.officeQrCode = event.office_qr_code
+    source.officeQrVerified = true
+  }
+
+  const attendanceService = new AttendanceService(supabase)
+  const result = event.action === 'check_in'
+    ? await attendanceService.checkIn(employee.id, employee.organization_id, event.location ?? null, source)
+    : await attendanceService.checkOut(employee.id, event.location ?? null, source)
+
+  return recordResult(caller, event.id, result)
+}
+
+/**
+ * Guarda el resultado del evento en attendance_sync_events
+ */
+async function recordResult(caller: ApiCaller, eventId: string, result: AttendanceResponse): Promise<SyncResult> {
+  const status: AttendanceSyncStatus = result.success ? 'applied' : 'rejected'
+
+  await caller.supabase
+    .from('attendance_sync_events')
+    .update({
+      status,
+      message: result.message,
+      attendance_id: (result.data?.id as string | undefined) ?? null,
+    })
+    .eq('id', eventId)
+
+  return { id: eventId, status, message: result.message }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const parsed = syncSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const now = new Date()
+    const policy = await new SystemConfigService(caller.supabase).getActiveWorkPolicy(caller.employee.organization_id)
+    const baseSource: AttendanceSource = {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    }
+
+    // En orden cronológico: una salida no puede aplicarse antes que su entrada
+    const events = [...parsed.data.events].sort(
+      (a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
+    )
+
+    const results: SyncResult[] = []
+    for (const event of events) {
+      results.push(checkFreshness(event, now) ?? await applyEvent(caller, event, !!policy?.require_office_qr, baseSource))
+    }
+
+    return apiSuccess({ results })
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/attendance/sync:', error)
+    return apiError('Error al sincronizar los marcajes', 500)
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { hashKioskPin, kioskPinSchema } from '@/lib/kiosk'
+import { apiError, apiSuccess, authenticateApiRequest, requireSession } from '@/lib/api'
+
+// API Route: /api/v1/auth/me/kiosk-pin
+// PIN del usuario para marcar en las terminales de quiosco (requiere sesión)
+// GET indica si tiene PIN y si está bloqueado; PUT lo establece; DELETE lo elimina
+// El PIN solo se guarda como hash (ver lib/kiosk)
+
+const setPinSchema = z.object({
+  pin: kioskPinSchema,
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const { data, error } = await caller.supabase
+      .from('employees')
+      .select('employee_code, kiosk_pin_hash, kiosk_pin_locked_until')
+      .eq('id', caller.employee.id)
+      .single()
+
+    if (error) throw error
+
+    return apiSuccess({
+      employee_code: data.employee_code,
+      has_pin: Boolean(data.kiosk_pin_hash),
+      locked_until: data.kiosk_pin_locked_until && new Date(data.kiosk_pin_locked_until) > new Date()
+        ? data.kiosk_pin_locked_until
+        : null,
+    })
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/auth/me/kiosk-pin:', error)
+    return apiError('Error al obtener el PIN de quiosco', 500)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const parsed = setPinSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    // Un PIN nuevo también desbloquea tras intentos fallidos
+    const { error } = await caller.supabase
+      .from('employees')
+      .update({
+        kiosk_pin_hash: await hashKioskPin(parsed.data.pin),
+        kiosk_pin_failed_attempts: 0,
+        kiosk_pin_locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', caller.employee.id)
+
+    if (error) throw error
+
+    return apiSuccess({ has_pin: true })
+  } catch (error) {
+    console.error('❌ Error en PUT /api/v1/auth/me/kiosk-pin:', error)
+    return apiError('Error al guardar el PIN de quiosco', 500)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const { error } = await caller.supabase
+      .from('employees')
+      .update({
+        kiosk_pin_hash: null,
+        kiosk_pin_failed_attempts: 0,
+        kiosk_pin_locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', caller.employee.id)
+
+    if (error) throw error
+
+    return apiSuccess({ has_pin: false })
+  } catch (error) {
+    console.error('❌ Error en DELETE /api/v1/auth/me/kiosk-pin:', error)
+    return apiError('Error al eliminar el PIN de quiosco', 500)
+  }
+}
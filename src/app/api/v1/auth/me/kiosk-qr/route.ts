@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { createEmployeeQrCode } from '@/lib/kiosk'
+import { apiError, apiSuccess, authenticateApiRequest, requireSession } from '@/lib/api'
+
+// API Route: GET /api/v1/auth/me/kiosk-qr
+// Código del QR rotativo del usuario para identificarse en las terminales de
+// quiosco (requiere sesión); caduca cada KIOSK_CONFIG.QR_PERIOD_SECONDS
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const { code, expiresAt } = createEmployeeQrCode(caller.employee.id)
+
+    return apiSuccess({ code, expires_at: expiresAt })
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/auth/me/kiosk-qr:', error)
+    return apiError('Error al generar el código QR', 500)
+  }
+}
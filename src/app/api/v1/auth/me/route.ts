@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess, authenticateApiRequest } from '@/lib/api'
+
+// API Route: GET /api/v1/auth/me
+// Usuario autenticado y sus permisos efectivos; permite a una integración
+// comprobar su credencial antes de consultar otros recursos
+// Con token de API devuelve su creador y los permisos limitados a sus scopes
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const { employee, permissions, tokenId } = caller
+
+    return apiSuccess({
+      id: employee.id,
+      email: employee.email,
+      full_name: employee.full_name,
+      role: employee.role,
+      organization_id: employee.organization_id,
+      permissions: Array.from(permissions),
+      token_id: tokenId,
+    })
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/auth/me:', error)
+    return apiError('Error al obtener el usuario', 500)
+  }
+}
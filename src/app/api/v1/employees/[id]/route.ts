@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import { EMPLOYEE_API_SELECT, apiError, apiSuccess, authenticateApiRequest, requirePermission } from '@/lib/api'
+
+// API Route: GET /api/v1/employees/:id
+// Un empleado de la organización del usuario (requiere EMPLOYEES_VIEW)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const forbidden = requirePermission(caller, PERMISSIONS.EMPLOYEES_VIEW)
+    if (forbidden) return forbidden
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('employees')
+      .select(EMPLOYEE_API_SELECT)
+      .eq('organization_id', caller.employee.organization_id)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Empleado no encontrado', 404)
+
+    return apiSuccess(data)
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/employees/:id:', error)
+    return apiError('Error al obtener el empleado', 500)
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { PERMISSIONS, ROLES } from '@/lib/constants'
+import {
+  EMPLOYEE_API_SELECT,
+  apiError,
+  apiPaginated,
+  authenticateApiRequest,
+  booleanParam,
+  commaSeparated,
+  getPageRange,
+  paginationSchema,
+  parseQuery,
+  requirePermission,
+} from '@/lib/api'
+import type { EmployeeFilters, EmployeeRole } from '@/types/database'
+
+// API Route: GET /api/v1/employees
+// Empleados de la organización del usuario (requiere EMPLOYEES_VIEW)
+// Filtros (EmployeeFilters): department_id, role=manager,hr, is_active, search,
+// page, limit, sortBy, sortOrder
+
+const employeeFiltersSchema = paginationSchema(['full_name', 'employee_code', 'hire_date', 'created_at']).extend({
+  department_id: z.string().uuid().optional(),
+  role: commaSeparated(z.enum(Object.values(ROLES) as [EmployeeRole, ...EmployeeRole[]])).optional(),
+  is_active: booleanParam.optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const forbidden = requirePermission(caller, PERMISSIONS.EMPLOYEES_VIEW)
+    if (forbidden) return forbidden
+
+    const parsed = parseQuery(request, employeeFiltersSchema)
+    if (parsed instanceof Response) return parsed
+    const filters: EmployeeFilters = parsed
+
+    let query = caller.supabase
+      .from('employees')
+      .select(EMPLOYEE_API_SELECT, { count: 'exact' })
+      .eq('organization_id', caller.employee.organization_id)
+
+    if (filters.department_id) query = query.eq('department_id', filters.department_id)
+    if (filters.role?.length) query = query.in('role', filters.role)
+    if (filters.is_active !== undefined) query = query.eq('is_active', filters.is_active)
+    if (filters.search) {
+      // Sin comas ni paréntesis, que tienen significado en el filtro or()
+      const term = filters.search.replace(/[,()]/g, ' ')
+      query = query.or(`full_name.ilike.%${term}%,email.ilike.%${term}%`)
+    }
+
+    const [from, to] = getPageRange(parsed)
+    const { data, count, error } = await query
+      .order(parsed.sortBy || 'full_name', { ascending: parsed.sortOrder !== 'desc' })
+      .range(from, to)
+
+    if (error) throw error
+
+    return apiPaginated(data || [], parsed, count || 0)
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/employees:', error)
+    return apiError('Error al obtener empleados', 500)
+  }
+}
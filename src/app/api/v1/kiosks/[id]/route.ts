@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import {
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  KIOSK_DEVICE_SELECT,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: DELETE /api/v1/kiosks/:id
+// Revoca una terminal de quiosco (requiere sesión y SETTINGS_EDIT)
+// El registro se conserva: las asistencias guardan qué terminal se usó
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('kiosk_devices')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .is('revoked_at', null)
+      .select(KIOSK_DEVICE_SELECT)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Terminal no encontrada o ya revocada', 404)
+
+    return apiSuccess(data)
+  } catch (error) {
+    console.error('❌ Error en DELETE /api/v1/kiosks/:id:', error)
+    return apiError('Error al revocar la terminal', 500)
+  }
+}
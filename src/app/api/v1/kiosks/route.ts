@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { PERMISSIONS } from '@/lib/constants'
+import { generateKioskToken } from '@/lib/kiosk'
+import {
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  KIOSK_DEVICE_SELECT,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: /api/v1/kiosks
+// Terminales de quiosco de la organización (requiere sesión y SETTINGS_EDIT)
+// GET lista las terminales; POST autoriza una y devuelve su token en claro una única vez
+
+const createKioskSchema = z.object({
+  name: z.string().trim().min(1, 'El nombre es obligatorio').max(100),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { data, error } = await caller.supabase
+      .from('kiosk_devices')
+      .select(KIOSK_DEVICE_SELECT)
+      .eq('organization_id', caller.employee.organization_id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return apiSuccess(data || [])
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/kiosks:', error)
+    return apiError('Error al obtener las terminales', 500)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const parsed = createKioskSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateKioskToken()
+
+    const { data, error } = await caller.supabase
+      .from('kiosk_devices')
+      .insert({
+        organization_id: caller.employee.organization_id,
+        name: parsed.data.name,
+        token_prefix: tokenPrefix,
+        token_hash: tokenHash,
+        created_by: caller.employee.id,
+      })
+      .select(KIOSK_DEVICE_SELECT)
+      .single()
+
+    if (error) throw error
+
+    return apiSuccess({ ...data, token }, 201)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/kiosks:', error)
+    return apiError('Error al autorizar la terminal', 500)
+  }
+}
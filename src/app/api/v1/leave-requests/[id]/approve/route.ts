@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { apiError, apiSuccess, authenticateApiRequest, requireSession } from '@/lib/api'
+import { LeaveService, type LeaveResponse } from '@/services/leave.service'
+import { SystemConfigService } from '@/services/system-config.service'
+
+// API Route: POST /api/v1/leave-requests/:id/approve
+// Aprueba una solicitud pendiente y registra sus días en attendances (requiere sesión)
+// Un revisor con ATTENDANCE_APPROVE aprueba las de su equipo u organización; el
+// propio solicitante solo si la política tiene aprobación automática
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const approveSchema = z.object({
+  notes: z.string().trim().max(500).optional(),
+})
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const parsed = approveSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const { id } = await params
+    const { employee, supabase } = caller
+
+    const { data: leaveRequest, error } = await supabase
+      .from('leave_requests')
+      .select('id, employee_id')
+      .eq('id', id)
+      .eq('organization_id', employee.organization_id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!leaveRequest) return apiError('Solicitud no encontrada', 404)
+
+    const leaveService = new LeaveService(supabase)
+    let result: LeaveResponse
+
+    if (leaveRequest.employee_id === employee.id) {
+      const policy = await new SystemConfigService(supabase).getLeavePolicy(employee.organization_id)
+      if (!policy.auto_approve) {
+        return apiError('No puedes revisar tu propia solicitud', 403)
+      }
+      result = await leaveService.approveLeaveRequest(id, null, 'Aprobación automática')
+    } else {
+      result = await leaveService.approveLeaveRequest(id, employee.id, parsed.data.notes)
+    }
+
+    if (!result.success) {
+      return apiError(result.message, 409)
+    }
+
+    return apiSuccess({ message: result.message, request: result.data })
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/leave-requests/:id/approve:', error)
+    return apiError('Error al aprobar la solicitud', 500)
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import {
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: /api/v1/report-presets/:id
+// DELETE elimina un filtro guardado: los personales solo quien los creó;
+// los de organización también quien tenga SETTINGS_EDIT
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.REPORTS_VIEW)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data: preset, error: presetError } = await caller.supabase
+      .from('report_filter_presets')
+      .select('id, scope, created_by')
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .maybeSingle()
+
+    if (presetError) throw presetError
+
+    // Un preset personal ajeno no existe para quien lo pide
+    const isOwner = preset?.created_by === caller.employee.id
+    if (!preset || (preset.scope === 'personal' && !isOwner)) {
+      return apiError('Filtro guardado no encontrado', 404)
+    }
+
+    if (!isOwner) {
+      const forbidden = requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+      if (forbidden) return forbidden
+    }
+
+    const { error } = await caller.supabase
+      .from('report_filter_presets')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+
+    if (error) throw error
+
+    return apiSuccess({ id })
+  } catch (error) {
+    console.error('❌ Error en DELETE /api/v1/report-presets/:id:', error)
+    return apiError('Error al eliminar el filtro guardado', 500)
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { PERMISSIONS } from '@/lib/constants'
+import { savedReportFiltersSchema } from '@/lib/report-filters'
+import {
+  REPORT_FILTER_PRESET_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: /api/v1/report-presets
+// Filtros de reporte guardados (requiere sesión y REPORTS_VIEW)
+// GET lista los personales del usuario y los de la organización
+// POST guarda uno; compartirlo con la organización requiere SETTINGS_EDIT
+
+const createPresetSchema = z.object({
+  name: z.string().trim().min(1, 'El nombre es obligatorio').max(80),
+  scope: z.enum(['personal', 'organization']),
+  filters: savedReportFiltersSchema,
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.REPORTS_VIEW)
+    if (denied) return denied
+
+    const { data, error } = await caller.supabase
+      .from('report_filter_presets')
+      .select(REPORT_FILTER_PRESET_SELECT)
+      .eq('organization_id', caller.employee.organization_id)
+      .or(`scope.eq.organization,created_by.eq.${caller.employee.id}`)
+      .order('name')
+
+    if (error) throw error
+
+    const canManageShared = caller.permissions.has(PERMISSIONS.SETTINGS_EDIT)
+    return apiSuccess((data || []).map(preset => ({
+      ...preset,
+      can_delete: preset.created_by === caller.employee.id || (preset.scope === 'organization' && canManageShared),
+    })))
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/report-presets:', error)
+    return apiError('Error al obtener los filtros guardados', 500)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.REPORTS_VIEW)
+    if (denied) return denied
+
+    const parsed = createPresetSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+    const preset = parsed.data
+
+    if (preset.scope === 'organization') {
+      const forbidden = requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+      if (forbidden) return forbidden
+    }
+
+    // Un nombre por ámbito: los personales de cada usuario y los compartidos
+    let duplicateQuery = caller.supabase
+      .from('report_filter_presets')
+      .select('id')
+      .eq('organization_id', caller.employee.organization_id)
+      .eq('scope', preset.scope)
+      .eq('name', preset.name)
+
+    if (preset.scope === 'personal') {
+      duplicateQuery = duplicateQuery.eq('created_by', caller.employee.id)
+    }
+
+    const { data: duplicate, error: duplicateError } = await duplicateQuery.limit(1).maybeSingle()
+    if (duplicateError) throw duplicateError
+    if (duplicate) return apiError('Ya existe un filtro guardado con ese nombre', 409)
+
+    const { data, error } = await caller.supabase
+      .from('report_filter_presets')
+      .insert({
+        ...preset,
+        organization_id: caller.employee.organization_id,
+        created_by: caller.employee.id,
+      })
+      .select(REPORT_FILTER_PRESET_SELECT)
+      .single()
+
+    if (error) throw error
+
+    return apiSuccess({ ...data, can_delete: true }, 201)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/report-presets:', error)
+    return apiError('Error al guardar el filtro', 500)
+  }
+}
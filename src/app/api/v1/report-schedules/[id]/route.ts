@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { PERMISSIONS } from '@/lib/constants'
+import { checkReportRecipients } from '@/lib/report-delivery'
+import { getNextReportRunAt, reportScheduleSchema } from '@/lib/report-schedules'
+import {
+  REPORT_SCHEDULE_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+import { SystemConfigService } from '@/services/system-config.service'
+
+// API Route: /api/v1/report-schedules/:id
+// PATCH cambia cualquier campo de la definición o is_active; DELETE la elimina
+// junto con su historial (requiere sesión y SETTINGS_EDIT)
+// Tras editar se recalcula el próximo envío: un reporte reactivado no envía
+// los períodos que se perdió mientras estuvo pausado
+
+const updateScheduleSchema = z.object({
+  is_active: z.boolean().optional(),
+}).passthrough()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const body = updateScheduleSchema.safeParse(await request.json().catch(() => null))
+    if (!body.success) {
+      return apiError(body.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const { id } = await params
+    const { is_active, ...changes } = body.data
+
+    const { data: current, error: currentError } = await caller.supabase
+      .from('report_schedules')
+      .select(REPORT_SCHEDULE_SELECT)
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .maybeSingle()
+
+    if (currentError) throw currentError
+    if (!current) return apiError('Reporte programado no encontrado', 404)
+
+    // Las reglas entre campos se validan sobre la definición completa
+    const parsed = reportScheduleSchema.safeParse({ ...current, ...changes })
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+    const schedule = parsed.data
+
+    const recipientsError = await checkReportRecipients(schedule.transport, schedule.recipients)
+    if (recipientsError) return apiError(recipientsError, 400)
+
+    const timezone = await new SystemConfigService(caller.supabase).getOrganizationTimezone(caller.employee.organization_id)
+
+    const { data, error } = await caller.supabase
+      .from('report_schedules')
+      .update({
+        ...schedule,
+        day_of_week: schedule.frequency === 'weekly' ? schedule.day_of_week : null,
+        day_of_month: schedule.frequency === 'monthly' ? schedule.day_of_month : null,
+        recipients: schedule.transport === 'directory' ? [] : Array.from(new Set(schedule.recipients)),
+        ...(is_active !== undefined && { is_active }),
+        next_run_at: getNextReportRunAt(schedule, timezone).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .select(REPORT_SCHEDULE_SELECT)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Reporte programado no encontrado', 404)
+
+    return apiSuccess(data)
+  } catch (error) {
+    console.error('❌ Error en PATCH /api/v1/report-schedules/:id:', error)
+    return apiError('Error al actualizar el reporte programado', 500)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('report_schedules')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Reporte programado no encontrado', 404)
+
+    return apiSuccess({ id: data.id })
+  } catch (error) {
+    console.error('❌ Error en DELETE /api/v1/report-schedules/:id:', error)
+    return apiError('Error al eliminar el reporte programado', 500)
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import {
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+import { ReportScheduleRunnerService } from '@/services/report-schedule-runner.service'
+
+// API Route: POST /api/v1/report-schedules/:id/run
+// Genera y entrega el reporte en el momento, sin cambiar su próximo envío
+// (requiere sesión y SETTINGS_EDIT). Devuelve la ejecución registrada
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const run = await new ReportScheduleRunnerService(caller.supabase)
+      .runScheduleNow(id, caller.employee.organization_id)
+
+    if (!run) return apiError('Reporte programado no encontrado', 404)
+
+    return apiSuccess(run)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/report-schedules/:id/run:', error)
+    return apiError('Error al enviar el reporte', 500)
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS, REPORT_SCHEDULE_CONFIG } from '@/lib/constants'
+import {
+  REPORT_RUN_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: GET /api/v1/report-schedules/:id/runs
+// Historial de las últimas ejecuciones de un reporte programado
+// (requiere sesión y SETTINGS_EDIT)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('report_runs')
+      .select(REPORT_RUN_SELECT)
+      .eq('schedule_id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .order('started_at', { ascending: false })
+      .limit(REPORT_SCHEDULE_CONFIG.RUN_LOG_LIMIT)
+
+    if (error) throw error
+
+    return apiSuccess(data || [])
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/report-schedules/:id/runs:', error)
+    return apiError('Error al obtener el historial de envíos', 500)
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import { checkReportRecipients } from '@/lib/report-delivery'
+import { getNextReportRunAt, reportScheduleSchema } from '@/lib/report-schedules'
+import {
+  REPORT_SCHEDULE_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+import { SystemConfigService } from '@/services/system-config.service'
+
+// API Route: /api/v1/report-schedules
+// Reportes programados de la organización (requiere sesión y SETTINGS_EDIT)
+// GET lista las definiciones; POST crea una y calcula su primer envío
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { data, error } = await caller.supabase
+      .from('report_schedules')
+      .select(REPORT_SCHEDULE_SELECT)
+      .eq('organization_id', caller.employee.organization_id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return apiSuccess(data || [])
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/report-schedules:', error)
+    return apiError('Error al obtener los reportes programados', 500)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const parsed = reportScheduleSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+    const schedule = parsed.data
+
+    const recipientsError = await checkReportRecipients(schedule.transport, schedule.recipients)
+    if (recipientsError) return apiError(recipientsError, 400)
+
+    const timezone = await new SystemConfigService(caller.supabase).getOrganizationTimezone(caller.employee.organization_id)
+
+    const { data, error } = await caller.supabase
+      .from('report_schedules')
+      .insert({
+        ...schedule,
+        organization_id: caller.employee.organization_id,
+        day_of_week: schedule.frequency === 'weekly' ? schedule.day_of_week : null,
+        day_of_month: schedule.frequency === 'monthly' ? schedule.day_of_month : null,
+        recipients: schedule.transport === 'directory' ? [] : Array.from(new Set(schedule.recipients)),
+        is_active: true,
+        next_run_at: getNextReportRunAt(schedule, timezone).toISOString(),
+        created_by: caller.employee.id,
+      })
+      .select(REPORT_SCHEDULE_SELECT)
+      .single()
+
+    if (error) throw error
+
+    return apiSuccess(data, 201)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/report-schedules:', error)
+    return apiError('Error al crear el reporte programado', 500)
+  }
+}
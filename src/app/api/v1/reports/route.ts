@@ -0,0 +1,156 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { ATTENDANCE_STATUS, LEAVE_STATUSES, METRICS, PERMISSIONS, PRESENT_STATUSES } from '@/lib/constants'
+import {
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  dateParam,
+  parseQuery,
+  requirePermission,
+  resolveEmployeeIds,
+} from '@/lib/api'
+import { WebhookService } from '@/services/webhook.service'
+
+// API Route: GET /api/v1/reports
+// Resumen de asistencia por empleado en un periodo, pensado para nómina
+// (requiere REPORTS_VIEW; mismo alcance que /api/v1/attendance)
+// Parámetros: date_from y date_to (obligatorios), employee_id, department_id
+// Emite el webhook report_generated
+
+/**
+ * Filas por consulta: PostgREST limita el tamaño de cada respuesta
+ */
+const FETCH_BATCH_SIZE = 1000
+
+const reportFiltersSchema = z.object({
+  date_from: dateParam,
+  date_to: dateParam,
+  employee_id: z.string().uuid().optional(),
+  department_id: z.string().uuid().optional(),
+}).refine(filters => filters.date_from <= filters.date_to, {
+  message: 'date_from debe ser anterior o igual a date_to',
+  path: ['date_from'],
+})
+
+interface ReportAttendanceRow {
+  employee_id: string
+  status: string
+  check_in_time: string | null
+  work_hours: number | null
+  overtime_hours: number | null
+  employee: { full_name: string; employee_code: string } | null
+}
+
+interface EmployeeAttendanceSummary {
+  employee_id: string
+  full_name: string
+  employee_code: string
+  days_present: number
+  late_days: number
+  absent_days: number
+  leave_days: number
+  work_hours: number
+  overtime_hours: number
+}
+
+function summarizeByEmployee(rows: ReportAttendanceRow[]): EmployeeAttendanceSummary[] {
+  const summaries = new Map<string, EmployeeAttendanceSummary>()
+
+  for (const row of rows) {
+    let summary = summaries.get(row.employee_id)
+    if (!summary) {
+      summary = {
+        employee_id: row.employee_id,
+        full_name: row.employee?.full_name || '',
+        employee_code: row.employee?.employee_code || '',
+        days_present: 0,
+        late_days: 0,
+        absent_days: 0,
+        leave_days: 0,
+        work_hours: 0,
+        overtime_hours: 0,
+      }
+      summaries.set(row.employee_id, summary)
+    }
+
+    if (LEAVE_STATUSES.includes(row.status)) {
+      summary.leave_days++
+    } else if (PRESENT_STATUSES.includes(row.status) || row.check_in_time) {
+      summary.days_present++
+      if (row.status === ATTENDANCE_STATUS.LATE) summary.late_days++
+    } else if (row.status === ATTENDANCE_STATUS.ABSENT) {
+      summary.absent_days++
+    }
+
+    summary.work_hours += row.work_hours || 0
+    summary.overtime_hours += row.overtime_hours || 0
+  }
+
+  return Array.from(summaries.values())
+    .map(summary => ({
+      ...summary,
+      work_hours: Math.round(summary.work_hours * 100) / 100,
+      overtime_hours: Math.round(summary.overtime_hours * 100) / 100,
+    }))
+    .sort((a, b) => a.full_name.localeCompare(b.full_name))
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const forbidden = requirePermission(caller, PERMISSIONS.REPORTS_VIEW)
+    if (forbidden) return forbidden
+
+    const filters = parseQuery(request, reportFiltersSchema)
+    if (filters instanceof Response) return filters
+
+    const employeeIds = await resolveEmployeeIds(caller, filters)
+    const rows: ReportAttendanceRow[] = []
+
+    if (employeeIds?.length !== 0) {
+      for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+        let query = caller.supabase
+          .from('attendances')
+          .select('employee_id, status, check_in_time, work_hours, overtime_hours, employee:employees!employee_id (full_name, employee_code)')
+          .eq('organization_id', caller.employee.organization_id)
+          .gte('attendance_date', filters.date_from)
+          .lte('attendance_date', filters.date_to)
+
+        if (employeeIds) query = query.in('employee_id', employeeIds)
+
+        const { data, error } = await query
+          .order('id')
+          .range(from, from + FETCH_BATCH_SIZE - 1)
+
+        if (error) throw error
+
+        const batch = (data || []) as unknown as ReportAttendanceRow[]
+        rows.push(...batch)
+        if (batch.length < FETCH_BATCH_SIZE) break
+      }
+    }
+
+    const employees = summarizeByEmployee(rows)
+
+    await new WebhookService(caller.supabase).emit(caller.employee.organization_id, METRICS.EVENTS.REPORT_GENERATED, {
+      report: 'attendance_summary',
+      source: 'api',
+      date_from: filters.date_from,
+      date_to: filters.date_to,
+      employee_count: employees.length,
+      generated_by: caller.employee.id,
+    })
+
+    return apiSuccess({
+      date_from: filters.date_from,
+      date_to: filters.date_to,
+      employees,
+    })
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/reports:', error)
+    return apiError('Error al generar el reporte', 500)
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import { apiError, apiSuccess, authenticateApiRequest, requirePermission } from '@/lib/api'
+import { SystemConfigService } from '@/services/system-config.service'
+
+// API Route: GET /api/v1/settings
+// Configuración de la organización del usuario: zona horaria, política de
+// trabajo activa, política de permisos y ajustes del sistema (requiere SETTINGS_VIEW)
+// Parámetro opcional: category=<categoría de system_settings>
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const forbidden = requirePermission(caller, PERMISSIONS.SETTINGS_VIEW)
+    if (forbidden) return forbidden
+
+    const organizationId = caller.employee.organization_id
+    const category = request.nextUrl.searchParams.get('category') || undefined
+    const systemConfigService = new SystemConfigService(caller.supabase)
+
+    const [timezone, workPolicy, leavePolicy, settings] = await Promise.all([
+      systemConfigService.getOrganizationTimezone(organizationId),
+      systemConfigService.getActiveWorkPolicy(organizationId),
+      systemConfigService.getLeavePolicy(organizationId),
+      systemConfigService.getSystemSettings(organizationId, category),
+    ])
+
+    return apiSuccess({
+      timezone,
+      work_policy: workPolicy,
+      leave_policy: leavePolicy,
+      settings,
+    })
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/settings:', error)
+    return apiError('Error al obtener la configuración', 500)
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import {
+  API_TOKEN_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: DELETE /api/v1/tokens/:id
+// Revoca un token de API de la organización (requiere sesión y SETTINGS_EDIT)
+// El registro se conserva para auditoría con revoked_at
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('api_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .is('revoked_at', null)
+      .select(API_TOKEN_SELECT)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Token no encontrado o ya revocado', 404)
+
+    return apiSuccess(data)
+  } catch (error) {
+    console.error('❌ Error en DELETE /api/v1/tokens/:id:', error)
+    return apiError('Error al revocar el token de API', 500)
+  }
+}
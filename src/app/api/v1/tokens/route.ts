@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { API_TOKEN_EXPIRATION_DAYS, PERMISSIONS } from '@/lib/constants'
+import { isPermission } from '@/lib/permissions'
+import { generateApiToken } from '@/lib/api-tokens'
+import {
+  API_TOKEN_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: /api/v1/tokens
+// Tokens de API de la organización (requiere sesión y SETTINGS_EDIT)
+// GET lista los tokens; POST crea uno y devuelve el token en claro una única vez
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'El nombre es obligatorio').max(100),
+  scopes: z.array(z.string().refine(isPermission, 'Scope inválido')).min(1, 'Selecciona al menos un scope'),
+  expiresInDays: z.number().refine(
+    days => (API_TOKEN_EXPIRATION_DAYS as readonly number[]).includes(days),
+    'Vigencia inválida'
+  ),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { data, error } = await caller.supabase
+      .from('api_tokens')
+      .select(API_TOKEN_SELECT)
+      .eq('organization_id', caller.employee.organization_id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return apiSuccess(data || [])
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/tokens:', error)
+    return apiError('Error al obtener los tokens de API', 500)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const parsed = createTokenSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+    const { name, scopes, expiresInDays } = parsed.data
+
+    // Un token no puede tener permisos que su creador no tiene
+    const ungranted = scopes.filter(scope => isPermission(scope) && !caller.permissions.has(scope))
+    if (ungranted.length > 0) {
+      return apiError(`No puedes conceder permisos que no tienes: ${ungranted.join(', ')}`, 403)
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateApiToken()
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+    const { data, error } = await caller.supabase
+      .from('api_tokens')
+      .insert({
+        organization_id: caller.employee.organization_id,
+        name,
+        token_prefix: tokenPrefix,
+        token_hash: tokenHash,
+        scopes: Array.from(new Set(scopes)),
+        expires_at: expiresAt.toISOString(),
+        created_by: caller.employee.id,
+      })
+      .select(API_TOKEN_SELECT)
+      .single()
+
+    if (error) throw error
+
+    return apiSuccess({ ...data, token }, 201)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/tokens:', error)
+    return apiError('Error al crear el token de API', 500)
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import {
+  WEBHOOK_DELIVERY_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: GET /api/v1/webhooks/:id/deliveries
+// Registro de las últimas entregas de un endpoint (requiere sesión y SETTINGS_EDIT)
+
+const DELIVERY_LOG_LIMIT = 50
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_SELECT)
+      .eq('endpoint_id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT)
+
+    if (error) throw error
+
+    return apiSuccess(data || [])
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/webhooks/:id/deliveries:', error)
+    return apiError('Error al obtener el registro de entregas', 500)
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { PERMISSIONS } from '@/lib/constants'
+import { checkOutboundUrl } from '@/lib/outbound-url'
+import { webhookEndpointSchema } from '@/lib/webhooks'
+import {
+  WEBHOOK_ENDPOINT_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: /api/v1/webhooks/:id
+// PATCH cambia URL, descripción, eventos o is_active; DELETE elimina el endpoint
+// (requiere sesión y SETTINGS_EDIT)
+
+const updateWebhookSchema = webhookEndpointSchema.partial().extend({
+  is_active: z.boolean().optional(),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const parsed = updateWebhookSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const { id } = await params
+    const { url, description, events, is_active } = parsed.data
+
+    if (url !== undefined) {
+      const urlError = await checkOutboundUrl(url)
+      if (urlError) return apiError(urlError, 400)
+    }
+
+    const { data, error } = await caller.supabase
+      .from('webhook_endpoints')
+      .update({
+        ...(url !== undefined && { url }),
+        ...(description !== undefined && { description: description || null }),
+        ...(events !== undefined && { events: Array.from(new Set(events)) }),
+        ...(is_active !== undefined && { is_active }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .select(WEBHOOK_ENDPOINT_SELECT)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Webhook no encontrado', 404)
+
+    return apiSuccess(data)
+  } catch (error) {
+    console.error('❌ Error en PATCH /api/v1/webhooks/:id:', error)
+    return apiError('Error al actualizar el webhook', 500)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { id } = await params
+
+    const { data, error } = await caller.supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', caller.employee.organization_id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return apiError('Webhook no encontrado', 404)
+
+    return apiSuccess({ id: data.id })
+  } catch (error) {
+    console.error('❌ Error en DELETE /api/v1/webhooks/:id:', error)
+    return apiError('Error al eliminar el webhook', 500)
+  }
+}
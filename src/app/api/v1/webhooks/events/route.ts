@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import { apiError, apiSuccess, authenticateApiRequest, requirePermission, requireSession } from '@/lib/api'
+import { getEmployeeEventPayload, webhookEventRequestSchema } from '@/lib/webhooks'
+import { WebhookService } from '@/services/webhook.service'
+
+// API Route: POST /api/v1/webhooks/events
+// Emite el evento de una acción hecha desde el navegador (requiere sesión)
+// El navegador no escribe en webhook_events: aquí se exige el permiso de la
+// acción y el evento se guarda con el cliente de servicio en la organización
+// del usuario; los datos del empleado se leen de la base, no del cuerpo
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller)
+    if (denied) return denied
+
+    const parsed = webhookEventRequestSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+
+    const organizationId = caller.employee.organization_id
+    const webhooks = new WebhookService(caller.supabase)
+    const body = parsed.data
+
+    switch (body.event) {
+      case 'employee_updated':
+      case 'employee_deactivated': {
+        const forbidden = requirePermission(caller, PERMISSIONS.EMPLOYEES_EDIT)
+        if (forbidden) return forbidden
+
+        const payload = await getEmployeeEventPayload(caller.supabase, organizationId, body.employee_id)
+        if (!payload) return apiError('Empleado no encontrado', 404)
+
+        if (body.event === 'employee_deactivated' && payload.is_active) {
+          return apiError('El empleado sigue activo', 409)
+        }
+
+        await webhooks.emit(organizationId, body.event, payload)
+        break
+      }
+      case 'settings_changed': {
+        const forbidden = requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+        if (forbidden) return forbidden
+
+        await webhooks.emit(organizationId, body.event, { section: body.section, changes: body.changes })
+        break
+      }
+      case 'report_generated': {
+        const forbidden = requirePermission(caller, PERMISSIONS.REPORTS_VIEW)
+        if (forbidden) return forbidden
+
+        const { event, ...details } = body
+        await webhooks.emit(organizationId, event, { ...details, source: 'export', generated_by: caller.employee.id })
+        break
+      }
+    }
+
+    return apiSuccess({ event: body.event }, 202)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/webhooks/events:', error)
+    return apiError('Error al emitir el evento', 500)
+  }
+}
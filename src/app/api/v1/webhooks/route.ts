@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server'
+import { PERMISSIONS } from '@/lib/constants'
+import { checkOutboundUrl } from '@/lib/outbound-url'
+import { generateWebhookSecret, webhookEndpointSchema } from '@/lib/webhooks'
+import {
+  WEBHOOK_ENDPOINT_SELECT,
+  apiError,
+  apiSuccess,
+  authenticateApiRequest,
+  requirePermission,
+  requireSession,
+} from '@/lib/api'
+
+// API Route: /api/v1/webhooks
+// Endpoints de webhook de la organización (requiere sesión y SETTINGS_EDIT)
+// GET lista los endpoints; POST registra uno y devuelve su secreto una única vez
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const { data, error } = await caller.supabase
+      .from('webhook_endpoints')
+      .select(WEBHOOK_ENDPOINT_SELECT)
+      .eq('organization_id', caller.employee.organization_id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return apiSuccess(data || [])
+  } catch (error) {
+    console.error('❌ Error en GET /api/v1/webhooks:', error)
+    return apiError('Error al obtener los webhooks', 500)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateApiRequest(request)
+    if (caller instanceof Response) return caller
+
+    const denied = requireSession(caller) || requirePermission(caller, PERMISSIONS.SETTINGS_EDIT)
+    if (denied) return denied
+
+    const parsed = webhookEndpointSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiError(parsed.error.issues.map(issue => issue.message).join('; '), 400)
+    }
+    const { url, description, events } = parsed.data
+
+    const urlError = await checkOutboundUrl(url)
+    if (urlError) return apiError(urlError, 400)
+
+    const secret = generateWebhookSecret()
+
+    const { data, error } = await caller.supabase
+      .from('webhook_endpoints')
+      .insert({
+        organization_id: caller.employee.organization_id,
+        url,
+        description: description || null,
+        events: Array.from(new Set(events)),
+        secret,
+        is_active: true,
+        created_by: caller.employee.id,
+      })
+      .select(WEBHOOK_ENDPOINT_SELECT)
+      .single()
+
+    if (error) throw error
+
+    return apiSuccess({ ...data, secret }, 201)
+  } catch (error) {
+    console.error('❌ Error en POST /api/v1/webhooks:', error)
+    return apiError('Error al registrar el webhook', 500)
+  }
+}
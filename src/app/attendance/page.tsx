@@ -3,6 +3,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { attendanceService } from '@/services/attendance.service';
+import { attendancePunchService } from '@/services/attendance-punch.service';
+import { systemConfigService } from '@/services/system-config.service';
+import { DEFAULT_TIMEZONE } from '@/lib/constants';
+import { formatDateKey, formatTimeInTimezone, getTodayInTimezone } from '@/lib/timezone';
+import { getCurrentLocationData } from '@/lib/geolocation';
+import { QrScanner } from '@/components/attendance/QrScanner';
 
 interface Employee {
   id: string;
@@ -29,6 +36,10 @@ export default function AttendancePage() {
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE);
+  const [requireOfficeQr, setRequireOfficeQr] = useState(false);
+  const [scanningOfficeQr, setScanningOfficeQr] = useState(false);
 
   const checkAuthAndLoadData = useCallback(async () => {
     try {
@@ -57,6 +68,14 @@ export default function AttendancePage() {
 
       setEmployee(empData);
 
+      // La fecha laboral se calcula en la zona horaria de la organización
+      const orgTimezone = await systemConfigService.getOrganizationTimezone(empData.organization_id);
+      setTimezone(orgTimezone);
+
+      // La política puede exigir escanear el QR de la oficina para entrar
+      const policy = await systemConfigService.getActiveWorkPolicy(empData.organization_id);
+      setRequireOfficeQr(!!policy?.require_office_qr);
+
       // Cargar asistencia de hoy
       await loadTodayAttendance(empData.id);
       
@@ -79,18 +98,11 @@ export default function AttendancePage() {
   }, [checkAuthAndLoadData]);
 
   const loadTodayAttendance = async (employeeId: string) => {
-    const supabase = createSupabaseClient();
-    const today = new Date().toISOString().split('T')[0];
-
-    const { data, error } = await supabase
-      .from('attendances')
-      .select('*')
-      .eq('employee_id', employeeId)
-      .eq('attendance_date', today)
-      .single();
+    // Incluye el turno nocturno que empezó ayer y sigue abierto
+    const data = await attendanceService.getTodayAttendance(employeeId);
 
-    if (!error && data) {
-      setTodayAttendance(data);
+    if (data) {
+      setTodayAttendance(data as unknown as AttendanceRecord);
     }
   };
 
@@ -109,39 +121,29 @@ export default function AttendancePage() {
     }
   };
 
-  const handleCheckIn = async () => {
+  const handleCheckIn = async (officeQrCode?: string) => {
     if (!employee) return;
 
+    if (requireOfficeQr && !officeQrCode) {
+      setScanningOfficeQr(true);
+      return;
+    }
+
+    setScanningOfficeQr(false);
     setActionLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
-      const supabase = createSupabaseClient();
-      const now = new Date();
-      const today = now.toISOString().split('T')[0];
-      
-      const attendanceData = {
-        employee_id: employee.id,
-        organization_id: employee.organization_id,
-        attendance_date: today,
-        check_in_time: now.toISOString(),
-        status: 'present',
-        work_hours: 0,
-        break_duration: 0,
-        overtime_hours: 0
-      };
-
-      const { data, error } = await supabase
-        .from('attendances')
-        .insert(attendanceData)
-        .select()
-        .single();
+      const location = await getCurrentLocationData();
+      const result = await attendancePunchService.checkIn(location, officeQrCode);
 
-      if (error) {
-        throw error;
+      if (!result.success) {
+        throw new Error(result.message);
       }
 
-      setTodayAttendance(data);
+      setTodayAttendance(result.data as unknown as AttendanceRecord);
+      setNotice(result.message);
       await loadRecentAttendances(employee.id);
 
     } catch (err) {
@@ -157,28 +159,18 @@ export default function AttendancePage() {
 
     setActionLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
-      const supabase = createSupabaseClient();
-      const now = new Date();
-      const checkInTime = new Date(todayAttendance.check_in_time);
-      const workHours = (now.getTime() - checkInTime.getTime()) / (1000 * 60 * 60);
-
-      const { data, error } = await supabase
-        .from('attendances')
-        .update({
-          check_out_time: now.toISOString(),
-          work_hours: Math.round(workHours * 100) / 100
-        })
-        .eq('id', todayAttendance.id)
-        .select()
-        .single();
+      const location = await getCurrentLocationData();
+      const result = await attendancePunchService.checkOut(location);
 
-      if (error) {
-        throw error;
+      if (!result.success) {
+        throw new Error(result.message);
       }
 
-      setTodayAttendance(data);
+      setTodayAttendance(result.data as unknown as AttendanceRecord);
+      setNotice(result.message);
       await loadRecentAttendances(employee.id);
 
     } catch (err) {
@@ -190,14 +182,11 @@ export default function AttendancePage() {
   };
 
   const formatTime = (timeString: string) => {
-    return new Date(timeString).toLocaleTimeString('es-ES', {
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+    return formatTimeInTimezone(timeString, timezone, 'es-ES');
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('es-ES', {
+  const formatDate = (dateKey: string) => {
+    return formatDateKey(dateKey, 'es-ES', {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -249,14 +238,14 @@ export default function AttendancePage() {
             </div>
             <div className="text-right">
               <p className="text-2xl font-bold text-blue-600">
-                {new Date().toLocaleTimeString('es-ES', {
+                {formatTimeInTimezone(new Date().toISOString(), timezone, 'es-ES', {
                   hour: '2-digit',
                   minute: '2-digit',
                   second: '2-digit'
                 })}
               </p>
               <p className="text-sm text-gray-500">
-                {formatDate(new Date().toISOString())}
+                {formatDate(getTodayInTimezone(timezone))}
               </p>
             </div>
           </div>
@@ -271,6 +260,13 @@ export default function AttendancePage() {
           </div>
         )}
 
+        {/* Resultado del último registro */}
+        {notice && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+            <p>{notice}</p>
+          </div>
+        )}
+
         {/* Check In/Out Card */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4">📅 Registro del día de hoy</h2>
@@ -282,13 +278,28 @@ export default function AttendancePage() {
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">¡Registra tu entrada!</h3>
               <p className="text-gray-600 mb-6">Marca tu llegada para comenzar el día laboral</p>
-              <button
-                onClick={handleCheckIn}
-                disabled={actionLoading}
-                className="bg-green-600 text-white px-8 py-3 rounded-lg text-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {actionLoading ? 'Registrando...' : '✅ Marcar Entrada'}
-              </button>
+              {scanningOfficeQr ? (
+                <div className="max-w-sm mx-auto space-y-2 text-left">
+                  <p className="text-sm text-gray-600 text-center">
+                    Escanea el código QR de la pantalla de la oficina
+                  </p>
+                  <QrScanner onScan={handleCheckIn} placeholder="Apunta la cámara al QR de la oficina" />
+                  <button
+                    onClick={() => setScanningOfficeQr(false)}
+                    className="w-full py-2 text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Cancelar
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => handleCheckIn()}
+                  disabled={actionLoading}
+                  className="bg-green-600 text-white px-8 py-3 rounded-lg text-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {actionLoading ? 'Registrando...' : '✅ Marcar Entrada'}
+                </button>
+              )}
             </div>
           ) : !todayAttendance.check_out_time ? (
             <div className="text-center py-8">
@@ -343,7 +354,7 @@ export default function AttendancePage() {
                 <tbody>
                   {recentAttendances.map((attendance) => (
                     <tr key={attendance.id} className="border-b">
-                      <td className="py-2">{new Date(attendance.attendance_date).toLocaleDateString('es-ES')}</td>
+                      <td className="py-2">{formatDateKey(attendance.attendance_date, 'es-ES')}</td>
                       <td className="py-2">{formatTime(attendance.check_in_time)}</td>
                       <td className="py-2">{attendance.check_out_time ? formatTime(attendance.check_out_time) : '-'}</td>
                       <td className="py-2">{attendance.work_hours}h</td>
@@ -3,12 +3,28 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { ROLE_DASHBOARDS } from '@/lib/constants';
 
 interface LoginFormData {
   email: string;
   password: string;
 }
 
+/**
+ * Ruta interna a la que volver tras el login, o null si no es del mismo origen
+ * Se resuelve como URL: "/\evil.example" o "//evil.example" apuntan a otro host
+ */
+function getSafeRedirect(redirectTo: string | null): string | null {
+  if (!redirectTo || !redirectTo.startsWith('/')) return null;
+
+  try {
+    const url = new URL(redirectTo, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const [formData, setFormData] = useState<LoginFormData>({
@@ -76,18 +92,15 @@ export default function LoginPage() {
       }
 
       localStorage.setItem('currentEmployee', JSON.stringify(employee));
-      
-      switch (employee.role) {
-        case 'super_admin':
-        case 'admin':
-          router.push('/dashboard/admin');
-          break;
-        case 'manager':
-          router.push('/dashboard/manager');
-          break;
-        default:
-          router.push('/dashboard/employee');
+
+      // Volver a la ruta protegida que envió al login (solo rutas internas)
+      const redirectTo = getSafeRedirect(new URLSearchParams(window.location.search).get('redirectTo'));
+      if (redirectTo) {
+        router.push(redirectTo);
+        return;
       }
+      
+      router.push(ROLE_DASHBOARDS[employee.role] || '/dashboard/employee');
 
     } catch (err) {
       console.error('Error en login:', err);
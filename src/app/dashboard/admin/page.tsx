@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { createSupabaseClient } from '@/lib/supabase/client';
 import { Employee } from '@/types/database';
 import { AdminDashboard } from '@/components/admin/AdminDashboard';
+import { ADMIN_PANEL_PERMISSIONS, canAny } from '@/lib/permissions';
 
 export default function AdminDashboardPage() {
   const router = useRouter();
@@ -25,14 +26,14 @@ export default function AdminDashboardPage() {
           return;
         }
 
-        // Verificar que el usuario es admin
+        // Verificar que el usuario tiene acceso a alguna sección del panel
         const { data: employeeData, error } = await supabase
           .from('employees')
           .select('*')
           .eq('email', session.user.email)
           .single();
 
-        if (error || !employeeData || !['admin', 'super_admin'].includes(employeeData.role)) {
+        if (error || !employeeData || !canAny(employeeData, ADMIN_PANEL_PERMISSIONS)) {
           router.push('/auth/login');
           return;
         }
@@ -83,6 +84,7 @@ export default function AdminDashboardPage() {
   return (
     <AdminDashboard 
       userEmail={employee.email}
+      currentEmployee={employee}
       onLogout={handleLogout}
     />
   );
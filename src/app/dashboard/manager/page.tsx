@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { Employee } from '@/types/database';
+import { ManagerDashboard } from '@/components/manager';
+import { PERMISSIONS } from '@/lib/constants';
+import { can } from '@/lib/permissions';
+
+export default function ManagerDashboardPage() {
+  const router = useRouter();
+  const [employee, setEmployee] = useState<Employee | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Cambiar título de la página
+    document.title = "Panel de Equipo - Educa Attendance";
+
+    const checkAuth = async () => {
+      try {
+        const supabase = createSupabaseClient();
+        const { data: { session } } = await supabase.auth.getSession();
+
+        if (!session) {
+          router.push('/auth/login');
+          return;
+        }
+
+        // Verificar que el usuario puede ver la asistencia de su equipo
+        const { data: employeeData, error } = await supabase
+          .from('employees')
+          .select(`
+            *,
+            department:departments(id, name)
+          `)
+          .eq('email', session.user.email)
+          .single();
+
+        if (error || !employeeData) {
+          router.push('/auth/login');
+          return;
+        }
+
+        if (!can(employeeData, PERMISSIONS.ATTENDANCE_VIEW_TEAM)) {
+          router.push('/dashboard/employee');
+          return;
+        }
+
+        setEmployee(employeeData);
+      } catch (error) {
+        console.error('Error checking auth:', error);
+        router.push('/auth/login');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const handleLogout = async () => {
+    try {
+      const supabase = createSupabaseClient();
+      await supabase.auth.signOut();
+      localStorage.removeItem('currentEmployee');
+      router.push('/auth/login');
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Verificando permisos...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!employee) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">No tienes permisos para acceder a esta página</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ManagerDashboard
+      employee={employee}
+      onLogout={handleLogout}
+    />
+  );
+}
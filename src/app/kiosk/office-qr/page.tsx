@@ -0,0 +1,16 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { OfficeQrDisplay } from '@/components/kiosk';
+
+/**
+ * Pantalla del QR de la oficina
+ * No usa sesión de usuario: se autentica con el token de una terminal autorizada
+ */
+export default function OfficeQrPage() {
+  useEffect(() => {
+    document.title = "QR de la Oficina - Educa Attendance";
+  }, []);
+
+  return <OfficeQrDisplay />;
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { KioskTerminal } from '@/components/kiosk';
+
+/**
+ * Terminal compartida de marcaje (modo quiosco)
+ * No usa sesión de usuario: se autentica con el token de la terminal
+ */
+export default function KioskPage() {
+  useEffect(() => {
+    document.title = "Terminal de Asistencia - Educa Attendance";
+  }, []);
+
+  return <KioskTerminal />;
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { ROLE_DASHBOARDS } from '@/lib/constants';
 
 export default function HomePage() {
   const router = useRouter();
@@ -35,19 +36,8 @@ export default function HomePage() {
         return;
       }
 
-      // Redirigir según el rol
-      switch (employee.role) {
-        case 'super_admin':
-        case 'admin':
-          router.push('/dashboard/admin');
-          break;
-        case 'manager':
-        case 'hr':
-          router.push('/dashboard/admin'); // Por ahora usar admin dashboard
-          break;
-        default:
-          router.push('/dashboard/employee');
-      }
+      // Redirigir según el rol (el middleware verifica los permisos de cada panel)
+      router.push(ROLE_DASHBOARDS[employee.role] || '/dashboard/employee');
 
     } catch (error) {
       console.error('Error verificando autenticación:', error);
@@ -1,18 +1,28 @@
 'use client'
 
-import React, { useState } from 'react';
-import { AdminTabs } from './AdminTabs';
+import React, { useEffect, useState } from 'react';
+import { AdminTabs, ADMIN_TAB_PERMISSIONS } from './AdminTabs';
 import { AdminHeader } from './AdminHeader';
 import { DashboardOverview } from './DashboardOverview';
 import { EmployeeManagement } from './EmployeeManagement';
 import { SystemSettings } from './SystemSettings';
 import { AdvancedReports } from './reports/AdvancedReports';
 import { AdvancedAnalytics } from './AdvancedAnalytics';
+import { LeaveApprovals } from './LeaveApprovals';
+import { AttendanceCorrectionQueue } from './AttendanceCorrectionQueue';
+import { RequirePermission } from '@/components/auth/RequirePermission';
+import { useSessionTimezone } from '@/hooks/useTimezone';
+import { usePermissions } from '@/hooks/usePermission';
+import { PERMISSIONS } from '@/lib/constants';
+import { hasReportFiltersQuery } from '@/lib/report-filters';
+import { addDaysToDateKey, getTodayInTimezone } from '@/lib/timezone';
+import type { Employee } from '@/types/database';
 
-export type AdminTabType = 'overview' | 'employees' | 'analytics' | 'reports' | 'settings';
+export type AdminTabType = 'overview' | 'employees' | 'analytics' | 'reports' | 'leave' | 'corrections' | 'settings';
 
 interface AdminDashboardProps {
   userEmail?: string;
+  currentEmployee?: Employee;
   onLogout: () => void;
 }
 
@@ -24,8 +34,22 @@ interface AdminDashboardProps {
  * - Open/Closed: Fácil agregar nuevas pestañas sin modificar componente
  * - Dependency Inversion: Recibe funciones como props
  */
-export function AdminDashboard({ userEmail, onLogout }: AdminDashboardProps) {
-  const [activeTab, setActiveTab] = useState<AdminTabType>('overview');
+export function AdminDashboard({ userEmail, currentEmployee, onLogout }: AdminDashboardProps) {
+  // Un enlace de reporte compartido abre directamente la pestaña de reportes
+  const [activeTab, setActiveTab] = useState<AdminTabType>(() =>
+    typeof window !== 'undefined' && hasReportFiltersQuery(window.location.search) ? 'reports' : 'overview'
+  );
+  const timezone = useSessionTimezone();
+  const { can, loading: permissionsLoading } = usePermissions();
+
+  // Si la pestaña activa no está permitida, abrir la primera que sí lo esté
+  useEffect(() => {
+    if (permissionsLoading || can(ADMIN_TAB_PERMISSIONS[activeTab])) return;
+
+    const firstAllowed = (Object.keys(ADMIN_TAB_PERMISSIONS) as AdminTabType[])
+      .find(tab => can(ADMIN_TAB_PERMISSIONS[tab]));
+    if (firstAllowed) setActiveTab(firstAllowed);
+  }, [activeTab, can, permissionsLoading]);
 
   const renderTabContent = () => {
     switch (activeTab) {
@@ -37,13 +61,27 @@ export function AdminDashboard({ userEmail, onLogout }: AdminDashboardProps) {
         return (
           <AdvancedAnalytics 
             dateRange={{
-              startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-              endDate: new Date().toISOString().split('T')[0]
+              startDate: addDaysToDateKey(getTodayInTimezone(timezone), -30),
+              endDate: getTodayInTimezone(timezone)
             }}
           />
         );
       case 'reports':
-        return <AdvancedReports />;
+        return <AdvancedReports allowScheduling={can(PERMISSIONS.SETTINGS_EDIT)} />;
+      case 'leave':
+        return currentEmployee ? (
+          <LeaveApprovals
+            organizationId={currentEmployee.organization_id}
+            approverId={currentEmployee.id}
+          />
+        ) : null;
+      case 'corrections':
+        return currentEmployee ? (
+          <AttendanceCorrectionQueue
+            organizationId={currentEmployee.organization_id}
+            reviewerId={currentEmployee.id}
+          />
+        ) : null;
       case 'settings':
         return <SystemSettings />;
       default:
@@ -55,6 +93,7 @@ export function AdminDashboard({ userEmail, onLogout }: AdminDashboardProps) {
     <div className="min-h-screen bg-[var(--background)]">
       <AdminHeader 
         userEmail={userEmail} 
+        employeeId={currentEmployee?.id}
         onLogout={onLogout} 
       />
       
@@ -71,7 +110,12 @@ export function AdminDashboard({ userEmail, onLogout }: AdminDashboardProps) {
         
         <div className="mt-8">
           <div className="glass-card min-h-[600px]">
-            {renderTabContent()}
+            <RequirePermission
+              permission={ADMIN_TAB_PERMISSIONS[activeTab]}
+              fallback={<p className="p-6 text-gray-600">No tienes permiso para ver esta sección</p>}
+            >
+              {renderTabContent()}
+            </RequirePermission>
           </div>
         </div>
       </div>
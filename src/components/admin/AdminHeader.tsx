@@ -3,9 +3,11 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { LogOut, User, Shield } from 'lucide-react';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
 
 interface AdminHeaderProps {
   userEmail?: string;
+  employeeId?: string;
   onLogout: () => void;
 }
 
@@ -16,7 +18,7 @@ interface AdminHeaderProps {
  * - Single Responsibility: Solo maneja la cabecera y logout
  * - Dependency Inversion: Recibe función de logout como prop
  */
-export function AdminHeader({ userEmail, onLogout }: AdminHeaderProps) {
+export function AdminHeader({ userEmail, employeeId, onLogout }: AdminHeaderProps) {
   return (
     <header className="bg-white shadow">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -34,6 +36,8 @@ export function AdminHeader({ userEmail, onLogout }: AdminHeaderProps) {
           </div>
           
           <div className="flex items-center space-x-4">
+            <NotificationBell recipientId={employeeId} />
+
             {userEmail && (
               <div className="flex items-center text-gray-700">
                 <User className="w-5 h-5 mr-2" />
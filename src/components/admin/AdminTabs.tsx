@@ -3,12 +3,17 @@
 import React from 'react';
 import { AdminTabType } from './AdminDashboard';
 import { Button } from '@/components/ui/button';
+import { usePermissions } from '@/hooks/usePermission';
+import { PERMISSIONS } from '@/lib/constants';
+import type { Permission } from '@/lib/permissions';
 import { 
   LayoutDashboard, 
   Users, 
   FileBarChart,
   Settings,
-  TrendingUp
+  TrendingUp,
+  CalendarCheck,
+  ClipboardEdit
 } from 'lucide-react';
 
 interface AdminTabsProps {
@@ -21,6 +26,7 @@ interface TabConfig {
   label: string;
   icon: React.ReactNode;
   description: string;
+  permission: Permission;
 }
 
 const tabs: TabConfig[] = [
@@ -28,46 +34,76 @@ const tabs: TabConfig[] = [
     id: 'overview',
     label: 'Panel General',
     icon: <LayoutDashboard className="w-5 h-5" />,
-    description: 'Vista general y estadísticas'
+    description: 'Vista general y estadísticas',
+    permission: PERMISSIONS.ATTENDANCE_VIEW_ALL
   },
   {
     id: 'employees',
     label: 'Gestión de Empleados',
     icon: <Users className="w-5 h-5" />,
-    description: 'Crear, editar y gestionar empleados'
+    description: 'Crear, editar y gestionar empleados',
+    permission: PERMISSIONS.EMPLOYEES_VIEW
   },
   {
     id: 'analytics',
     label: 'Analíticas Avanzadas',
     icon: <TrendingUp className="w-5 h-5" />,
-    description: 'Análisis detallado de asistencia y horas trabajadas'
+    description: 'Análisis detallado de asistencia y horas trabajadas',
+    permission: PERMISSIONS.REPORTS_ANALYTICS
   },
   {
     id: 'reports',
     label: 'Reportes Avanzados',
     icon: <FileBarChart className="w-5 h-5" />,
-    description: 'Reportes de asistencia, estadísticas y exportación'
+    description: 'Reportes de asistencia, estadísticas y exportación',
+    permission: PERMISSIONS.REPORTS_VIEW
+  },
+  {
+    id: 'leave',
+    label: 'Permisos',
+    icon: <CalendarCheck className="w-5 h-5" />,
+    description: 'Aprobación de vacaciones, enfermedad y días personales',
+    permission: PERMISSIONS.ATTENDANCE_APPROVE
+  },
+  {
+    id: 'corrections',
+    label: 'Correcciones',
+    icon: <ClipboardEdit className="w-5 h-5" />,
+    description: 'Revisión de correcciones de asistencia de días pasados',
+    permission: PERMISSIONS.ATTENDANCE_APPROVE
   },
   {
     id: 'settings',
     label: 'Configuración',
     icon: <Settings className="w-5 h-5" />,
-    description: 'Configuración del sistema'
+    description: 'Configuración del sistema',
+    permission: PERMISSIONS.SETTINGS_VIEW
   }
 ];
 
+/**
+ * Permiso necesario para ver cada pestaña
+ */
+export const ADMIN_TAB_PERMISSIONS = Object.fromEntries(
+  tabs.map(tab => [tab.id, tab.permission])
+) as Record<AdminTabType, Permission>;
+
 /**
  * Componente de navegación por pestañas del panel de administración
+ * Solo muestra las pestañas para las que el usuario tiene permiso
  * 
  * Principios aplicados:
  * - Single Responsibility: Solo maneja la navegación
  * - Interface Segregation: Props específicas para su función
  */
 export function AdminTabs({ activeTab, onTabChange }: AdminTabsProps) {
+  const { can } = usePermissions();
+  const visibleTabs = tabs.filter(tab => can(tab.permission));
+
   return (
     <div className="border-b border-gray-200">
       <nav className="-mb-px flex space-x-8" aria-label="Tabs">
-        {tabs.map((tab) => (
+        {visibleTabs.map((tab) => (
           <Button
             key={tab.id}
             variant={activeTab === tab.id ? "default" : "ghost"}
@@ -24,6 +24,8 @@ import {
   Calendar
 } from 'lucide-react';
 import { useAdvancedAnalytics } from '@/hooks/useAdvancedAnalytics';
+import { useSessionTimezone } from '@/hooks/useTimezone';
+import { addDaysToDateKey, formatDateKey, getTodayInTimezone } from '@/lib/timezone';
 
 interface AdvancedAnalyticsProps {
   organizationId?: string; // Ahora opcional ya que el hook maneja la lógica
@@ -35,8 +37,10 @@ interface AdvancedAnalyticsProps {
 
 export function AdvancedAnalytics({ dateRange }: AdvancedAnalyticsProps) {
   // Configurar fechas por defecto (últimos 3 meses para vista general)
-  const defaultEndDate = new Date().toISOString().split('T')[0];
-  const defaultStartDate = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  // Días calendario en la zona de la organización, no en UTC
+  const timezone = useSessionTimezone();
+  const defaultEndDate = getTodayInTimezone(timezone);
+  const defaultStartDate = addDaysToDateKey(defaultEndDate, -90);
   
   const startDate = dateRange?.startDate || defaultStartDate;
   const endDate = dateRange?.endDate || defaultEndDate;
@@ -459,11 +463,7 @@ export function AdvancedAnalytics({ dateRange }: AdvancedAnalyticsProps) {
                       <tr key={week.week} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm font-medium text-gray-900">
-                            {new Date(week.week).toLocaleDateString('es-ES', { 
-                              day: '2-digit', 
-                              month: '2-digit', 
-                              year: 'numeric' 
-                            })}
+                            {formatDateKey(week.week, 'es-ES')}
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
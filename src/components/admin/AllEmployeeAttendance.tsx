@@ -23,6 +23,9 @@ import {
   MapPin
 } from 'lucide-react';
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { DEFAULT_TIMEZONE } from '@/lib/constants';
+import type { AttendanceLocationData } from '@/types/database';
+import { addDaysToDateKey, getTodayInTimezone } from '@/lib/timezone';
 import { inspectAttendancesTable, inspectEmployeesTable, countRecords } from '@/utils/database-inspector';
 
 // Tipos para las asistencias
@@ -39,18 +42,10 @@ interface AttendanceRecord {
   overtime_hours: number | null;
   status: string;
   location_info: string | null;
+  auto_close_reason: string | null;
 }
 
 // Tipo para datos de asistencia de la base de datos
-interface LocationData {
-  address?: string;
-  city?: string;
-  country?: string;
-  latitude?: number;
-  longitude?: number;
-  [key: string]: unknown;
-}
-
 interface AttendanceData {
   id: string;
   employee_id: string;
@@ -60,7 +55,8 @@ interface AttendanceData {
   work_hours: number | null;
   overtime_hours: number | null;
   status: string;
-  location_data: LocationData | null;
+  location_data: AttendanceLocationData | null;
+  auto_close_reason: string | null;
 }
 
 // Tipo para consultas generales de attendances (con todas las columnas)
@@ -73,11 +69,16 @@ interface AttendanceRaw {
   work_hours: number | null;
   overtime_hours: number | null;
   status: string;
-  location_data: LocationData | null;
+  location_data: AttendanceLocationData | null;
   [key: string]: unknown; // Para otras columnas que puedan existir
 }
 
-export function AllEmployeeAttendance() {
+interface AllEmployeeAttendanceProps {
+  /** Limita la tabla a estos empleados (equipo de un manager) */
+  employeeIds?: string[];
+}
+
+export function AllEmployeeAttendance({ employeeIds }: AllEmployeeAttendanceProps = {}) {
   const [attendances, setAttendances] = useState<AttendanceRecord[]>([]);
   const [filteredAttendances, setFilteredAttendances] = useState<AttendanceRecord[]>([]);
   const [loading, setLoading] = useState(false);
@@ -85,12 +86,8 @@ export function AllEmployeeAttendance() {
   
   // Estados para filtros
   const [filters, setFilters] = useState({
-    dateFrom: (() => {
-      const date = new Date();
-      date.setDate(date.getDate() - 7); // 7 días atrás
-      return date.toISOString().split('T')[0];
-    })(),
-    dateTo: new Date().toISOString().split('T')[0], // Hoy
+    dateFrom: addDaysToDateKey(getTodayInTimezone(DEFAULT_TIMEZONE), -7), // 7 días atrás
+    dateTo: getTodayInTimezone(DEFAULT_TIMEZONE), // Hoy
     search: '',
     status: '',
     department: ''
@@ -123,7 +120,7 @@ export function AllEmployeeAttendance() {
       await countRecords();
       console.log('🔍 === FIN INSPECCIÓN ===');
 
-      const { data: attendanceData, error: attendanceError } = await supabase
+      let attendanceQuery = supabase
         .from('attendances')
         .select(`
           id,
@@ -134,13 +131,20 @@ export function AllEmployeeAttendance() {
           work_hours,
           overtime_hours,
           status,
-          location_data
+          location_data,
+          auto_close_reason
         `)
         .gte('attendance_date', filters.dateFrom)
         .lte('attendance_date', filters.dateTo)
         .order('attendance_date', { ascending: false })
         .order('check_in_time', { ascending: false });
 
+      if (employeeIds) {
+        attendanceQuery = attendanceQuery.in('employee_id', employeeIds);
+      }
+
+      const { data: attendanceData, error: attendanceError } = await attendanceQuery;
+
       if (attendanceError) {
         throw new Error(`Error cargando asistencias: ${attendanceError.message}`);
       }
@@ -162,7 +166,7 @@ export function AllEmployeeAttendance() {
       }
 
       // Obtener IDs únicos de empleados
-      const employeeIds = [...new Set(attendanceData.map((att: AttendanceData) => att.employee_id))];
+      const attendanceEmployeeIds = [...new Set(attendanceData.map((att: AttendanceData) => att.employee_id))];
 
       // Cargar datos de empleados
       const { data: employeeData, error: employeeError } = await supabase
@@ -176,7 +180,7 @@ export function AllEmployeeAttendance() {
             name
           )
         `)
-        .in('id', employeeIds);
+        .in('id', attendanceEmployeeIds);
 
       if (employeeError) {
         console.error('Error cargando empleados:', employeeError);
@@ -206,15 +210,18 @@ export function AllEmployeeAttendance() {
         if (att.location_data) {
           try {
             const locationData = typeof att.location_data === 'string' 
-              ? JSON.parse(att.location_data) as LocationData
+              ? JSON.parse(att.location_data) as AttendanceLocationData
               : att.location_data;
+            const checkIn = locationData.check_in;
             
-            if (locationData.address) {
-              locationInfo = locationData.address;
-            } else if (locationData.city && locationData.country) {
-              locationInfo = `${locationData.city}, ${locationData.country}`;
-            } else if (locationData.latitude && locationData.longitude) {
-              locationInfo = `${locationData.latitude}, ${locationData.longitude}`;
+            if (checkIn?.geofence_name) {
+              locationInfo = checkIn.within_geofence
+                ? checkIn.geofence_name
+                : `Fuera de zona (${checkIn.distance_meters} m de ${checkIn.geofence_name})`;
+            } else if (checkIn?.address) {
+              locationInfo = checkIn.address;
+            } else if (checkIn) {
+              locationInfo = `${checkIn.lat.toFixed(5)}, ${checkIn.lng.toFixed(5)}`;
             }
           } catch (error) {
             console.warn('Error procesando location_data:', error);
@@ -233,7 +240,8 @@ export function AllEmployeeAttendance() {
           work_hours: att.work_hours,
           overtime_hours: att.overtime_hours,
           status: att.status,
-          location_info: locationInfo
+          location_info: locationInfo,
+          auto_close_reason: att.auto_close_reason
         };
       });
 
@@ -246,7 +254,7 @@ export function AllEmployeeAttendance() {
     } finally {
       setLoading(false);
     }
-  }, [filters.dateFrom, filters.dateTo, supabase]);
+  }, [filters.dateFrom, filters.dateTo, employeeIds, supabase]);
 
   // Función para cargar departamentos
   const loadDepartments = useCallback(async () => {
@@ -401,6 +409,8 @@ export function AllEmployeeAttendance() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'present': return 'bg-green-100 text-green-800';
+      case 'on_time': return 'bg-green-100 text-green-800';
+      case 'early_departure': return 'bg-orange-100 text-orange-800';
       case 'late': return 'bg-yellow-100 text-yellow-800';
       case 'absent': return 'bg-red-100 text-red-800';
       case 'remote': return 'bg-blue-100 text-blue-800';
@@ -413,7 +423,9 @@ export function AllEmployeeAttendance() {
   const translateStatus = (status: string) => {
     const translations: Record<string, string> = {
       'present': 'Presente',
+      'on_time': 'A Tiempo',
       'late': 'Tarde',
+      'early_departure': 'Salida Temprana',
       'absent': 'Ausente',
       'remote': 'Remoto',
       'overtime': 'Tiempo Extra',
@@ -640,6 +652,11 @@ export function AllEmployeeAttendance() {
                       <Clock className="w-4 h-4 mr-1 text-red-400" />
                       {attendance.check_out_time || 'N/A'}
                     </div>
+                    {attendance.auto_close_reason && (
+                      <div className="text-xs text-orange-600 mt-1 truncate max-w-40" title={attendance.auto_close_reason}>
+                        Cierre automático
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { apiTokenService, type ApiTokenSummary } from '@/services/api-token.service';
+import { usePermissions } from '@/hooks/usePermission';
+import { API_TOKEN_EXPIRATION_DAYS, PERMISSION_LABELS } from '@/lib/constants';
+
+const EMPTY_TOKEN = { name: '', scopes: [] as string[], expiresInDays: 90 };
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' }) : 'Nunca';
+
+/**
+ * Tokens de API para integraciones (nómina, BI)
+ * Cada token actúa con los permisos de quien lo crea, limitados a sus scopes
+ */
+export function ApiTokenConfig() {
+  const { permissions, loading: permissionsLoading } = usePermissions();
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [newToken, setNewToken] = useState(EMPTY_TOKEN);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTokens(await apiTokenService.getTokens());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  // Solo se pueden conceder los permisos propios
+  const availableScopes = Array.from(permissions);
+
+  const toggleScope = (scope: string) => {
+    setNewToken(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(item => item !== scope)
+        : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleCreateToken = async () => {
+    setSaving(true);
+    const result = await apiTokenService.createToken(newToken);
+    setSaving(false);
+
+    if (!result.success || !result.token) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setCreatedToken(result.token);
+    setNewToken(EMPTY_TOKEN);
+    await fetchTokens();
+  };
+
+  const handleRevokeToken = async (token: ApiTokenSummary) => {
+    if (!confirm(`¿Revocar el token "${token.name}"? Las integraciones que lo usan dejarán de funcionar.`)) return;
+
+    const result = await apiTokenService.revokeToken(token.id);
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    await fetchTokens();
+  };
+
+  const handleCopyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    alert('✅ Token copiado al portapapeles');
+  };
+
+  const tokenStatus = (token: ApiTokenSummary) => {
+    if (token.revoked_at) return { label: 'Revocado', className: 'bg-red-100 text-red-700' };
+    if (new Date(token.expires_at) <= new Date()) return { label: 'Expirado', className: 'bg-gray-200 text-gray-700' };
+    return { label: 'Activo', className: 'bg-green-100 text-green-700' };
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <KeyRound className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Tokens de API</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Permiten a sistemas externos consultar la API (/api/v1) con el encabezado
+        Authorization: Bearer. Cada token actúa con tus permisos, limitados a los
+        scopes seleccionados, y deja de funcionar al expirar o al revocarlo.
+      </p>
+
+      {createdToken && (
+        <div className="p-4 mb-4 bg-yellow-50 border border-yellow-200 rounded space-y-2">
+          <p className="text-sm text-yellow-800 font-medium">
+            Copia el token ahora: no se volverá a mostrar
+          </p>
+          <div className="flex gap-2">
+            <Input value={createdToken} readOnly className="font-mono text-xs" />
+            <Button variant="outline" onClick={handleCopyToken} className="flex items-center gap-2">
+              <Copy className="w-4 h-4" />
+              Copiar
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setCreatedToken(null)}>
+            Listo
+          </Button>
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-50 rounded space-y-3 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <Input
+            value={newToken.name}
+            placeholder="Nombre (p. ej. Sincronización de nómina)"
+            onChange={(e) => setNewToken(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <select
+            value={newToken.expiresInDays}
+            onChange={(e) => setNewToken(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {API_TOKEN_EXPIRATION_DAYS.map(days => (
+              <option key={days} value={days}>
+                Expira en {days} días
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Scopes</div>
+          {permissionsLoading ? (
+            <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={newToken.scopes.includes(scope)}
+                    className="rounded"
+                    onChange={() => toggleScope(scope)}
+                  />
+                  {PERMISSION_LABELS[scope] || scope}
+                  <span className="text-xs text-gray-400 font-mono">{scope}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={handleCreateToken}
+          disabled={saving || !newToken.name.trim() || newToken.scopes.length === 0}
+          className="flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Crear Token
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No hay tokens de API
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {tokens.map((token) => {
+            const status = tokenStatus(token);
+            return (
+              <div key={token.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {token.name}
+                    <span className="text-xs font-mono text-gray-500">{token.token_prefix}…</span>
+                    <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {token.scopes.join(', ')}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Creado por {token.creator?.full_name || 'usuario eliminado'} · Expira {formatDateTime(token.expires_at)} · Último uso {formatDateTime(token.last_used_at)}
+                  </div>
+                </div>
+                {!token.revoked_at && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevokeToken(token)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
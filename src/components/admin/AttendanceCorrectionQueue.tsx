@@ -0,0 +1,199 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ClipboardEdit, Check, X, RefreshCw } from 'lucide-react';
+import { attendanceCorrectionService } from '@/services/attendance-correction.service';
+import { useOrganizationTimezone } from '@/hooks/useTimezone';
+import { REQUEST_STATUS_CONFIG } from '@/lib/constants';
+import { formatDateKey, formatTimeInTimezone } from '@/lib/timezone';
+import type { AttendanceCorrection, RequestStatus } from '@/types/database';
+
+interface AttendanceCorrectionQueueProps {
+  organizationId: string;
+  reviewerId: string;
+  /** Limita la bandeja a estos empleados (equipo de un manager) */
+  employeeIds?: string[];
+}
+
+/**
+ * Bandeja de revisión de correcciones de asistencia
+ *
+ * Principios aplicados:
+ * - Single Responsibility: Solo revisa solicitudes; la lógica vive en AttendanceCorrectionService
+ */
+export function AttendanceCorrectionQueue({ organizationId, reviewerId, employeeIds }: AttendanceCorrectionQueueProps) {
+  const timezone = useOrganizationTimezone(organizationId);
+  const [statusFilter, setStatusFilter] = useState<RequestStatus | ''>('pending');
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState<string | null>(null);
+
+  const loadCorrections = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCorrections(await attendanceCorrectionService.getCorrections(organizationId, statusFilter || undefined, employeeIds));
+    } catch (error) {
+      console.error('Error loading attendance corrections:', error);
+      setCorrections([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, statusFilter, employeeIds]);
+
+  useEffect(() => {
+    loadCorrections();
+  }, [loadCorrections]);
+
+  const formatTime = (isoString?: string) =>
+    isoString ? formatTimeInTimezone(isoString, timezone, 'es-ES') : '--:--';
+
+  const handleApprove = async (correction: AttendanceCorrection) => {
+    const notes = prompt('Nota para el empleado (opcional):');
+    if (notes === null) return;
+
+    setProcessing(correction.id);
+    const result = await attendanceCorrectionService.approveCorrection(correction.id, reviewerId, notes);
+    setProcessing(null);
+
+    alert(result.success ? `✅ ${result.message}` : `❌ ${result.message}`);
+    if (result.success) await loadCorrections();
+  };
+
+  const handleReject = async (correction: AttendanceCorrection) => {
+    const notes = prompt('Motivo del rechazo:');
+    if (notes === null) return;
+
+    setProcessing(correction.id);
+    const result = await attendanceCorrectionService.rejectCorrection(correction.id, reviewerId, notes);
+    setProcessing(null);
+
+    alert(result.success ? `✅ ${result.message}` : `❌ ${result.message}`);
+    if (result.success) await loadCorrections();
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ClipboardEdit className="w-7 h-7 mr-3 text-blue-600" />
+            Correcciones de Asistencia
+          </h2>
+          <p className="text-gray-600 mt-1">
+            Revisa las horas propuestas por los empleados para días pasados
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as RequestStatus | '')}
+            className="p-2 border rounded"
+          >
+            <option value="">Todas</option>
+            {Object.entries(REQUEST_STATUS_CONFIG).map(([status, config]) => (
+              <option key={status} value={status}>{config.label}</option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={loadCorrections} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-6">
+        {loading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : corrections.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-8">
+            No hay solicitudes para mostrar
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Empleado</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fecha</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Registrado</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Propuesto</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Motivo</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {corrections.map((correction) => {
+                  // Aprobadas: valores previos guardados; pendientes: el registro actual
+                  const recorded = correction.original_values || correction.attendance;
+                  return (
+                    <tr key={correction.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{correction.employee?.full_name || 'Empleado'}</div>
+                        <div className="text-xs text-gray-400">{correction.employee?.employee_code}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                        {formatDateKey(correction.attendance_date, 'es-ES')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                        {recorded
+                          ? `${formatTime(recorded.check_in_time)} – ${formatTime(recorded.check_out_time)}`
+                          : 'Sin registro'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                        {formatTime(correction.proposed_check_in_time || recorded?.check_in_time)}
+                        {' – '}
+                        {formatTime(correction.proposed_check_out_time || recorded?.check_out_time)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 max-w-xs">
+                        {correction.employee_notes}
+                        {correction.manager_notes && (
+                          <div className="text-xs text-gray-500 mt-1">Revisión: {correction.manager_notes}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${REQUEST_STATUS_CONFIG[correction.status].className}`}>
+                          {REQUEST_STATUS_CONFIG[correction.status].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {correction.status === 'pending' && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleApprove(correction)}
+                              disabled={processing === correction.id}
+                            >
+                              <Check className="w-4 h-4 mr-1" />
+                              Aprobar
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleReject(correction)}
+                              disabled={processing === correction.id}
+                            >
+                              <X className="w-4 h-4 mr-1" />
+                              Rechazar
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Clock, Calendar, Settings, MapPin, Save, RotateCcw } from 'lucide-react
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { systemConfigService } from '@/services/system-config.service';
+import { EmployeeShiftAssignment } from './EmployeeShiftAssignment';
 
 interface EmployeeScheduleData {
   id: string;
@@ -22,6 +23,7 @@ interface EmployeeScheduleData {
 
 interface EmployeeScheduleConfigProps {
   employees: EmployeeScheduleData[];
+  organizationId: string;
   onUpdate?: () => void;
   systemWorkingHours?: {
     startTime: string;
@@ -33,6 +35,7 @@ interface EmployeeScheduleConfigProps {
 
 export function EmployeeScheduleConfig({ 
   employees, 
+  organizationId,
   onUpdate,
   systemWorkingHours 
 }: EmployeeScheduleConfigProps) {
@@ -387,6 +390,11 @@ export function EmployeeScheduleConfig({
         </Card>
       )}
 
+      {/* Turno rotativo o partido asignado */}
+      {selectedEmployee && (
+        <EmployeeShiftAssignment employeeId={selectedEmployee} organizationId={organizationId} />
+      )}
+
       {/* Mensaje de estado */}
       {message && (
         <div className={`p-3 rounded-lg ${
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { workScheduleService } from '@/services/work-schedule.service';
+import { formatDateKey, toDateKey } from '@/lib/timezone';
+import type { EmployeeShiftAssignment as ShiftAssignment, ShiftTemplate } from '@/types/database';
+
+interface EmployeeShiftAssignmentProps {
+  employeeId: string;
+  organizationId: string;
+}
+
+/**
+ * Turnos asignados a un empleado con su fecha de vigencia
+ * Cada asignación rige hasta la siguiente; sin asignación se usa el horario individual
+ */
+export function EmployeeShiftAssignment({ employeeId, organizationId }: EmployeeShiftAssignmentProps) {
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [assignments, setAssignments] = useState<ShiftAssignment[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(toDateKey(new Date()));
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [templateList, assignmentList] = await Promise.all([
+        workScheduleService.getShiftTemplates(organizationId),
+        workScheduleService.getEmployeeShiftAssignments(employeeId)
+      ]);
+      setTemplates(templateList);
+      setAssignments(assignmentList);
+    } catch (error) {
+      console.error('Error loading shift assignments:', error);
+    }
+  }, [employeeId, organizationId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleAssign = async () => {
+    if (!templateId || !effectiveFrom) return;
+
+    try {
+      setSaving(true);
+      await workScheduleService.assignShift(employeeId, organizationId, templateId, effectiveFrom);
+      setTemplateId('');
+      await loadData();
+    } catch (error) {
+      console.error('Error assigning shift:', error);
+      alert('❌ Error al asignar turno');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (assignment: ShiftAssignment) => {
+    if (!confirm('¿Eliminar esta asignación de turno?')) return;
+
+    try {
+      await workScheduleService.removeShiftAssignment(assignment.id);
+      await loadData();
+    } catch (error) {
+      console.error('Error removing shift assignment:', error);
+      alert('❌ Error al eliminar asignación de turno');
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Repeat className="h-4 w-4" />
+        <h4 className="font-medium">Turno Asignado</h4>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-3">
+        Con un turno asignado, la tardanza, las horas esperadas y las ausencias se calculan
+        contra el turno programado cada día en lugar del horario individual.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          className="flex-1 p-2 border rounded bg-white"
+        >
+          <option value="">-- Seleccionar turno --</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={effectiveFrom}
+          onChange={(e) => setEffectiveFrom(e.target.value)}
+          className="p-2 border rounded"
+          title="Vigente desde"
+        />
+        <Button onClick={handleAssign} disabled={saving || !templateId || !effectiveFrom}>
+          {saving ? 'Asignando...' : 'Asignar'}
+        </Button>
+      </div>
+
+      {assignments.length === 0 ? (
+        <p className="text-sm text-gray-500">Sin turnos asignados</p>
+      ) : (
+        <div className="space-y-2">
+          {assignments.map((assignment) => (
+            <div key={assignment.id} className="flex items-center justify-between p-2 border rounded">
+              <div className="text-sm">
+                <span className="font-medium">{assignment.shift_template?.name || 'Turno eliminado'}</span>
+                <span className="text-gray-600"> · desde {formatDateKey(assignment.effective_from, 'es-ES')}</span>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleRemove(assignment)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { MapPin, Plus, Save, Trash2, Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { systemConfigService } from '@/services/system-config.service';
+import { getCurrentLocationData } from '@/lib/geolocation';
+import { GEOLOCATION_CONFIG } from '@/lib/constants';
+import type { Geofence, GeofenceSettings } from '@/types/database';
+
+interface GeofenceConfigProps {
+  organizationId: string;
+}
+
+/**
+ * Configuración de geocercas de oficina
+ * Cada geocerca es un centro (lat/lng) con un radio en metros
+ */
+export function GeofenceConfig({ organizationId }: GeofenceConfigProps) {
+  const [settings, setSettings] = useState<GeofenceSettings>({ enforcement: 'reject', geofences: [] });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchGeofences = async () => {
+      try {
+        setLoading(true);
+        setSettings(await systemConfigService.getGeofenceSettings(organizationId));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchGeofences();
+  }, [organizationId]);
+
+  const updateGeofence = (id: string, changes: Partial<Geofence>) => {
+    setSettings(prev => ({
+      ...prev,
+      geofences: prev.geofences.map(geofence => geofence.id === id ? { ...geofence, ...changes } : geofence)
+    }));
+  };
+
+  const handleAddGeofence = () => {
+    setSettings(prev => ({
+      ...prev,
+      geofences: [
+        ...prev.geofences,
+        {
+          id: crypto.randomUUID(),
+          name: `Oficina ${prev.geofences.length + 1}`,
+          lat: 0,
+          lng: 0,
+          radius_meters: GEOLOCATION_CONFIG.DEFAULT_RADIUS_METERS,
+          is_active: true
+        }
+      ]
+    }));
+  };
+
+  const handleRemoveGeofence = (id: string) => {
+    setSettings(prev => ({
+      ...prev,
+      geofences: prev.geofences.filter(geofence => geofence.id !== id)
+    }));
+  };
+
+  const handleUseCurrentLocation = async (id: string) => {
+    setLocating(id);
+    const location = await getCurrentLocationData();
+    setLocating(null);
+
+    if (!location) {
+      alert('❌ No se pudo obtener tu ubicación. Verifica los permisos del navegador');
+      return;
+    }
+
+    updateGeofence(id, {
+      lat: Number(location.lat.toFixed(6)),
+      lng: Number(location.lng.toFixed(6))
+    });
+  };
+
+  const handleSave = async () => {
+    const invalid = settings.geofences.find(geofence =>
+      !geofence.name.trim() ||
+      Math.abs(geofence.lat) > 90 ||
+      Math.abs(geofence.lng) > 180 ||
+      geofence.radius_meters < GEOLOCATION_CONFIG.MIN_RADIUS_METERS ||
+      geofence.radius_meters > GEOLOCATION_CONFIG.MAX_RADIUS_METERS
+    );
+
+    if (invalid) {
+      alert(`❌ Revisa la geocerca "${invalid.name || 'sin nombre'}": nombre, coordenadas o radio inválidos`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await systemConfigService.updateGeofenceSettings(organizationId, settings);
+      alert('✅ Geocercas actualizadas correctamente');
+    } catch (error) {
+      console.error('Error saving geofences:', error);
+      alert('❌ Error al guardar geocercas');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <MapPin className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Geocercas de Oficina</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Se aplican cuando la política requiere geolocalización. Una entrada es válida si
+        está dentro del radio de al menos una geocerca activa.
+      </p>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Entradas fuera de zona
+            </label>
+            <select
+              value={settings.enforcement}
+              className="w-full p-2 border rounded"
+              onChange={(e) => setSettings(prev => ({
+                ...prev,
+                enforcement: e.target.value as GeofenceSettings['enforcement']
+              }))}
+            >
+              <option value="reject">Rechazar el registro</option>
+              <option value="flag">Registrar y marcar para revisión</option>
+            </select>
+          </div>
+
+          {settings.geofences.length === 0 ? (
+            <p className="text-gray-500 text-sm text-center py-4">
+              No hay geocercas configuradas: la ubicación solo se registra
+            </p>
+          ) : (
+            settings.geofences.map((geofence) => (
+              <div key={geofence.id} className="p-4 bg-gray-50 rounded space-y-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={geofence.name}
+                    placeholder="Nombre de la sede"
+                    className="flex-1"
+                    onChange={(e) => updateGeofence(geofence.id, { name: e.target.value })}
+                  />
+                  <label className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={geofence.is_active}
+                      className="rounded"
+                      onChange={(e) => updateGeofence(geofence.id, { is_active: e.target.checked })}
+                    />
+                    Activa
+                  </label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemoveGeofence(geofence.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Latitud</label>
+                    <Input
+                      type="number"
+                      step="0.000001"
+                      value={geofence.lat}
+                      onChange={(e) => updateGeofence(geofence.id, { lat: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Longitud</label>
+                    <Input
+                      type="number"
+                      step="0.000001"
+                      value={geofence.lng}
+                      onChange={(e) => updateGeofence(geofence.id, { lng: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Radio (m)</label>
+                    <Input
+                      type="number"
+                      min={GEOLOCATION_CONFIG.MIN_RADIUS_METERS}
+                      max={GEOLOCATION_CONFIG.MAX_RADIUS_METERS}
+                      value={geofence.radius_meters}
+                      onChange={(e) => updateGeofence(geofence.id, { radius_meters: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleUseCurrentLocation(geofence.id)}
+                  disabled={locating === geofence.id}
+                  className="flex items-center gap-2"
+                >
+                  <Crosshair className="w-4 h-4" />
+                  {locating === geofence.id ? 'Obteniendo ubicación...' : 'Usar mi ubicación actual'}
+                </Button>
+              </div>
+            ))
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleAddGeofence}
+              className="flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Agregar Geocerca
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Guardando...' : 'Guardar Geocercas'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
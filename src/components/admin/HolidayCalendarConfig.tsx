@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CalendarDays, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { holidayService } from '@/services/holiday.service';
+import { parseHolidayCsv } from '@/lib/holidays';
+import { formatDateKey } from '@/lib/timezone';
+import type { Department } from '@/services/system-config.service';
+import type { Holiday } from '@/types/database';
+
+interface HolidayCalendarConfigProps {
+  organizationId: string;
+  departments: Department[];
+}
+
+const EMPTY_HOLIDAY = { name: '', date: '', is_recurring: false, department_ids: [] as string[] };
+
+/**
+ * Calendario de feriados de la organización
+ * Los feriados pueden ser únicos o recurrentes y aplicar solo a algunos departamentos
+ */
+export function HolidayCalendarConfig({ organizationId, departments }: HolidayCalendarConfigProps) {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [newHoliday, setNewHoliday] = useState(EMPTY_HOLIDAY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      setHolidays(await holidayService.getHolidays(organizationId));
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const departmentNames = (departmentIds?: string[] | null) => {
+    if (!departmentIds || departmentIds.length === 0) return 'Toda la organización';
+    return departmentIds
+      .map(id => departments.find(department => department.id === id)?.name || 'Departamento eliminado')
+      .join(', ');
+  };
+
+  const toggleDepartment = (departmentId: string) => {
+    setNewHoliday(prev => ({
+      ...prev,
+      department_ids: prev.department_ids.includes(departmentId)
+        ? prev.department_ids.filter(id => id !== departmentId)
+        : [...prev.department_ids, departmentId]
+    }));
+  };
+
+  const handleAddHoliday = async () => {
+    setSaving(true);
+    const result = await holidayService.createHoliday(organizationId, newHoliday);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setNewHoliday(EMPTY_HOLIDAY);
+    await fetchHolidays();
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!confirm(`¿Eliminar el feriado "${holiday.name}"?`)) return;
+
+    const result = await holidayService.deleteHoliday(holiday.id);
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setHolidays(prev => prev.filter(item => item.id !== holiday.id));
+  };
+
+  const handleImportCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const { rows, errors } = parseHolidayCsv(await file.text());
+    if (rows.length === 0) {
+      alert(`❌ El archivo no contiene feriados válidos${errors.length ? `:\n${errors.join('\n')}` : ''}`);
+      return;
+    }
+
+    setSaving(true);
+    const result = await holidayService.importHolidays(organizationId, rows, departments);
+    setSaving(false);
+
+    const allErrors = [...errors, ...result.errors];
+    alert(`${result.success ? '✅' : '❌'} ${result.message}${allErrors.length ? `\n\nFilas omitidas:\n${allErrors.join('\n')}` : ''}`);
+
+    if (result.success) await fetchHolidays();
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarDays className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Calendario de Feriados</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Los feriados se consideran días no laborables: no generan ausencias ni descuentan
+        días de permiso. Los recurrentes se repiten cada año en la misma fecha.
+      </p>
+
+      <div className="p-4 bg-gray-50 rounded space-y-3 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input
+            value={newHoliday.name}
+            placeholder="Nombre del feriado"
+            onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <Input
+            type="date"
+            value={newHoliday.date}
+            onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={newHoliday.is_recurring}
+              className="rounded"
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, is_recurring: e.target.checked }))}
+            />
+            Se repite cada año
+          </label>
+        </div>
+
+        {departments.length > 0 && (
+          <div>
+            <div className="text-xs text-gray-500 mb-1">
+              Departamentos (sin selección aplica a toda la organización)
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {departments.map((department) => (
+                <label key={department.id} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={newHoliday.department_ids.includes(department.id)}
+                    className="rounded"
+                    onChange={() => toggleDepartment(department.id)}
+                  />
+                  {department.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleAddHoliday}
+            disabled={saving || !newHoliday.name.trim() || !newHoliday.date}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Agregar Feriado
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Importar CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleImportCsv}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Formato CSV: fecha (YYYY-MM-DD), nombre, recurrente (si/no), códigos de departamento separados por &quot;;&quot;
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : holidays.length === 0 ? (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No hay feriados configurados
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {holidays.map((holiday) => (
+            <div key={holiday.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+              <div>
+                <div className="font-medium">{holiday.name}</div>
+                <div className="text-sm text-gray-600">
+                  {holiday.is_recurring
+                    ? `${formatDateKey(holiday.date, 'es-ES', { day: 'numeric', month: 'long' })} · cada año`
+                    : formatDateKey(holiday.date, 'es-ES')}
+                  {' · '}
+                  {departmentNames(holiday.department_ids)}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDeleteHoliday(holiday)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, Plus, Tablet, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { kioskService, type KioskDeviceSummary } from '@/services/kiosk.service';
+import { ROUTES } from '@/lib/constants';
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' }) : 'Nunca';
+
+/**
+ * Terminales de quiosco: tablets compartidas a la entrada donde los
+ * empleados marcan con su código + PIN o con su QR
+ */
+export function KioskConfig() {
+  const [kiosks, setKiosks] = useState<KioskDeviceSummary[]>([]);
+  const [newKioskName, setNewKioskName] = useState('');
+  const [activationUrl, setActivationUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchKiosks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setKiosks(await kioskService.getKiosks());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKiosks();
+  }, [fetchKiosks]);
+
+  const handleCreateKiosk = async () => {
+    setSaving(true);
+    const result = await kioskService.createKiosk(newKioskName);
+    setSaving(false);
+
+    if (!result.success || !result.activationUrl) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setActivationUrl(result.activationUrl);
+    setNewKioskName('');
+    await fetchKiosks();
+  };
+
+  const handleRevokeKiosk = async (kiosk: KioskDeviceSummary) => {
+    if (!confirm(`¿Revocar la terminal "${kiosk.name}"? Dejará de poder registrar marcajes.`)) return;
+
+    const result = await kioskService.revokeKiosk(kiosk.id);
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    await fetchKiosks();
+  };
+
+  const handleCopyUrl = async () => {
+    if (!activationUrl) return;
+    await navigator.clipboard.writeText(activationUrl);
+    alert('✅ Enlace copiado al portapapeles');
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Tablet className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Terminales de Quiosco</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Autoriza una tablet compartida abriendo en ella su enlace de activación.
+        Los empleados marcan en la terminal con su código y PIN o con el QR de
+        su perfil; cada marcaje guarda la terminal, la IP y el navegador usados.
+        Una terminal autorizada también puede mostrar el QR de la oficina en{' '}
+        <span className="font-mono">{ROUTES.OFFICE_QR}</span>.
+      </p>
+
+      {activationUrl && (
+        <div className="p-4 mb-4 bg-yellow-50 border border-yellow-200 rounded space-y-2">
+          <p className="text-sm text-yellow-800 font-medium">
+            Abre este enlace en la terminal para activarla: no se volverá a mostrar
+          </p>
+          <div className="flex gap-2">
+            <Input value={activationUrl} readOnly className="font-mono text-xs" />
+            <Button variant="outline" onClick={handleCopyUrl} className="flex items-center gap-2">
+              <Copy className="w-4 h-4" />
+              Copiar
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setActivationUrl(null)}>
+            Listo
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <Input
+          value={newKioskName}
+          placeholder="Nombre (p. ej. Recepción planta baja)"
+          onChange={(e) => setNewKioskName(e.target.value)}
+        />
+        <Button
+          onClick={handleCreateKiosk}
+          disabled={saving || !newKioskName.trim()}
+          className="flex items-center gap-2 shrink-0"
+        >
+          <Plus className="w-4 h-4" />
+          Autorizar Terminal
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : kiosks.length === 0 ? (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No hay terminales autorizadas
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {kiosks.map((kiosk) => (
+            <div key={kiosk.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {kiosk.name}
+                  <span className="text-xs font-mono text-gray-500">{kiosk.token_prefix}…</span>
+                  {kiosk.revoked_at ? (
+                    <span className="text-xs px-2 py-0.5 rounded bg-red-100 text-red-700">Revocada</span>
+                  ) : (
+                    <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-700">Activa</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Autorizada por {kiosk.creator?.full_name || 'usuario eliminado'} · Última conexión {formatDateTime(kiosk.last_seen_at)}
+                  {kiosk.last_ip_address && ` desde ${kiosk.last_ip_address}`}
+                </div>
+              </div>
+              {!kiosk.revoked_at && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevokeKiosk(kiosk)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
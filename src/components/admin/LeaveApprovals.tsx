@@ -0,0 +1,182 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CalendarCheck, Check, X, RefreshCw } from 'lucide-react';
+import { leaveService } from '@/services/leave.service';
+import { REQUEST_STATUS_CONFIG, LEAVE_TYPE_CONFIG } from '@/lib/constants';
+import { formatDateKey } from '@/lib/timezone';
+import type { LeaveRequest, RequestStatus } from '@/types/database';
+
+interface LeaveApprovalsProps {
+  organizationId: string;
+  approverId: string;
+  /** Limita la bandeja a estos empleados (equipo de un manager) */
+  employeeIds?: string[];
+}
+
+/**
+ * Bandeja de aprobación de permisos y licencias
+ *
+ * Principios aplicados:
+ * - Single Responsibility: Solo revisa solicitudes; la lógica vive en LeaveService
+ */
+export function LeaveApprovals({ organizationId, approverId, employeeIds }: LeaveApprovalsProps) {
+  const [statusFilter, setStatusFilter] = useState<RequestStatus | ''>('pending');
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRequests(await leaveService.getLeaveRequests(organizationId, statusFilter || undefined, employeeIds));
+    } catch (error) {
+      console.error('Error loading leave requests:', error);
+      setRequests([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, statusFilter, employeeIds]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleApprove = async (request: LeaveRequest) => {
+    const notes = prompt('Nota para el empleado (opcional):') ?? undefined;
+
+    setProcessing(request.id);
+    const result = await leaveService.submitApproval(request.id, notes);
+    setProcessing(null);
+
+    alert(result.success ? `✅ ${result.message}` : `❌ ${result.message}`);
+    if (result.success) await loadRequests();
+  };
+
+  const handleReject = async (request: LeaveRequest) => {
+    const reason = prompt('Motivo del rechazo:');
+    if (reason === null) return;
+
+    setProcessing(request.id);
+    const result = await leaveService.rejectLeaveRequest(request.id, approverId, reason);
+    setProcessing(null);
+
+    alert(result.success ? `✅ ${result.message}` : `❌ ${result.message}`);
+    if (result.success) await loadRequests();
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <CalendarCheck className="w-7 h-7 mr-3 text-blue-600" />
+            Permisos y Licencias
+          </h2>
+          <p className="text-gray-600 mt-1">
+            Revisa las solicitudes de vacaciones, enfermedad y días personales
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as RequestStatus | '')}
+            className="p-2 border rounded"
+          >
+            <option value="">Todas</option>
+            {Object.entries(REQUEST_STATUS_CONFIG).map(([status, config]) => (
+              <option key={status} value={status}>{config.label}</option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={loadRequests} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-6">
+        {loading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-8">
+            No hay solicitudes para mostrar
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Empleado</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tipo</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fechas</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Motivo</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {requests.map((request) => (
+                  <tr key={request.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{request.employee?.full_name || 'Empleado'}</div>
+                      <div className="text-xs text-gray-400">{request.employee?.employee_code}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {LEAVE_TYPE_CONFIG[request.leave_type].icon} {LEAVE_TYPE_CONFIG[request.leave_type].label}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                      {formatDateKey(request.start_date, 'es-ES')} – {formatDateKey(request.end_date, 'es-ES')}
+                      <div className="text-xs text-gray-400">{request.days_requested} días</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 max-w-xs">
+                      {request.reason || '-'}
+                      {request.rejection_reason && (
+                        <div className="text-xs text-red-600 mt-1">Rechazo: {request.rejection_reason}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${REQUEST_STATUS_CONFIG[request.status].className}`}>
+                        {REQUEST_STATUS_CONFIG[request.status].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {request.status === 'pending' && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleApprove(request)}
+                            disabled={processing === request.id}
+                          >
+                            <Check className="w-4 h-4 mr-1" />
+                            Aprobar
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReject(request)}
+                            disabled={processing === request.id}
+                          >
+                            <X className="w-4 h-4 mr-1" />
+                            Rechazar
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Repeat, Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { workScheduleService, getSegmentMinutes, type ShiftTemplateFormData } from '@/services/work-schedule.service';
+import type { ShiftSegment, ShiftTemplate, ShiftWeekPattern } from '@/types/database';
+
+interface ShiftTemplateConfigProps {
+  organizationId: string;
+}
+
+const DAY_NAMES = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+/**
+ * Semana de lunes a viernes de 08:00 a 17:00
+ */
+const createDefaultWeek = (): ShiftWeekPattern =>
+  DAY_NAMES.map((_, weekday) => weekday === 0 || weekday === 6 ? [] : [{ start_time: '08:00', end_time: '17:00' }]);
+
+const createEmptyTemplate = (): ShiftTemplateFormData => ({
+  name: '',
+  description: '',
+  weeks: [createDefaultWeek()],
+  break_duration: 60
+});
+
+/**
+ * Plantillas de turno: patrón por día de la semana, tramos múltiples
+ * (turno partido) y ciclo de rotación de varias semanas
+ */
+export function ShiftTemplateConfig({ organizationId }: ShiftTemplateConfigProps) {
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ShiftTemplateFormData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTemplates(await workScheduleService.getShiftTemplates(organizationId));
+    } catch (error) {
+      console.error('Error loading shift templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const updateDay = (weekIndex: number, weekday: number, segments: ShiftSegment[]) => {
+    setForm(prev => prev && {
+      ...prev,
+      weeks: prev.weeks.map((week, index) => index === weekIndex
+        ? week.map((day, dayIndex) => dayIndex === weekday ? segments : day)
+        : week
+      )
+    });
+  };
+
+  const updateSegment = (weekIndex: number, weekday: number, segmentIndex: number, changes: Partial<ShiftSegment>) => {
+    const day = form?.weeks[weekIndex][weekday] || [];
+    updateDay(weekIndex, weekday, day.map((segment, index) => index === segmentIndex ? { ...segment, ...changes } : segment));
+  };
+
+  const handleEdit = (template: ShiftTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      description: template.description || '',
+      weeks: template.weeks,
+      break_duration: template.break_duration
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      alert('❌ El nombre del turno es obligatorio');
+      return;
+    }
+
+    const hasInvalidSegment = form.weeks.some(week =>
+      week.some(day => day.some(segment => !segment.start_time || !segment.end_time || segment.start_time === segment.end_time))
+    );
+    if (hasInvalidSegment) {
+      alert('❌ Cada tramo debe tener hora de inicio y fin distintas');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await workScheduleService.updateShiftTemplate(editingId, form);
+      } else {
+        await workScheduleService.createShiftTemplate(organizationId, form);
+      }
+      alert('✅ Plantilla de turno guardada');
+      handleCancel();
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error saving shift template:', error);
+      alert('❌ Error al guardar la plantilla de turno');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (template: ShiftTemplate) => {
+    if (!confirm(`¿Desactivar el turno "${template.name}"? Las asignaciones existentes se conservan.`)) return;
+
+    try {
+      await workScheduleService.deactivateShiftTemplate(template.id);
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error deactivating shift template:', error);
+      alert('❌ Error al desactivar la plantilla de turno');
+    }
+  };
+
+  const describeWeek = (week: ShiftWeekPattern) => week
+    .map((day, weekday) => day.length === 0
+      ? null
+      : `${DAY_NAMES[weekday]} ${day.map(segment => `${segment.start_time}-${segment.end_time}`).join(' / ')}`)
+    .filter(Boolean)
+    .join(' · ') || 'Sin días laborables';
+
+  const weeklyHours = (week: ShiftWeekPattern, breakDuration: number) => week.reduce((sum, day) => {
+    if (day.length === 0) return sum;
+    const minutes = day.reduce((total, segment) => total + getSegmentMinutes(segment), 0);
+    return sum + Math.max(0, minutes - breakDuration) / 60;
+  }, 0);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          <h3 className="text-lg font-semibold">Plantillas de Turno</h3>
+        </div>
+        {!form && (
+          <Button
+            variant="outline"
+            onClick={() => setForm(createEmptyTemplate())}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Nueva Plantilla
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Define turnos por día de la semana. Un día con varios tramos es un turno partido;
+        con varias semanas el turno rota cada semana desde la fecha de asignación.
+      </p>
+
+      {form && (
+        <div className="p-4 bg-gray-50 rounded space-y-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Input
+              value={form.name}
+              placeholder="Nombre (p. ej. Rotativo mañana/tarde)"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <Input
+              value={form.description || ''}
+              placeholder="Descripción (opcional)"
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-sm whitespace-nowrap">Descanso (min)</label>
+              <Input
+                type="number"
+                min="0"
+                max="180"
+                value={form.break_duration}
+                onChange={(e) => setForm({ ...form, break_duration: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          {form.weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="border rounded bg-white p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-sm">
+                  {form.weeks.length > 1 ? `Semana ${weekIndex + 1} del ciclo` : 'Semana'}
+                </span>
+                {form.weeks.length > 1 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, weeks: form.weeks.filter((_, index) => index !== weekIndex) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {week.map((day, weekday) => (
+                  <div key={weekday} className="flex flex-wrap items-center gap-2">
+                    <span className="w-10 text-sm text-gray-600">{DAY_NAMES[weekday]}</span>
+                    {day.length === 0 && <span className="text-sm text-gray-400">Libre</span>}
+                    {day.map((segment, segmentIndex) => (
+                      <div key={segmentIndex} className="flex items-center gap-1">
+                        <input
+                          type="time"
+                          value={segment.start_time}
+                          className="p-1 border rounded text-sm"
+                          onChange={(e) => updateSegment(weekIndex, weekday, segmentIndex, { start_time: e.target.value })}
+                        />
+                        <span className="text-gray-400">-</span>
+                        <input
+                          type="time"
+                          value={segment.end_time}
+                          className="p-1 border rounded text-sm"
+                          onChange={(e) => updateSegment(weekIndex, weekday, segmentIndex, { end_time: e.target.value })}
+                        />
+                        <button
+                          onClick={() => updateDay(weekIndex, weekday, day.filter((_, index) => index !== segmentIndex))}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Quitar tramo"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => updateDay(weekIndex, weekday, [
+                        ...day,
+                        day.length === 0
+                          ? { start_time: '08:00', end_time: '17:00' }
+                          : { start_time: day[day.length - 1].end_time, end_time: day[day.length - 1].end_time }
+                      ])}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      + tramo
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500 mt-2">
+                {weeklyHours(week, form.break_duration).toFixed(1)} h programadas en la semana
+              </p>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setForm({ ...form, weeks: [...form.weeks, createDefaultWeek()] })}
+              disabled={form.weeks.length >= 8}
+              className="flex items-center gap-2"
+            >
+              <Repeat className="w-4 h-4" />
+              Agregar Semana de Rotación
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Guardando...' : 'Guardar Plantilla'}
+            </Button>
+            <Button variant="outline" onClick={handleCancel}>
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : templates.length === 0 ? (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No hay plantillas de turno: los empleados usan su horario individual o el general
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-start justify-between p-3 bg-gray-50 rounded">
+              <div>
+                <div className="font-medium">
+                  {template.name}
+                  {template.weeks.length > 1 && (
+                    <span className="ml-2 text-xs text-blue-600">Rota cada {template.weeks.length} semanas</span>
+                  )}
+                </div>
+                {template.description && (
+                  <div className="text-sm text-gray-600">{template.description}</div>
+                )}
+                {template.weeks.map((week, weekIndex) => (
+                  <div key={weekIndex} className="text-xs text-gray-500">
+                    {template.weeks.length > 1 && `S${weekIndex + 1}: `}{describeWeek(week)}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleEdit(template)}>
+                  Editar
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleDeactivate(template)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
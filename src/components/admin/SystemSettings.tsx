@@ -14,11 +14,22 @@ import {
   Database,
   Plus,
   Calendar,
-  Users
+  Users,
+  KeyRound
 } from 'lucide-react';
 import { systemConfigService, Department } from '@/services/system-config.service';
 import { EmployeeScheduleConfig } from './EmployeeScheduleConfig';
+import { GeofenceConfig } from './GeofenceConfig';
+import { HolidayCalendarConfig } from './HolidayCalendarConfig';
+import { ShiftTemplateConfig } from './ShiftTemplateConfig';
+import { ApiTokenConfig } from './ApiTokenConfig';
+import { WebhookConfig } from './WebhookConfig';
+import { KioskConfig } from './KioskConfig';
+import type { LeavePolicy, ShiftAutoCloseMode } from '@/types/database';
+import { OFFICE_QR_CONFIG, PERMISSIONS, ROUTES, SHIFT_AUTO_CLOSE_CONFIG } from '@/lib/constants';
 import { useEmployees } from '@/hooks/useEmployees';
+import { usePermission } from '@/hooks/usePermission';
+import { RequirePermission } from '@/components/auth/RequirePermission';
 
 /**
  * Componente de configuración del sistema con datos reales
@@ -29,10 +40,11 @@ import { useEmployees } from '@/hooks/useEmployees';
  * - Data Fetching: Consume datos reales de Supabase
  */
 export function SystemSettings() {
-  const [activeTab, setActiveTab] = useState<'general' | 'policies' | 'schedules'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'policies' | 'schedules' | 'integrations'>('general');
   // Usar organizationId temporal hasta implementar auth context
   const organizationId = '550e8400-e29b-41d4-a716-446655440000';
   const { employees, loading: employeesLoading, refetch: refetchEmployees } = useEmployees(organizationId);
+  const { allowed: canEdit, loading: permissionsLoading } = usePermission(PERMISSIONS.SETTINGS_EDIT);
   const [workingHours, setWorkingHours] = useState({
     startTime: '08:00',
     endTime: '17:00',
@@ -56,22 +68,37 @@ export function SystemSettings() {
     late_threshold: 15,
     max_daily_hours: 8,
     allow_remote: false,
-    require_geolocation: true
+    require_geolocation: true,
+    require_office_qr: false,
+    auto_close_mode: 'disabled' as ShiftAutoCloseMode,
+    auto_close_after_hours: 4
+  });
+
+  // Política de permisos y licencias
+  const [leavePolicy, setLeavePolicy] = useState<LeavePolicy>({
+    annual_vacation_days: 20,
+    annual_sick_days: 10,
+    annual_personal_days: 3,
+    auto_approve: false,
+    require_advance_notice: true,
+    advance_notice_days: 7
   });
 
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true);
-        const [hoursData, deptData, policiesData] = await Promise.all([
+        const [hoursData, deptData, policiesData, leaveData] = await Promise.all([
           systemConfigService.getWorkingHours(organizationId),
           systemConfigService.getDepartments(organizationId),
-          systemConfigService.getCurrentWorkPolicies(organizationId)
+          systemConfigService.getCurrentWorkPolicies(organizationId),
+          systemConfigService.getLeavePolicy(organizationId)
         ]);
 
         setWorkingHours(hoursData);
         setDepartments(deptData);
         setWorkPolicies(policiesData);
+        setLeavePolicy(leaveData);
       } catch (error) {
         console.error('Error fetching settings data:', error);
       } finally {
@@ -109,6 +136,19 @@ export function SystemSettings() {
     }
   };
 
+  const handleSaveLeavePolicy = async () => {
+    try {
+      setSaving('leave');
+      await systemConfigService.updateLeavePolicy(organizationId, leavePolicy);
+      alert('✅ Configuración de permisos actualizada');
+    } catch (error) {
+      console.error('Error saving leave policy:', error);
+      alert('❌ Error al guardar configuración de permisos');
+    } finally {
+      setSaving(null);
+    }
+  };
+
   const handleAddDepartment = async () => {
     if (!newDepartmentName.trim()) return;
 
@@ -225,506 +265,664 @@ export function SystemSettings() {
           <Calendar className="inline h-4 w-4 mr-2" />
           Horarios Individuales
         </button>
+        {canEdit && (
+          <button
+            onClick={() => setActiveTab('integrations')}
+            className={`px-4 py-2 font-medium text-sm rounded-t-lg ${
+              activeTab === 'integrations'
+                ? 'bg-blue-50 text-blue-700 border-b-2 border-blue-500'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <KeyRound className="inline h-4 w-4 mr-2" />
+            Integraciones
+          </button>
+        )}
       </div>
 
-      {/* Contenido de pestañas */}
-      {activeTab === 'general' && (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Horarios de trabajo */}
-        <Card className="p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Clock className="w-5 h-5 mr-2" />
-            Horarios de Trabajo
-          </h3>
+      {!canEdit && !permissionsLoading && (
+        <p className="mb-4 p-3 bg-yellow-50 text-yellow-800 text-sm rounded">
+          Solo lectura: no tienes permiso para modificar la configuración
+        </p>
+      )}
+
+      {/* Contenido de pestañas (deshabilitado sin permiso de edición) */}
+      <fieldset disabled={!canEdit} className="min-w-0">
+        {activeTab === 'general' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Horarios de trabajo */}
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Clock className="w-5 h-5 mr-2" />
+              Horarios de Trabajo
+            </h3>
           
-          <div className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Hora de Entrada
-                </label>
-                <Input
-                  type="time"
-                  value={workingHours.startTime}
-                  onChange={(e) => setWorkingHours({...workingHours, startTime: e.target.value})}
-                />
-              </div>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Hora de Entrada
+                  </label>
+                  <Input
+                    type="time"
+                    value={workingHours.startTime}
+                    onChange={(e) => setWorkingHours({...workingHours, startTime: e.target.value})}
+                  />
+                </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Hora de Salida
-                </label>
-                <Input
-                  type="time"
-                  value={workingHours.endTime}
-                  onChange={(e) => setWorkingHours({...workingHours, endTime: e.target.value})}
-                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Hora de Salida
+                  </label>
+                  <Input
+                    type="time"
+                    value={workingHours.endTime}
+                    onChange={(e) => setWorkingHours({...workingHours, endTime: e.target.value})}
+                  />
+                </div>
               </div>
-            </div>
             
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Inicio de Almuerzo
-                </label>
-                <Input
-                  type="time"
-                  value={workingHours.lunchStart}
-                  onChange={(e) => setWorkingHours({...workingHours, lunchStart: e.target.value})}
-                />
-              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Inicio de Almuerzo
+                  </label>
+                  <Input
+                    type="time"
+                    value={workingHours.lunchStart}
+                    onChange={(e) => setWorkingHours({...workingHours, lunchStart: e.target.value})}
+                  />
+                </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Fin de Almuerzo
-                </label>
-                <Input
-                  type="time"
-                  value={workingHours.lunchEnd}
-                  onChange={(e) => setWorkingHours({...workingHours, lunchEnd: e.target.value})}
-                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Fin de Almuerzo
+                  </label>
+                  <Input
+                    type="time"
+                    value={workingHours.lunchEnd}
+                    onChange={(e) => setWorkingHours({...workingHours, lunchEnd: e.target.value})}
+                  />
+                </div>
               </div>
-            </div>
             
-            <Button 
-              onClick={handleSaveWorkingHours}
-              disabled={saving === 'working-hours'}
-              className="w-full flex items-center justify-center gap-2"
-            >
-              <Save className="w-4 h-4" />
-              {saving === 'working-hours' ? 'Guardando...' : 'Guardar Horarios'}
-            </Button>
-          </div>
-        </Card>
+              <Button 
+                onClick={handleSaveWorkingHours}
+                disabled={saving === 'working-hours'}
+                className="w-full flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {saving === 'working-hours' ? 'Guardando...' : 'Guardar Horarios'}
+              </Button>
+            </div>
+          </Card>
 
-        {/* Notificaciones */}
-        <Card className="p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Bell className="w-5 h-5 mr-2" />
-            Notificaciones
-          </h3>
+          {/* Notificaciones */}
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Bell className="w-5 h-5 mr-2" />
+              Notificaciones
+            </h3>
           
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-gray-700">Alertas por email</span>
-              <input
-                type="checkbox"
-                checked={notifications.emailAlerts}
-                onChange={(e) => setNotifications({...notifications, emailAlerts: e.target.checked})}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-            </div>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">Alertas por email</span>
+                <input
+                  type="checkbox"
+                  checked={notifications.emailAlerts}
+                  onChange={(e) => setNotifications({...notifications, emailAlerts: e.target.checked})}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+              </div>
             
-            <div className="flex items-center justify-between">
-              <span className="text-gray-700">Notificaciones de tardanza</span>
-              <input
-                type="checkbox"
-                checked={notifications.tardyNotifications}
-                onChange={(e) => setNotifications({...notifications, tardyNotifications: e.target.checked})}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-            </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">Notificaciones de tardanza</span>
+                <input
+                  type="checkbox"
+                  checked={notifications.tardyNotifications}
+                  onChange={(e) => setNotifications({...notifications, tardyNotifications: e.target.checked})}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+              </div>
             
-            <div className="flex items-center justify-between">
-              <span className="text-gray-700">Reportes semanales</span>
-              <input
-                type="checkbox"
-                checked={notifications.weeklyReports}
-                onChange={(e) => setNotifications({...notifications, weeklyReports: e.target.checked})}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-            </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">Reportes semanales</span>
+                <input
+                  type="checkbox"
+                  checked={notifications.weeklyReports}
+                  onChange={(e) => setNotifications({...notifications, weeklyReports: e.target.checked})}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+              </div>
             
-            <Button 
-              onClick={handleSaveNotifications}
-              disabled={saving === 'notifications'}
-              className="w-full flex items-center justify-center gap-2"
-            >
-              <Save className="w-4 h-4" />
-              {saving === 'notifications' ? 'Guardando...' : 'Guardar Notificaciones'}
-            </Button>
-          </div>
-        </Card>
-
-        {/* Gestión de Departamentos */}
-        <Card className="p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Building className="w-5 h-5 mr-2" />
-            Gestión de Departamentos
-          </h3>
-          
-          <div className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                placeholder="Nombre del departamento"
-                className="flex-1"
-                value={newDepartmentName}
-                onChange={(e) => setNewDepartmentName(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleAddDepartment()}
-              />
               <Button 
-                onClick={handleAddDepartment}
-                disabled={saving === 'departments' || !newDepartmentName.trim()}
-                className="flex items-center gap-2"
+                onClick={handleSaveNotifications}
+                disabled={saving === 'notifications'}
+                className="w-full flex items-center justify-center gap-2"
               >
-                <Plus className="w-4 h-4" />
-                Agregar
+                <Save className="w-4 h-4" />
+                {saving === 'notifications' ? 'Guardando...' : 'Guardar Notificaciones'}
               </Button>
             </div>
-            
-            <div className="space-y-2 max-h-48 overflow-y-auto">
-              {departments.length === 0 ? (
-                <p className="text-gray-500 text-sm text-center py-4">
-                  No hay departamentos configurados
-                </p>
-              ) : (
-                departments.map((dept) => (
-                  <div key={dept.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
-                    <div>
-                      <span className="font-medium">{dept.name}</span>
-                      <span className="text-gray-500 text-sm ml-2">({dept.code})</span>
-                    </div>
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleEditDepartment(dept)}
-                      disabled={saving === 'departments'}
-                    >
-                      Editar
-                    </Button>
-                  </div>
-                ))
-              )}
-            </div>
-          </div>
-        </Card>
-
-        {/* Configuración de Notificaciones y Alertas */}
-        <Card className="p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Bell className="w-5 h-5 mr-2" />
-            Configuración de Alertas
-          </h3>
-          
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-gray-700">Alertas por retrasos</span>
-              <input
-                type="checkbox"
-                defaultChecked={true}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <span className="text-gray-700">Notificaciones automáticas</span>
-              <input
-                type="checkbox"
-                defaultChecked={true}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <span className="text-gray-700">Reportes de asistencia</span>
-              <input
-                type="checkbox"
-                defaultChecked={false}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-            </div>
-            
-            <Button 
-              onClick={() => alert('Configuración de alertas actualizada')}
-              className="w-full flex items-center justify-center gap-2"
-            >
-              <Save className="w-4 h-4" />
-              Guardar Configuración
-            </Button>
-          </div>
-        </Card>
+          </Card>
 
-        {/* Configuración de Seguridad */}
-        <Card className="p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Shield className="w-5 h-5 mr-2" />
-            Configuración de Seguridad
-          </h3>
+          {/* Gestión de Departamentos */}
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Building className="w-5 h-5 mr-2" />
+              Gestión de Departamentos
+            </h3>
           
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Tiempo de sesión (minutos)
-              </label>
-              <Input
-                type="number"
-                placeholder="60"
-                min="15"
-                max="480"
-                defaultValue="60"
-              />
-            </div>
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Nombre del departamento"
+                  className="flex-1"
+                  value={newDepartmentName}
+                  onChange={(e) => setNewDepartmentName(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && handleAddDepartment()}
+                />
+                <Button 
+                  onClick={handleAddDepartment}
+                  disabled={saving === 'departments' || !newDepartmentName.trim()}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  Agregar
+                </Button>
+              </div>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Intentos de login fallidos
-              </label>
-              <Input
-                type="number"
-                placeholder="3"
-                min="1"
-                max="10"
-                defaultValue="3"
-              />
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {departments.length === 0 ? (
+                  <p className="text-gray-500 text-sm text-center py-4">
+                    No hay departamentos configurados
+                  </p>
+                ) : (
+                  departments.map((dept) => (
+                    <div key={dept.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                      <div>
+                        <span className="font-medium">{dept.name}</span>
+                        <span className="text-gray-500 text-sm ml-2">({dept.code})</span>
+                      </div>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => handleEditDepartment(dept)}
+                        disabled={saving === 'departments'}
+                      >
+                        Editar
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
             </div>
-            
-            <Button 
-              onClick={() => alert('Configuración de seguridad - Funcionalidad en desarrollo')}
-              className="w-full flex items-center justify-center gap-2"
-            >
-              <Save className="w-4 h-4" />
-              Guardar Seguridad
-            </Button>
-          </div>
-        </Card>
-        </div>
-      )}
+          </Card>
 
-      {/* Pestaña de Políticas */}
-      {activeTab === 'policies' && (
-        <div className="space-y-6">
-          {/* Políticas de Asistencia */}
+          {/* Configuración de Notificaciones y Alertas */}
           <Card className="p-6">
-            <div className="flex items-center gap-2 mb-4">
-              <Shield className="h-5 w-5" />
-              <h3 className="text-lg font-semibold">Políticas de Asistencia</h3>
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Tolerancia de llegada tarde (minutos)
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  max="30"
-                  value={workPolicies.late_threshold}
-                  className="w-full p-2 border rounded"
-                  onChange={(e) => {
-                    const value = parseInt(e.target.value) || 0;
-                    setWorkPolicies(prev => ({ ...prev, late_threshold: value }));
-                  }}
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Minutos de tolerancia antes de marcar tardanza
-                </p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Máximo de horas diarias
-                </label>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Bell className="w-5 h-5 mr-2" />
+              Configuración de Alertas
+            </h3>
+          
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">Alertas por retrasos</span>
                 <input
-                  type="number"
-                  min="6"
-                  max="12"
-                  value={workPolicies.max_daily_hours}
-                  className="w-full p-2 border rounded"
-                  onChange={(e) => {
-                    const value = parseInt(e.target.value) || 8;
-                    setWorkPolicies(prev => ({ ...prev, max_daily_hours: value }));
-                  }}
+                  type="checkbox"
+                  defaultChecked={true}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                 />
-                <p className="text-xs text-gray-500 mt-1">
-                  Máximo de horas laborales por día
-                </p>
               </div>
 
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">Notificaciones automáticas</span>
                 <input
                   type="checkbox"
-                  id="remote-work"
-                  checked={workPolicies.allow_remote}
-                  className="rounded"
-                  onChange={(e) => {
-                    setWorkPolicies(prev => ({ ...prev, allow_remote: e.target.checked }));
-                  }}
+                  defaultChecked={true}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                 />
-                <label htmlFor="remote-work" className="text-sm font-medium">
-                  Permitir trabajo remoto
-                </label>
               </div>
 
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">Reportes de asistencia</span>
                 <input
                   type="checkbox"
-                  id="geolocation"
-                  checked={workPolicies.require_geolocation}
-                  className="rounded"
-                  onChange={(e) => {
-                    setWorkPolicies(prev => ({ ...prev, require_geolocation: e.target.checked }));
-                  }}
+                  defaultChecked={false}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                 />
-                <label htmlFor="geolocation" className="text-sm font-medium">
-                  Requerir geolocalización
-                </label>
               </div>
+            
+              <Button 
+                onClick={() => alert('Configuración de alertas actualizada')}
+                className="w-full flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Guardar Configuración
+              </Button>
             </div>
-
-            <Button 
-              onClick={async () => {
-                try {
-                  setSaving('policies');
-                  console.log('Guardando políticas:', workPolicies);
-                  await systemConfigService.updateWorkPolicies(organizationId, workPolicies);
-                  alert('✅ Políticas de asistencia actualizadas correctamente');
-                } catch (error) {
-                  console.error('Error detallado al guardar políticas:', error);
-                  const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
-                  alert(`❌ Error al guardar políticas: ${errorMessage}`);
-                } finally {
-                  setSaving(null);
-                }
-              }}
-              disabled={saving === 'policies'}
-              className="w-full flex items-center justify-center gap-2 mt-4"
-            >
-              <Save className="w-4 h-4" />
-              {saving === 'policies' ? 'Guardando...' : 'Guardar Políticas'}
-            </Button>
           </Card>
 
-          {/* Configuración de Permisos y Licencias */}
+          {/* Configuración de Seguridad */}
           <Card className="p-6">
-            <div className="flex items-center gap-2 mb-4">
-              <Settings className="h-5 w-5" />
-              <h3 className="text-lg font-semibold">Permisos y Licencias</h3>
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Shield className="w-5 h-5 mr-2" />
+              Configuración de Seguridad
+            </h3>
+          
+            <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium mb-1">
-                  Días de vacaciones anuales
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tiempo de sesión (minutos)
                 </label>
-                <input
+                <Input
                   type="number"
+                  placeholder="60"
                   min="15"
-                  max="30"
-                  defaultValue="20"
-                  className="w-full p-2 border rounded"
+                  max="480"
+                  defaultValue="60"
                 />
               </div>
-
+            
               <div>
-                <label className="block text-sm font-medium mb-1">
-                  Días de enfermedad anuales
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Intentos de login fallidos
                 </label>
-                <input
+                <Input
                   type="number"
-                  min="5"
-                  max="15"
-                  defaultValue="10"
-                  className="w-full p-2 border rounded"
+                  placeholder="3"
+                  min="1"
+                  max="10"
+                  defaultValue="3"
                 />
               </div>
+            
+              <Button 
+                onClick={() => alert('Configuración de seguridad - Funcionalidad en desarrollo')}
+                className="w-full flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Guardar Seguridad
+              </Button>
+            </div>
+          </Card>
+          </div>
+        )}
 
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="auto-approve"
-                  defaultChecked={false}
-                  className="rounded"
-                />
-                <label htmlFor="auto-approve" className="text-sm font-medium">
-                  Aprobación automática de permisos
-                </label>
+        {/* Pestaña de Políticas */}
+        {activeTab === 'policies' && (
+          <div className="space-y-6">
+            {/* Políticas de Asistencia */}
+            <Card className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Shield className="h-5 w-5" />
+                <h3 className="text-lg font-semibold">Políticas de Asistencia</h3>
               </div>
 
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="advance-notice"
-                  defaultChecked={true}
-                  className="rounded"
-                />
-                <label htmlFor="advance-notice" className="text-sm font-medium">
-                  Requerir notificación previa
-                </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Tolerancia de llegada tarde (minutos)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="30"
+                    value={workPolicies.late_threshold}
+                    className="w-full p-2 border rounded"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 0;
+                      setWorkPolicies(prev => ({ ...prev, late_threshold: value }));
+                    }}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Minutos de tolerancia antes de marcar tardanza
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Máximo de horas diarias
+                  </label>
+                  <input
+                    type="number"
+                    min="6"
+                    max="12"
+                    value={workPolicies.max_daily_hours}
+                    className="w-full p-2 border rounded"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 8;
+                      setWorkPolicies(prev => ({ ...prev, max_daily_hours: value }));
+                    }}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Máximo de horas laborales por día
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="remote-work"
+                    checked={workPolicies.allow_remote}
+                    className="rounded"
+                    onChange={(e) => {
+                      setWorkPolicies(prev => ({ ...prev, allow_remote: e.target.checked }));
+                    }}
+                  />
+                  <label htmlFor="remote-work" className="text-sm font-medium">
+                    Permitir trabajo remoto
+                  </label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="geolocation"
+                    checked={workPolicies.require_geolocation}
+                    className="rounded"
+                    onChange={(e) => {
+                      setWorkPolicies(prev => ({ ...prev, require_geolocation: e.target.checked }));
+                    }}
+                  />
+                  <label htmlFor="geolocation" className="text-sm font-medium">
+                    Requerir geolocalización
+                  </label>
+                </div>
+
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="office-qr"
+                      checked={workPolicies.require_office_qr}
+                      className="rounded"
+                      onChange={(e) => {
+                        setWorkPolicies(prev => ({ ...prev, require_office_qr: e.target.checked }));
+                      }}
+                    />
+                    <label htmlFor="office-qr" className="text-sm font-medium">
+                      Requerir QR de la oficina
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    La entrada exige escanear el QR que cambia cada {OFFICE_QR_CONFIG.PERIOD_SECONDS} segundos
+                    en la pantalla de la oficina ({ROUTES.OFFICE_QR} en una terminal autorizada).
+                    Prueba la presencia sin GPS
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Turnos sin salida registrada
+                  </label>
+                  <select
+                    value={workPolicies.auto_close_mode}
+                    className="w-full p-2 border rounded"
+                    onChange={(e) => {
+                      setWorkPolicies(prev => ({ ...prev, auto_close_mode: e.target.value as ShiftAutoCloseMode }));
+                    }}
+                  >
+                    {Object.entries(SHIFT_AUTO_CLOSE_CONFIG).map(([mode, config]) => (
+                      <option key={mode} value={mode}>{config.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {SHIFT_AUTO_CLOSE_CONFIG[workPolicies.auto_close_mode].description}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Horas de espera tras la salida programada
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="24"
+                    value={workPolicies.auto_close_after_hours}
+                    disabled={workPolicies.auto_close_mode === 'disabled'}
+                    className="w-full p-2 border rounded disabled:bg-gray-50"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 0;
+                      setWorkPolicies(prev => ({ ...prev, auto_close_after_hours: value }));
+                    }}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Se notifica al empleado y a su manager al cerrar o marcar el turno
+                  </p>
+                </div>
               </div>
-            </div>
 
-            <Button 
-              onClick={() => alert('✅ Configuración de permisos actualizada')}
-              className="w-full flex items-center justify-center gap-2 mt-4"
-            >
-              <Save className="w-4 h-4" />
-              Guardar Configuración
-            </Button>
-          </Card>
-        </div>
-      )}
+              <Button 
+                onClick={async () => {
+                  try {
+                    setSaving('policies');
+                    console.log('Guardando políticas:', workPolicies);
+                    await systemConfigService.updateWorkPolicies(organizationId, workPolicies);
+                    alert('✅ Políticas de asistencia actualizadas correctamente');
+                  } catch (error) {
+                    console.error('Error detallado al guardar políticas:', error);
+                    const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
+                    alert(`❌ Error al guardar políticas: ${errorMessage}`);
+                  } finally {
+                    setSaving(null);
+                  }
+                }}
+                disabled={saving === 'policies'}
+                className="w-full flex items-center justify-center gap-2 mt-4"
+              >
+                <Save className="w-4 h-4" />
+                {saving === 'policies' ? 'Guardando...' : 'Guardar Políticas'}
+              </Button>
+            </Card>
+
+            {/* Geocercas para validar la ubicación de entrada */}
+            <GeofenceConfig organizationId={organizationId} />
 
-      {/* Pestaña de Horarios Individuales */}
-      {activeTab === 'schedules' && (
-        <div className="space-y-6">
-          {employeesLoading ? (
+            {/* Feriados: días no laborables de la organización o de algunos departamentos */}
+            <HolidayCalendarConfig organizationId={organizationId} departments={departments} />
+
+            {/* Configuración de Permisos y Licencias */}
             <Card className="p-6">
               <div className="flex items-center gap-2 mb-4">
-                <Users className="h-5 w-5" />
-                <h3 className="text-lg font-semibold">Cargando empleados...</h3>
+                <Settings className="h-5 w-5" />
+                <h3 className="text-lg font-semibold">Permisos y Licencias</h3>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Días de vacaciones anuales
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="60"
+                    value={leavePolicy.annual_vacation_days}
+                    className="w-full p-2 border rounded"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 0;
+                      setLeavePolicy(prev => ({ ...prev, annual_vacation_days: value }));
+                    }}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Días de enfermedad anuales
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="60"
+                    value={leavePolicy.annual_sick_days}
+                    className="w-full p-2 border rounded"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 0;
+                      setLeavePolicy(prev => ({ ...prev, annual_sick_days: value }));
+                    }}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Días personales anuales
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="30"
+                    value={leavePolicy.annual_personal_days}
+                    className="w-full p-2 border rounded"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 0;
+                      setLeavePolicy(prev => ({ ...prev, annual_personal_days: value }));
+                    }}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Días de anticipación requeridos
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="60"
+                    value={leavePolicy.advance_notice_days}
+                    disabled={!leavePolicy.require_advance_notice}
+                    className="w-full p-2 border rounded disabled:bg-gray-100"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 0;
+                      setLeavePolicy(prev => ({ ...prev, advance_notice_days: value }));
+                    }}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    No aplica a permisos por enfermedad
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="auto-approve"
+                    checked={leavePolicy.auto_approve}
+                    className="rounded"
+                    onChange={(e) => {
+                      setLeavePolicy(prev => ({ ...prev, auto_approve: e.target.checked }));
+                    }}
+                  />
+                  <label htmlFor="auto-approve" className="text-sm font-medium">
+                    Aprobación automática de permisos
+                  </label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="advance-notice"
+                    checked={leavePolicy.require_advance_notice}
+                    className="rounded"
+                    onChange={(e) => {
+                      setLeavePolicy(prev => ({ ...prev, require_advance_notice: e.target.checked }));
+                    }}
+                  />
+                  <label htmlFor="advance-notice" className="text-sm font-medium">
+                    Requerir notificación previa
+                  </label>
+                </div>
               </div>
+
+              <Button 
+                onClick={handleSaveLeavePolicy}
+                disabled={saving === 'leave'}
+                className="w-full flex items-center justify-center gap-2 mt-4"
+              >
+                <Save className="w-4 h-4" />
+                {saving === 'leave' ? 'Guardando...' : 'Guardar Configuración'}
+              </Button>
             </Card>
-          ) : (
-            <EmployeeScheduleConfig 
-              employees={employees || []}
-              systemWorkingHours={workingHours}
-              onUpdate={async () => {
-                // Recargar empleados para mostrar los cambios
-                console.log('Recargando empleados después de actualizar horarios...');
-                await refetchEmployees();
-              }}
-            />
-          )}
-        </div>
-      )}
+          </div>
+        )}
+
+        {/* Pestaña de Horarios Individuales */}
+        {activeTab === 'schedules' && (
+          <div className="space-y-6">
+            {/* Turnos rotativos y partidos */}
+            <ShiftTemplateConfig organizationId={organizationId} />
+
+            {employeesLoading ? (
+              <Card className="p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <Users className="h-5 w-5" />
+                  <h3 className="text-lg font-semibold">Cargando empleados...</h3>
+                </div>
+              </Card>
+            ) : (
+              <EmployeeScheduleConfig 
+                employees={employees || []}
+                organizationId={organizationId}
+                systemWorkingHours={workingHours}
+                onUpdate={async () => {
+                  // Recargar empleados para mostrar los cambios
+                  console.log('Recargando empleados después de actualizar horarios...');
+                  await refetchEmployees();
+                }}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Pestaña de Integraciones: tokens de API, webhooks y terminales de quiosco */}
+        {activeTab === 'integrations' && canEdit && (
+          <div className="space-y-6">
+            <ApiTokenConfig />
+            <WebhookConfig />
+            <KioskConfig />
+          </div>
+        )}
+      </fieldset>
 
       {/* Acciones del sistema */}
-      <Card className="p-6 mt-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-          <Database className="w-5 h-5 mr-2" />
-          Mantenimiento del Sistema
-        </h3>
+      <RequirePermission permission={PERMISSIONS.SETTINGS_SYSTEM}>
+        <Card className="p-6 mt-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <Database className="w-5 h-5 mr-2" />
+            Mantenimiento del Sistema
+          </h3>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center p-4 h-auto"
-            onClick={() => alert('Respaldo de BD - Funcionalidad en desarrollo')}
-          >
-            <Database className="w-6 h-6 mb-2" />
-            <span className="text-sm">Respaldar BD</span>
-          </Button>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Button 
+              variant="outline" 
+              className="flex flex-col items-center p-4 h-auto"
+              onClick={() => alert('Respaldo de BD - Funcionalidad en desarrollo')}
+            >
+              <Database className="w-6 h-6 mb-2" />
+              <span className="text-sm">Respaldar BD</span>
+            </Button>
           
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center p-4 h-auto"
-            onClick={() => alert('Limpieza de logs - Funcionalidad en desarrollo')}
-          >
-            <Settings className="w-6 h-6 mb-2" />
-            <span className="text-sm">Limpiar Logs</span>
-          </Button>
+            <Button 
+              variant="outline" 
+              className="flex flex-col items-center p-4 h-auto"
+              onClick={() => alert('Limpieza de logs - Funcionalidad en desarrollo')}
+            >
+              <Settings className="w-6 h-6 mb-2" />
+              <span className="text-sm">Limpiar Logs</span>
+            </Button>
           
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center p-4 h-auto"
-            onClick={() => alert('Auditoría - Funcionalidad en desarrollo')}
-          >
-            <Shield className="w-6 h-6 mb-2" />
-            <span className="text-sm">Auditoría</span>
-          </Button>
-        </div>
-      </Card>
+            <Button 
+              variant="outline" 
+              className="flex flex-col items-center p-4 h-auto"
+              onClick={() => alert('Auditoría - Funcionalidad en desarrollo')}
+            >
+              <Shield className="w-6 h-6 mb-2" />
+              <span className="text-sm">Auditoría</span>
+            </Button>
+          </div>
+        </Card>
+      </RequirePermission>
     </div>
   );
 }
@@ -0,0 +1,275 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, History, Plus, Trash2, Webhook } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  webhookService,
+  type WebhookDeliverySummary,
+  type WebhookEndpointSummary
+} from '@/services/webhook.service';
+import { WEBHOOK_EVENT_LABELS } from '@/lib/constants';
+import type { WebhookDeliveryStatus, WebhookEventType } from '@/types/database';
+
+const EMPTY_ENDPOINT = { url: '', description: '', events: [] as WebhookEventType[] };
+
+const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEventType[];
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendiente', className: 'bg-yellow-100 text-yellow-700' },
+  succeeded: { label: 'Entregado', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Fallido', className: 'bg-red-100 text-red-700' }
+};
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'medium' }) : '-';
+
+/**
+ * Webhooks salientes de la organización
+ * Cada endpoint recibe los eventos elegidos firmados con HMAC-SHA256
+ */
+export function WebhookConfig() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([]);
+  const [newEndpoint, setNewEndpoint] = useState(EMPTY_ENDPOINT);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<{ endpointId: string; items: WebhookDeliverySummary[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEndpoints(await webhookService.getEndpoints());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setNewEndpoint(prev => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter(item => item !== event)
+        : [...prev.events, event]
+    }));
+  };
+
+  const handleCreateEndpoint = async () => {
+    setSaving(true);
+    const result = await webhookService.createEndpoint(newEndpoint);
+    setSaving(false);
+
+    if (!result.success || !result.secret) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setCreatedSecret(result.secret);
+    setNewEndpoint(EMPTY_ENDPOINT);
+    await fetchEndpoints();
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpointSummary) => {
+    const result = await webhookService.updateEndpoint(endpoint.id, { is_active: !endpoint.is_active });
+    if (!result.success || !result.data) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setEndpoints(prev => prev.map(item => item.id === endpoint.id ? result.data! : item));
+  };
+
+  const handleDeleteEndpoint = async (endpoint: WebhookEndpointSummary) => {
+    if (!confirm(`¿Eliminar el webhook ${endpoint.url}? También se borrará su registro de entregas.`)) return;
+
+    const result = await webhookService.deleteEndpoint(endpoint.id);
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setEndpoints(prev => prev.filter(item => item.id !== endpoint.id));
+    if (deliveries?.endpointId === endpoint.id) setDeliveries(null);
+  };
+
+  const handleShowDeliveries = async (endpoint: WebhookEndpointSummary) => {
+    if (deliveries?.endpointId === endpoint.id) {
+      setDeliveries(null);
+      return;
+    }
+
+    setDeliveries({ endpointId: endpoint.id, items: await webhookService.getDeliveries(endpoint.id) });
+  };
+
+  const handleCopySecret = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    alert('✅ Secreto copiado al portapapeles');
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Webhook className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Webhooks</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Cada evento se envía por POST con el encabezado X-Educa-Signature
+        (sha256=HMAC de &quot;timestamp.cuerpo&quot; con el secreto del endpoint y
+        X-Educa-Timestamp). Las entregas fallidas se reintentan con espera creciente.
+      </p>
+
+      {createdSecret && (
+        <div className="p-4 mb-4 bg-yellow-50 border border-yellow-200 rounded space-y-2">
+          <p className="text-sm text-yellow-800 font-medium">
+            Copia el secreto de firma ahora: no se volverá a mostrar
+          </p>
+          <div className="flex gap-2">
+            <Input value={createdSecret} readOnly className="font-mono text-xs" />
+            <Button variant="outline" onClick={handleCopySecret} className="flex items-center gap-2">
+              <Copy className="w-4 h-4" />
+              Copiar
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setCreatedSecret(null)}>
+            Listo
+          </Button>
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-50 rounded space-y-3 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <Input
+            value={newEndpoint.url}
+            placeholder="https://ejemplo.com/webhooks/asistencia"
+            onChange={(e) => setNewEndpoint(prev => ({ ...prev, url: e.target.value }))}
+          />
+          <Input
+            value={newEndpoint.description}
+            placeholder="Descripción (opcional)"
+            onChange={(e) => setNewEndpoint(prev => ({ ...prev, description: e.target.value }))}
+          />
+        </div>
+
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Eventos</div>
+          <div className="flex flex-wrap gap-3">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={newEndpoint.events.includes(event)}
+                  className="rounded"
+                  onChange={() => toggleEvent(event)}
+                />
+                {WEBHOOK_EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Button
+          onClick={handleCreateEndpoint}
+          disabled={saving || !newEndpoint.url.trim() || newEndpoint.events.length === 0}
+          className="flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Registrar Webhook
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : endpoints.length === 0 ? (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No hay webhooks registrados
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="p-3 bg-gray-50 rounded">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{endpoint.url}</div>
+                  {endpoint.description && (
+                    <div className="text-sm text-gray-600">{endpoint.description}</div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {endpoint.events.map(event => WEBHOOK_EVENT_LABELS[event] || event).join(', ')}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <label className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={endpoint.is_active}
+                      className="rounded"
+                      onChange={() => handleToggleActive(endpoint)}
+                    />
+                    Activo
+                  </label>
+                  <Button variant="outline" size="sm" onClick={() => handleShowDeliveries(endpoint)}>
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDeleteEndpoint(endpoint)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {deliveries?.endpointId === endpoint.id && (
+                <div className="mt-3 border-t pt-3">
+                  {deliveries.items.length === 0 ? (
+                    <p className="text-sm text-gray-500">Sin entregas todavía</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1">Evento</th>
+                          <th>Estado</th>
+                          <th>Intentos</th>
+                          <th>Respuesta</th>
+                          <th>Último intento</th>
+                          <th>Próximo intento</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {deliveries.items.map((delivery) => {
+                          const status = DELIVERY_STATUS_STYLES[delivery.status];
+                          return (
+                            <tr key={delivery.id} className="border-t">
+                              <td className="py-1">{WEBHOOK_EVENT_LABELS[delivery.event] || delivery.event}</td>
+                              <td>
+                                <span className={`px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                              </td>
+                              <td>{delivery.attempts}</td>
+                              <td title={delivery.last_error || undefined}>
+                                {delivery.response_status ?? (delivery.last_error ? 'Error' : '-')}
+                              </td>
+                              <td>{formatDateTime(delivery.last_attempt_at)}</td>
+                              <td>{delivery.status === 'pending' ? formatDateTime(delivery.next_attempt_at) : '-'}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -3,43 +3,91 @@
  * REPORTES AVANZADOS - COMPONENTE PRINCIPAL
  * =============================================
  * 
- * Solo accesible para admin y super_admin
+ * Accesible desde el panel de administración y, limitado a su equipo,
+ * desde el panel del manager
  * Características:
- * - Filtros avanzados
+ * - Filtros avanzados, guardables y compartibles por URL
  * - Múltiples tipos de reportes
- * - Exportación HTML/PDF con plantillas
+ * - Exportación PDF/Excel con plantillas
  * - Estadísticas en tiempo real
+ * - Envío programado de los filtros actuales (solo administración)
  */
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ReportFilters } from './ReportFilters';
 import { ReportStats } from './ReportStats';
 import { ReportTable } from './ReportTable';
 import { ReportExport } from './ReportExport';
+import { ReportPresets } from './ReportPresets';
+import { ScheduledReports } from './ScheduledReports';
 import { useReportData } from '@/hooks/useReportData';
-import type { ReportFilters as IReportFilters } from '@/types/reports.types';
+import type { ReportFilters as IReportFilters, SavedReportFilters } from '@/types/reports.types';
+import { useSessionTimezone } from '@/hooks/useTimezone';
+import {
+  getReportPeriodRange,
+  parseReportFiltersQuery,
+  resolveSavedReportFilters,
+  toReportFiltersQuery
+} from '@/lib/report-filters';
+import { DEFAULT_TIMEZONE } from '@/lib/constants';
 import { 
   FileBarChart, 
   RefreshCw,
   TrendingUp 
 } from 'lucide-react';
 
+interface AdvancedReportsProps {
+  /** Limita el reporte a estos empleados (equipo de un manager) */
+  employeeIds?: string[];
+  /** Muestra los reportes programados de la organización */
+  allowScheduling?: boolean;
+}
+
 /**
  * Componente principal de reportes avanzados
- * Solo para admin/super_admin
  */
-export function AdvancedReports() {
-  const [filters, setFilters] = useState<IReportFilters>({
-    startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 7 días atrás
-    endDate: new Date().toISOString().split('T')[0],
-    reportType: 'general',
-    period: 'week'  // Cambiar a week por defecto
+export function AdvancedReports({ employeeIds, allowScheduling = false }: AdvancedReportsProps = {}) {
+  const timezone = useSessionTimezone();
+  const [filters, setFilters] = useState<IReportFilters>(() => {
+    // Un enlace compartido abre el reporte con sus filtros; si no, la última semana
+    const shared = typeof window !== 'undefined' ? parseReportFiltersQuery(window.location.search) : null;
+    return {
+      ...resolveSavedReportFilters(shared ?? { reportType: 'general', period: 'week' }, DEFAULT_TIMEZONE),
+      employeeIds
+    };
   });
-  
+
+  // Mantener el alcance sincronizado si cambia el equipo
+  useEffect(() => {
+    setFilters((prev: IReportFilters) => ({ ...prev, employeeIds }));
+  }, [employeeIds]);
+
+  // Recalcular el período relativo cuando se conoce la zona horaria de la organización
+  useEffect(() => {
+    setFilters((prev: IReportFilters) => {
+      const range = getReportPeriodRange(prev.period, timezone);
+      return range && (range.startDate !== prev.startDate || range.endDate !== prev.endDate)
+        ? { ...prev, ...range }
+        : prev;
+    });
+  }, [timezone]);
+
+  // Reflejar los filtros en la URL para poder compartir el reporte
+  useEffect(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}?${toReportFiltersQuery(filters)}`);
+  }, [filters]);
+
+  // Al salir de la vista, la URL deja de describir un reporte
+  useEffect(() => {
+    return () => {
+      window.history.replaceState(null, '', window.location.pathname);
+    };
+  }, []);
+
   // Hook personalizado para cargar datos del reporte
   const { data, stats, loading, error, refreshData } = useReportData(filters);
 
@@ -47,6 +95,10 @@ export function AdvancedReports() {
     setFilters((prev: IReportFilters) => ({ ...prev, ...newFilters }));
   };
 
+  const handleApplySavedFilters = (saved: SavedReportFilters) => {
+    setFilters((prev: IReportFilters) => ({ ...resolveSavedReportFilters(saved, timezone), employeeIds: prev.employeeIds }));
+  };
+
   const handleRefresh = async () => {
     await refreshData();
   };
@@ -104,6 +156,11 @@ export function AdvancedReports() {
 
       {/* Filtros Avanzados */}
       <Card className="p-6">
+        <ReportPresets
+          filters={filters}
+          onApply={handleApplySavedFilters}
+          disabled={loading}
+        />
         <ReportFilters
           filters={filters}
           onFiltersChange={handleFiltersChange}
@@ -144,6 +201,9 @@ export function AdvancedReports() {
           disabled={loading || !data?.length}
         />
       </Card>
+
+      {/* Envíos Programados */}
+      {allowScheduling && !employeeIds && <ScheduledReports filters={filters} />}
     </div>
   );
 }
@@ -13,6 +13,9 @@ import { Button } from '@/components/ui/button';
 import { FileText, Download, Settings } from 'lucide-react';
 import type { AttendanceRecord, ReportStats, ReportFilters } from '@/types/reports.types';
 import { ReportExportService, type ExportData, type ExportOptions } from '@/services/report-export.service';
+import { systemConfigService } from '@/services/system-config.service';
+import { webhookService } from '@/services/webhook.service';
+import { METRICS } from '@/lib/constants';
 
 interface ReportExportProps {
   data: AttendanceRecord[];
@@ -33,11 +36,15 @@ export function ReportExport({
 }: ReportExportProps) {
   const [exportLoading, setExportLoading] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<'professional' | 'simple' | 'detailed'>('professional');
+  const [includeCharts, setIncludeCharts] = useState(true);
 
   const handleExport = async (format: 'pdf' | 'excel', template?: 'professional' | 'simple' | 'detailed') => {
     try {
       setExportLoading(true);
       
+      // Las horas del reporte se expresan en la zona horaria de la organización
+      const timezone = await systemConfigService.getCurrentUserTimezone();
+
       // Preparar datos para exportación
       const exportData: ExportData = {
         data,
@@ -47,7 +54,8 @@ export function ReportExport({
           generatedAt: new Date().toISOString(),
           generatedBy: 'Administrador', // TODO: Obtener del contexto de usuario
           reportTitle: generateReportTitle(filters),
-          period: generatePeriodString(filters)
+          period: generatePeriodString(filters),
+          timezone
         }
       };
 
@@ -55,7 +63,7 @@ export function ReportExport({
       const exportOptions: ExportOptions = {
         format,
         template: template || selectedTemplate,
-        includeCharts: true,
+        includeCharts,
         includeStats: true,
         organizationInfo: {
           name: 'Educa-Crea Sistema de Asistencia',
@@ -67,6 +75,16 @@ export function ReportExport({
 
       // Ejecutar exportación
       await ReportExportService.exportReport(exportData, exportOptions);
+
+      // Webhook report_generated para las integraciones de la organización
+      await webhookService.notify({
+        event: METRICS.EVENTS.REPORT_GENERATED,
+        report: filters.reportType,
+        format,
+        date_from: filters.startDate,
+        date_to: filters.endDate,
+        record_count: data.length
+      });
       
       // Notificar al componente padre
       onExport(format);
@@ -153,11 +171,21 @@ export function ReportExport({
             📈 Detallado
           </Button>
         </div>
+        <label className="flex items-center mt-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeCharts && selectedTemplate !== 'simple'}
+            onChange={(e) => setIncludeCharts(e.target.checked)}
+            disabled={isExportDisabled || selectedTemplate === 'simple'}
+            className="mr-2"
+          />
+          Incluir gráficos en el PDF
+        </label>
       </div>
 
       {/* Botones de Exportación */}
       <div className="flex flex-wrap gap-3">
-        {/* PDF Profesional */}
+        {/* PDF con la plantilla seleccionada */}
         <Button
           onClick={() => handleExport('pdf')}
           disabled={isExportDisabled}
@@ -165,10 +193,10 @@ export function ReportExport({
           size="default"
         >
           <FileText className="w-4 h-4 mr-2" />
-          {exportLoading ? 'Generando...' : 'PDF Profesional'}
+          {exportLoading ? 'Generando...' : 'PDF'}
         </Button>
 
-        {/* Excel/CSV */}
+        {/* Excel */}
         <Button
           onClick={() => handleExport('excel')}
           disabled={isExportDisabled}
@@ -177,7 +205,7 @@ export function ReportExport({
           size="default"
         >
           <Download className="w-4 h-4 mr-2" />
-          {exportLoading ? 'Generando...' : 'Excel/CSV'}
+          {exportLoading ? 'Generando...' : 'Excel'}
         </Button>
       </div>
 
@@ -185,7 +213,7 @@ export function ReportExport({
       <div className="text-xs text-gray-500 space-y-1">
         <p><strong>📊 Profesional:</strong> Incluye estadísticas, gráficos y diseño corporativo completo</p>
         <p><strong>📄 Simple:</strong> Solo tabla de datos, ideal para impresión rápida</p>
-        <p><strong>📈 Detallado:</strong> Análisis completo con métricas avanzadas y insights</p>
+        <p><strong>📈 Detallado:</strong> Estadísticas, gráficos y una sección por empleado con sus totales y registros</p>
       </div>
 
       {/* Estado de Exportación */}
@@ -13,6 +13,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { createSupabaseClient } from '@/lib/supabase/client';
 import type { ReportFilters, Employee, Department } from '@/types/reports.types';
+import { useSessionTimezone } from '@/hooks/useTimezone';
+import { getReportPeriodRange } from '@/lib/report-filters';
 import { 
   Calendar, 
   Users, 
@@ -31,6 +33,7 @@ export function ReportFilters({ filters, onFiltersChange, loading }: ReportFilte
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [loadingOptions, setLoadingOptions] = useState(false);
+  const timezone = useSessionTimezone();
 
   // Cargar empleados y departamentos al montar el componente
   useEffect(() => {
@@ -74,35 +77,14 @@ export function ReportFilters({ filters, onFiltersChange, loading }: ReportFilte
       setLoadingOptions(false);
     }
   };
-  const handlePeriodChange = (period: string) => {
-    const today = new Date();
-    let startDate: Date;
-    const endDate = new Date(today);
-    
-    switch (period) {
-      case 'today':
-        startDate = new Date(today);
-        break;
-      case 'week':
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 7);
-        break;
-      case 'month':
-        startDate = new Date(today);
-        startDate.setMonth(today.getMonth() - 1);
-        break;
-      case 'quarter':
-        startDate = new Date(today);
-        startDate.setMonth(today.getMonth() - 3);
-        break;
-      default:
-        return;
-    }
-    
+  const handlePeriodChange = (period: ReportFilters['period']) => {
+    // Rango calculado sobre la fecha de hoy en la zona horaria de la organización
+    const range = getReportPeriodRange(period, timezone);
+    if (!range) return;
+
     onFiltersChange({
       period,
-      startDate: startDate.toISOString().split('T')[0],
-      endDate: endDate.toISOString().split('T')[0]
+      ...range
     });
   };
 
@@ -119,7 +101,8 @@ export function ReportFilters({ filters, onFiltersChange, loading }: ReportFilte
     { value: 'present', label: '✅ Solo Presentes' },
     { value: 'absent', label: '❌ Solo Ausentes' },
     { value: 'incomplete', label: '⚠️ Salida Pendiente' },
-    { value: 'late', label: '⏰ Llegadas Tardías' }
+    { value: 'late', label: '⏰ Llegadas Tardías' },
+    { value: 'leave', label: '🌴 Vacaciones y Permisos' }
   ];
 
   return (
@@ -138,7 +121,7 @@ export function ReportFilters({ filters, onFiltersChange, loading }: ReportFilte
           Período
         </label>
         <div className="flex flex-wrap gap-2">
-          {['today', 'week', 'month', 'quarter', 'custom'].map((period) => (
+          {(['today', 'week', 'month', 'quarter', 'custom'] as const).map((period) => (
             <Button
               key={period}
               variant={filters.period === period ? 'default' : 'outline'}
@@ -219,7 +202,7 @@ export function ReportFilters({ filters, onFiltersChange, loading }: ReportFilte
           <select
             value={filters.status || ''}
             onChange={(e) => onFiltersChange({ 
-              status: e.target.value ? e.target.value as 'present' | 'absent' | 'incomplete' | 'late' : undefined 
+              status: e.target.value ? e.target.value as NonNullable<ReportFilters['status']> : undefined 
             })}
             disabled={loading}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -248,11 +231,13 @@ export function ReportFilters({ filters, onFiltersChange, loading }: ReportFilte
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="">Seleccionar empleado...</option>
-              {employees.map((employee) => (
-                <option key={employee.id} value={employee.id}>
-                  {employee.full_name} ({employee.employee_code})
-                </option>
-              ))}
+              {employees
+                .filter((employee) => !filters.employeeIds || filters.employeeIds.includes(employee.id))
+                .map((employee) => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.full_name} ({employee.employee_code})
+                  </option>
+                ))}
             </select>
           </div>
         </div>
@@ -0,0 +1,168 @@
+/**
+ * =============================================
+ * FILTROS GUARDADOS DE REPORTES
+ * =============================================
+ *
+ * Presets con nombre de los filtros actuales (personales o de la
+ * organización) y enlace para compartir el reporte tal como se ve
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Bookmark, Link, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { usePermissions } from '@/hooks/usePermission';
+import { PERMISSIONS } from '@/lib/constants';
+import { toSavedReportFilters } from '@/lib/report-filters';
+import {
+  reportPresetService,
+  type ReportFilterPresetSummary
+} from '@/services/report-preset.service';
+import type { ReportFilters, SavedReportFilters } from '@/types/reports.types';
+
+interface ReportPresetsProps {
+  filters: ReportFilters;
+  onApply: (filters: SavedReportFilters) => void;
+  disabled?: boolean;
+}
+
+export function ReportPresets({ filters, onApply, disabled = false }: ReportPresetsProps) {
+  const { can } = usePermissions();
+  const [presets, setPresets] = useState<ReportFilterPresetSummary[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const canShare = can(PERMISSIONS.SETTINGS_EDIT);
+  const personalPresets = presets.filter(preset => preset.scope === 'personal');
+  const organizationPresets = presets.filter(preset => preset.scope === 'organization');
+  const selectedPreset = presets.find(preset => preset.id === selectedId);
+
+  const fetchPresets = useCallback(async () => {
+    setPresets(await reportPresetService.getPresets());
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const handleSelectPreset = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find(item => item.id === id);
+    if (preset) onApply(preset.filters);
+  };
+
+  const handleSavePreset = async () => {
+    setSaving(true);
+    const result = await reportPresetService.createPreset(
+      name,
+      shared && canShare ? 'organization' : 'personal',
+      toSavedReportFilters(filters)
+    );
+    setSaving(false);
+
+    if (!result.success || !result.data) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setName('');
+    setShared(false);
+    setPresets(prev => [...prev, result.data!].sort((a, b) => a.name.localeCompare(b.name, 'es')));
+    setSelectedId(result.data.id);
+  };
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset) return;
+    if (!confirm(`¿Eliminar el filtro guardado "${selectedPreset.name}"?`)) return;
+
+    const result = await reportPresetService.deletePreset(selectedPreset.id);
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setPresets(prev => prev.filter(item => item.id !== selectedPreset.id));
+    setSelectedId('');
+  };
+
+  const handleCopyLink = async () => {
+    // La URL ya refleja los filtros actuales (ver AdvancedReports)
+    await navigator.clipboard.writeText(window.location.href);
+    alert('✅ Enlace del reporte copiado al portapapeles');
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3 pb-4 mb-4 border-b">
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <Bookmark className="w-4 h-4 text-blue-600 shrink-0" />
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelectPreset(e.target.value)}
+          disabled={disabled || presets.length === 0}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">
+            {presets.length === 0 ? 'Sin filtros guardados' : 'Aplicar filtros guardados...'}
+          </option>
+          {personalPresets.length > 0 && (
+            <optgroup label="Mis filtros">
+              {personalPresets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {organizationPresets.length > 0 && (
+            <optgroup label="De la organización">
+              {organizationPresets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {selectedPreset?.can_delete && (
+          <Button variant="outline" size="sm" title="Eliminar filtro guardado" onClick={handleDeletePreset}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={name}
+          placeholder="Nombre de los filtros actuales"
+          className="w-56"
+          onChange={(e) => setName(e.target.value)}
+        />
+        {canShare && (
+          <label className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={shared}
+              className="rounded"
+              onChange={(e) => setShared(e.target.checked)}
+            />
+            Compartir con la organización
+          </label>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSavePreset}
+          disabled={saving || !name.trim()}
+          className="flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" />
+          Guardar
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleCopyLink} className="flex items-center gap-2">
+          <Link className="w-4 h-4" />
+          Copiar enlace
+        </Button>
+      </div>
+    </div>
+  );
+}
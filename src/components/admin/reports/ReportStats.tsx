@@ -96,11 +96,15 @@ export function ReportStats({ stats }: ReportStatsProps) {
       {/* Estadísticas adicionales */}
       <div className="md:col-span-2 lg:col-span-3 mt-4 p-4 bg-gray-50 rounded-lg">
         <h4 className="font-semibold text-gray-700 mb-3">📊 Detalles Adicionales</h4>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
           <div className="text-center">
             <div className="font-semibold text-gray-900">{stats.absentDays}</div>
             <div className="text-gray-600">Días Ausentes</div>
           </div>
+          <div className="text-center">
+            <div className="font-semibold text-gray-900">{stats.leaveDays}</div>
+            <div className="text-gray-600">Días de Permiso</div>
+          </div>
           <div className="text-center">
             <div className="font-semibold text-gray-900">{stats.incompleteDays}</div>
             <div className="text-gray-600">Días Incompletos</div>
@@ -12,6 +12,7 @@ import React from 'react';
 import { format, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
 import type { AttendanceRecord, ReportFilters } from '@/types/reports.types';
+import { ATTENDANCE_STATUS, LEAVE_STATUSES } from '@/lib/constants';
 
 interface ReportTableProps {
   data: AttendanceRecord[];
@@ -84,12 +85,16 @@ export function ReportTable({ data, loading, filters }: ReportTableProps) {
                 ? 'complete'
                 : record.clock_in
                 ? 'incomplete'
+                : LEAVE_STATUSES.includes(record.status)
+                ? (record.status === ATTENDANCE_STATUS.SICK_LEAVE ? 'sick_leave' : 'vacation')
                 : 'absent';
 
               const statusConfig = {
                 complete: { text: 'Completo', color: 'bg-green-100 text-green-800' },
                 incomplete: { text: 'Incompleto', color: 'bg-yellow-100 text-yellow-800' },
-                absent: { text: 'Ausente', color: 'bg-red-100 text-red-800' }
+                absent: { text: 'Ausente', color: 'bg-red-100 text-red-800' },
+                vacation: { text: 'Vacaciones', color: 'bg-blue-100 text-blue-800' },
+                sick_leave: { text: 'Incapacidad', color: 'bg-purple-100 text-purple-800' }
               };
 
               return (
@@ -0,0 +1,480 @@
+/**
+ * =============================================
+ * REPORTES PROGRAMADOS
+ * =============================================
+ *
+ * Guarda los filtros actuales de Reportes Avanzados como un reporte que se
+ * genera y entrega solo (diario, semanal o mensual) y muestra el historial
+ * de envíos de cada definición
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, History, Plus, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  reportScheduleService,
+  type ReportRunSummary,
+  type ReportScheduleFormData,
+  type ReportScheduleSummary
+} from '@/services/report-schedule.service';
+import {
+  REPORT_DELIVERY_TRANSPORT_LABELS,
+  REPORT_SCHEDULE_FREQUENCY_LABELS,
+  REPORT_SCHEDULE_PERIOD_LABELS
+} from '@/lib/constants';
+import { formatReportSchedulePeriod } from '@/lib/report-schedules';
+import type {
+  ReportDeliveryTransportType,
+  ReportRunStatus,
+  ReportScheduleFrequency,
+  ReportSchedulePeriod
+} from '@/types/database';
+import type { ReportFilters } from '@/types/reports.types';
+
+interface ScheduledReportsProps {
+  /** Filtros actuales de Reportes Avanzados: se guardan con cada nuevo reporte */
+  filters: ReportFilters;
+}
+
+type ExportTemplate = NonNullable<ReportScheduleFormData['export_options']['template']>;
+
+const EMPTY_SCHEDULE = {
+  name: '',
+  format: 'pdf' as ReportScheduleFormData['export_options']['format'],
+  template: 'professional' as ExportTemplate,
+  includeCharts: true,
+  frequency: 'weekly' as ReportScheduleFrequency,
+  day_of_week: 1,
+  day_of_month: 1,
+  run_hour: 8,
+  period: 'last_week' as ReportSchedulePeriod,
+  transport: 'smtp' as ReportDeliveryTransportType,
+  recipients: ''
+};
+
+// Período que cubre por defecto cada frecuencia
+const DEFAULT_PERIODS: Record<ReportScheduleFrequency, ReportSchedulePeriod> = {
+  daily: 'yesterday',
+  weekly: 'last_week',
+  monthly: 'last_month'
+};
+
+const REPORT_TYPE_LABELS: Record<ReportFilters['reportType'], string> = {
+  general: 'Reporte General',
+  individual: 'Por Empleado',
+  department: 'Por Departamento',
+  attendance: 'Solo Asistencias',
+  punctuality: 'Puntualidad'
+};
+
+const STATUS_LABELS: Record<NonNullable<ReportFilters['status']>, string> = {
+  present: 'Solo Presentes',
+  absent: 'Solo Ausentes',
+  incomplete: 'Salida Pendiente',
+  late: 'Llegadas Tardías',
+  leave: 'Vacaciones y Permisos'
+};
+
+const TEMPLATE_LABELS: Record<ExportTemplate, string> = {
+  professional: 'Profesional',
+  simple: 'Simple',
+  detailed: 'Detallado'
+};
+
+const WEEKDAY_LABELS = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+const RECIPIENT_PLACEHOLDERS: Record<ReportDeliveryTransportType, string> = {
+  smtp: 'rrhh@ejemplo.com, direccion@ejemplo.com',
+  webhook: 'https://ejemplo.com/reportes',
+  directory: 'No necesita destinatarios'
+};
+
+const RUN_STATUS_STYLES: Record<ReportRunStatus, { label: string; className: string }> = {
+  running: { label: 'En curso', className: 'bg-yellow-100 text-yellow-700' },
+  succeeded: { label: 'Enviado', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Fallido', className: 'bg-red-100 text-red-700' }
+};
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * "Semanal · lunes 08:00"
+ */
+const describeTiming = (schedule: Pick<ReportScheduleSummary, 'frequency' | 'run_hour' | 'day_of_week' | 'day_of_month'>) => {
+  const day = schedule.frequency === 'weekly' && schedule.day_of_week != null
+    ? `${WEEKDAY_LABELS[schedule.day_of_week]} `
+    : schedule.frequency === 'monthly' && schedule.day_of_month != null
+      ? `día ${schedule.day_of_month}, `
+      : '';
+  return `${REPORT_SCHEDULE_FREQUENCY_LABELS[schedule.frequency]} · ${day}${formatHour(schedule.run_hour)}`;
+};
+
+const describeFilters = (filters: Pick<ReportFilters, 'reportType' | 'status' | 'employeeId' | 'departmentId'>) => [
+  REPORT_TYPE_LABELS[filters.reportType],
+  filters.status ? STATUS_LABELS[filters.status] : null,
+  filters.reportType === 'individual' && filters.employeeId ? 'empleado seleccionado' : null,
+  filters.reportType === 'department' && filters.departmentId ? 'departamento seleccionado' : null
+].filter(Boolean).join(' · ');
+
+export function ScheduledReports({ filters }: ScheduledReportsProps) {
+  const [schedules, setSchedules] = useState<ReportScheduleSummary[]>([]);
+  const [newSchedule, setNewSchedule] = useState(EMPTY_SCHEDULE);
+  const [runs, setRuns] = useState<{ scheduleId: string; items: ReportRunSummary[] } | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSchedules(await reportScheduleService.getSchedules());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const updateForm = (changes: Partial<typeof EMPTY_SCHEDULE>) => {
+    setNewSchedule(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleCreateSchedule = async () => {
+    const data: ReportScheduleFormData = {
+      name: newSchedule.name,
+      // Las fechas las pone cada envío según el período relativo
+      filters: {
+        reportType: filters.reportType,
+        employeeId: filters.reportType === 'individual' ? filters.employeeId : undefined,
+        departmentId: filters.reportType === 'department' ? filters.departmentId : undefined,
+        status: filters.status
+      },
+      export_options: {
+        format: newSchedule.format,
+        template: newSchedule.format === 'pdf' ? newSchedule.template : undefined,
+        includeCharts: newSchedule.format === 'pdf' && newSchedule.template !== 'simple' && newSchedule.includeCharts,
+        includeStats: true
+      },
+      frequency: newSchedule.frequency,
+      run_hour: newSchedule.run_hour,
+      day_of_week: newSchedule.frequency === 'weekly' ? newSchedule.day_of_week : null,
+      day_of_month: newSchedule.frequency === 'monthly' ? newSchedule.day_of_month : null,
+      period: newSchedule.period,
+      transport: newSchedule.transport,
+      recipients: newSchedule.transport === 'directory'
+        ? []
+        : newSchedule.recipients.split(/[\n,;]/).map(item => item.trim()).filter(Boolean)
+    };
+
+    setSaving(true);
+    const result = await reportScheduleService.createSchedule(data);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setNewSchedule(EMPTY_SCHEDULE);
+    await fetchSchedules();
+  };
+
+  const handleToggleActive = async (schedule: ReportScheduleSummary) => {
+    const result = await reportScheduleService.updateSchedule(schedule.id, { is_active: !schedule.is_active });
+    if (!result.success || !result.data) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setSchedules(prev => prev.map(item => item.id === schedule.id ? result.data! : item));
+  };
+
+  const handleRunNow = async (schedule: ReportScheduleSummary) => {
+    setRunningId(schedule.id);
+    const result = await reportScheduleService.runNow(schedule.id);
+    setRunningId(null);
+
+    alert(result.success ? `✅ ${result.message}` : `❌ ${result.message}`);
+    if (runs?.scheduleId === schedule.id) {
+      setRuns({ scheduleId: schedule.id, items: await reportScheduleService.getRuns(schedule.id) });
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: ReportScheduleSummary) => {
+    if (!confirm(`¿Eliminar el reporte programado "${schedule.name}"? También se borrará su historial de envíos.`)) return;
+
+    const result = await reportScheduleService.deleteSchedule(schedule.id);
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setSchedules(prev => prev.filter(item => item.id !== schedule.id));
+    if (runs?.scheduleId === schedule.id) setRuns(null);
+  };
+
+  const handleShowRuns = async (schedule: ReportScheduleSummary) => {
+    if (runs?.scheduleId === schedule.id) {
+      setRuns(null);
+      return;
+    }
+
+    setRuns({ scheduleId: schedule.id, items: await reportScheduleService.getRuns(schedule.id) });
+  };
+
+  const needsRecipients = newSchedule.transport !== 'directory';
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Reportes Programados</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Se guardan los filtros actuales ({describeFilters(filters)}); las fechas se
+        calculan en cada envío según el período elegido. La hora es la de la organización.
+      </p>
+
+      <div className="p-4 bg-gray-50 rounded space-y-3 mb-4">
+        <Input
+          value={newSchedule.name}
+          placeholder="Nombre (p. ej. Asistencia semanal para dirección)"
+          onChange={(e) => updateForm({ name: e.target.value })}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <select
+            value={newSchedule.frequency}
+            onChange={(e) => {
+              const frequency = e.target.value as ReportScheduleFrequency;
+              updateForm({ frequency, period: DEFAULT_PERIODS[frequency] });
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(REPORT_SCHEDULE_FREQUENCY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+
+          {newSchedule.frequency === 'weekly' && (
+            <select
+              value={newSchedule.day_of_week}
+              onChange={(e) => updateForm({ day_of_week: Number(e.target.value) })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <option key={day} value={day}>{label}</option>
+              ))}
+            </select>
+          )}
+
+          {newSchedule.frequency === 'monthly' && (
+            <select
+              value={newSchedule.day_of_month}
+              onChange={(e) => updateForm({ day_of_month: Number(e.target.value) })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {Array.from({ length: 28 }, (_, index) => index + 1).map(day => (
+                <option key={day} value={day}>Día {day}</option>
+              ))}
+            </select>
+          )}
+
+          <select
+            value={newSchedule.run_hour}
+            onChange={(e) => updateForm({ run_hour: Number(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Array.from({ length: 24 }, (_, hour) => hour).map(hour => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+
+          <select
+            value={newSchedule.period}
+            onChange={(e) => updateForm({ period: e.target.value as ReportSchedulePeriod })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(REPORT_SCHEDULE_PERIOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={newSchedule.format}
+            onChange={(e) => updateForm({ format: e.target.value as typeof EMPTY_SCHEDULE.format })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="pdf">PDF</option>
+            <option value="excel">Excel (XLSX)</option>
+          </select>
+
+          {newSchedule.format === 'pdf' && (
+            <>
+              <select
+                value={newSchedule.template}
+                onChange={(e) => updateForm({ template: e.target.value as ExportTemplate })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {Object.entries(TEMPLATE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={newSchedule.template !== 'simple' && newSchedule.includeCharts}
+                  disabled={newSchedule.template === 'simple'}
+                  className="rounded"
+                  onChange={(e) => updateForm({ includeCharts: e.target.checked })}
+                />
+                Incluir gráficos
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <select
+            value={newSchedule.transport}
+            onChange={(e) => updateForm({ transport: e.target.value as ReportDeliveryTransportType })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(REPORT_DELIVERY_TRANSPORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <Input
+            value={needsRecipients ? newSchedule.recipients : ''}
+            disabled={!needsRecipients}
+            placeholder={RECIPIENT_PLACEHOLDERS[newSchedule.transport]}
+            className="md:col-span-2"
+            onChange={(e) => updateForm({ recipients: e.target.value })}
+          />
+        </div>
+
+        <Button
+          onClick={handleCreateSchedule}
+          disabled={saving || !newSchedule.name.trim() || (needsRecipients && !newSchedule.recipients.trim())}
+          className="flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Programar Reporte
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No hay reportes programados
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="p-3 bg-gray-50 rounded">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{schedule.name}</div>
+                  <div className="text-sm text-gray-600">
+                    {describeTiming(schedule)} · {REPORT_SCHEDULE_PERIOD_LABELS[schedule.period]} ·{' '}
+                    {schedule.export_options.format === 'pdf' ? 'PDF' : 'Excel'}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {describeFilters(schedule.filters)} · {REPORT_DELIVERY_TRANSPORT_LABELS[schedule.transport]}
+                    {schedule.recipients.length > 0 && `: ${schedule.recipients.join(', ')}`}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Próximo envío: {schedule.is_active ? formatDateTime(schedule.next_run_at) : 'en pausa'} ·
+                    Último: {formatDateTime(schedule.last_run_at)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <label className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={schedule.is_active}
+                      className="rounded"
+                      onChange={() => handleToggleActive(schedule)}
+                    />
+                    Activo
+                  </label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title="Enviar ahora"
+                    disabled={runningId !== null}
+                    onClick={() => handleRunNow(schedule)}
+                  >
+                    <Send className={`w-4 h-4 ${runningId === schedule.id ? 'animate-pulse' : ''}`} />
+                  </Button>
+                  <Button variant="outline" size="sm" title="Historial" onClick={() => handleShowRuns(schedule)}>
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" title="Eliminar" onClick={() => handleDeleteSchedule(schedule)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {runs?.scheduleId === schedule.id && (
+                <div className="mt-3 border-t pt-3">
+                  {runs.items.length === 0 ? (
+                    <p className="text-sm text-gray-500">Sin envíos todavía</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1">Inicio</th>
+                          <th>Origen</th>
+                          <th>Período</th>
+                          <th>Estado</th>
+                          <th>Registros</th>
+                          <th>Detalle</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {runs.items.map((run) => {
+                          const status = RUN_STATUS_STYLES[run.status];
+                          return (
+                            <tr key={run.id} className="border-t align-top">
+                              <td className="py-1">{formatDateTime(run.started_at)}</td>
+                              <td>{run.trigger === 'manual' ? 'Manual' : 'Programado'}</td>
+                              <td>{formatReportSchedulePeriod(run.period_start, run.period_end)}</td>
+                              <td>
+                                <span className={`px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                              </td>
+                              <td>{run.record_count ?? '-'}</td>
+                              <td className={`break-all ${run.status === 'failed' ? 'text-red-600' : ''}`} title={run.file_name || undefined}>
+                                {run.status === 'failed' ? run.error : run.delivery_detail || '-'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -9,12 +9,19 @@
  * Responsabilidades:
  * - Mostrar fecha y hora en tiempo real
  * - Formatear correctamente según localización
+ * - Mostrar el descanso en curso con su cronómetro
+ * - Escanear el QR de la oficina al registrar la entrada (si la política lo exige)
+ * - Indicar si no hay conexión y cuántos marcajes esperan sincronización
  * - Optimizar renders con useMemo y useCallback
  */
 
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { getBreakElapsedSeconds } from '@/services/attendance.service';
+import { QrScanner } from './QrScanner';
+import { BREAK_TYPE_CONFIG } from '@/lib/constants';
+import type { BreakRecord } from '@/types/database';
 
 interface AttendanceClockProps {
   /** Zona horaria a usar (por defecto: sistema) */
@@ -23,10 +30,32 @@ interface AttendanceClockProps {
   format24h?: boolean;
   /** Localización para formateo de fechas */
   locale?: string;
+  /** Descanso en curso (muestra un cronómetro si existe) */
+  activeBreak?: BreakRecord | null;
+  /** Sin conexión: los marcajes se guardan en el dispositivo */
+  isOffline?: boolean;
+  /** Marcajes guardados sin conexión pendientes de sincronizar */
+  pendingSyncCount?: number;
+  /** Muestra el escáner del QR de la oficina bajo el reloj */
+  scanOfficeQr?: boolean;
+  /** Código leído del QR de la oficina */
+  onOfficeQrScan?: (code: string) => void;
+  /** Cierra el escáner sin registrar la entrada */
+  onCancelOfficeQrScan?: () => void;
   /** Clases CSS adicionales */
   className?: string;
 }
 
+/**
+ * Formatea segundos como HH:MM:SS
+ */
+export function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(value => value.toString().padStart(2, '0')).join(':');
+}
+
 /**
  * Componente de reloj para el sistema de asistencias
  */
@@ -34,6 +63,12 @@ export const AttendanceClock: React.FC<AttendanceClockProps> = ({
   timezone,
   format24h = true,
   locale = 'es-MX',
+  activeBreak = null,
+  isOffline = false,
+  pendingSyncCount = 0,
+  scanOfficeQr = false,
+  onOfficeQrScan,
+  onCancelOfficeQrScan,
   className = ''
 }) => {
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -73,6 +108,11 @@ export const AttendanceClock: React.FC<AttendanceClockProps> = ({
     return currentTime.toLocaleDateString(locale, options);
   }, [currentTime, locale, timezone]);
 
+  // Cronómetro del descanso en curso (se recalcula en cada tick)
+  const breakElapsed = activeBreak
+    ? formatElapsed(getBreakElapsedSeconds(activeBreak))
+    : null;
+
   return (
     <div className={`text-center ${className}`}>
       <div className="space-y-2">
@@ -82,6 +122,42 @@ export const AttendanceClock: React.FC<AttendanceClockProps> = ({
         <div className="text-lg text-gray-600 capitalize">
           {formattedDate}
         </div>
+        {activeBreak && breakElapsed && (
+          <div className="mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-yellow-100 text-yellow-800">
+            <span>{BREAK_TYPE_CONFIG[activeBreak.type].icon}</span>
+            <span className="text-sm font-medium">
+              {BREAK_TYPE_CONFIG[activeBreak.type].label}
+            </span>
+            <span className="font-mono font-semibold">{breakElapsed}</span>
+          </div>
+        )}
+        {(isOffline || pendingSyncCount > 0) && (
+          <div className={`mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm ${
+            isOffline ? 'bg-gray-100 text-gray-700' : 'bg-blue-100 text-blue-800'
+          }`}>
+            <span>{isOffline ? '📴' : '🔄'}</span>
+            <span>
+              {isOffline ? 'Sin conexión' : 'Sincronizando'}
+              {pendingSyncCount > 0 && ` · ${pendingSyncCount} ${pendingSyncCount === 1 ? 'marcaje pendiente' : 'marcajes pendientes'}`}
+            </span>
+          </div>
+        )}
+        {scanOfficeQr && onOfficeQrScan && (
+          <div className="mt-4 space-y-2 text-left">
+            <p className="text-sm text-gray-600 text-center">
+              Escanea el código QR de la pantalla de la oficina para registrar tu entrada
+            </p>
+            <QrScanner onScan={onOfficeQrScan} placeholder="Apunta la cámara al QR de la oficina" />
+            {onCancelOfficeQrScan && (
+              <button
+                onClick={onCancelOfficeQrScan}
+                className="w-full py-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                Cancelar
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
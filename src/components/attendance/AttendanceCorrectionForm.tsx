@@ -0,0 +1,157 @@
+/**
+ * =============================================
+ * ATTENDANCE CORRECTION FORM COMPONENT
+ * =============================================
+ *
+ * Descripción: Formulario para solicitar la corrección de un día pasado
+ *
+ * Responsabilidades:
+ * - Precargar las horas registradas en la zona de la organización
+ * - Convertir las horas propuestas a instantes UTC
+ * - Exigir una nota explicativa (employee_notes)
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { Attendance } from '@/types/database';
+import type { CorrectionRequestFormData, CorrectionResponse } from '@/services/attendance-correction.service';
+import { DEFAULT_TIMEZONE } from '@/lib/constants';
+import {
+  addDaysToDateKey,
+  getTimeInTimezone,
+  getTodayInTimezone,
+  zonedDateTimeToISO
+} from '@/lib/timezone';
+
+interface AttendanceCorrectionFormProps {
+  /** Registro a corregir (si existe) */
+  attendance?: Attendance | null;
+  /** Zona horaria de la organización */
+  timezone?: string;
+  /** Estado de carga para el envío */
+  isProcessing?: boolean;
+  /** Envía la solicitud */
+  onSubmit: (data: CorrectionRequestFormData) => Promise<CorrectionResponse>;
+  /** Cierra el formulario */
+  onCancel: () => void;
+}
+
+/**
+ * Formulario de solicitud de corrección de asistencia
+ */
+export const AttendanceCorrectionForm: React.FC<AttendanceCorrectionFormProps> = ({
+  attendance,
+  timezone = DEFAULT_TIMEZONE,
+  isProcessing = false,
+  onSubmit,
+  onCancel
+}) => {
+  const yesterday = addDaysToDateKey(getTodayInTimezone(timezone), -1);
+  const [date, setDate] = useState(attendance?.attendance_date || yesterday);
+  const [checkIn, setCheckIn] = useState(
+    attendance?.check_in_time ? getTimeInTimezone(attendance.check_in_time, timezone) : ''
+  );
+  const [checkOut, setCheckOut] = useState(
+    attendance?.check_out_time ? getTimeInTimezone(attendance.check_out_time, timezone) : ''
+  );
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // Una salida anterior a la entrada corresponde al día siguiente (turno nocturno)
+    const checkOutDate = checkIn && checkOut && checkOut <= checkIn ? addDaysToDateKey(date, 1) : date;
+
+    const result = await onSubmit({
+      attendance_date: date,
+      proposed_check_in_time: checkIn ? zonedDateTimeToISO(date, checkIn, timezone) : null,
+      proposed_check_out_time: checkOut ? zonedDateTimeToISO(checkOutDate, checkOut, timezone) : null,
+      employee_notes: notes
+    });
+
+    if (!result.success) {
+      setError(result.message);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-blue-200 p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Solicitar corrección</h3>
+
+      {error && (
+        <div className="px-4 py-3 rounded-lg border bg-red-50 border-red-200 text-red-800">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+          <input
+            type="date"
+            required
+            max={yesterday}
+            value={date}
+            disabled={!!attendance}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg disabled:bg-gray-50"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Entrada</label>
+          <input
+            type="time"
+            value={checkIn}
+            onChange={(e) => setCheckIn(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Salida</label>
+          <input
+            type="time"
+            value={checkOut}
+            onChange={(e) => setCheckOut(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+        <textarea
+          rows={2}
+          required
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Ej.: olvidé registrar mi salida"
+          className="w-full p-2 border border-gray-300 rounded-lg"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isProcessing}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isProcessing ? 'Enviando...' : 'Enviar Solicitud'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AttendanceCorrectionForm;
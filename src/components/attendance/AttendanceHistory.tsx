@@ -11,12 +11,15 @@
  * - Filtros por fecha, estado, etc.
  * - Vista tabular responsive
  * - Cálculo de estadísticas básicas
+ * - Acción opcional para solicitar corrección de días pasados
  */
 
 'use client';
 
 import React, { useMemo, useState } from 'react';
 import type { Attendance } from '@/types/database';
+import { DEFAULT_TIMEZONE, PUNCTUAL_STATUSES } from '@/lib/constants';
+import { formatDateKey, formatTimeInTimezone, getTodayInTimezone } from '@/lib/timezone';
 
 interface AttendanceHistoryProps {
   /** Array de registros de asistencia */
@@ -29,6 +32,10 @@ interface AttendanceHistoryProps {
   onRefresh?: () => void;
   /** Número de elementos por página */
   pageSize?: number;
+  /** Zona horaria de la organización */
+  timezone?: string;
+  /** Solicitar corrección de un día pasado (muestra la columna de acciones) */
+  onRequestCorrection?: (attendance: Attendance) => void;
   /** Clases CSS adicionales */
   className?: string;
 }
@@ -49,22 +56,15 @@ class AttendanceHistoryUtils {
   /**
    * Formatea una fecha ISO para mostrar
    */
-  static formatDate(isoString: string): string {
-    return new Date(isoString).toLocaleDateString('es-MX', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric'
-    });
+  static formatDate(dateKey: string): string {
+    return formatDateKey(dateKey, 'es-MX');
   }
 
   /**
    * Formatea una hora ISO para mostrar
    */
-  static formatTime(isoString: string): string {
-    return new Date(isoString).toLocaleTimeString('es-MX', {
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  static formatTime(isoString: string, timezone: string): string {
+    return formatTimeInTimezone(isoString, timezone);
   }
 
   /**
@@ -87,7 +87,10 @@ class AttendanceHistoryUtils {
   static getStatusColor(status: string): string {
     const statusColors: Record<string, string> = {
       'present': 'bg-green-100 text-green-800',
+      'on_time': 'bg-green-100 text-green-800',
       'late': 'bg-yellow-100 text-yellow-800',
+      'early_departure': 'bg-orange-100 text-orange-800',
+      'overtime': 'bg-indigo-100 text-indigo-800',
       'absent': 'bg-red-100 text-red-800',
       'half_day': 'bg-blue-100 text-blue-800',
       'sick_leave': 'bg-purple-100 text-purple-800'
@@ -102,7 +105,10 @@ class AttendanceHistoryUtils {
   static translateStatus(status: string): string {
     const statusTranslations: Record<string, string> = {
       'present': 'Presente',
+      'on_time': 'A tiempo',
       'late': 'Tardanza',
+      'early_departure': 'Salida temprana',
+      'overtime': 'Tiempo extra',
       'absent': 'Ausente',
       'half_day': 'Medio día',
       'sick_leave': 'Permiso médico'
@@ -144,6 +150,8 @@ export const AttendanceHistory: React.FC<AttendanceHistoryProps> = ({
   loading = false,
   onRefresh,
   pageSize = 10,
+  timezone = DEFAULT_TIMEZONE,
+  onRequestCorrection,
   className = ''
 }) => {
   const [filters, setFilters] = useState<HistoryFilters>({});
@@ -161,11 +169,12 @@ export const AttendanceHistory: React.FC<AttendanceHistoryProps> = ({
   }, [filteredAttendances, currentPage, pageSize]);
 
   const totalPages = Math.ceil(filteredAttendances.length / pageSize);
+  const today = getTodayInTimezone(timezone);
 
   // Estadísticas básicas
   const stats = useMemo(() => {
     const total = filteredAttendances.length;
-    const present = filteredAttendances.filter(a => a.status === 'present').length;
+    const present = filteredAttendances.filter(a => PUNCTUAL_STATUSES.includes(a.status)).length;
     const late = filteredAttendances.filter(a => a.status === 'late').length;
     const absent = filteredAttendances.filter(a => a.status === 'absent').length;
 
@@ -287,12 +296,17 @@ export const AttendanceHistory: React.FC<AttendanceHistoryProps> = ({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Estado
               </th>
+              {onRequestCorrection && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Acciones
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {paginatedAttendances.length === 0 ? (
               <tr>
-                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                <td colSpan={onRequestCorrection ? 6 : 5} className="px-6 py-8 text-center text-gray-500">
                   <div className="text-4xl mb-2">📅</div>
                   <p>No hay registros de asistencia para mostrar</p>
                 </td>
@@ -305,13 +319,13 @@ export const AttendanceHistory: React.FC<AttendanceHistoryProps> = ({
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {attendance.check_in_time 
-                      ? AttendanceHistoryUtils.formatTime(attendance.check_in_time)
+                      ? AttendanceHistoryUtils.formatTime(attendance.check_in_time, timezone)
                       : '--:--'
                     }
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {attendance.check_out_time 
-                      ? AttendanceHistoryUtils.formatTime(attendance.check_out_time)
+                      ? AttendanceHistoryUtils.formatTime(attendance.check_out_time, timezone)
                       : '--:--'
                     }
                   </td>
@@ -328,6 +342,18 @@ export const AttendanceHistory: React.FC<AttendanceHistoryProps> = ({
                       {AttendanceHistoryUtils.translateStatus(attendance.status)}
                     </span>
                   </td>
+                  {onRequestCorrection && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {attendance.attendance_date < today && (
+                        <button
+                          onClick={() => onRequestCorrection(attendance)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Solicitar corrección
+                        </button>
+                      )}
+                    </td>
+                  )}
                 </tr>
               ))
             )}
@@ -8,15 +8,24 @@
  * 
  * Responsabilidades:
  * - Mostrar entrada y salida del día
- * - Calcular horas trabajadas
+ * - Calcular horas trabajadas (descontando descansos)
+ * - Mostrar el descanso en curso con su cronómetro
  * - Mostrar estado visual apropiado
  * - Botones de acción contextual
  */
 
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import type { Attendance } from '@/types/database';
+import { BREAK_TYPE_CONFIG, DEFAULT_TIMEZONE } from '@/lib/constants';
+import { formatTimeInTimezone } from '@/lib/timezone';
+import {
+  calculateBreakMinutes,
+  getActiveBreak,
+  getBreakElapsedSeconds
+} from '@/services/attendance.service';
+import { formatElapsed } from './AttendanceClock';
 
 interface AttendanceStatusCardProps {
   /** Registro de asistencia del día actual */
@@ -27,6 +36,8 @@ interface AttendanceStatusCardProps {
   onCheckOut: () => void;
   /** Estado de carga para operaciones */
   isProcessing: boolean;
+  /** Zona horaria de la organización */
+  timezone?: string;
   /** Clases CSS adicionales */
   className?: string;
 }
@@ -38,33 +49,30 @@ class AttendanceStatusStrategy {
   /**
    * Calcula las horas trabajadas entre entrada y salida
    */
-  static calculateWorkedHours(checkIn: string, checkOut?: string): number {
+  static calculateWorkedHours(checkIn: string, checkOut?: string, breakMinutes: number = 0): number {
     if (!checkOut) return 0;
     
     const startTime = new Date(checkIn);
     const endTime = new Date(checkOut);
-    const diffMs = endTime.getTime() - startTime.getTime();
+    const diffMs = endTime.getTime() - startTime.getTime() - breakMinutes * 60000;
     
-    return Math.round((diffMs / (1000 * 60 * 60)) * 100) / 100; // Redondear a 2 decimales
+    return Math.max(0, Math.round((diffMs / (1000 * 60 * 60)) * 100) / 100); // Redondear a 2 decimales
   }
 
   /**
    * Formatea el tiempo para mostrar
    */
-  static formatDisplayTime(isoString: string): string {
-    return new Date(isoString).toLocaleTimeString('es-MX', {
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  static formatDisplayTime(isoString: string, timezone: string): string {
+    return formatTimeInTimezone(isoString, timezone);
   }
 
   /**
    * Determina el estado visual de la asistencia
    */
   static getAttendanceStatus(attendance: Attendance | null): {
-    status: 'not-started' | 'in-progress' | 'completed';
+    status: 'not-started' | 'in-progress' | 'on-break' | 'completed';
     message: string;
-    color: 'gray' | 'blue' | 'green';
+    color: 'gray' | 'blue' | 'yellow' | 'green';
   } {
     if (!attendance || !attendance.check_in_time) {
       return {
@@ -74,6 +82,14 @@ class AttendanceStatusStrategy {
       };
     }
 
+    if (!attendance.check_out_time && getActiveBreak(attendance.breaks)) {
+      return {
+        status: 'on-break',
+        message: 'Descanso en curso',
+        color: 'yellow'
+      };
+    }
+
     if (!attendance.check_out_time) {
       return {
         status: 'in-progress',
@@ -98,6 +114,7 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
   onCheckIn,
   onCheckOut,
   isProcessing,
+  timezone = DEFAULT_TIMEZONE,
   className = ''
 }) => {
   // Calcular estado usando la estrategia
@@ -106,12 +123,30 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
     [todayAttendance]
   );
 
+  const activeBreak = useMemo(() => 
+    getActiveBreak(todayAttendance?.breaks),
+    [todayAttendance]
+  );
+
+  // Tick por segundo solo mientras haya un descanso en curso
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!activeBreak) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [activeBreak]);
+
+  const breakElapsed = activeBreak
+    ? formatElapsed(getBreakElapsedSeconds(activeBreak))
+    : null;
+
   // Calcular horas trabajadas
   const workedHours = useMemo(() => {
     if (!todayAttendance?.check_in_time) return 0;
     return AttendanceStatusStrategy.calculateWorkedHours(
       todayAttendance.check_in_time,
-      todayAttendance.check_out_time || undefined
+      todayAttendance.check_out_time || undefined,
+      todayAttendance.break_duration ?? calculateBreakMinutes(todayAttendance.breaks)
     );
   }, [todayAttendance]);
 
@@ -146,21 +181,38 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
         );
 
       case 'in-progress':
+      case 'on-break':
       case 'completed':
         return (
           <div className="space-y-6">
             {/* Estado visual */}
             <div className="text-center">
               <div className="text-4xl mb-2">
-                {attendanceStatus.status === 'in-progress' ? '⏱️' : '✅'}
+                {attendanceStatus.status === 'in-progress' ? '⏱️' : 
+                 attendanceStatus.status === 'on-break' ? '⏸️' : '✅'}
               </div>
               <p className={`text-sm font-medium ${
-                attendanceStatus.color === 'blue' ? 'text-blue-600' : 'text-green-600'
+                attendanceStatus.color === 'blue' ? 'text-blue-600' :
+                attendanceStatus.color === 'yellow' ? 'text-yellow-600' : 'text-green-600'
               }`}>
                 {attendanceStatus.message}
               </p>
             </div>
 
+            {/* Descanso en curso */}
+            {activeBreak && breakElapsed && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="text-center">
+                  <div className="text-sm font-medium text-yellow-800 mb-1">
+                    {BREAK_TYPE_CONFIG[activeBreak.type].icon} {BREAK_TYPE_CONFIG[activeBreak.type].label}
+                  </div>
+                  <div className="text-2xl font-bold font-mono text-yellow-900">
+                    {breakElapsed}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Información de tiempos */}
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -168,7 +220,7 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
                   <div className="text-sm font-medium text-green-800 mb-1">Entrada</div>
                   <div className="text-xl font-bold text-green-900">
                     {todayAttendance?.check_in_time 
-                      ? AttendanceStatusStrategy.formatDisplayTime(todayAttendance.check_in_time)
+                      ? AttendanceStatusStrategy.formatDisplayTime(todayAttendance.check_in_time, timezone)
                       : '--:--'
                     }
                   </div>
@@ -180,7 +232,7 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
                   <div className="text-sm font-medium text-blue-800 mb-1">Salida</div>
                   <div className="text-xl font-bold text-blue-900">
                     {todayAttendance?.check_out_time 
-                      ? AttendanceStatusStrategy.formatDisplayTime(todayAttendance.check_out_time)
+                      ? AttendanceStatusStrategy.formatDisplayTime(todayAttendance.check_out_time, timezone)
                       : '--:--'
                     }
                   </div>
@@ -201,7 +253,7 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
             )}
 
             {/* Botón de acción */}
-            {attendanceStatus.status === 'in-progress' && (
+            {(attendanceStatus.status === 'in-progress' || attendanceStatus.status === 'on-break') && (
               <button
                 onClick={onCheckOut}
                 disabled={isProcessing}
@@ -238,7 +290,8 @@ export const AttendanceStatusCard: React.FC<AttendanceStatusCardProps> = ({
           {new Date().toLocaleDateString('es-MX', {
             weekday: 'long',
             day: 'numeric',
-            month: 'long'
+            month: 'long',
+            timeZone: timezone
           })}
         </p>
       </div>
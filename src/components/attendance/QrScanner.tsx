@@ -0,0 +1,135 @@
+/**
+ * =============================================
+ * QR SCANNER COMPONENT
+ * =============================================
+ *
+ * Descripción: Lectura de códigos QR rotativos
+ * - QR del empleado en la terminal de quiosco (cámara frontal)
+ * - QR de la oficina al registrar la entrada (cámara trasera del móvil)
+ *
+ * Usa la cámara con BarcodeDetector (navegadores Chromium); como alternativa,
+ * un lector de códigos USB/Bluetooth escribe el código y pulsa Enter en el campo
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface QrScannerProps {
+  /** Se llama una vez con el primer código leído */
+  onScan: (code: string) => void;
+  /** Cámara a usar: frontal (terminal) o trasera (móvil) */
+  facingMode?: 'user' | 'environment';
+  /** Texto del campo para lectores de códigos */
+  placeholder?: string;
+  /** Mantener el foco en el campo (terminales con lector de códigos) */
+  keepFocus?: boolean;
+}
+
+// BarcodeDetector aún no está en lib.dom de TypeScript
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+/**
+ * Lector de QR con cámara o lector de códigos
+ */
+export function QrScanner({
+  onScan,
+  facingMode = 'environment',
+  placeholder = 'Apunta la cámara al código QR',
+  keepFocus = false
+}: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const scannedRef = useRef(false);
+  const [manualCode, setManualCode] = useState('');
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError('Este navegador no puede leer códigos QR con la cámara');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode } });
+        if (cancelled || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        interval = setInterval(async () => {
+          if (!videoRef.current || scannedRef.current) return;
+          const [barcode] = await detector.detect(videoRef.current).catch(() => []);
+          if (barcode?.rawValue && !scannedRef.current) {
+            scannedRef.current = true;
+            onScan(barcode.rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error abriendo la cámara:', error);
+        setCameraError('No se pudo acceder a la cámara');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onScan, facingMode]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim() || scannedRef.current) return;
+    scannedRef.current = true;
+    onScan(manualCode.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      {cameraError ? (
+        <p className="text-center text-sm text-gray-500">{cameraError}</p>
+      ) : (
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className="w-full max-w-md mx-auto rounded-xl bg-black aspect-video object-cover"
+        />
+      )}
+
+      <form onSubmit={handleManualSubmit}>
+        <input
+          autoFocus={keepFocus}
+          value={manualCode}
+          onChange={(e) => setManualCode(e.target.value)}
+          onBlur={keepFocus ? (e) => e.target.focus() : undefined}
+          placeholder={placeholder}
+          className="w-full border border-gray-300 rounded-lg px-4 py-3 text-center text-sm"
+        />
+      </form>
+    </div>
+  );
+}
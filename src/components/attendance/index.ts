@@ -11,8 +11,11 @@
 export { AttendanceClock } from './AttendanceClock';
 export { AttendanceStatusCard } from './AttendanceStatusCard';
 export { AttendanceHistory } from './AttendanceHistory';
+export { AttendanceCorrectionForm } from './AttendanceCorrectionForm';
+export { QrScanner } from './QrScanner';
 
 // Re-exportar tipos si es necesario
 export type { default as AttendanceClockProps } from './AttendanceClock';
 export type { default as AttendanceStatusCardProps } from './AttendanceStatusCard';
 export type { default as AttendanceHistoryProps } from './AttendanceHistory';
+export type { default as AttendanceCorrectionFormProps } from './AttendanceCorrectionForm';
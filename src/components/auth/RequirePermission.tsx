@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import { usePermissions } from '@/hooks/usePermission';
+import type { Permission } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  /** Permiso requerido; con una lista basta con tener uno */
+  permission: Permission | Permission[];
+  /** Contenido a mostrar sin permiso (por defecto nada) */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Muestra su contenido solo si el usuario actual tiene el permiso
+ * Mientras se cargan los permisos no muestra nada
+ */
+export function RequirePermission({ permission, fallback = null, children }: RequirePermissionProps) {
+  const { can, loading } = usePermissions();
+
+  if (loading) return null;
+
+  const required = Array.isArray(permission) ? permission : [permission];
+  return <>{required.some(can) ? children : fallback}</>;
+}
+
+export default RequirePermission;
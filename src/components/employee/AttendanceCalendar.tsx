@@ -4,14 +4,19 @@
  * =============================================
  * 
  * Descripción: Calendario mensual de asistencias del empleado
- * Muestra visualmente los días trabajados, ausencias y estados
+ * Muestra visualmente los días trabajados, ausencias, permisos y feriados
  */
 
 'use client';
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { createSupabaseClient } from '@/lib/supabase/client';
-import type { Attendance } from '@/types/database';
+import type { Attendance, Holiday } from '@/types/database';
+import { useEmployeeTimezone } from '@/hooks/useTimezone';
+import { formatTimeInTimezone, getTodayInTimezone, toDateKey } from '@/lib/timezone';
+import { findHoliday } from '@/lib/holidays';
+import { ATTENDANCE_STATUS, LEAVE_STATUSES } from '@/lib/constants';
+import { holidayService } from '@/services/holiday.service';
 
 interface AttendanceCalendarProps {
   employeeId: string;
@@ -23,7 +28,8 @@ interface CalendarDay {
   isCurrentMonth: boolean;
   isToday: boolean;
   attendance?: Attendance;
-  status: 'none' | 'complete' | 'incomplete' | 'absent';
+  holiday?: Holiday;
+  status: 'none' | 'complete' | 'incomplete' | 'absent' | 'vacation' | 'sick_leave' | 'holiday';
 }
 
 interface CalendarMonth {
@@ -37,8 +43,34 @@ interface CalendarMonth {
  */
 function useCalendarData(employeeId: string, currentDate: Date) {
   const [attendances, setAttendances] = useState<Attendance[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [departmentId, setDepartmentId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  // Feriados de la organización del empleado (no dependen del mes)
+  useEffect(() => {
+    const loadHolidays = async () => {
+      try {
+        const supabase = createSupabaseClient();
+        const { data, error } = await supabase
+          .from('employees')
+          .select('organization_id, department_id')
+          .eq('id', employeeId)
+          .single();
+
+        if (error || !data) throw error;
+
+        setDepartmentId(data.department_id || null);
+        setHolidays(await holidayService.getHolidays(data.organization_id));
+      } catch (error) {
+        console.error('Error loading calendar holidays:', error);
+        setHolidays([]);
+      }
+    };
+
+    loadHolidays();
+  }, [employeeId]);
+
   const loadMonthAttendances = useCallback(async (year: number, month: number) => {
     try {
       setLoading(true);
@@ -51,8 +83,8 @@ function useCalendarData(employeeId: string, currentDate: Date) {
         .from('attendances')
         .select('*')
         .eq('employee_id', employeeId)
-        .gte('attendance_date', startDate.toISOString().split('T')[0])
-        .lte('attendance_date', endDate.toISOString().split('T')[0])
+        .gte('attendance_date', toDateKey(startDate))
+        .lte('attendance_date', toDateKey(endDate))
         .order('attendance_date', { ascending: true });
 
       if (error) throw error;
@@ -70,17 +102,26 @@ function useCalendarData(employeeId: string, currentDate: Date) {
     loadMonthAttendances(currentDate.getFullYear(), currentDate.getMonth());
   }, [employeeId, currentDate, loadMonthAttendances]);
 
-  return { attendances, loading, refreshAttendances: () => loadMonthAttendances(currentDate.getFullYear(), currentDate.getMonth()) };
+  return { attendances, holidays, departmentId, loading, refreshAttendances: () => loadMonthAttendances(currentDate.getFullYear(), currentDate.getMonth()) };
 }
 
 /**
  * Genera los datos del calendario para un mes específico
+ * "Hoy" se determina con la zona horaria de la organización
+ * Los feriados del departamento del empleado no se marcan como ausencia
  */
-function generateCalendarMonth(year: number, month: number, attendances: Attendance[]): CalendarMonth {
+function generateCalendarMonth(
+  year: number,
+  month: number,
+  attendances: Attendance[],
+  timezone: string,
+  holidays: Holiday[],
+  departmentId: string | null
+): CalendarMonth {
   const firstDayOfMonth = new Date(year, month, 1);
   const lastDayOfMonth = new Date(year, month + 1, 0);
   const firstDayOfWeek = firstDayOfMonth.getDay();
-  const today = new Date();
+  const todayKey = getTodayInTimezone(timezone);
   
   const days: CalendarDay[] = [];
   
@@ -100,17 +141,23 @@ function generateCalendarMonth(year: number, month: number, attendances: Attenda
   // Días del mes actual
   for (let day = 1; day <= lastDayOfMonth.getDate(); day++) {
     const date = new Date(year, month, day);
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = toDateKey(date);
     const attendance = attendances.find(a => a.attendance_date === dateStr);
+    const holiday = findHoliday(holidays, dateStr, departmentId) || undefined;
     
     let status: CalendarDay['status'] = 'none';
     if (attendance) {
-      if (attendance.check_in_time && attendance.check_out_time) {
+      if (!attendance.check_in_time && LEAVE_STATUSES.includes(attendance.status)) {
+        // Día cubierto por un permiso aprobado
+        status = attendance.status === ATTENDANCE_STATUS.SICK_LEAVE ? 'sick_leave' : 'vacation';
+      } else if (attendance.check_in_time && attendance.check_out_time) {
         status = 'complete';
       } else if (attendance.check_in_time) {
         status = 'incomplete';
       }
-    } else if (date < today && date.getDay() !== 0 && date.getDay() !== 6) {
+    } else if (holiday) {
+      status = 'holiday';
+    } else if (dateStr < todayKey && date.getDay() !== 0 && date.getDay() !== 6) {
       // Si es un día laboral pasado sin registro, marcarlo como ausente
       status = 'absent';
     }
@@ -119,8 +166,9 @@ function generateCalendarMonth(year: number, month: number, attendances: Attenda
       date,
       dayNumber: day,
       isCurrentMonth: true,
-      isToday: date.toDateString() === today.toDateString(),
+      isToday: dateStr === todayKey,
       attendance,
+      holiday,
       status
     });
   }
@@ -153,6 +201,12 @@ function CalendarDay({ day, onClick }: { day: CalendarDay; onClick?: (day: Calen
         return 'bg-yellow-100 border-yellow-300 text-yellow-800';
       case 'absent':
         return 'bg-red-100 border-red-300 text-red-800';
+      case 'vacation':
+        return 'bg-blue-100 border-blue-300 text-blue-800';
+      case 'sick_leave':
+        return 'bg-purple-100 border-purple-300 text-purple-800';
+      case 'holiday':
+        return 'bg-orange-100 border-orange-300 text-orange-800';
       default:
         return day.isCurrentMonth ? 'bg-white border-gray-200 text-gray-900' : 'bg-gray-50 border-gray-100 text-gray-400';
     }
@@ -166,6 +220,12 @@ function CalendarDay({ day, onClick }: { day: CalendarDay; onClick?: (day: Calen
         return '⚠️';
       case 'absent':
         return '❌';
+      case 'vacation':
+        return '🌴';
+      case 'sick_leave':
+        return '🤒';
+      case 'holiday':
+        return '🎉';
       default:
         return null;
     }
@@ -174,6 +234,7 @@ function CalendarDay({ day, onClick }: { day: CalendarDay; onClick?: (day: Calen
   return (
     <button
       onClick={() => onClick?.(day)}
+      title={day.holiday?.name}
       className={`
         aspect-square border-2 rounded-lg p-1 text-sm font-medium transition-all duration-200 hover:shadow-md
         ${getStatusColor()}
@@ -200,11 +261,19 @@ export function AttendanceCalendar({ employeeId }: AttendanceCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDay, setSelectedDay] = useState<CalendarDay | null>(null);
   
-  const { attendances, loading } = useCalendarData(employeeId, currentDate);
+  const { attendances, holidays, departmentId, loading } = useCalendarData(employeeId, currentDate);
+  const timezone = useEmployeeTimezone(employeeId);
   
   const calendarMonth = useMemo(() => 
-    generateCalendarMonth(currentDate.getFullYear(), currentDate.getMonth(), attendances),
-    [currentDate, attendances]
+    generateCalendarMonth(
+      currentDate.getFullYear(),
+      currentDate.getMonth(),
+      attendances,
+      timezone,
+      holidays,
+      departmentId
+    ),
+    [currentDate, attendances, timezone, holidays, departmentId]
   );
 
   const navigateMonth = (direction: 'prev' | 'next') => {
@@ -284,7 +353,7 @@ export function AttendanceCalendar({ employeeId }: AttendanceCalendarProps) {
       {/* Leyenda */}
       <div className="bg-white rounded-xl border border-gray-200 p-4">
         <h3 className="text-sm font-medium text-gray-900 mb-3">Leyenda</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-3 text-xs">
           <div className="flex items-center">
             <div className="w-4 h-4 bg-green-100 border border-green-300 rounded mr-2"></div>
             <span>✅ Jornada completa</span>
@@ -297,6 +366,18 @@ export function AttendanceCalendar({ employeeId }: AttendanceCalendarProps) {
             <div className="w-4 h-4 bg-red-100 border border-red-300 rounded mr-2"></div>
             <span>❌ Ausencia</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-blue-100 border border-blue-300 rounded mr-2"></div>
+            <span>🌴 Vacaciones / Permiso</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-purple-100 border border-purple-300 rounded mr-2"></div>
+            <span>🤒 Enfermedad</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-orange-100 border border-orange-300 rounded mr-2"></div>
+            <span>🎉 Feriado</span>
+          </div>
           <div className="flex items-center">
             <div className="w-4 h-4 bg-white border border-gray-200 rounded mr-2"></div>
             <span>Sin registro</span>
@@ -350,43 +431,54 @@ export function AttendanceCalendar({ employeeId }: AttendanceCalendarProps) {
             </button>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-600 mb-1">Entrada</div>
-              <div className="text-lg font-semibold text-gray-900">
-                {selectedDay.attendance.check_in_time 
-                  ? new Date(`${selectedDay.attendance.attendance_date}T${selectedDay.attendance.check_in_time}`).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
-                  : 'No registrada'
-                }
+          {(selectedDay.status === 'vacation' || selectedDay.status === 'sick_leave') ? (
+            <div className={`rounded-lg p-4 ${selectedDay.status === 'vacation' ? 'bg-blue-50 text-blue-900' : 'bg-purple-50 text-purple-900'}`}>
+              <div className="text-lg font-semibold">
+                {selectedDay.status === 'vacation' ? '🌴 Día de permiso' : '🤒 Permiso por enfermedad'}
               </div>
+              {selectedDay.attendance.manager_notes && (
+                <div className="text-sm mt-1">{selectedDay.attendance.manager_notes}</div>
+              )}
             </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-600 mb-1">Entrada</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {selectedDay.attendance.check_in_time 
+                    ? formatTimeInTimezone(selectedDay.attendance.check_in_time, timezone, 'es-ES')
+                    : 'No registrada'
+                  }
+                </div>
+              </div>
 
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-600 mb-1">Salida</div>
-              <div className="text-lg font-semibold text-gray-900">
-                {selectedDay.attendance.check_out_time 
-                  ? new Date(`${selectedDay.attendance.attendance_date}T${selectedDay.attendance.check_out_time}`).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
-                  : 'No registrada'
-                }
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-600 mb-1">Salida</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {selectedDay.attendance.check_out_time 
+                    ? formatTimeInTimezone(selectedDay.attendance.check_out_time, timezone, 'es-ES')
+                    : 'No registrada'
+                  }
+                </div>
               </div>
-            </div>
 
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-600 mb-1">Total horas</div>
-              <div className="text-lg font-semibold text-gray-900">
-                {selectedDay.attendance.check_in_time && selectedDay.attendance.check_out_time
-                  ? (() => {
-                      const checkIn = new Date(`${selectedDay.attendance.attendance_date}T${selectedDay.attendance.check_in_time}`);
-                      const checkOut = new Date(`${selectedDay.attendance.attendance_date}T${selectedDay.attendance.check_out_time}`);
-                      const diffMs = checkOut.getTime() - checkIn.getTime();
-                      const diffHours = diffMs / (1000 * 60 * 60);
-                      return `${diffHours.toFixed(1)}h`;
-                    })()
-                  : 'Incompleto'
-                }
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-600 mb-1">Total horas</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {selectedDay.attendance.check_in_time && selectedDay.attendance.check_out_time
+                    ? (() => {
+                        const checkIn = new Date(selectedDay.attendance.check_in_time);
+                        const checkOut = new Date(selectedDay.attendance.check_out_time);
+                        const diffMs = checkOut.getTime() - checkIn.getTime();
+                        const diffHours = diffMs / (1000 * 60 * 60);
+                        return `${diffHours.toFixed(1)}h`;
+                      })()
+                    : 'Incompleto'
+                  }
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {selectedDay.attendance.employee_notes && (
             <div className="mt-4 bg-blue-50 rounded-lg p-4">
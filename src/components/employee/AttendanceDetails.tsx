@@ -4,18 +4,25 @@
  * =============================================
  * 
  * Descripción: Vista detallada del historial de asistencias
- * Incluye filtros, estadísticas y visualización de datos
+ * Incluye filtros, estadísticas, visualización de datos y
+ * solicitudes de corrección de días pasados
  */
 
 'use client';
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { AttendanceHistory } from '@/components/attendance';
+import { AttendanceCorrectionForm, AttendanceHistory } from '@/components/attendance';
 import { createSupabaseClient } from '@/lib/supabase/client';
 import type { Attendance } from '@/types/database';
+import type { CorrectionRequestFormData } from '@/services/attendance-correction.service';
+import { useEmployeeTimezone } from '@/hooks/useTimezone';
+import { useAttendanceCorrections } from '@/hooks/useAttendanceCorrections';
+import { DEFAULT_TIMEZONE, PUNCTUAL_STATUSES, REQUEST_STATUS_CONFIG } from '@/lib/constants';
+import { addDaysToDateKey, formatDateKey, formatTimeInTimezone, getTodayInTimezone } from '@/lib/timezone';
 
 interface AttendanceDetailsProps {
   employeeId: string;
+  organizationId: string;
 }
 
 /**
@@ -81,12 +88,17 @@ function AttendanceStatsCard({ stats }: { stats: AttendanceStats }) {
 /**
  * Componente principal para el historial detallado de asistencias
  */
-export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
+export function AttendanceDetails({ employeeId, organizationId }: AttendanceDetailsProps) {
   const [attendanceHistory, setAttendanceHistory] = useState<Attendance[]>([]);
   const [loading, setLoading] = useState(false);
+  const timezone = useEmployeeTimezone(employeeId);
+  const corrections = useAttendanceCorrections(employeeId, organizationId);
+  // undefined = formulario cerrado, null = día sin registro
+  const [correctionTarget, setCorrectionTarget] = useState<Attendance | null | undefined>(undefined);
+  const [message, setMessage] = useState<string | null>(null);
   const [filters, setFilters] = useState<AttendanceFilters>(() => {
-    const endDate = new Date().toISOString().split('T')[0];
-    const startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const endDate = getTodayInTimezone(DEFAULT_TIMEZONE);
+    const startDate = addDaysToDateKey(endDate, -30);
     
     return {
       startDate,
@@ -142,7 +154,6 @@ export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
     
     let totalHours = 0;
     let punctualArrivals = 0;
-    const standardStartTime = 9; // 9:00 AM
 
     attendanceHistory.forEach(attendance => {
       if (attendance.check_in_time && attendance.check_out_time) {
@@ -151,9 +162,8 @@ export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
         const hours = (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60);
         totalHours += hours;
 
-        // Verificar puntualidad (antes de las 9:00 AM)
-        if (checkIn.getHours() < standardStartTime || 
-            (checkIn.getHours() === standardStartTime && checkIn.getMinutes() <= 15)) {
+        // La puntualidad ya viene clasificada al registrar la entrada
+        if (PUNCTUAL_STATUSES.includes(attendance.status)) {
           punctualArrivals++;
         }
       }
@@ -189,10 +199,10 @@ export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
     const csvData = attendanceHistory.map(attendance => {
       const date = attendance.attendance_date;
       const checkIn = attendance.check_in_time 
-        ? new Date(attendance.check_in_time).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
+        ? formatTimeInTimezone(attendance.check_in_time, timezone, 'es-ES')
         : 'N/A';
       const checkOut = attendance.check_out_time 
-        ? new Date(attendance.check_out_time).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
+        ? formatTimeInTimezone(attendance.check_out_time, timezone, 'es-ES')
         : 'N/A';
       
       let hoursWorked = 'N/A';
@@ -215,7 +225,32 @@ export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
     link.href = URL.createObjectURL(blob);
     link.download = `asistencias_${filters.startDate}_${filters.endDate}.csv`;
     link.click();
-  }, [attendanceHistory, filters]);
+  }, [attendanceHistory, filters, timezone]);
+
+  /**
+   * Envía la corrección y cierra el formulario si se registró
+   */
+  const handleRequestCorrection = useCallback(async (data: CorrectionRequestFormData) => {
+    const result = await corrections.requestCorrection(data);
+
+    if (result.success) {
+      setCorrectionTarget(undefined);
+      setMessage(result.message);
+      setTimeout(() => setMessage(null), 5000);
+    }
+
+    return result;
+  }, [corrections]);
+
+  /**
+   * Cancela una solicitud pendiente
+   */
+  const handleCancelCorrection = useCallback(async (correctionId: string) => {
+    if (!confirm('¿Cancelar esta solicitud?')) return;
+
+    const result = await corrections.cancelCorrection(correctionId);
+    if (!result.success) alert(`❌ ${result.message}`);
+  }, [corrections]);
 
   // Cargar datos cuando cambian los filtros
   useEffect(() => {
@@ -224,6 +259,12 @@ export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
 
   return (
     <div className="p-6 space-y-6">
+      {message && (
+        <div className="px-4 py-3 rounded-lg border bg-green-50 border-green-200 text-green-800">
+          {message}
+        </div>
+      )}
+
       {/* Filtros */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Filtros de Búsqueda</h3>
@@ -291,24 +332,96 @@ export function AttendanceDetails({ employeeId }: AttendanceDetailsProps) {
         <div className="p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
             <h3 className="text-lg font-semibold text-gray-900">Historial de Asistencias</h3>
-            <button
-              onClick={loadAttendanceHistory}
-              disabled={loading}
-              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
-            >
-              {loading ? '🔄 Cargando...' : '🔄 Actualizar'}
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setCorrectionTarget(null)}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                ✏️ Corregir otro día
+              </button>
+              <button
+                onClick={loadAttendanceHistory}
+                disabled={loading}
+                className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                {loading ? '🔄 Cargando...' : '🔄 Actualizar'}
+              </button>
+            </div>
           </div>
         </div>
         
-        <div className="p-6">
+        <div className="p-6 space-y-6">
+          {correctionTarget !== undefined && (
+            <AttendanceCorrectionForm
+              key={correctionTarget?.id || 'new'}
+              attendance={correctionTarget}
+              timezone={timezone}
+              isProcessing={corrections.isProcessing}
+              onSubmit={handleRequestCorrection}
+              onCancel={() => setCorrectionTarget(undefined)}
+            />
+          )}
+
           <AttendanceHistory
             attendances={attendanceHistory}
             loading={loading}
             onRefresh={loadAttendanceHistory}
+            timezone={timezone}
+            onRequestCorrection={setCorrectionTarget}
           />
         </div>
       </div>
+
+      {/* Solicitudes de corrección */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Mis solicitudes de corrección</h3>
+
+        {corrections.corrections.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-4">
+            Aún no has solicitado correcciones
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {corrections.corrections.map((correction) => (
+              <div key={correction.id} className="flex items-start justify-between p-4 bg-gray-50 rounded-lg">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {formatDateKey(correction.attendance_date, 'es-ES')}
+                    <span className="text-gray-500 font-normal ml-2">
+                      Entrada {correction.proposed_check_in_time
+                        ? formatTimeInTimezone(correction.proposed_check_in_time, timezone, 'es-ES')
+                        : 'sin cambios'}
+                      {' • '}
+                      Salida {correction.proposed_check_out_time
+                        ? formatTimeInTimezone(correction.proposed_check_out_time, timezone, 'es-ES')
+                        : 'sin cambios'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{correction.employee_notes}</p>
+                  {correction.manager_notes && (
+                    <p className="text-sm text-gray-500 mt-1">Nota: {correction.manager_notes}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${REQUEST_STATUS_CONFIG[correction.status].className}`}>
+                    {REQUEST_STATUS_CONFIG[correction.status].label}
+                  </span>
+                  {correction.status === 'pending' && (
+                    <button
+                      onClick={() => handleCancelCorrection(correction.id)}
+                      disabled={corrections.isProcessing}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
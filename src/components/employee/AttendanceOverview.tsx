@@ -14,6 +14,10 @@ import { useAttendance } from '@/hooks/useAttendance';
 import { 
   AttendanceClock
 } from '@/components/attendance';
+import { RequirePermission } from '@/components/auth/RequirePermission';
+import { BREAK_TYPE_CONFIG, PERMISSIONS } from '@/lib/constants';
+import { formatTimeInTimezone } from '@/lib/timezone';
+import type { BreakRecord } from '@/types/database';
 
 interface AttendanceOverviewProps {
   employeeId: string;
@@ -55,16 +59,32 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
   
   // Hook de asistencias
   const attendance = useAttendance(employeeId);
+  const [scanningOfficeQr, setScanningOfficeQr] = React.useState(false);
+  const { lastSyncResult } = attendance;
 
   /**
-   * Maneja el check-in del empleado
+   * Informa del resultado de sincronizar los marcajes hechos sin conexión
    */
-  const handleCheckIn = useCallback(async () => {
+  React.useEffect(() => {
+    if (!lastSyncResult) return;
+
+    const rejected = lastSyncResult.results.filter(item => item.status === 'rejected' || item.status === 'stale');
+    if (rejected.length > 0) {
+      showNotification(`❌ Marcajes sin conexión rechazados: ${rejected.map(item => item.message).join('; ')}`, 'error');
+    } else {
+      showNotification(`✅ ${lastSyncResult.message}`, 'success');
+    }
+  }, [lastSyncResult, showNotification]);
+
+  /**
+   * Registra la entrada, con el código del QR de la oficina si se escaneó
+   */
+  const submitCheckIn = useCallback(async (officeQrCode?: string) => {
     try {
-      const result = await attendance.checkIn();
+      const result = await attendance.checkIn(officeQrCode);
       
       if (result.success) {
-        showNotification('✅ Entrada registrada exitosamente', 'success');
+        showNotification(`✅ ${result.message}`, 'success');
       } else {
         showNotification(`❌ ${result.message}`, 'error');
       }
@@ -74,6 +94,27 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
     }
   }, [attendance, showNotification]);
 
+  /**
+   * Maneja el check-in del empleado: si la política exige el QR de la
+   * oficina, primero abre el escáner bajo el reloj
+   */
+  const handleCheckIn = useCallback(() => {
+    if (attendance.requireOfficeQr) {
+      setScanningOfficeQr(true);
+      return;
+    }
+
+    submitCheckIn();
+  }, [attendance.requireOfficeQr, submitCheckIn]);
+
+  /**
+   * Maneja el código leído del QR de la oficina
+   */
+  const handleOfficeQrScan = useCallback((code: string) => {
+    setScanningOfficeQr(false);
+    submitCheckIn(code);
+  }, [submitCheckIn]);
+
   /**
    * Maneja el check-out del empleado
    */
@@ -95,15 +136,20 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
   /**
    * Maneja el inicio de descanso
    */
-  const handleStartBreak = useCallback(async (breakType: 'lunch' | 'short_break' | 'personal' | 'medical' = 'short_break') => {
+  const handleStartBreak = useCallback(async (breakType: BreakRecord['type'] = 'short_break') => {
     try {
-      console.log(`Descanso tipo ${breakType} no implementado`);
-      showNotification('⏸️ Función de descanso no disponible temporalmente', 'info');
+      const result = await attendance.startBreak(breakType);
+      
+      if (result.success) {
+        showNotification(`⏸️ ${BREAK_TYPE_CONFIG[breakType].label} iniciado`, 'info');
+      } else {
+        showNotification(`❌ ${result.message}`, 'error');
+      }
     } catch (error) {
       console.error('Error iniciando descanso:', error);
       showNotification('❌ Error inesperado al iniciar descanso', 'error');
     }
-  }, [showNotification]);
+  }, [attendance, showNotification]);
 
   /**
    * Maneja el fin del descanso
@@ -113,7 +159,7 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
       const result = await attendance.endBreak();
       
       if (result.success) {
-        showNotification('✅ Descanso terminado', 'success');
+        showNotification(`✅ ${result.message}`, 'success');
       } else {
         showNotification(`❌ ${result.message}`, 'error');
       }
@@ -159,7 +205,15 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
         {/* Reloj en tiempo real */}
         <div className="bg-white rounded-xl border border-gray-200 p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Hora Actual</h3>
-          <AttendanceClock />
+          <AttendanceClock
+            timezone={attendance.timezone}
+            activeBreak={attendance.activeBreak}
+            isOffline={!attendance.isOnline}
+            pendingSyncCount={attendance.pendingSyncCount}
+            scanOfficeQr={scanningOfficeQr}
+            onOfficeQrScan={handleOfficeQrScan}
+            onCancelOfficeQrScan={() => setScanningOfficeQr(false)}
+          />
         </div>
 
         {/* Resumen del día */}
@@ -171,10 +225,7 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
                 <span className="text-gray-600">Entrada:</span>
                 <span className="font-medium">
                   {(attendance.todayAttendance as TodayAttendanceData)?.check_in_time 
-                    ? new Date((attendance.todayAttendance as TodayAttendanceData).check_in_time!).toLocaleTimeString('es-ES', {
-                        hour: '2-digit',
-                        minute: '2-digit'
-                      })
+                    ? formatTimeInTimezone((attendance.todayAttendance as TodayAttendanceData).check_in_time!, attendance.timezone, 'es-ES')
                     : 'No registrada'}
                 </span>
               </div>
@@ -182,10 +233,7 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
                 <span className="text-gray-600">Salida:</span>
                 <span className="font-medium">
                   {(attendance.todayAttendance as TodayAttendanceData)?.check_out_time 
-                    ? new Date((attendance.todayAttendance as TodayAttendanceData).check_out_time!).toLocaleTimeString('es-ES', {
-                        hour: '2-digit',
-                        minute: '2-digit'
-                      })
+                    ? formatTimeInTimezone((attendance.todayAttendance as TodayAttendanceData).check_out_time!, attendance.timezone, 'es-ES')
                     : 'No registrada'}
                 </span>
               </div>
@@ -212,86 +260,99 @@ export function AttendanceOverview({ employeeId }: AttendanceOverviewProps) {
         </div>
       </div>
 
-      {/* Segunda fila: Control de asistencia */}
-      <div className="bg-white rounded-lg shadow p-6">
-        <div className="flex gap-4">
-          <button
-            onClick={handleCheckIn}
-            disabled={attendance.isProcessing}
-            className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-medium py-3 px-4 rounded-lg transition-colors"
-          >
-            {attendance.isProcessing ? 'Procesando...' : '✅ Registrar Entrada'}
-          </button>
-          
-          <button
-            onClick={handleCheckOut}
-            disabled={attendance.isProcessing}
-            className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white font-medium py-3 px-4 rounded-lg transition-colors"
-          >
-            {attendance.isProcessing ? 'Procesando...' : '❌ Registrar Salida'}
-          </button>
-        </div>
-      </div>
-
-      {/* Tercera fila: Controles de descanso */}
-      <div className="bg-white rounded-xl border border-gray-200 p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Control de Descansos</h3>
-        
-        {attendance.hasActiveBreak() ? (
-          <div className="text-center">
-            <div className="mb-4">
-              <span className="inline-flex px-3 py-1 text-sm font-medium rounded-full bg-yellow-100 text-yellow-800">
-                Descanso en curso
-              </span>
-            </div>
+      {/* Marcación y descansos: requieren permiso para registrar asistencia */}
+      <RequirePermission permission={PERMISSIONS.ATTENDANCE_CREATE}>
+        {/* Segunda fila: Control de asistencia */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex gap-4">
             <button
-              onClick={handleEndBreak}
+              onClick={handleCheckIn}
               disabled={attendance.isProcessing}
-              className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-medium py-3 px-4 rounded-lg transition-colors"
             >
-              {attendance.isProcessing ? 'Procesando...' : 'Terminar Descanso'}
+              {attendance.isProcessing ? 'Procesando...' : '✅ Registrar Entrada'}
             </button>
-          </div>
-        ) : (
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          
             <button
-              onClick={() => handleStartBreak('short_break')}
-              disabled={attendance.isProcessing || !attendance.canCheckOut()}
-              className="bg-blue-50 border border-blue-200 p-3 rounded-lg text-center hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              onClick={handleCheckOut}
+              disabled={attendance.isProcessing}
+              className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white font-medium py-3 px-4 rounded-lg transition-colors"
             >
-              <div className="text-2xl mb-1">☕</div>
-              <p className="text-xs font-medium text-blue-900">Descanso Corto</p>
+              {attendance.isProcessing ? 'Procesando...' : '❌ Registrar Salida'}
             </button>
-            
+          </div>
+          {attendance.isOnline && attendance.pendingSyncCount > 0 && (
             <button
-              onClick={() => handleStartBreak('lunch')}
-              disabled={attendance.isProcessing || !attendance.canCheckOut()}
-              className="bg-orange-50 border border-orange-200 p-3 rounded-lg text-center hover:bg-orange-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              onClick={attendance.syncPendingEvents}
+              className="mt-3 w-full text-sm text-blue-700 hover:text-blue-900"
             >
-              <div className="text-2xl mb-1">🍽️</div>
-              <p className="text-xs font-medium text-orange-900">Almuerzo</p>
+              🔄 Sincronizar marcajes pendientes ({attendance.pendingSyncCount})
             </button>
+          )}
+        </div>
+
+        {/* Tercera fila: Controles de descanso */}
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Control de Descansos</h3>
+        
+          {attendance.hasActiveBreak() ? (
+            <div className="text-center">
+              <div className="mb-4">
+                <span className="inline-flex px-3 py-1 text-sm font-medium rounded-full bg-yellow-100 text-yellow-800">
+                  {attendance.activeBreak
+                    ? `${BREAK_TYPE_CONFIG[attendance.activeBreak.type].label} en curso`
+                    : 'Descanso en curso'}
+                </span>
+              </div>
+              <button
+                onClick={handleEndBreak}
+                disabled={attendance.isProcessing}
+                className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                {attendance.isProcessing ? 'Procesando...' : 'Terminar Descanso'}
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <button
+                onClick={() => handleStartBreak('short_break')}
+                disabled={attendance.isProcessing || !attendance.canCheckOut()}
+                className="bg-blue-50 border border-blue-200 p-3 rounded-lg text-center hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <div className="text-2xl mb-1">☕</div>
+                <p className="text-xs font-medium text-blue-900">Descanso Corto</p>
+              </button>
             
-            <button
-              onClick={() => handleStartBreak('personal')}
-              disabled={attendance.isProcessing || !attendance.canCheckOut()}
-              className="bg-purple-50 border border-purple-200 p-3 rounded-lg text-center hover:bg-purple-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-            >
-              <div className="text-2xl mb-1">🚶</div>
-              <p className="text-xs font-medium text-purple-900">Personal</p>
-            </button>
+              <button
+                onClick={() => handleStartBreak('lunch')}
+                disabled={attendance.isProcessing || !attendance.canCheckOut()}
+                className="bg-orange-50 border border-orange-200 p-3 rounded-lg text-center hover:bg-orange-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <div className="text-2xl mb-1">🍽️</div>
+                <p className="text-xs font-medium text-orange-900">Almuerzo</p>
+              </button>
             
-            <button
-              onClick={() => handleStartBreak('medical')}
-              disabled={attendance.isProcessing || !attendance.canCheckOut()}
-              className="bg-red-50 border border-red-200 p-3 rounded-lg text-center hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-            >
-              <div className="text-2xl mb-1">⚕️</div>
-              <p className="text-xs font-medium text-red-900">Médico</p>
-            </button>
-          </div>
-        )}
-      </div>
+              <button
+                onClick={() => handleStartBreak('personal')}
+                disabled={attendance.isProcessing || !attendance.canCheckOut()}
+                className="bg-purple-50 border border-purple-200 p-3 rounded-lg text-center hover:bg-purple-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <div className="text-2xl mb-1">🚶</div>
+                <p className="text-xs font-medium text-purple-900">Personal</p>
+              </button>
+            
+              <button
+                onClick={() => handleStartBreak('medical')}
+                disabled={attendance.isProcessing || !attendance.canCheckOut()}
+                className="bg-red-50 border border-red-200 p-3 rounded-lg text-center hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <div className="text-2xl mb-1">⚕️</div>
+                <p className="text-xs font-medium text-red-900">Médico</p>
+              </button>
+            </div>
+          )}
+        </div>
+      </RequirePermission>
 
       {/* Cuarta fila: Acciones rápidas */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
@@ -25,6 +25,7 @@ import {
 } from '.';
 import { AttendanceCalendar } from './AttendanceCalendar';
 import { PersonalReports } from './PersonalReports';
+import { LeaveRequests } from './LeaveRequests';
 import type { Employee } from '@/types/database';
 
 interface EmployeeDashboardProps {
@@ -45,10 +46,12 @@ export function EmployeeDashboard({ employee, onLogout }: EmployeeDashboardProps
         return <AttendanceOverview employeeId={employee.id} />;
       case 'calendar':
         return <AttendanceCalendar employeeId={employee.id} />;
+      case 'leave':
+        return <LeaveRequests employee={employee} />;
       case 'reports':
         return <PersonalReports employeeId={employee.id} employee={employee} />;
       case 'history':
-        return <AttendanceDetails employeeId={employee.id} />;
+        return <AttendanceDetails employeeId={employee.id} organizationId={employee.organization_id} />;
       case 'profile':
         return <EmployeeProfile employee={employee} />;
       default:
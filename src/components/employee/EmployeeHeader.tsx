@@ -11,17 +11,19 @@
 
 import React from 'react';
 import type { Employee } from '@/types/database';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
 
 interface EmployeeHeaderProps {
   employee: Employee;
   onLogout: () => void;
+  title?: string;
 }
 
 /**
  * Componente del header para el dashboard del empleado
  * Sigue el patrón de AdminHeader para consistencia
  */
-export function EmployeeHeader({ employee, onLogout }: EmployeeHeaderProps) {
+export function EmployeeHeader({ employee, onLogout, title = 'Dashboard de Empleado' }: EmployeeHeaderProps) {
   return (
     <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-50">
       <div className="container-modern">
@@ -37,7 +39,7 @@ export function EmployeeHeader({ employee, onLogout }: EmployeeHeaderProps) {
             {/* Información del empleado */}
             <div>
               <h1 className="text-xl font-bold text-gray-900">
-                Dashboard de Empleado
+                {title}
               </h1>
               <div className="flex items-center text-sm text-gray-600">
                 <span>{employee.first_name} {employee.last_name}</span>
@@ -61,6 +63,8 @@ export function EmployeeHeader({ employee, onLogout }: EmployeeHeaderProps) {
               <span>En línea</span>
             </div>
 
+            <NotificationBell recipientId={employee.id} />
+
             {/* Botón de logout */}
             <button
               onClick={onLogout}
@@ -4,13 +4,16 @@
  * =============================================
  * 
  * Descripción: Vista del perfil del empleado
- * Muestra información personal y laboral
+ * Muestra información personal y laboral, y las credenciales
+ * para marcar en las terminales de quiosco
  */
 
 'use client';
 
 import React from 'react';
 import type { Employee } from '@/types/database';
+import { EMPLOYEE_ROLES } from '@/types/employee.types';
+import { KioskCredentials } from './KioskCredentials';
 
 interface EmployeeProfileProps {
   employee: Employee;
@@ -89,7 +92,7 @@ export function EmployeeProfile({ employee }: EmployeeProfileProps) {
           
           <InfoField
             label="Rol"
-            value={employee.role === 'employee' ? 'Empleado' : employee.role === 'admin' ? 'Administrador' : 'Super Admin'}
+            value={EMPLOYEE_ROLES.find(role => role.value === employee.role)?.label || employee.role}
             icon="👤"
           />
         </div>
@@ -201,6 +204,9 @@ export function EmployeeProfile({ employee }: EmployeeProfileProps) {
         </div>
       </div>
 
+      {/* Marcaje en terminales de quiosco */}
+      <KioskCredentials />
+
       {/* Acciones del perfil */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -12,7 +12,7 @@
 import React from 'react';
 
 // Definir el tipo aquí para evitar dependencias circulares
-export type EmployeeTabType = 'attendance' | 'calendar' | 'reports' | 'history' | 'profile';
+export type EmployeeTabType = 'attendance' | 'calendar' | 'leave' | 'reports' | 'history' | 'profile';
 
 interface EmployeeTabsProps {
   activeTab: EmployeeTabType;
@@ -35,6 +35,12 @@ const EMPLOYEE_TABS = [
     icon: '📅',
     description: 'Vista mensual de asistencias'
   },
+  {
+    id: 'leave' as EmployeeTabType,
+    label: 'Permisos',
+    icon: '🌴',
+    description: 'Vacaciones, enfermedad y días personales'
+  },
   {
     id: 'reports' as EmployeeTabType,
     label: 'Mis Reportes',
@@ -0,0 +1,201 @@
+/**
+ * =============================================
+ * KIOSK CREDENTIALS COMPONENT
+ * =============================================
+ *
+ * Descripción: Credenciales del empleado para marcar en las terminales
+ * de quiosco: PIN (junto a su código de empleado) y QR rotativo
+ * El QR se renueva solo al caducar (KIOSK_CONFIG.QR_PERIOD_SECONDS)
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import QRCode from 'qrcode';
+import { kioskService, type KioskPinStatus } from '@/services/kiosk.service';
+import { KIOSK_CONFIG } from '@/lib/constants';
+
+/**
+ * QR rotativo: pide un código nuevo al servidor cada vez que caduca
+ */
+function RotatingQrCode() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const refresh = async () => {
+      const qr = await kioskService.getQrCode();
+      if (cancelled || !canvasRef.current) return;
+
+      if (!qr) {
+        setError('No se pudo generar el código QR');
+        return;
+      }
+
+      setError(null);
+      await QRCode.toCanvas(canvasRef.current, qr.code, { width: 240, margin: 1 });
+      setReady(true);
+      timer = setTimeout(refresh, Math.max(1000, new Date(qr.expires_at).getTime() - Date.now()));
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-label="Código QR para la terminal de quiosco"
+      className={`w-60 h-60 mx-auto ${ready ? '' : 'bg-gray-100 rounded animate-pulse'}`}
+    />
+  );
+}
+
+/**
+ * Componente de credenciales de quiosco
+ */
+export function KioskCredentials() {
+  const [status, setStatus] = useState<KioskPinStatus | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [showQr, setShowQr] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    setStatus(await kioskService.getPinStatus());
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleSavePin = async () => {
+    if (pin !== confirmPin) {
+      alert('❌ Los PIN no coinciden');
+      return;
+    }
+
+    setSaving(true);
+    const result = await kioskService.setPin(pin);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    setPin('');
+    setConfirmPin('');
+    alert('✅ PIN guardado');
+    await fetchStatus();
+  };
+
+  const handleRemovePin = async () => {
+    if (!confirm('¿Eliminar tu PIN? Solo podrás marcar en la terminal con tu código QR.')) return;
+
+    const result = await kioskService.removePin();
+    if (!result.success) {
+      alert(`❌ ${result.message}`);
+      return;
+    }
+
+    await fetchStatus();
+  };
+
+  const pinPattern = `\\d{${KIOSK_CONFIG.PIN_MIN_LENGTH},${KIOSK_CONFIG.PIN_MAX_LENGTH}}`;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <span className="text-xl mr-2">📟</span>
+        Marcaje en Terminal de Quiosco
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Identifícate en la terminal con tu código de empleado
+            {status && <span className="font-mono font-semibold text-gray-900"> {status.employee_code}</span>} y
+            tu PIN de {KIOSK_CONFIG.PIN_MIN_LENGTH} a {KIOSK_CONFIG.PIN_MAX_LENGTH} dígitos.
+          </p>
+
+          {status?.locked_until && (
+            <p className="text-sm p-2 rounded bg-red-50 text-red-700">
+              PIN bloqueado por intentos fallidos hasta {new Date(status.locked_until).toLocaleTimeString('es-ES', { timeStyle: 'short' })}.
+              Puedes usar tu QR o establecer un PIN nuevo.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              pattern={pinPattern}
+              maxLength={KIOSK_CONFIG.PIN_MAX_LENGTH}
+              value={pin}
+              placeholder={status?.has_pin ? 'Nuevo PIN' : 'PIN'}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              pattern={pinPattern}
+              maxLength={KIOSK_CONFIG.PIN_MAX_LENGTH}
+              value={confirmPin}
+              placeholder="Confirmar PIN"
+              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSavePin}
+              disabled={saving || pin.length < KIOSK_CONFIG.PIN_MIN_LENGTH}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {status?.has_pin ? 'Cambiar PIN' : 'Establecer PIN'}
+            </button>
+            {status?.has_pin && (
+              <button
+                onClick={handleRemovePin}
+                className="px-4 py-2 border border-gray-300 text-sm rounded-md hover:bg-gray-50"
+              >
+                Eliminar PIN
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="text-center space-y-3">
+          <p className="text-sm text-gray-600">
+            O muestra tu QR a la cámara de la terminal. Cambia cada {KIOSK_CONFIG.QR_PERIOD_SECONDS} segundos:
+            una captura no sirve para marcar después.
+          </p>
+          {showQr && <RotatingQrCode />}
+          <button
+            onClick={() => setShowQr(prev => !prev)}
+            className="px-4 py-2 border border-gray-300 text-sm rounded-md hover:bg-gray-50"
+          >
+            {showQr ? 'Ocultar QR' : 'Mostrar mi QR'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * =============================================
+ * LEAVE REQUESTS COMPONENT
+ * =============================================
+ *
+ * Descripción: Solicitud de permisos y licencias del empleado
+ * Muestra saldos anuales, formulario de solicitud e historial
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { Employee, LeaveType } from '@/types/database';
+import { useLeaveRequests } from '@/hooks/useLeaveRequests';
+import { REQUEST_STATUS_CONFIG, LEAVE_TYPE_CONFIG } from '@/lib/constants';
+import { formatDateKey } from '@/lib/timezone';
+
+interface LeaveRequestsProps {
+  employee: Employee;
+}
+
+const EMPTY_FORM = {
+  leave_type: 'vacation' as LeaveType,
+  start_date: '',
+  end_date: '',
+  reason: ''
+};
+
+/**
+ * Componente principal de permisos del empleado
+ */
+export function LeaveRequests({ employee }: LeaveRequestsProps) {
+  const leave = useLeaveRequests(employee.id, employee.organization_id);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = await leave.requestLeave(form);
+    showMessage(result.success ? 'success' : 'error', result.message);
+
+    if (result.success) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const handleCancel = async (requestId: string) => {
+    if (!confirm('¿Cancelar esta solicitud?')) return;
+
+    const result = await leave.cancelRequest(requestId);
+    showMessage(result.success ? 'success' : 'error', result.message);
+  };
+
+  if (leave.loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {message && (
+        <div className={`px-4 py-3 rounded-lg border ${
+          message.type === 'success'
+            ? 'bg-green-50 border-green-200 text-green-800'
+            : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {leave.error && (
+        <div className="px-4 py-3 rounded-lg border bg-red-50 border-red-200 text-red-800">
+          {leave.error}
+        </div>
+      )}
+
+      {/* Saldos anuales */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {leave.balances.map((balance) => (
+          <div key={balance.leave_type} className="bg-white rounded-xl border border-gray-200 p-5">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-600">
+                {LEAVE_TYPE_CONFIG[balance.leave_type].icon} {LEAVE_TYPE_CONFIG[balance.leave_type].label}
+              </span>
+              <span className="text-2xl font-bold text-gray-900">{balance.available}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Disponibles de {balance.allowance} • {balance.used} usados • {balance.pending} pendientes
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Nueva solicitud */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Nueva solicitud</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+            <select
+              value={form.leave_type}
+              onChange={(e) => setForm({ ...form, leave_type: e.target.value as LeaveType })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            >
+              {Object.entries(LEAVE_TYPE_CONFIG).map(([type, config]) => (
+                <option key={type} value={type}>{config.icon} {config.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+            <input
+              type="date"
+              required
+              value={form.start_date}
+              onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+            <input
+              type="date"
+              required
+              min={form.start_date || undefined}
+              value={form.end_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Motivo (opcional)</label>
+          <textarea
+            rows={2}
+            value={form.reason}
+            onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={leave.isProcessing}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {leave.isProcessing ? 'Enviando...' : 'Enviar Solicitud'}
+        </button>
+      </form>
+
+      {/* Historial de solicitudes */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Mis solicitudes</h3>
+
+        {leave.requests.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-4">
+            Aún no has solicitado permisos
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {leave.requests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between p-4 bg-gray-50 rounded-lg">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {LEAVE_TYPE_CONFIG[request.leave_type].icon} {LEAVE_TYPE_CONFIG[request.leave_type].label}
+                    <span className="text-gray-500 font-normal ml-2">
+                      {formatDateKey(request.start_date, 'es-ES')} – {formatDateKey(request.end_date, 'es-ES')}
+                      {' '}({request.days_requested} días)
+                    </span>
+                  </div>
+                  {request.reason && (
+                    <p className="text-sm text-gray-600 mt-1">{request.reason}</p>
+                  )}
+                  {request.status === 'rejected' && request.rejection_reason && (
+                    <p className="text-sm text-red-700 mt-1">Motivo del rechazo: {request.rejection_reason}</p>
+                  )}
+                  {request.manager_notes && (
+                    <p className="text-sm text-gray-500 mt-1">Nota: {request.manager_notes}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${REQUEST_STATUS_CONFIG[request.status].className}`}>
+                    {REQUEST_STATUS_CONFIG[request.status].label}
+                  </span>
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => handleCancel(request.id)}
+                      disabled={leave.isProcessing}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
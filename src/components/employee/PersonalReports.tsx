@@ -14,6 +14,7 @@ import { createSupabaseClient } from '@/lib/supabase/client';
 import type { Attendance, Employee } from '@/types/database';
 import { format, startOfMonth, endOfMonth, subMonths, parseISO, differenceInHours } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { LEAVE_STATUSES } from '@/lib/constants';
 
 interface PersonalReportsProps {
   employeeId: string;
@@ -31,6 +32,7 @@ interface ReportStats {
   workDays: number;
   presentDays: number;
   absentDays: number;
+  leaveDays: number;
   incompleteDays: number;
   totalHours: number;
   averageHours: number;
@@ -98,7 +100,8 @@ function useReportStats(attendances: Attendance[], filters: ReportFilters): Repo
     const presentDays = attendances.filter(a => a.check_in_time).length;
     const completeDays = attendances.filter(a => a.check_in_time && a.check_out_time).length;
     const incompleteDays = attendances.filter(a => a.check_in_time && !a.check_out_time).length;
-    const absentDays = workDays - presentDays;
+    const leaveDays = attendances.filter(a => !a.check_in_time && LEAVE_STATUSES.includes(a.status)).length;
+    const absentDays = Math.max(0, workDays - presentDays - leaveDays);
     
     const totalHours = attendances.reduce((sum, attendance) => {
       if (attendance.check_in_time && attendance.check_out_time) {
@@ -110,7 +113,8 @@ function useReportStats(attendances: Attendance[], filters: ReportFilters): Repo
     }, 0);
     
     const averageHours = completeDays > 0 ? totalHours / completeDays : 0;
-    const attendanceRate = workDays > 0 ? (presentDays / workDays) * 100 : 0;
+    const expectedDays = workDays - leaveDays;
+    const attendanceRate = expectedDays > 0 ? (presentDays / expectedDays) * 100 : 0;
     const punctualityRate = presentDays > 0 ? (completeDays / presentDays) * 100 : 0;
     const overtimeHours = attendances.reduce((sum, a) => sum + (a.overtime_hours || 0), 0);
     
@@ -119,6 +123,7 @@ function useReportStats(attendances: Attendance[], filters: ReportFilters): Repo
       workDays,
       presentDays,
       absentDays,
+      leaveDays,
       incompleteDays,
       totalHours,
       averageHours,
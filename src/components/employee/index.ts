@@ -20,3 +20,5 @@ export { AttendanceCalendar } from './AttendanceCalendar';
 export { PersonalReports } from './PersonalReports';
 export { AttendanceDetails } from './AttendanceDetails';
 export { EmployeeProfile } from './EmployeeProfile';
+export { KioskCredentials } from './KioskCredentials';
+export { LeaveRequests } from './LeaveRequests';
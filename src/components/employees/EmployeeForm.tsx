@@ -41,6 +41,7 @@ export default function EmployeeForm({
     employeeCode: '',
     departmentId: '',
     positionId: '',
+    managerId: '',
     hireDate: '',
     role: 'employee',
     password: '',
@@ -77,6 +78,7 @@ export default function EmployeeForm({
         employeeCode: employee.employee_code,
         departmentId: employee.department_id || '',
         positionId: employee.position_id || '',
+        managerId: employee.manager_id || '',
         hireDate: employee.hire_date.split('T')[0], // Solo la fecha
         role: employee.role,
         password: '', // No se edita la contraseña en modo edición
@@ -452,6 +454,29 @@ export default function EmployeeForm({
                 )}
               </div>
             </div>
+
+            <div>
+              <label htmlFor="managerId" className="block text-sm font-medium text-gray-700 mb-1">
+                Responsable directo
+              </label>
+              <select
+                id="managerId"
+                value={formData.managerId}
+                onChange={(e) => handleInputChange('managerId', e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={formDataState.loading}
+              >
+                <option value="">Sin responsable</option>
+                {/* Un empleado no puede ser su propio responsable */}
+                {formDataState.managers
+                  .filter(manager => manager.value !== employee?.id)
+                  .map(manager => (
+                    <option key={manager.value} value={manager.value}>
+                      {manager.label}
+                    </option>
+                  ))}
+              </select>
+            </div>
           </div>
 
           {/* Rol y Permisos */}
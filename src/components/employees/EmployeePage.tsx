@@ -12,6 +12,8 @@ import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
 import { employeeService } from '@/services/employee.service';
 import { EmployeeFormData, EmployeeWithRelations } from '@/types/employee.types';
+import { usePermissions } from '@/hooks/usePermission';
+import { PERMISSIONS } from '@/lib/constants';
 
 type ViewMode = 'list' | 'create' | 'edit';
 
@@ -21,6 +23,7 @@ export default function EmployeePage() {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedEmployee, setSelectedEmployee] = useState<EmployeeWithRelations | null>(null);
   const [formLoading, setFormLoading] = useState(false);
+  const { can } = usePermissions();
 
   // Función para convertir Employee a EmployeeWithRelations
   const convertToEmployeeWithRelations = (employee: Employee): EmployeeWithRelations => {
@@ -33,6 +36,7 @@ export default function EmployeePage() {
       phone: employee.phone,
       department_id: employee.departments?.id,
       position_id: employee.positions?.id,
+      manager_id: employee.manager_id,
       hire_date: employee.hire_date,
       role: employee.role,
       status: employee.is_active ? 'active' : 'inactive', // Convertir boolean a string
@@ -191,14 +195,15 @@ export default function EmployeePage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <div className="container mx-auto py-8 px-4 max-w-7xl">
+        {/* Sin el permiso correspondiente la lista no muestra la acción */}
         <EmployeeList 
           employees={employees}
           loading={loading}
           error={error}
-          onEmployeeCreate={handleCreateEmployee}
-          onEmployeeEdit={handleEditEmployee}
-          onEmployeeDelete={handleDeleteEmployee}
-          onEmployeeToggleStatus={handleToggleEmployeeStatus}
+          onEmployeeCreate={can(PERMISSIONS.EMPLOYEES_CREATE) ? handleCreateEmployee : undefined}
+          onEmployeeEdit={can(PERMISSIONS.EMPLOYEES_EDIT) ? handleEditEmployee : undefined}
+          onEmployeeDelete={can(PERMISSIONS.EMPLOYEES_DELETE) ? handleDeleteEmployee : undefined}
+          onEmployeeToggleStatus={can(PERMISSIONS.EMPLOYEES_EDIT) ? handleToggleEmployeeStatus : undefined}
         />
       </div>
     </div>
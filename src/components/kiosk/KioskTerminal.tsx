@@ -0,0 +1,252 @@
+/**
+ * =============================================
+ * KIOSK TERMINAL COMPONENT
+ * =============================================
+ *
+ * Descripción: Pantalla de la terminal compartida de marcaje
+ * 1. La terminal se activa una vez con el enlace que genera un administrador
+ *    (#token=...); el token queda en localStorage
+ * 2. El empleado elige Entrada o Salida y se identifica con su código + PIN
+ *    o con su QR rotativo
+ * 3. Se muestra el resultado unos segundos y la pantalla vuelve al inicio
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AttendanceClock } from '@/components/attendance/AttendanceClock';
+import { QrScanner } from '@/components/attendance/QrScanner';
+import {
+  kioskService,
+  type KioskCredentials,
+  type KioskDeviceInfo,
+  type KioskPunchAction,
+  type KioskPunchResponse
+} from '@/services/kiosk.service';
+import { KIOSK_CONFIG } from '@/lib/constants';
+
+type TerminalState = 'loading' | 'unauthorized' | 'ready';
+
+type IdentificationMethod = 'pin' | 'qr';
+
+const ACTION_LABELS: Record<KioskPunchAction, string> = {
+  check_in: 'Entrada',
+  check_out: 'Salida'
+};
+
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', '⌫'];
+
+/**
+ * Componente principal de la terminal de quiosco
+ */
+export function KioskTerminal() {
+  const [state, setState] = useState<TerminalState>('loading');
+  const [token, setToken] = useState<string | null>(null);
+  const [device, setDevice] = useState<KioskDeviceInfo | null>(null);
+  const [action, setAction] = useState<KioskPunchAction | null>(null);
+  const [method, setMethod] = useState<IdentificationMethod>('pin');
+  const [employeeCode, setEmployeeCode] = useState('');
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<KioskPunchResponse | null>(null);
+
+  useEffect(() => {
+    const authorize = async () => {
+      kioskService.consumeActivationToken();
+
+      const storedToken = kioskService.getStoredToken();
+      const deviceInfo = storedToken ? await kioskService.getDevice(storedToken) : null;
+
+      if (!storedToken || !deviceInfo) {
+        setState('unauthorized');
+        return;
+      }
+
+      setToken(storedToken);
+      setDevice(deviceInfo);
+      setState('ready');
+    };
+
+    authorize();
+  }, []);
+
+  const reset = useCallback(() => {
+    setAction(null);
+    setMethod('pin');
+    setEmployeeCode('');
+    setPin('');
+    setResult(null);
+  }, []);
+
+  // El resultado se muestra unos segundos y la terminal vuelve al inicio
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(reset, KIOSK_CONFIG.RESULT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [result, reset]);
+
+  const submit = useCallback(async (credentials: KioskCredentials) => {
+    if (!token || !action) return;
+
+    setSubmitting(true);
+    const punchResult = await kioskService.punch(token, action, credentials);
+    setSubmitting(false);
+    setPin('');
+    setResult(punchResult);
+  }, [token, action]);
+
+  const handleScan = useCallback((qr: string) => {
+    submit({ qr });
+  }, [submit]);
+
+  const handleKey = (key: string) => {
+    if (key === '⌫') {
+      setPin(prev => prev.slice(0, -1));
+    } else if (key && pin.length < KIOSK_CONFIG.PIN_MAX_LENGTH) {
+      setPin(prev => prev + key);
+    }
+  };
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit({ employee_code: employeeCode.trim(), pin });
+  };
+
+  if (state === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (state === 'unauthorized') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+        <div className="max-w-md text-center bg-white rounded-xl border border-gray-200 p-8">
+          <div className="text-5xl mb-4">🔒</div>
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Terminal no autorizada</h1>
+          <p className="text-gray-600">
+            Un administrador debe autorizar esta terminal en Configuración → Integraciones
+            y abrir aquí el enlace de activación.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <header className="flex items-center justify-between px-8 py-4 bg-white border-b">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">{device?.organization_name || 'Registro de Asistencia'}</h1>
+          <p className="text-sm text-gray-500">{device?.name}</p>
+        </div>
+        <AttendanceClock timezone={device?.timezone} />
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-6">
+        {result ? (
+          <div className={`max-w-lg w-full text-center rounded-2xl p-10 ${
+            result.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+          }`}>
+            <div className="text-6xl mb-4">{result.success ? '✅' : '❌'}</div>
+            {result.employeeName && (
+              <p className="text-2xl font-bold text-gray-900 mb-2">{result.employeeName}</p>
+            )}
+            <p className={`text-lg ${result.success ? 'text-green-800' : 'text-red-800'}`}>{result.message}</p>
+            <button onClick={reset} className="mt-6 px-6 py-3 bg-white border border-gray-300 rounded-lg">
+              Volver
+            </button>
+          </div>
+        ) : !action ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 w-full max-w-3xl">
+            {(Object.keys(ACTION_LABELS) as KioskPunchAction[]).map((item) => (
+              <button
+                key={item}
+                onClick={() => setAction(item)}
+                className={`py-16 rounded-2xl text-3xl font-bold text-white shadow-lg transition-colors ${
+                  item === 'check_in' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {item === 'check_in' ? '🟢' : '🔴'} {ACTION_LABELS[item]}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="max-w-lg w-full bg-white rounded-2xl border border-gray-200 p-8 space-y-6">
+            <h2 className="text-2xl font-bold text-center text-gray-900">
+              Registrar {ACTION_LABELS[action].toLowerCase()}
+            </h2>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => setMethod('pin')}
+                className={`py-2 rounded-lg text-sm font-medium ${method === 'pin' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                Código y PIN
+              </button>
+              <button
+                onClick={() => setMethod('qr')}
+                className={`py-2 rounded-lg text-sm font-medium ${method === 'qr' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                Código QR
+              </button>
+            </div>
+
+            {method === 'qr' ? (
+              submitting ? (
+                <p className="text-center text-gray-500">Registrando...</p>
+              ) : (
+                <QrScanner
+                  onScan={handleScan}
+                  facingMode="user"
+                  placeholder="Acerca tu QR a la cámara o al lector"
+                  keepFocus
+                />
+              )
+            ) : (
+              <form onSubmit={handlePinSubmit} className="space-y-4">
+                <input
+                  autoFocus
+                  value={employeeCode}
+                  onChange={(e) => setEmployeeCode(e.target.value.toUpperCase())}
+                  placeholder="Código de empleado"
+                  autoComplete="off"
+                  className="w-full border border-gray-300 rounded-lg px-4 py-3 text-center text-lg font-mono"
+                />
+                <div className="text-center text-3xl tracking-[0.5em] h-10 text-gray-900">
+                  {'•'.repeat(pin.length) || <span className="text-base tracking-normal text-gray-400">PIN</span>}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {KEYPAD.map((key, index) => (
+                    <button
+                      key={`${key}-${index}`}
+                      type="button"
+                      disabled={!key}
+                      onClick={() => handleKey(key)}
+                      className="py-4 text-2xl rounded-lg bg-gray-100 hover:bg-gray-200 disabled:invisible"
+                    >
+                      {key}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="submit"
+                  disabled={submitting || !employeeCode.trim() || pin.length < KIOSK_CONFIG.PIN_MIN_LENGTH}
+                  className="w-full py-4 text-lg font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Registrando...' : 'Confirmar'}
+                </button>
+              </form>
+            )}
+
+            <button onClick={reset} className="w-full py-2 text-sm text-gray-500 hover:text-gray-700">
+              Cancelar
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * =============================================
+ * OFFICE QR DISPLAY COMPONENT
+ * =============================================
+ *
+ * Descripción: Pantalla fija en la oficina con el QR rotativo que los
+ * empleados escanean al registrar su entrada (política "Requerir QR de la oficina")
+ * - Usa el token de una terminal de quiosco autorizada
+ * - El código cambia cada OFFICE_QR_CONFIG.PERIOD_SECONDS y se renueva solo
+ */
+
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
+import { AttendanceClock } from '@/components/attendance/AttendanceClock';
+import { kioskService, type KioskDeviceInfo } from '@/services/kiosk.service';
+import { OFFICE_QR_CONFIG } from '@/lib/constants';
+
+type DisplayState = 'loading' | 'unauthorized' | 'ready';
+
+/**
+ * Componente principal de la pantalla del QR de la oficina
+ */
+export function OfficeQrDisplay() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<DisplayState>('loading');
+  const [token, setToken] = useState<string | null>(null);
+  const [device, setDevice] = useState<KioskDeviceInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const authorize = async () => {
+      kioskService.consumeActivationToken();
+
+      const storedToken = kioskService.getStoredToken();
+      const deviceInfo = storedToken ? await kioskService.getDevice(storedToken) : null;
+
+      if (!storedToken || !deviceInfo) {
+        setState('unauthorized');
+        return;
+      }
+
+      setToken(storedToken);
+      setDevice(deviceInfo);
+      setState('ready');
+    };
+
+    authorize();
+  }, []);
+
+  // Pide un código nuevo cada vez que caduca el actual
+  useEffect(() => {
+    if (state !== 'ready' || !token) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const refresh = async () => {
+      const qr = await kioskService.getOfficeQrCode(token);
+      if (cancelled || !canvasRef.current) return;
+
+      if (!qr) {
+        // Se reintenta: una caída momentánea no debe dejar la pantalla sin QR
+        setError('No se pudo generar el código QR. Reintentando...');
+        timer = setTimeout(refresh, 5000);
+        return;
+      }
+
+      setError(null);
+      await QRCode.toCanvas(canvasRef.current, qr.code, { width: 480, margin: 2 });
+      timer = setTimeout(refresh, Math.max(1000, new Date(qr.expires_at).getTime() - Date.now()));
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [state, token]);
+
+  if (state === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (state === 'unauthorized') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+        <div className="max-w-md text-center bg-white rounded-xl border border-gray-200 p-8">
+          <div className="text-5xl mb-4">🔒</div>
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Pantalla no autorizada</h1>
+          <p className="text-gray-600">
+            Un administrador debe autorizar esta pantalla como terminal en Configuración → Integraciones
+            y abrir aquí el enlace de activación.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <header className="flex items-center justify-between px-8 py-4 bg-white border-b">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">{device?.organization_name || 'Registro de Asistencia'}</h1>
+          <p className="text-sm text-gray-500">{device?.name}</p>
+        </div>
+        <AttendanceClock timezone={device?.timezone} />
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center p-6 space-y-6">
+        <h2 className="text-3xl font-bold text-gray-900">Escanea para registrar tu entrada</h2>
+        <canvas
+          ref={canvasRef}
+          aria-label="Código QR de la oficina"
+          className="w-[480px] h-[480px] max-w-full bg-white rounded-xl shadow-lg"
+        />
+        {error ? (
+          <p className="text-red-600">{error}</p>
+        ) : (
+          <p className="text-gray-500">
+            El código cambia cada {OFFICE_QR_CONFIG.PERIOD_SECONDS} segundos
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
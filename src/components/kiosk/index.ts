@@ -0,0 +1,10 @@
+/**
+ * =============================================
+ * KIOSK COMPONENTS INDEX
+ * =============================================
+ * 
+ * Descripción: Componentes de la terminal compartida de marcaje
+ */
+
+export { KioskTerminal } from './KioskTerminal';
+export { OfficeQrDisplay } from './OfficeQrDisplay';
@@ -0,0 +1,121 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ManagerTabs, type ManagerTabType } from './ManagerTabs';
+import { TeamOverview } from './TeamOverview';
+import { EmployeeHeader } from '@/components/employee/EmployeeHeader';
+import { AttendanceOverview } from '@/components/employee/AttendanceOverview';
+import { LeaveApprovals } from '@/components/admin/LeaveApprovals';
+import { AttendanceCorrectionQueue } from '@/components/admin/AttendanceCorrectionQueue';
+import { AdvancedReports } from '@/components/admin/reports/AdvancedReports';
+import { hasReportFiltersQuery } from '@/lib/report-filters';
+import { teamService, type TeamMember } from '@/services/team.service';
+import type { Employee } from '@/types/database';
+
+interface ManagerDashboardProps {
+  employee: Employee;
+  onLogout: () => void;
+}
+
+/**
+ * Panel del manager: asistencia, aprobaciones y reportes limitados a su equipo
+ * (reportes directos e indirectos y empleados de los departamentos que dirige)
+ *
+ * Principios aplicados:
+ * - Single Responsibility: Coordina pestañas; el alcance lo calcula TeamService
+ * - Composition over Inheritance: Reutiliza las vistas del panel de administración
+ */
+export function ManagerDashboard({ employee, onLogout }: ManagerDashboardProps) {
+  // Un enlace de reporte compartido abre directamente la pestaña de reportes
+  const [activeTab, setActiveTab] = useState<ManagerTabType>(() =>
+    typeof window !== 'undefined' && hasReportFiltersQuery(window.location.search) ? 'reports' : 'team'
+  );
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loadingTeam, setLoadingTeam] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoadingTeam(true);
+    teamService.getTeamMembers(employee.id, employee.organization_id).then((team) => {
+      if (cancelled) return;
+      setMembers(team);
+      setLoadingTeam(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [employee.id, employee.organization_id]);
+
+  // Identidad estable para no recargar las vistas en cada render
+  const employeeIds = useMemo(() => members.map(member => member.id), [members]);
+
+  const renderTabContent = () => {
+    if (loadingTeam && activeTab !== 'attendance') {
+      return (
+        <div className="p-6 text-center text-gray-600">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-3"></div>
+          Cargando equipo...
+        </div>
+      );
+    }
+
+    switch (activeTab) {
+      case 'team':
+        return <TeamOverview members={members} employeeIds={employeeIds} />;
+      case 'attendance':
+        return <AttendanceOverview employeeId={employee.id} />;
+      case 'leave':
+        return (
+          <LeaveApprovals
+            organizationId={employee.organization_id}
+            approverId={employee.id}
+            employeeIds={employeeIds}
+          />
+        );
+      case 'corrections':
+        return (
+          <AttendanceCorrectionQueue
+            organizationId={employee.organization_id}
+            reviewerId={employee.id}
+            employeeIds={employeeIds}
+          />
+        );
+      case 'reports':
+        return <AdvancedReports employeeIds={employeeIds} />;
+      default:
+        return <TeamOverview members={members} employeeIds={employeeIds} />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--background)]">
+      <EmployeeHeader
+        employee={employee}
+        onLogout={onLogout}
+        title="Panel de Equipo"
+      />
+
+      <div className="container-modern py-8">
+        <div className="page-header">
+          <h1 className="page-title">Mi Equipo</h1>
+          <p className="page-subtitle">
+            Asistencia, aprobaciones y reportes de las personas a tu cargo
+          </p>
+        </div>
+
+        <ManagerTabs
+          activeTab={activeTab}
+          onTabChange={setActiveTab}
+        />
+
+        <div className="mt-8">
+          <div className="glass-card min-h-[600px]">
+            {renderTabContent()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Users, Clock, CalendarCheck, ClipboardEdit, FileBarChart } from 'lucide-react';
+
+export type ManagerTabType = 'team' | 'attendance' | 'leave' | 'corrections' | 'reports';
+
+interface ManagerTabsProps {
+  activeTab: ManagerTabType;
+  onTabChange: (tab: ManagerTabType) => void;
+}
+
+interface TabConfig {
+  id: ManagerTabType;
+  label: string;
+  icon: React.ReactNode;
+  description: string;
+}
+
+const tabs: TabConfig[] = [
+  {
+    id: 'team',
+    label: 'Mi Equipo',
+    icon: <Users className="w-5 h-5" />,
+    description: 'Miembros del equipo y sus asistencias'
+  },
+  {
+    id: 'attendance',
+    label: 'Mi Asistencia',
+    icon: <Clock className="w-5 h-5" />,
+    description: 'Control de tu entrada y salida'
+  },
+  {
+    id: 'leave',
+    label: 'Permisos',
+    icon: <CalendarCheck className="w-5 h-5" />,
+    description: 'Aprobación de permisos de tu equipo'
+  },
+  {
+    id: 'corrections',
+    label: 'Correcciones',
+    icon: <ClipboardEdit className="w-5 h-5" />,
+    description: 'Revisión de correcciones de asistencia de tu equipo'
+  },
+  {
+    id: 'reports',
+    label: 'Reportes',
+    icon: <FileBarChart className="w-5 h-5" />,
+    description: 'Reportes de asistencia de tu equipo'
+  }
+];
+
+/**
+ * Navegación por pestañas del panel del manager
+ * Sigue el patrón de AdminTabs para consistencia
+ */
+export function ManagerTabs({ activeTab, onTabChange }: ManagerTabsProps) {
+  return (
+    <div className="border-b border-gray-200">
+      <nav className="-mb-px flex space-x-8" aria-label="Tabs">
+        {tabs.map((tab) => (
+          <Button
+            key={tab.id}
+            variant={activeTab === tab.id ? "default" : "ghost"}
+            onClick={() => onTabChange(tab.id)}
+            className={`
+              flex items-center gap-2 px-4 py-2 border-b-2 font-medium text-sm
+              ${activeTab === tab.id
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }
+            `}
+          >
+            {tab.icon}
+            {tab.label}
+          </Button>
+        ))}
+      </nav>
+
+      <div className="mt-4 mb-6">
+        <p className="text-gray-600">
+          {tabs.find(tab => tab.id === activeTab)?.description}
+        </p>
+      </div>
+    </div>
+  );
+}
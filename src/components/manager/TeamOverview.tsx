@@ -0,0 +1,48 @@
+'use client'
+
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Users } from 'lucide-react';
+import { AllEmployeeAttendance } from '@/components/admin/AllEmployeeAttendance';
+import type { TeamMember } from '@/services/team.service';
+
+interface TeamOverviewProps {
+  members: TeamMember[];
+  employeeIds: string[];
+}
+
+/**
+ * Miembros del equipo del manager y tabla de asistencias limitada a ellos
+ */
+export function TeamOverview({ members, employeeIds }: TeamOverviewProps) {
+  return (
+    <div className="p-6 space-y-6">
+      <Card className="p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Users className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Miembros del Equipo ({members.length})</h3>
+        </div>
+
+        {members.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No tienes empleados a cargo: asigna el manager del empleado o del departamento
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+            {members.map((member) => (
+              <div key={member.id} className="p-3 bg-gray-50 rounded">
+                <div className="font-medium text-gray-900">{member.full_name}</div>
+                <div className="text-sm text-gray-600">
+                  {member.employee_code}
+                  {member.department?.name && ` · ${member.department.name}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <AllEmployeeAttendance employeeIds={employeeIds} />
+    </div>
+  );
+}
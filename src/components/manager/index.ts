@@ -0,0 +1,13 @@
+/**
+ * =============================================
+ * EXPORTACIONES DE COMPONENTES DEL MANAGER
+ * =============================================
+ *
+ * Descripción: Punto de entrada centralizado para el panel de equipo
+ */
+
+export { ManagerDashboard } from './ManagerDashboard';
+export { ManagerTabs } from './ManagerTabs';
+export { TeamOverview } from './TeamOverview';
+
+export type { ManagerTabType } from './ManagerTabs';
@@ -0,0 +1,88 @@
+/**
+ * =============================================
+ * NOTIFICATION BELL COMPONENT
+ * =============================================
+ *
+ * Descripción: Campana con contador y lista desplegable de notificaciones
+ * Se usa en los headers de empleado y de administración
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useNotifications } from '@/hooks/useNotifications';
+
+interface NotificationBellProps {
+  /** Empleado que recibe las notificaciones */
+  recipientId?: string;
+}
+
+/**
+ * Campana de notificaciones
+ */
+export function NotificationBell({ recipientId }: NotificationBellProps) {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications(recipientId);
+  const [open, setOpen] = useState(false);
+
+  if (!recipientId) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+        title="Notificaciones"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="font-semibold text-gray-900">Notificaciones</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllAsRead}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Marcar todas como leídas
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">
+                No tienes notificaciones
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => !notification.read_at && markAsRead(notification.id)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                    notification.read_at ? '' : 'bg-blue-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                  <div className="text-xs text-gray-600 mt-1">{notification.message}</div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {new Date(notification.created_at).toLocaleString('es-ES')}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NotificationBell;
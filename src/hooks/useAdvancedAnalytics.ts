@@ -11,6 +11,9 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { addDaysToDateKey, getWeekdayOfDateKey } from '@/lib/timezone';
+import { findShiftAssignment, getScheduledShiftHours, workScheduleService } from '@/services/work-schedule.service';
+import type { EmployeeShiftAssignment } from '@/types/database';
 
 // Tipos para las respuestas de Supabase
 interface AttendanceFromDB {
@@ -190,6 +193,11 @@ export function useAdvancedAnalytics(startDate: string, endDate: string) {
         employeesMap.set(emp.id, emp);
       });
 
+      // Turnos asignados para calcular días y horas esperadas por empleado
+      const shiftAssignments: EmployeeShiftAssignment[] = await workScheduleService
+        .getShiftAssignments(uniqueEmployeeIds)
+        .catch(() => []);
+
       // 4. Calcular analíticas generales
       const totalHoursWorked = attendanceData.reduce((sum, att) => 
         sum + (att.work_hours || 0), 0
@@ -307,8 +315,36 @@ export function useAdvancedAnalytics(startDate: string, endDate: string) {
         }
       });
 
+      // Días y horas esperadas según el turno programado cada día
+      // Sin turno asignado: lunes a viernes, 8 horas por día laboral
+      const calculateExpectedWorkload = (employeeId: string): { days: number; hours: number } => {
+        const assignments = shiftAssignments.filter(assignment => assignment.employee_id === employeeId);
+        let days = 0;
+        let hours = 0;
+
+        for (let date = startDate; date && date <= endDate; date = addDaysToDateKey(date, 1)) {
+          const assignment = findShiftAssignment(assignments, date);
+          if (assignment?.shift_template) {
+            const scheduledHours = getScheduledShiftHours(assignment, date);
+            if (scheduledHours > 0) {
+              days++;
+              hours += scheduledHours;
+            }
+          } else {
+            const weekday = getWeekdayOfDateKey(date);
+            if (weekday !== 0 && weekday !== 6) {
+              days++;
+              hours += 8;
+            }
+          }
+        }
+
+        return { days, hours };
+      };
+
       const employeeAnalyticsData: EmployeeAnalytics[] = Array.from(employeeMap.values()).map(emp => {
-        const expectedHours = workingDays * 8; // 8 horas por día laboral
+        const expected = calculateExpectedWorkload(emp.employee_id);
+        const expectedHours = Math.round(expected.hours * 100) / 100;
         const hoursDeficit = emp.total_hours - expectedHours;
         
         return {
@@ -316,11 +352,11 @@ export function useAdvancedAnalytics(startDate: string, endDate: string) {
           total_hours: Math.round(emp.total_hours * 100) / 100,
           regular_hours: Math.round(emp.regular_hours * 100) / 100,
           overtime_hours: Math.round(emp.overtime_hours * 100) / 100,
-          expected_days: workingDays,
+          expected_days: expected.days,
           expected_hours: expectedHours,
           hours_deficit: Math.round(hoursDeficit * 100) / 100,
-          attendance_rate: workingDays > 0 ? 
-            Math.round((emp.present_days / workingDays) * 10000) / 100 : 0,
+          attendance_rate: expected.days > 0 ? 
+            Math.round((emp.present_days / expected.days) * 10000) / 100 : 0,
           punctuality_rate: emp.present_days > 0 ? 
             Math.round(((emp.present_days - emp.late_arrivals) / emp.present_days) * 10000) / 100 : 0
         };
@@ -362,10 +398,9 @@ export function useAdvancedAnalytics(startDate: string, endDate: string) {
 
     // Agrupar por semana
     attendanceData.forEach(att => {
-      const date = new Date(att.attendance_date);
-      const startOfWeek = new Date(date);
-      startOfWeek.setDate(date.getDate() - date.getDay() + 1); // Lunes como inicio de semana
-      const weekKey = startOfWeek.toISOString().split('T')[0];
+      // attendance_date ya es el día laboral en la zona de la organización
+      // Lunes como inicio de semana
+      const weekKey = addDaysToDateKey(att.attendance_date, -((getWeekdayOfDateKey(att.attendance_date) + 6) % 7));
 
       if (!weeks.has(weekKey)) {
         weeks.set(weekKey, {
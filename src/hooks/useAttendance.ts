@@ -4,12 +4,21 @@
  * =============================================
  * 
  * Hook simplificado que funciona con el servicio restaurado
+ * 
+ * Sin conexión, la entrada y la salida se guardan en el dispositivo y se
+ * sincronizan al volver la red (offlineAttendanceService)
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { attendanceService, AttendanceResponse } from '@/services/attendance.service';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { attendanceService, AttendanceResponse, getActiveBreak } from '@/services/attendance.service';
+import { attendancePunchService } from '@/services/attendance-punch.service';
+import { systemConfigService } from '@/services/system-config.service';
+import { offlineAttendanceService, type OfflineSyncResponse } from '@/services/offline-attendance.service';
+import type { AttendanceSyncAction, BreakRecord } from '@/types/database';
+import { useEmployeeTimezone } from './useTimezone';
+import { getBrowserPosition, getCurrentLocationData } from '@/lib/geolocation';
 
 /**
  * Hook para gestión completa de asistencias
@@ -20,6 +29,11 @@ export function useAttendance(employeeId?: string) {
   const [attendanceHistory, setAttendanceHistory] = useState<Record<string, unknown>[]>([]);
   const [loading, setLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [requireOfficeQr, setRequireOfficeQr] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [lastSyncResult, setLastSyncResult] = useState<OfflineSyncResponse | null>(null);
+  const timezone = useEmployeeTimezone(employeeId);
 
   /**
    * Carga los datos de asistencia
@@ -54,10 +68,117 @@ export function useAttendance(employeeId?: string) {
     }
   }, [employeeId, loadAttendanceData]);
 
+  /**
+   * Carga si la política activa exige escanear el QR de la oficina
+   */
+  useEffect(() => {
+    if (!employeeId) return;
+
+    const loadPolicy = async () => {
+      try {
+        const organizationId = await getEmployeeOrganizationId(employeeId);
+        const policy = await systemConfigService.getActiveWorkPolicy(organizationId);
+        setRequireOfficeQr(!!policy?.require_office_qr);
+      } catch (error) {
+        console.error('Error cargando política de trabajo:', error);
+      }
+    };
+
+    loadPolicy();
+  }, [employeeId]);
+
+  /**
+   * Envía los marcajes guardados sin conexión y recarga los datos
+   */
+  const syncPendingEvents = useCallback(async (): Promise<OfflineSyncResponse | null> => {
+    if (!employeeId) return null;
+
+    const result = await offlineAttendanceService.sync(employeeId);
+    setPendingSyncCount(result.pending);
+
+    if (result.results.length > 0) {
+      setLastSyncResult(result);
+      await loadAttendanceData();
+    }
+
+    return result;
+  }, [employeeId, loadAttendanceData]);
+
+  /**
+   * Estado de la conexión: al recuperarla se sincronizan los marcajes pendientes
+   */
+  useEffect(() => {
+    if (!employeeId) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingEvents();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(!offlineAttendanceService.isOffline());
+    offlineAttendanceService.getPendingEvents(employeeId).then(events => {
+      setPendingSyncCount(events.length);
+      if (events.length > 0 && !offlineAttendanceService.isOffline()) {
+        syncPendingEvents();
+      }
+    });
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [employeeId, syncPendingEvents]);
+
+  /**
+   * Guarda el marcaje en el dispositivo y actualiza el estado local como si
+   * se hubiera registrado; el servidor lo valida al sincronizar
+   */
+  const queueOfflineEvent = useCallback(async (
+    action: AttendanceSyncAction,
+    officeQrCode?: string
+  ): Promise<AttendanceResponse> => {
+    if (!employeeId) {
+      return {
+        success: false,
+        message: 'ID de empleado no disponible'
+      };
+    }
+
+    try {
+      const location = await getCurrentLocationData();
+      const event = await offlineAttendanceService.queueEvent(employeeId, action, location, officeQrCode);
+
+      setTodayAttendance(prev => ({
+        ...(prev || {}),
+        [action === 'check_in' ? 'check_in_time' : 'check_out_time']: event.recorded_at,
+        pending_sync: true
+      }));
+      setPendingSyncCount(prev => prev + 1);
+
+      return {
+        success: true,
+        message: action === 'check_in'
+          ? 'Sin conexión: entrada guardada en el dispositivo. Se sincronizará al recuperar la conexión'
+          : 'Sin conexión: salida guardada en el dispositivo. Se sincronizará al recuperar la conexión'
+      };
+    } catch (error) {
+      console.error('Error guardando marcaje sin conexión:', error);
+      return {
+        success: false,
+        message: 'No se pudo guardar el marcaje en el dispositivo'
+      };
+    }
+  }, [employeeId]);
+
   /**
    * Registra la entrada del empleado
+   * officeQrCode: código escaneado cuando la política exige el QR de la oficina
    */
-  const checkIn = useCallback(async (): Promise<AttendanceResponse> => {
+  const checkIn = useCallback(async (officeQrCode?: string): Promise<AttendanceResponse> => {
     if (!employeeId) {
       return {
         success: false,
@@ -68,22 +189,29 @@ export function useAttendance(employeeId?: string) {
     try {
       setIsProcessing(true);
 
-      // Necesito obtener el organization_id del empleado
-      // Por ahora uso el primer empleado del contexto como referencia
-      const organizationId = await getEmployeeOrganizationId(employeeId);
-      
-      const result = await attendanceService.checkIn(employeeId, organizationId);
+      if (offlineAttendanceService.isOffline()) {
+        return await queueOfflineEvent('check_in', officeQrCode);
+      }
+
+      const location = await getCurrentLocationData();
+      const result = await attendancePunchService.checkIn(location, officeQrCode);
       
       if (result.success) {
         // Actualizar estado local
         setTodayAttendance(result.data || null);
         // Recargar datos
         await loadAttendanceData();
+      } else if (offlineAttendanceService.isOffline()) {
+        // La red cayó durante el marcaje
+        return await queueOfflineEvent('check_in', officeQrCode);
       }
 
       return result;
     } catch (error) {
       console.error('Error en check-in:', error);
+      if (offlineAttendanceService.isOffline()) {
+        return await queueOfflineEvent('check_in', officeQrCode);
+      }
       return {
         success: false,
         message: 'Error al registrar entrada'
@@ -91,7 +219,7 @@ export function useAttendance(employeeId?: string) {
     } finally {
       setIsProcessing(false);
     }
-  }, [employeeId, loadAttendanceData]);
+  }, [employeeId, loadAttendanceData, queueOfflineEvent]);
 
   /**
    * Registra la salida del empleado
@@ -106,16 +234,27 @@ export function useAttendance(employeeId?: string) {
 
     try {
       setIsProcessing(true);
-      const result = await attendanceService.checkOut(employeeId);
+
+      if (offlineAttendanceService.isOffline()) {
+        return await queueOfflineEvent('check_out');
+      }
+
+      const location = await getCurrentLocationData();
+      const result = await attendancePunchService.checkOut(location);
       
       if (result.success) {
         setTodayAttendance(result.data || null);
         await loadAttendanceData();
+      } else if (offlineAttendanceService.isOffline()) {
+        return await queueOfflineEvent('check_out');
       }
 
       return result;
     } catch (error) {
       console.error('Error en check-out:', error);
+      if (offlineAttendanceService.isOffline()) {
+        return await queueOfflineEvent('check_out');
+      }
       return {
         success: false,
         message: 'Error al registrar salida'
@@ -123,24 +262,13 @@ export function useAttendance(employeeId?: string) {
     } finally {
       setIsProcessing(false);
     }
-  }, [employeeId, loadAttendanceData]);
+  }, [employeeId, loadAttendanceData, queueOfflineEvent]);
 
   /**
-   * Obtiene la ubicación actual (stub para compatibilidad)
+   * Obtiene la ubicación actual del navegador
    */
   const getCurrentLocation = useCallback((): Promise<GeolocationPosition | null> => {
-    return new Promise((resolve) => {
-      if (!navigator.geolocation) {
-        resolve(null);
-        return;
-      }
-
-      navigator.geolocation.getCurrentPosition(
-        (position) => resolve(position),
-        () => resolve(null),
-        { timeout: 5000 }
-      );
-    });
+    return getBrowserPosition();
   }, []);
 
   /**
@@ -158,36 +286,91 @@ export function useAttendance(employeeId?: string) {
   }, [todayAttendance]);
 
   /**
-   * Verifica si hay un descanso activo (stub para compatibilidad)
+   * Descanso en curso del día actual
+   */
+  const activeBreak = useMemo((): BreakRecord | null => {
+    return getActiveBreak((todayAttendance?.breaks as BreakRecord[] | undefined) || []);
+  }, [todayAttendance]);
+
+  /**
+   * Verifica si hay un descanso activo
    */
   const hasActiveBreak = useCallback((): boolean => {
-    return false; // Simplificado por ahora
-  }, []);
+    return !!activeBreak;
+  }, [activeBreak]);
 
   /**
-   * Inicia un descanso (stub para compatibilidad)
+   * Inicia un descanso del tipo indicado
    */
-  const startBreak = useCallback(async (): Promise<AttendanceResponse> => {
-    return {
-      success: false,
-      message: 'Función de descansos pendiente de implementar'
-    };
-  }, []);
+  const startBreak = useCallback(async (breakType: BreakRecord['type'] = 'short_break'): Promise<AttendanceResponse> => {
+    if (!employeeId) {
+      return {
+        success: false,
+        message: 'ID de empleado no disponible'
+      };
+    }
+
+    try {
+      setIsProcessing(true);
+      const result = await attendancePunchService.startBreak(breakType);
+
+      if (result.success) {
+        setTodayAttendance(result.data || null);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error iniciando descanso:', error);
+      return {
+        success: false,
+        message: 'Error al iniciar descanso'
+      };
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [employeeId]);
 
   /**
-   * Termina el descanso activo (stub para compatibilidad)
+   * Termina el descanso activo
    */
   const endBreak = useCallback(async (): Promise<AttendanceResponse> => {
-    return {
-      success: false,
-      message: 'Función de descansos pendiente de implementar'
-    };
-  }, []);
+    if (!employeeId) {
+      return {
+        success: false,
+        message: 'ID de empleado no disponible'
+      };
+    }
+
+    try {
+      setIsProcessing(true);
+      const result = await attendancePunchService.endBreak();
+
+      if (result.success) {
+        setTodayAttendance(result.data || null);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error terminando descanso:', error);
+      return {
+        success: false,
+        message: 'Error al terminar descanso'
+      };
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [employeeId]);
 
   return {
     // Estados
     todayAttendance,
     attendanceHistory,
+    activeBreak,
+    timezone,
+    requireOfficeQr,
+    isOnline,
+    pendingSyncCount,
+    lastSyncResult,
     loading,
     isProcessing,
 
@@ -204,7 +387,8 @@ export function useAttendance(employeeId?: string) {
     hasActiveBreak,
     
     // Métodos de recarga
-    refreshData: loadAttendanceData
+    refreshData: loadAttendanceData,
+    syncPendingEvents
   };
 }
 
@@ -0,0 +1,105 @@
+/**
+ * =============================================
+ * HOOK PARA CORRECCIONES DE ASISTENCIA DEL EMPLEADO
+ * =============================================
+ *
+ * Solicitudes de corrección propias y acciones del empleado
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  attendanceCorrectionService,
+  CorrectionRequestFormData,
+  CorrectionResponse
+} from '@/services/attendance-correction.service';
+import type { AttendanceCorrection } from '@/types/database';
+
+/**
+ * Hook para solicitudes de corrección de un empleado
+ */
+export function useAttendanceCorrections(employeeId?: string, organizationId?: string) {
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Carga las solicitudes del empleado
+   */
+  const loadCorrections = useCallback(async () => {
+    if (!employeeId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setCorrections(await attendanceCorrectionService.getEmployeeCorrections(employeeId));
+    } catch (err) {
+      console.error('Error cargando correcciones:', err);
+      setError(err instanceof Error ? err.message : 'Error al cargar correcciones');
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    loadCorrections();
+  }, [loadCorrections]);
+
+  /**
+   * Envía una nueva solicitud de corrección
+   */
+  const requestCorrection = useCallback(async (data: CorrectionRequestFormData): Promise<CorrectionResponse> => {
+    if (!employeeId || !organizationId) {
+      return { success: false, message: 'Datos del empleado no disponibles' };
+    }
+
+    try {
+      setIsProcessing(true);
+      const result = await attendanceCorrectionService.requestCorrection(employeeId, organizationId, data);
+
+      if (result.success) {
+        await loadCorrections();
+      }
+
+      return result;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [employeeId, organizationId, loadCorrections]);
+
+  /**
+   * Cancela una solicitud pendiente
+   */
+  const cancelCorrection = useCallback(async (correctionId: string): Promise<CorrectionResponse> => {
+    if (!employeeId) {
+      return { success: false, message: 'ID de empleado no disponible' };
+    }
+
+    try {
+      setIsProcessing(true);
+      const result = await attendanceCorrectionService.cancelCorrection(correctionId, employeeId);
+
+      if (result.success) {
+        await loadCorrections();
+      }
+
+      return result;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [employeeId, loadCorrections]);
+
+  return {
+    corrections,
+    loading,
+    isProcessing,
+    error,
+    requestCorrection,
+    cancelCorrection,
+    refreshData: loadCorrections
+  };
+}
+
+export default useAttendanceCorrections;
@@ -13,7 +13,15 @@ import { useState, useEffect, useCallback } from 'react';
 import { createSupabaseClient } from '@/lib/supabase/client';
 import { startOfWeek, endOfWeek, subDays, format } from 'date-fns';
 import { es } from 'date-fns/locale';
-import type { Attendance } from '@/types/database';
+import type { Attendance, Employee, Holiday } from '@/types/database';
+import { PRESENT_STATUSES, PUNCTUAL_STATUSES } from '@/lib/constants';
+import { addDaysToDateKey, getTodayInTimezone } from '@/lib/timezone';
+import { countEmployeesWithoutHoliday } from '@/lib/holidays';
+import { holidayService } from '@/services/holiday.service';
+import { systemConfigService } from '@/services/system-config.service';
+import { useSessionTimezone } from './useTimezone';
+
+type EmployeeRow = Pick<Employee, 'id' | 'department_id'>;
 
 // ===== TIPOS PARA ANALYTICS =====
 export interface DashboardKPIs {
@@ -78,6 +86,7 @@ export interface DashboardAnalytics {
 // ===== HOOK PRINCIPAL =====
 export function useDashboardAnalytics() {
   const supabase = createSupabaseClient();
+  const timezone = useSessionTimezone();
   
   const [analytics, setAnalytics] = useState<DashboardAnalytics>({
     kpis: {
@@ -173,25 +182,38 @@ export function useDashboardAnalytics() {
   }, []);
   */
 
+  // ===== FUNCIÓN PARA CARGAR FERIADOS =====
+  const loadHolidays = useCallback(async (): Promise<Holiday[]> => {
+    const organizationId = await systemConfigService.getCurrentUserOrganizationId();
+    return organizationId ? holidayService.getHolidays(organizationId) : [];
+  }, []);
+
   // ===== FUNCIÓN PARA CARGAR KPIs =====
   const loadKPIs = useCallback(async (): Promise<DashboardKPIs> => {
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = subDays(new Date(), 1).toISOString().split('T')[0];
+    const today = getTodayInTimezone(timezone);
+    const yesterday = addDaysToDateKey(today, -1);
 
     console.log('🔍 [DEBUG] Cargando KPIs para fecha:', today);
 
     try {
-      // 1. Total de empleados activos
-      const { count: totalEmployees, error: empError } = await supabase
-        .from('employees')
-        .select('*', { count: 'exact', head: true })
-        .eq('is_active', true);
+      // 1. Empleados activos y feriados
+      const [{ data: employees, error: empError }, holidays] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, department_id')
+          .eq('is_active', true),
+        loadHolidays()
+      ]);
 
       if (empError) {
         console.error('❌ Error obteniendo empleados:', empError);
         throw empError;
       }
 
+      const totalEmployees = employees?.length || 0;
+      // Los empleados con feriado hoy no se esperan ni cuentan como ausentes
+      const expectedToday = countEmployeesWithoutHoliday((employees || []) as EmployeeRow[], holidays, today);
+
       console.log('👥 [DEBUG] Total empleados activos:', totalEmployees);
 
       // 2. Asistencias de hoy
@@ -229,10 +251,10 @@ export function useDashboardAnalytics() {
       console.log('📅 [DEBUG] Asistencias de ayer:', yesterdayAttendances?.length || 0);
 
       // 4. Procesar datos del día actual
-      const presentToday = todayAttendances?.filter((attendance: Attendance) => attendance.status === 'present').length || 0;
+      const presentToday = todayAttendances?.filter((attendance: Attendance) => PUNCTUAL_STATUSES.includes(attendance.status)).length || 0;
       const lateToday = todayAttendances?.filter((attendance: Attendance) => attendance.status === 'late').length || 0;
       const totalWithAttendance = (todayAttendances?.length || 0);
-      const absentToday = Math.max(0, (totalEmployees || 0) - totalWithAttendance);
+      const absentToday = Math.max(0, expectedToday - totalWithAttendance);
 
       console.log('� [DEBUG] Conteos calculados:', {
         presentToday,
@@ -243,13 +265,13 @@ export function useDashboardAnalytics() {
       });
 
       // Procesar datos de ayer
-      const presentYesterday = yesterdayAttendances?.filter((attendance: Attendance) => attendance.status === 'present').length || 0;
+      const presentYesterday = yesterdayAttendances?.filter((attendance: Attendance) => PUNCTUAL_STATUSES.includes(attendance.status)).length || 0;
       const lateYesterday = yesterdayAttendances?.filter((attendance: Attendance) => attendance.status === 'late').length || 0;
 
       // Calcular métricas
-      const attendanceRate = totalEmployees ? ((presentToday + lateToday) / totalEmployees) * 100 : 0;
-      const punctualityRate = totalEmployees ? (presentToday / totalEmployees) * 100 : 0;
-      const absenteeismRate = totalEmployees ? (absentToday / totalEmployees) * 100 : 0;
+      const attendanceRate = expectedToday ? ((presentToday + lateToday) / expectedToday) * 100 : 0;
+      const punctualityRate = expectedToday ? (presentToday / expectedToday) * 100 : 0;
+      const absenteeismRate = expectedToday ? (absentToday / expectedToday) * 100 : 0;
 
       // Comparaciones con ayer
       const attendanceVsYesterday = presentToday - presentYesterday;
@@ -264,7 +286,7 @@ export function useDashboardAnalytics() {
       if (lateToday > 5) warningAlerts++;
 
       return {
-        totalEmployees: totalEmployees || 0,
+        totalEmployees,
         presentToday,
         absentToday,
         lateToday,
@@ -281,7 +303,7 @@ export function useDashboardAnalytics() {
       console.error('Error cargando KPIs:', error);
       throw error;
     }
-  }, [supabase]);
+  }, [supabase, timezone, loadHolidays]);
 
   // ===== FUNCIÓN PARA GENERAR DATOS DE EJEMPLO =====
   const generateSampleTrendData = useCallback((totalEmployees: number, days: number = 7): AttendanceTrend[] => {
@@ -342,14 +364,19 @@ export function useDashboardAnalytics() {
         .gte('attendance_date', format(subDays(today, 30), 'yyyy-MM-dd'))
         .lte('attendance_date', format(today, 'yyyy-MM-dd'));
 
-      // Total de empleados para calcular ausentes
-      const { count: totalEmployees } = await supabase
-        .from('employees')
-        .select('*', { count: 'exact', head: true })
-        .eq('is_active', true);
+      // Empleados y feriados para calcular ausentes
+      const [{ data: employeeRows }, holidays] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, department_id')
+          .eq('is_active', true),
+        loadHolidays()
+      ]);
+      const employees = (employeeRows || []) as EmployeeRow[];
+      const totalEmployees = employees.length;
 
       // Procesar tendencia semanal
-      let weeklyTrend = processAttendanceTrend(weeklyData || [], totalEmployees || 0);
+      let weeklyTrend = processAttendanceTrend(weeklyData || [], employees, holidays);
       
       // Si no hay suficientes datos, generar datos de ejemplo
       if (weeklyTrend.length < 7) {
@@ -358,7 +385,7 @@ export function useDashboardAnalytics() {
       }
       
       // Procesar tendencia mensual (usar los mismos datos por ahora)
-      let monthlyTrend = processAttendanceTrend(monthlyData || [], totalEmployees || 0);
+      let monthlyTrend = processAttendanceTrend(monthlyData || [], employees, holidays);
       if (monthlyTrend.length < 7) {
         monthlyTrend = generateSampleTrendData(totalEmployees || 7, 30);
       }
@@ -369,29 +396,33 @@ export function useDashboardAnalytics() {
       console.error('Error cargando tendencias:', error);
       throw error;
     }
-  }, [generateSampleTrendData, supabase]);
+  }, [generateSampleTrendData, supabase, loadHolidays]);
 
   // ===== FUNCIÓN AUXILIAR PARA PROCESAR TENDENCIAS =====
   const processAttendanceTrend = (data: Array<{
     attendance_date: string;
     status: string;
-  }>, totalEmployees: number): AttendanceTrend[] => {
+  }>, employees: EmployeeRow[], holidays: Holiday[]): AttendanceTrend[] => {
     const grouped = data.reduce((acc, record) => {
       const date = record.attendance_date;
       if (!acc[date]) {
-        acc[date] = { present: 0, late: 0, total: 0 };
+        acc[date] = { present: 0, late: 0, absent: 0, total: 0 };
       }
       
-      if (record.status === 'present') acc[date].present++;
+      if (PUNCTUAL_STATUSES.includes(record.status)) acc[date].present++;
       if (record.status === 'late') acc[date].late++;
+      if (record.status === 'absent') acc[date].absent++;
       acc[date].total++;
       
       return acc;
-    }, {} as Record<string, { present: number; late: number; total: number }>);
+    }, {} as Record<string, { present: number; late: number; absent: number; total: number }>);
 
     return Object.entries(grouped).map(([date, stats]) => {
-      const absent = Math.max(0, totalEmployees - stats.total);
-      const attendanceRate = totalEmployees > 0 ? ((stats.present + stats.late) / totalEmployees) * 100 : 0;
+      // En feriados solo se esperan los empleados de departamentos sin feriado
+      const expected = countEmployeesWithoutHoliday(employees, holidays, date);
+      // Ausencias registradas (job de ausencias) más los empleados sin ningún registro ese día
+      const absent = stats.absent + Math.max(0, expected - stats.total);
+      const attendanceRate = expected > 0 ? ((stats.present + stats.late) / expected) * 100 : 0;
       
       return {
         date: format(new Date(date), 'dd/MM', { locale: es }),
@@ -406,7 +437,7 @@ export function useDashboardAnalytics() {
 
   // ===== FUNCIÓN PARA CARGAR MÉTRICAS POR DEPARTAMENTO =====
   const loadDepartmentMetrics = useCallback(async (): Promise<DepartmentMetric[]> => {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayInTimezone(timezone);
 
     try {
       console.log('🏢 [DEBUG] Cargando métricas por departamento para:', today);
@@ -481,7 +512,7 @@ export function useDashboardAnalytics() {
         }
         
         acc[deptName].total++;
-        if (record.status === 'present' || record.status === 'late') {
+        if (PRESENT_STATUSES.includes(record.status)) {
           acc[deptName].present++;
           acc[deptName].totalHours += parseFloat(String(record.work_hours || 0));
         }
@@ -511,7 +542,7 @@ export function useDashboardAnalytics() {
         { department: 'Ventas', present: 1, total: 1, attendanceRate: 100.0, avgHours: 8.5 }
       ];
     }
-  }, [supabase]);
+  }, [supabase, timezone]);
 
   // ===== FUNCIÓN PARA GENERAR ALERTAS =====
   const generateAlerts = useCallback((kpis: DashboardKPIs): AlertItem[] => {
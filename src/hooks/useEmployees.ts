@@ -13,6 +13,7 @@ export interface Employee {
   email: string;
   full_name: string;
   phone?: string;
+  manager_id?: string;
   hire_date: string;
   role: string;
   is_active: boolean;
@@ -20,6 +20,7 @@ export interface FormDataOption {
 export interface UseFormDataResult {
   departments: FormDataOption[];
   positions: FormDataOption[];
+  managers: FormDataOption[];
   roles: FormDataOption[];
   statuses: FormDataOption[];
   loading: boolean;
@@ -32,12 +33,15 @@ export interface UseFormDataResult {
 export function useFormData(organizationId: string): UseFormDataResult {
   const [departments, setDepartments] = useState<FormDataOption[]>([]);
   const [positions, setPositions] = useState<FormDataOption[]>([]);
+  const [managers, setManagers] = useState<FormDataOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Datos estáticos para roles y estados ACTUALES
   const roles: FormDataOption[] = [
     { value: 'employee', label: 'Empleado' },
+    { value: 'manager', label: 'Gerente' },
+    { value: 'hr', label: 'Recursos Humanos' },
     { value: 'admin', label: 'Administrador' },
     { value: 'super_admin', label: 'Super Administrador' }
   ];
@@ -134,8 +138,8 @@ export function useFormData(organizationId: string): UseFormDataResult {
       try {
         const supabase = createSupabaseClient();
         
-        // Cargar departamentos y posiciones en paralelo
-        const [deptResult, posResult] = await Promise.all([
+        // Cargar departamentos, posiciones y responsables en paralelo
+        const [deptResult, posResult, managerResult] = await Promise.all([
           supabase
             .from('departments')
             .select('id, name')
@@ -147,11 +151,18 @@ export function useFormData(organizationId: string): UseFormDataResult {
             .select('id, title')
             .eq('organization_id', organizationId)
             .eq('is_active', true)
-            .order('title')
+            .order('title'),
+          supabase
+            .from('employees')
+            .select('id, full_name')
+            .eq('organization_id', organizationId)
+            .eq('is_active', true)
+            .order('full_name')
         ]);
 
         if (deptResult.error) throw deptResult.error;
         if (posResult.error) throw posResult.error;
+        if (managerResult.error) throw managerResult.error;
 
         const depts = deptResult.data?.map((dept: { id: string; name: string }) => ({
           value: dept.id,
@@ -163,8 +174,14 @@ export function useFormData(organizationId: string): UseFormDataResult {
           label: position.title
         })) || [];
 
+        const mgrs = managerResult.data?.map((manager: { id: string; full_name: string }) => ({
+          value: manager.id,
+          label: manager.full_name
+        })) || [];
+
         setDepartments(depts);
         setPositions(pos);
+        setManagers(mgrs);
         
       } catch (err) {
         console.error('Error cargando datos:', err);
@@ -180,6 +197,7 @@ export function useFormData(organizationId: string): UseFormDataResult {
   return {
     departments,
     positions,
+    managers,
     roles,
     statuses,
     loading,
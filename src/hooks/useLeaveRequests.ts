@@ -0,0 +1,110 @@
+/**
+ * =============================================
+ * HOOK PARA PERMISOS Y LICENCIAS DEL EMPLEADO
+ * =============================================
+ *
+ * Solicitudes propias, saldos anuales y acciones del empleado
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { leaveService, LeaveRequestFormData, LeaveResponse } from '@/services/leave.service';
+import type { LeaveBalance, LeaveRequest } from '@/types/database';
+
+/**
+ * Hook para solicitudes de permiso de un empleado
+ */
+export function useLeaveRequests(employeeId?: string, organizationId?: string) {
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Carga solicitudes y saldos
+   */
+  const loadLeaveData = useCallback(async () => {
+    if (!employeeId || !organizationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [requestsData, balancesData] = await Promise.all([
+        leaveService.getEmployeeLeaveRequests(employeeId),
+        leaveService.getLeaveBalances(employeeId, organizationId)
+      ]);
+
+      setRequests(requestsData);
+      setBalances(balancesData);
+    } catch (err) {
+      console.error('Error cargando permisos:', err);
+      setError(err instanceof Error ? err.message : 'Error al cargar permisos');
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, organizationId]);
+
+  useEffect(() => {
+    loadLeaveData();
+  }, [loadLeaveData]);
+
+  /**
+   * Envía una nueva solicitud
+   */
+  const requestLeave = useCallback(async (data: LeaveRequestFormData): Promise<LeaveResponse> => {
+    if (!employeeId || !organizationId) {
+      return { success: false, message: 'Datos del empleado no disponibles' };
+    }
+
+    try {
+      setIsProcessing(true);
+      const result = await leaveService.requestLeave(employeeId, organizationId, data);
+
+      if (result.success) {
+        await loadLeaveData();
+      }
+
+      return result;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [employeeId, organizationId, loadLeaveData]);
+
+  /**
+   * Cancela una solicitud pendiente
+   */
+  const cancelRequest = useCallback(async (requestId: string): Promise<LeaveResponse> => {
+    if (!employeeId) {
+      return { success: false, message: 'ID de empleado no disponible' };
+    }
+
+    try {
+      setIsProcessing(true);
+      const result = await leaveService.cancelLeaveRequest(requestId, employeeId);
+
+      if (result.success) {
+        await loadLeaveData();
+      }
+
+      return result;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [employeeId, loadLeaveData]);
+
+  return {
+    requests,
+    balances,
+    loading,
+    isProcessing,
+    error,
+    requestLeave,
+    cancelRequest,
+    refreshData: loadLeaveData
+  };
+}
+
+export default useLeaveRequests;
@@ -0,0 +1,87 @@
+/**
+ * =============================================
+ * HOOK PARA NOTIFICACIONES
+ * =============================================
+ *
+ * Notificaciones del usuario actual y acciones de lectura
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { notificationService } from '@/services/notification.service';
+import type { Notification } from '@/types/database';
+
+/**
+ * Hook para las notificaciones de un destinatario
+ */
+export function useNotifications(recipientId?: string) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Carga las notificaciones más recientes
+   */
+  const loadNotifications = useCallback(async () => {
+    if (!recipientId) return;
+
+    try {
+      setLoading(true);
+      setNotifications(await notificationService.getNotifications(recipientId));
+    } catch (err) {
+      console.error('Error cargando notificaciones:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [recipientId]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const unreadCount = useMemo(
+    () => notifications.filter(notification => !notification.read_at).length,
+    [notifications]
+  );
+
+  /**
+   * Marca una notificación como leída
+   */
+  const markAsRead = useCallback(async (notificationId: string) => {
+    try {
+      await notificationService.markAsRead(notificationId);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(notification =>
+        notification.id === notificationId ? { ...notification, read_at: readAt } : notification
+      ));
+    } catch (err) {
+      console.error('Error actualizando notificación:', err);
+    }
+  }, []);
+
+  /**
+   * Marca todas las notificaciones como leídas
+   */
+  const markAllAsRead = useCallback(async () => {
+    if (!recipientId) return;
+
+    try {
+      await notificationService.markAllAsRead(recipientId);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(notification => ({ ...notification, read_at: notification.read_at || readAt })));
+    } catch (err) {
+      console.error('Error actualizando notificaciones:', err);
+    }
+  }, [recipientId]);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refreshData: loadNotifications
+  };
+}
+
+export default useNotifications;
@@ -0,0 +1,85 @@
+/**
+ * =============================================
+ * HOOK DE PERMISOS DEL USUARIO ACTUAL
+ * =============================================
+ *
+ * Permisos efectivos (rol + concesiones/revocaciones individuales) del
+ * usuario con sesión activa, evaluados con can() de lib/permissions
+ * Solo oculta acciones en la interfaz: el servidor vuelve a verificarlos
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { getEffectivePermissions, type Permission, type PermissionSubject } from '@/lib/permissions';
+
+/**
+ * Consulta compartida por todos los componentes montados a la vez,
+ * para no repetir la lectura del empleado en cada botón o pestaña
+ */
+let pendingSubject: Promise<PermissionSubject | null> | null = null;
+
+async function fetchCurrentSubject(): Promise<PermissionSubject | null> {
+  try {
+    const supabase = createSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) return null;
+
+    const { data, error } = await supabase
+      .from('employees')
+      .select('role, permissions, is_active')
+      .eq('email', user.email)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error cargando permisos del usuario:', error);
+    return null;
+  }
+}
+
+function loadCurrentSubject(): Promise<PermissionSubject | null> {
+  if (!pendingSubject) {
+    pendingSubject = fetchCurrentSubject().finally(() => {
+      pendingSubject = null;
+    });
+  }
+  return pendingSubject;
+}
+
+/**
+ * Permisos efectivos del usuario actual
+ */
+export function usePermissions() {
+  const [permissions, setPermissions] = useState<Set<Permission>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCurrentSubject().then((subject) => {
+      if (cancelled) return;
+      setPermissions(getEffectivePermissions(subject));
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const can = useCallback((permission: Permission) => permissions.has(permission), [permissions]);
+
+  return { permissions, can, loading };
+}
+
+/**
+ * Indica si el usuario actual tiene un permiso concreto
+ */
+export function usePermission(permission: Permission) {
+  const { can, loading } = usePermissions();
+  return { allowed: can(permission), loading };
+}
+
+export default usePermission;
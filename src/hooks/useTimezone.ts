@@ -0,0 +1,79 @@
+/**
+ * HOOK PARA OBTENER LA ZONA HORARIA DE LA ORGANIZACIÓN
+ * 
+ * Toda fecha laboral y hora mostrada debe usar Organization.timezone,
+ * no la zona horaria del navegador
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { systemConfigService } from '@/services/system-config.service';
+import { DEFAULT_TIMEZONE } from '@/lib/constants';
+
+/**
+ * Zona horaria de la organización del empleado indicado
+ */
+export function useEmployeeTimezone(employeeId?: string): string {
+  const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE);
+
+  useEffect(() => {
+    if (!employeeId) return;
+
+    let cancelled = false;
+    systemConfigService.getEmployeeTimezone(employeeId).then((value) => {
+      if (!cancelled) setTimezone(value);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeId]);
+
+  return timezone;
+}
+
+/**
+ * Zona horaria de una organización
+ */
+export function useOrganizationTimezone(organizationId?: string): string {
+  const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE);
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    let cancelled = false;
+    systemConfigService.getOrganizationTimezone(organizationId).then((value) => {
+      if (!cancelled) setTimezone(value);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organizationId]);
+
+  return timezone;
+}
+
+/**
+ * Zona horaria de la organización del usuario con sesión activa
+ * Para vistas administrativas que no reciben organizationId
+ */
+export function useSessionTimezone(): string {
+  const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE);
+
+  useEffect(() => {
+    let cancelled = false;
+    systemConfigService.getCurrentUserTimezone().then((value) => {
+      if (!cancelled) setTimezone(value);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return timezone;
+}
+
+export default useEmployeeTimezone;
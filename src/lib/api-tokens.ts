@@ -0,0 +1,38 @@
+// =============================================
+// TOKENS DE API
+// Descripción: Generación y hash de los tokens personales de integración
+// Solo para servidor: usa node:crypto
+// =============================================
+
+import { createHash, randomBytes } from 'node:crypto'
+
+/**
+ * Prefijo que distingue un token de API de un access token de Supabase
+ */
+export const API_TOKEN_PREFIX = 'eat_'
+
+/**
+ * Caracteres visibles del token en la UI (prefijo incluido)
+ */
+const VISIBLE_PREFIX_LENGTH = 12
+
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX)
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Genera un token nuevo con su hash y su prefijo visible
+ * El token en claro solo se devuelve a quien lo crea
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+  }
+}
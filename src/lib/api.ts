@@ -0,0 +1,394 @@
+// =============================================
+// API REST VERSIONADA (/api/v1)
+// Descripción: Autenticación, alcance de datos y respuestas comunes de los
+// endpoints /api/v1/* para integraciones (nómina, RR. HH.) sin navegador
+// Credenciales: cookie de sesión, access token de Supabase o token de API (lib/api-tokens)
+// =============================================
+
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { API_CONFIG, PERMISSIONS } from '@/lib/constants'
+import { getEffectivePermissions, type Permission } from '@/lib/permissions'
+import { hashApiToken, isApiToken } from '@/lib/api-tokens'
+import { TeamService } from '@/services/team.service'
+import type { ApiResponse, Employee, PaginatedResponse } from '@/types/database'
+
+const DEFAULT_PAGE_SIZE = 50
+
+type ApiCallerEmployee = Pick<Employee, 'id' | 'organization_id' | 'role' | 'permissions' | 'is_active' | 'email' | 'full_name'>
+
+const CALLER_EMPLOYEE_SELECT = 'id, organization_id, role, permissions, is_active, email, full_name'
+
+/**
+ * Usuario autenticado de la petición y cliente con el que se consulta
+ * El cliente es de servicio: cada consulta debe filtrar por organization_id
+ * Con token de API, employee es su creador y permissions se limita a los scopes del token
+ */
+export interface ApiCaller {
+  employee: ApiCallerEmployee
+  permissions: Set<Permission>
+  tokenId: string | null
+  supabase: ReturnType<typeof createAdminSupabaseClient>
+}
+
+/**
+ * Columnas expuestas: nunca salary_info
+ */
+export const EMPLOYEE_API_SELECT = `
+  id,
+  employee_code,
+  email,
+  first_name,
+  last_name,
+  full_name,
+  phone,
+  department_id,
+  position_id,
+  manager_id,
+  hire_date,
+  termination_date,
+  role,
+  is_active,
+  created_at,
+  updated_at,
+  department:department_id (id, name),
+  position:position_id (id, title)
+`
+
+/**
+ * Columnas de asistencia expuestas: sin IP, user agent ni ubicación
+ */
+export const ATTENDANCE_API_SELECT = `
+  id,
+  employee_id,
+  attendance_date,
+  check_in_time,
+  check_out_time,
+  work_hours,
+  break_duration,
+  overtime_hours,
+  status,
+  is_approved,
+  employee_notes,
+  manager_notes,
+  created_at,
+  updated_at,
+  employee:employees!employee_id (id, full_name, employee_code, department_id)
+`
+
+/**
+ * Columnas de un token de API expuestas: nunca token_hash
+ */
+export const API_TOKEN_SELECT = `
+  id,
+  name,
+  token_prefix,
+  scopes,
+  expires_at,
+  last_used_at,
+  revoked_at,
+  created_at,
+  creator:employees!created_by (id, full_name)
+`
+
+/**
+ * Columnas de una terminal de quiosco expuestas: nunca token_hash
+ */
+export const KIOSK_DEVICE_SELECT = `
+  id,
+  name,
+  token_prefix,
+  last_seen_at,
+  last_ip_address,
+  revoked_at,
+  created_at,
+  creator:employees!created_by (id, full_name)
+`
+
+/**
+ * Columnas de un endpoint de webhook expuestas: nunca secret
+ */
+export const WEBHOOK_ENDPOINT_SELECT = 'id, url, description, events, is_active, created_at'
+
+export const WEBHOOK_DELIVERY_SELECT =
+  'id, event_id, event, status, attempts, next_attempt_at, last_attempt_at, response_status, last_error, delivered_at, created_at'
+
+export const REPORT_SCHEDULE_SELECT = `
+  id,
+  name,
+  filters,
+  export_options,
+  frequency,
+  run_hour,
+  day_of_week,
+  day_of_month,
+  period,
+  transport,
+  recipients,
+  is_active,
+  next_run_at,
+  last_run_at,
+  created_at
+`
+
+export const REPORT_RUN_SELECT =
+  'id, schedule_id, status, trigger, period_start, period_end, record_count, file_name, delivery_detail, error, started_at, finished_at'
+
+export const REPORT_FILTER_PRESET_SELECT = 'id, name, scope, filters, created_by, created_at'
+
+// =============================================
+// RESPUESTAS
+// =============================================
+
+export function apiSuccess<T>(data: T, status = 200): Response {
+  const body: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  }
+  return Response.json(body, { status })
+}
+
+export function apiError(error: string, status: number): Response {
+  const body: ApiResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+  }
+  return Response.json(body, { status })
+}
+
+export function apiPaginated<T>(data: T[], pagination: ApiPagination, total: number): Response {
+  const totalPages = Math.ceil(total / pagination.limit)
+  const body: PaginatedResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages,
+      hasNext: pagination.page < totalPages,
+      hasPrev: pagination.page > 1,
+    },
+  }
+  return Response.json(body)
+}
+
+// =============================================
+// AUTENTICACIÓN Y ALCANCE
+// =============================================
+
+/**
+ * Identifica al usuario por la cookie de sesión o por
+ * Authorization: Bearer <access token de Supabase | token de API>
+ * Devuelve el usuario o la respuesta de error
+ */
+export async function authenticateApiRequest(request: NextRequest): Promise<ApiCaller | Response> {
+  const supabase = createAdminSupabaseClient()
+
+  const authorization = request.headers.get('authorization')
+  const bearerToken = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : null
+
+  if (bearerToken && isApiToken(bearerToken)) {
+    return authenticateApiToken(supabase, bearerToken)
+  }
+
+  const { data: { user } } = bearerToken
+    ? await supabase.auth.getUser(bearerToken)
+    : await (await createServerSupabaseClient()).auth.getUser()
+
+  if (!user?.email) {
+    return apiError('No autenticado', 401)
+  }
+
+  const { data: employee } = await supabase
+    .from('employees')
+    .select(CALLER_EMPLOYEE_SELECT)
+    .eq('email', user.email)
+    .single()
+
+  if (!employee || !employee.is_active) {
+    return apiError('No autenticado', 401)
+  }
+
+  return { employee, permissions: getEffectivePermissions(employee), tokenId: null, supabase }
+}
+
+/**
+ * Valida un token de API: existente, sin revocar, vigente y con creador activo
+ * Los permisos son los scopes del token que su creador conserva
+ */
+async function authenticateApiToken(
+  supabase: ReturnType<typeof createAdminSupabaseClient>,
+  token: string
+): Promise<ApiCaller | Response> {
+  const { data: apiToken } = await supabase
+    .from('api_tokens')
+    .select('id, organization_id, scopes, expires_at, revoked_at, created_by')
+    .eq('token_hash', hashApiToken(token))
+    .maybeSingle()
+
+  if (!apiToken || apiToken.revoked_at || new Date(apiToken.expires_at) <= new Date()) {
+    return apiError('Token inválido, revocado o expirado', 401)
+  }
+
+  const { data: employee } = await supabase
+    .from('employees')
+    .select(CALLER_EMPLOYEE_SELECT)
+    .eq('id', apiToken.created_by)
+    .eq('organization_id', apiToken.organization_id)
+    .single()
+
+  if (!employee || !employee.is_active) {
+    return apiError('Token inválido, revocado o expirado', 401)
+  }
+
+  const scopes = new Set<string>(apiToken.scopes || [])
+  const permissions = new Set(
+    Array.from(getEffectivePermissions(employee)).filter(permission => scopes.has(permission))
+  )
+
+  // Registro de último uso: un fallo aquí no debe impedir la petición
+  const { error: touchError } = await supabase
+    .from('api_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiToken.id)
+  if (touchError) {
+    console.error('❌ Error registrando uso del token de API:', touchError.message)
+  }
+
+  return { employee, permissions, tokenId: apiToken.id, supabase }
+}
+
+/**
+ * Verifica un permiso del usuario; devuelve la respuesta 403 o null
+ */
+export function requirePermission(caller: ApiCaller, permission: Permission): Response | null {
+  return caller.permissions.has(permission)
+    ? null
+    : apiError('No tienes permisos para este recurso', 403)
+}
+
+/**
+ * Exige sesión de usuario: los tokens de API no pueden gestionar otros tokens
+ */
+export function requireSession(caller: ApiCaller): Response | null {
+  return caller.tokenId
+    ? apiError('Esta operación requiere una sesión de usuario', 403)
+    : null
+}
+
+/**
+ * Empleados cuyos datos de asistencia puede consultar el usuario
+ * - null: toda la organización (ATTENDANCE_VIEW_ALL)
+ * - su equipo y él mismo (ATTENDANCE_VIEW_TEAM, ver lib/team)
+ * - solo él mismo (ATTENDANCE_VIEW_OWN)
+ * - [] si no tiene ninguno de los anteriores
+ */
+export async function getAttendanceScope(caller: ApiCaller): Promise<string[] | null> {
+  const { employee, permissions } = caller
+
+  if (permissions.has(PERMISSIONS.ATTENDANCE_VIEW_ALL)) return null
+
+  if (permissions.has(PERMISSIONS.ATTENDANCE_VIEW_TEAM)) {
+    const teamService = new TeamService(caller.supabase)
+    const memberIds = await teamService.getTeamMemberIds(employee.id, employee.organization_id)
+    return [employee.id, ...memberIds]
+  }
+
+  return permissions.has(PERMISSIONS.ATTENDANCE_VIEW_OWN) ? [employee.id] : []
+}
+
+/**
+ * Limita los IDs de empleado al alcance del usuario y a los filtros de la petición
+ * Devuelve null cuando no hay que filtrar por empleado
+ */
+export async function resolveEmployeeIds(
+  caller: ApiCaller,
+  filters: { employee_id?: string; department_id?: string }
+): Promise<string[] | null> {
+  let employeeIds = await getAttendanceScope(caller)
+
+  const narrow = (ids: string[]) => {
+    employeeIds = employeeIds === null ? ids : employeeIds.filter(id => ids.includes(id))
+  }
+
+  if (filters.employee_id) narrow([filters.employee_id])
+
+  if (filters.department_id) {
+    const { data, error } = await caller.supabase
+      .from('employees')
+      .select('id')
+      .eq('organization_id', caller.employee.organization_id)
+      .eq('department_id', filters.department_id)
+
+    if (error) throw error
+    narrow((data || []).map((employee: { id: string }) => employee.id))
+  }
+
+  return employeeIds
+}
+
+// =============================================
+// PARÁMETROS DE CONSULTA
+// =============================================
+
+export interface ApiPagination {
+  page: number
+  limit: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+}
+
+/**
+ * Lista separada por comas (?status=late,absent) validada con el esquema del elemento
+ */
+export function commaSeparated<T extends z.ZodType<unknown, string>>(item: T) {
+  return z
+    .string()
+    .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(item))
+}
+
+export const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true')
+
+export const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha inválida (YYYY-MM-DD)')
+
+/**
+ * Esquema de PaginationOptions; sortBy se limita a las columnas indicadas
+ */
+export function paginationSchema(sortColumns: [string, ...string[]]) {
+  return z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(API_CONFIG.BATCH_SIZE).default(DEFAULT_PAGE_SIZE),
+    sortBy: z.enum(sortColumns).optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+  })
+}
+
+/**
+ * Valida los parámetros de la URL con el esquema
+ * Devuelve los filtros o la respuesta 400 con los errores
+ */
+export function parseQuery<T extends z.ZodType>(request: NextRequest, schema: T): z.infer<T> | Response {
+  const parsed = schema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return apiError(
+      parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+      400
+    )
+  }
+  return parsed.data
+}
+
+/**
+ * Rango de filas (inclusivo) de la página para .range()
+ */
+export function getPageRange({ page, limit }: ApiPagination): [number, number] {
+  const from = (page - 1) * limit
+  return [from, from + limit - 1]
+}
@@ -78,6 +78,7 @@ export const PERMISSIONS = {
   
   // Gestión de asistencias
   ATTENDANCE_VIEW_OWN: 'attendance:view:own',
+  ATTENDANCE_VIEW_TEAM: 'attendance:view:team',
   ATTENDANCE_VIEW_ALL: 'attendance:view:all',
   ATTENDANCE_CREATE: 'attendance:create',
   ATTENDANCE_EDIT: 'attendance:edit',
@@ -98,6 +99,30 @@ export const PERMISSIONS = {
   AUDIT_SYSTEM: 'audit:system',
 } as const
 
+/**
+ * Descripción de cada permiso para la UI (p. ej. scopes de tokens de API)
+ */
+export const PERMISSION_LABELS: Record<string, string> = {
+  [PERMISSIONS.EMPLOYEES_VIEW]: 'Ver empleados',
+  [PERMISSIONS.EMPLOYEES_CREATE]: 'Crear empleados',
+  [PERMISSIONS.EMPLOYEES_EDIT]: 'Editar empleados',
+  [PERMISSIONS.EMPLOYEES_DELETE]: 'Eliminar empleados',
+  [PERMISSIONS.ATTENDANCE_VIEW_OWN]: 'Ver asistencia propia',
+  [PERMISSIONS.ATTENDANCE_VIEW_TEAM]: 'Ver asistencia del equipo',
+  [PERMISSIONS.ATTENDANCE_VIEW_ALL]: 'Ver asistencia de la organización',
+  [PERMISSIONS.ATTENDANCE_CREATE]: 'Registrar asistencia',
+  [PERMISSIONS.ATTENDANCE_EDIT]: 'Editar asistencia',
+  [PERMISSIONS.ATTENDANCE_APPROVE]: 'Aprobar asistencia y permisos',
+  [PERMISSIONS.REPORTS_VIEW]: 'Ver reportes',
+  [PERMISSIONS.REPORTS_EXPORT]: 'Exportar reportes',
+  [PERMISSIONS.REPORTS_ANALYTICS]: 'Ver analíticas',
+  [PERMISSIONS.SETTINGS_VIEW]: 'Ver configuración',
+  [PERMISSIONS.SETTINGS_EDIT]: 'Editar configuración',
+  [PERMISSIONS.SETTINGS_SYSTEM]: 'Administrar el sistema',
+  [PERMISSIONS.AUDIT_VIEW]: 'Ver auditoría',
+  [PERMISSIONS.AUDIT_SYSTEM]: 'Auditoría del sistema',
+}
+
 /**
  * Mapeo de permisos por rol
  * Define qué puede hacer cada rol
@@ -108,11 +133,12 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
     PERMISSIONS.ATTENDANCE_CREATE,
   ],
   
+  // Alcance limitado a su equipo: reportes directos e indirectos
+  // y empleados de los departamentos que dirige (ver lib/team)
   [ROLES.MANAGER]: [
     PERMISSIONS.ATTENDANCE_VIEW_OWN,
     PERMISSIONS.ATTENDANCE_CREATE,
-    PERMISSIONS.EMPLOYEES_VIEW,
-    PERMISSIONS.ATTENDANCE_VIEW_ALL,
+    PERMISSIONS.ATTENDANCE_VIEW_TEAM,
     PERMISSIONS.ATTENDANCE_APPROVE,
     PERMISSIONS.REPORTS_VIEW,
   ],
@@ -127,7 +153,7 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
     PERMISSIONS.ATTENDANCE_APPROVE,
     PERMISSIONS.REPORTS_VIEW,
     PERMISSIONS.REPORTS_EXPORT,
-    PERMISSIONS.SETTINGS_VIEW,
+    // Sin acceso a la configuración del sistema
   ],
   
   [ROLES.ADMIN]: [
@@ -154,6 +180,17 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
   ],
 }
 
+/**
+ * Panel al que se dirige a cada rol después del login
+ */
+export const ROLE_DASHBOARDS: Record<string, string> = {
+  [ROLES.EMPLOYEE]: '/dashboard/employee',
+  [ROLES.MANAGER]: '/dashboard/manager',
+  [ROLES.HR]: '/dashboard/admin',
+  [ROLES.ADMIN]: '/dashboard/admin',
+  [ROLES.SUPER_ADMIN]: '/dashboard/admin',
+}
+
 /**
  * Estados de asistencia con configuración
  */
@@ -166,8 +203,38 @@ export const ATTENDANCE_STATUS = {
   VACATION: 'vacation',
   REMOTE: 'remote',
   OVERTIME: 'overtime',
+  ON_TIME: 'on_time',
+  EARLY_DEPARTURE: 'early_departure',
 } as const
 
+/**
+ * Estados que cuentan como día asistido
+ */
+export const PRESENT_STATUSES: string[] = [
+  ATTENDANCE_STATUS.PRESENT,
+  ATTENDANCE_STATUS.ON_TIME,
+  ATTENDANCE_STATUS.LATE,
+  ATTENDANCE_STATUS.EARLY_LEAVE,
+  ATTENDANCE_STATUS.EARLY_DEPARTURE,
+  ATTENDANCE_STATUS.OVERTIME,
+  ATTENDANCE_STATUS.REMOTE,
+]
+
+/**
+ * Estados asistidos sin tardanza en la entrada
+ */
+export const PUNCTUAL_STATUSES: string[] = PRESENT_STATUSES.filter(
+  status => status !== ATTENDANCE_STATUS.LATE
+)
+
+/**
+ * Estados de días cubiertos por un permiso aprobado (no cuentan como ausencia)
+ */
+export const LEAVE_STATUSES: string[] = [
+  ATTENDANCE_STATUS.VACATION,
+  ATTENDANCE_STATUS.SICK_LEAVE,
+]
+
 /**
  * Configuración visual para estados de asistencia
  */
@@ -220,6 +287,84 @@ export const ATTENDANCE_STATUS_CONFIG = {
     icon: 'plus-circle',
     bgColor: '#FDF2F8',
   },
+  [ATTENDANCE_STATUS.ON_TIME]: {
+    label: 'A Tiempo',
+    color: COLORS.success,
+    icon: 'check-circle',
+    bgColor: '#ECFDF5',
+  },
+  [ATTENDANCE_STATUS.EARLY_DEPARTURE]: {
+    label: 'Salida Temprana',
+    color: COLORS.warning,
+    icon: 'log-out',
+    bgColor: '#FFFBEB',
+  },
+} as const
+
+/**
+ * Configuración visual para tipos de descanso
+ */
+export const BREAK_TYPE_CONFIG = {
+  lunch: {
+    label: 'Almuerzo',
+    icon: '🍽️',
+  },
+  short_break: {
+    label: 'Descanso Corto',
+    icon: '☕',
+  },
+  personal: {
+    label: 'Personal',
+    icon: '🚶',
+  },
+  medical: {
+    label: 'Médico',
+    icon: '⚕️',
+  },
+} as const
+
+/**
+ * Configuración de tipos de permiso
+ * attendanceStatus: estado con el que se registran los días aprobados
+ */
+export const LEAVE_TYPE_CONFIG = {
+  vacation: {
+    label: 'Vacaciones',
+    icon: '🌴',
+    attendanceStatus: ATTENDANCE_STATUS.VACATION,
+  },
+  sick_leave: {
+    label: 'Enfermedad',
+    icon: '🤒',
+    attendanceStatus: ATTENDANCE_STATUS.SICK_LEAVE,
+  },
+  personal: {
+    label: 'Día Personal',
+    icon: '🗓️',
+    attendanceStatus: ATTENDANCE_STATUS.VACATION,
+  },
+} as const
+
+/**
+ * Configuración visual para estados de solicitudes (permisos, correcciones)
+ */
+export const REQUEST_STATUS_CONFIG = {
+  pending: {
+    label: 'Pendiente',
+    className: 'bg-yellow-100 text-yellow-800',
+  },
+  approved: {
+    label: 'Aprobada',
+    className: 'bg-green-100 text-green-800',
+  },
+  rejected: {
+    label: 'Rechazada',
+    className: 'bg-red-100 text-red-800',
+  },
+  cancelled: {
+    label: 'Cancelada',
+    className: 'bg-gray-100 text-gray-800',
+  },
 } as const
 
 /**
@@ -246,6 +391,32 @@ export const DATE_FORMATS = {
   MONTH_YEAR: 'MMMM yyyy',
 } as const
 
+/**
+ * Zona horaria por defecto cuando la organización no tiene una válida
+ */
+export const DEFAULT_TIMEZONE = 'America/Lima'
+
+/**
+ * Configuración de geolocalización para el registro de asistencia
+ */
+export const GEOLOCATION_CONFIG = {
+  TIMEOUT_MS: 10000,
+  MAX_AGE_MS: 60000,
+  DEFAULT_RADIUS_METERS: 100,
+  MIN_RADIUS_METERS: 20,
+  MAX_RADIUS_METERS: 5000,
+} as const
+
+/**
+ * Opciones de cierre automático de turnos sin salida
+ */
+export const SHIFT_AUTO_CLOSE_CONFIG = {
+  disabled: { label: 'No cerrar automáticamente', description: 'Los turnos quedan abiertos hasta corregirlos' },
+  end_time: { label: 'Cerrar a la hora de salida', description: 'Se registra la salida programada del horario' },
+  max_daily_hours: { label: 'Cerrar al máximo de horas', description: 'Se registra la salida al cumplir el máximo de horas diarias' },
+  flag: { label: 'Marcar para revisión', description: 'No se registra salida; queda pendiente de aprobación' },
+} as const
+
 /**
  * Configuración de validación
  * Reglas de negocio centralizadas
@@ -304,6 +475,7 @@ export const STORAGE_KEYS = {
   LANGUAGE: 'educa_language',
   RECENT_SEARCHES: 'educa_recent_searches',
   DASHBOARD_LAYOUT: 'educa_dashboard_layout',
+  KIOSK_TOKEN: 'educa_kiosk_token',
 } as const
 
 /**
@@ -317,6 +489,49 @@ export const API_CONFIG = {
   BATCH_SIZE: 100,
 } as const
 
+/**
+ * Vigencias permitidas para los tokens de API, en días
+ */
+export const API_TOKEN_EXPIRATION_DAYS = [30, 90, 180, 365] as const
+
+/**
+ * Modo quiosco: terminal compartida de marcaje (ver lib/kiosk)
+ * El QR del empleado cambia cada QR_PERIOD_SECONDS; tras MAX_PIN_ATTEMPTS
+ * PIN erróneos seguidos el PIN queda bloqueado PIN_LOCKOUT_MINUTES
+ */
+export const KIOSK_CONFIG = {
+  QR_PERIOD_SECONDS: 30,
+  PIN_MIN_LENGTH: 4,
+  PIN_MAX_LENGTH: 8,
+  MAX_PIN_ATTEMPTS: 5,
+  PIN_LOCKOUT_MINUTES: 15,
+  RESULT_DISPLAY_MS: 5000, // Tiempo que la terminal muestra el resultado
+} as const
+
+/**
+ * QR de la oficina: una pantalla en la oficina muestra un código firmado con
+ * el secreto de la organización que cambia cada PERIOD_SECONDS (ver lib/office-qr)
+ */
+export const OFFICE_QR_CONFIG = {
+  PERIOD_SECONDS: 30,
+  CODE_PREFIX: 'educa-office',
+} as const
+
+/**
+ * Marcajes sin conexión: se guardan en IndexedDB con la hora del dispositivo
+ * y se envían al recuperar la conexión (ver services/offline-attendance.service)
+ * El servidor rechaza los que superan MAX_EVENT_AGE_HOURS o llegan con una
+ * hora adelantada más de MAX_CLOCK_SKEW_MINUTES; los aceptados quedan
+ * pendientes de revisión (is_approved = false), porque la hora es del dispositivo
+ */
+export const OFFLINE_SYNC_CONFIG = {
+  DB_NAME: 'educa_offline',
+  STORE_NAME: 'attendance_events',
+  MAX_EVENT_AGE_HOURS: 12,
+  MAX_CLOCK_SKEW_MINUTES: 5,
+  MAX_EVENTS_PER_SYNC: 50,
+} as const
+
 /**
  * Configuración de URLs de la aplicación
  * Rutas escalables y organizadas
@@ -335,6 +550,8 @@ export const ROUTES = {
   ATTENDANCE: '/dashboard/attendance',
   ATTENDANCE_HISTORY: '/dashboard/attendance/history',
   ATTENDANCE_CALENDAR: '/dashboard/attendance/calendar',
+  KIOSK: '/kiosk',
+  OFFICE_QR: '/kiosk/office-qr',
   
   // Administración
   ADMIN: '/admin',
@@ -343,13 +560,31 @@ export const ROUTES = {
   ADMIN_REPORTS: '/admin/reports',
   ADMIN_SETTINGS: '/admin/settings',
   
-  // API
+  // API REST versionada (ver lib/api)
   API: {
-    AUTH: '/api/auth',
-    EMPLOYEES: '/api/employees',
-    ATTENDANCE: '/api/attendance',
-    REPORTS: '/api/reports',
-    SETTINGS: '/api/settings',
+    AUTH: '/api/v1/auth/me',
+    EMPLOYEES: '/api/v1/employees',
+    ATTENDANCE: '/api/v1/attendance',
+    REPORTS: '/api/v1/reports',
+    SETTINGS: '/api/v1/settings',
+    TOKENS: '/api/v1/tokens',
+    WEBHOOKS: '/api/v1/webhooks',
+    WEBHOOK_EVENTS: '/api/v1/webhooks/events',
+    KIOSKS: '/api/v1/kiosks',
+    KIOSK_PIN: '/api/v1/auth/me/kiosk-pin',
+    KIOSK_QR: '/api/v1/auth/me/kiosk-qr',
+    ATTENDANCE_SYNC: '/api/v1/attendance/sync',
+    ATTENDANCE_PUNCH: '/api/v1/attendance/punch',
+    LEAVE_REQUESTS: '/api/v1/leave-requests',
+    REPORT_SCHEDULES: '/api/v1/report-schedules',
+    REPORT_PRESETS: '/api/v1/report-presets',
+  },
+
+  // Terminal de quiosco (autenticada con X-Kiosk-Token, ver lib/kiosk)
+  KIOSK_API: {
+    DEVICE: '/api/kiosk/device',
+    PUNCH: '/api/kiosk/punch',
+    OFFICE_QR: '/api/kiosk/office-qr',
   },
 } as const
 
@@ -390,9 +625,67 @@ export const METRICS = {
     ATTENDANCE_CHECK_OUT: 'attendance_check_out',
     REPORT_GENERATED: 'report_generated',
     SETTINGS_CHANGED: 'settings_changed',
+    EMPLOYEE_CREATED: 'employee_created',
+    EMPLOYEE_UPDATED: 'employee_updated',
+    EMPLOYEE_DEACTIVATED: 'employee_deactivated',
   },
 } as const
 
+/**
+ * Eventos disponibles para webhooks, con su descripción para la UI
+ */
+export const WEBHOOK_EVENT_LABELS: Record<string, string> = {
+  [METRICS.EVENTS.ATTENDANCE_CHECK_IN]: 'Entrada registrada',
+  [METRICS.EVENTS.ATTENDANCE_CHECK_OUT]: 'Salida registrada',
+  [METRICS.EVENTS.EMPLOYEE_CREATED]: 'Empleado creado',
+  [METRICS.EVENTS.EMPLOYEE_UPDATED]: 'Empleado actualizado',
+  [METRICS.EVENTS.EMPLOYEE_DEACTIVATED]: 'Empleado desactivado',
+  [METRICS.EVENTS.REPORT_GENERATED]: 'Reporte generado',
+  [METRICS.EVENTS.SETTINGS_CHANGED]: 'Configuración modificada',
+}
+
+/**
+ * Entrega de webhooks: reintentos con espera creciente
+ * Tras MAX_ATTEMPTS intentos fallidos la entrega queda como 'failed'
+ */
+export const WEBHOOK_CONFIG = {
+  MAX_ATTEMPTS: 6,
+  RETRY_DELAYS_MINUTES: [1, 5, 30, 120, 720], // Espera tras cada intento fallido
+  TIMEOUT: 10000, // 10 segundos por intento
+  BATCH_SIZE: 100,
+} as const
+
+/**
+ * Reportes programados (ver /api/jobs/send-scheduled-reports)
+ */
+export const REPORT_SCHEDULE_CONFIG = {
+  BATCH_SIZE: 20,             // Reportes por ejecución del proceso
+  RUN_LOG_LIMIT: 50,          // Ejecuciones visibles en el panel
+  MAX_RECIPIENTS: 20,
+  DELIVERY_TIMEOUT: 30000,    // 30 segundos por envío webhook
+  OUTPUT_DIR: 'scheduled-reports', // Transporte directory si no hay REPORT_OUTPUT_DIR
+} as const
+
+export const REPORT_SCHEDULE_FREQUENCY_LABELS: Record<string, string> = {
+  daily: 'Diario',
+  weekly: 'Semanal',
+  monthly: 'Mensual',
+}
+
+export const REPORT_SCHEDULE_PERIOD_LABELS: Record<string, string> = {
+  yesterday: 'Ayer',
+  last_7_days: 'Últimos 7 días',
+  last_week: 'Semana pasada (lunes a domingo)',
+  last_month: 'Mes pasado',
+  month_to_date: 'Mes en curso hasta ayer',
+}
+
+export const REPORT_DELIVERY_TRANSPORT_LABELS: Record<string, string> = {
+  smtp: 'Correo (SMTP)',
+  webhook: 'Webhook (POST https)',
+  directory: 'Carpeta local del servidor',
+}
+
 // Exportar tipos para uso en TypeScript
 export type ColorKey = keyof typeof COLORS
 export type RoleType = typeof ROLES[keyof typeof ROLES]
@@ -0,0 +1,35 @@
+// =============================================
+// AUTENTICACIÓN DE PROCESOS PROGRAMADOS
+// Descripción: Validación del secreto compartido de los endpoints /api/jobs/*
+// =============================================
+
+import { NextRequest } from 'next/server'
+import { createHash, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Compara en tiempo constante: los resúmenes SHA-256 tienen siempre el mismo
+ * largo, así tampoco se filtra la longitud del secreto
+ */
+function matchesSecret(received: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(received), digest(expected))
+}
+
+/**
+ * Verifica el encabezado Authorization: Bearer $CRON_SECRET
+ * Devuelve la respuesta de error o null si la petición está autorizada
+ */
+export function authorizeCronRequest(request: NextRequest): Response | null {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    console.error('❌ CRON_SECRET no está configurado')
+    return Response.json({ error: 'Proceso no configurado' }, { status: 500 })
+  }
+
+  if (!matchesSecret(request.headers.get('authorization') ?? '', `Bearer ${secret}`)) {
+    return Response.json({ error: 'No autorizado' }, { status: 401 })
+  }
+
+  return null
+}
@@ -0,0 +1,117 @@
+// =============================================
+// UTILIDADES DE GEOLOCALIZACIÓN
+// Descripción: Captura de ubicación del navegador y validación de geocercas
+// =============================================
+
+import type { Geofence, LocationData } from '@/types/database'
+import { GEOLOCATION_CONFIG } from './constants'
+
+const EARTH_RADIUS_METERS = 6371000
+
+/**
+ * Resultado de evaluar una ubicación contra las geocercas de la organización
+ */
+export interface GeofenceEvaluation {
+  withinGeofence: boolean
+  geofence: Geofence | null // La que contiene el punto, o la más cercana si está fuera
+  distanceMeters: number | null
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Distancia en metros entre dos coordenadas (fórmula de Haversine)
+ */
+export function getDistanceMeters(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): number {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Evalúa si una ubicación está dentro de alguna geocerca activa
+ * La precisión reportada por el dispositivo se usa como margen a favor del empleado
+ */
+export function evaluateGeofences(location: LocationData, geofences: Geofence[]): GeofenceEvaluation {
+  const active = geofences.filter((geofence) => geofence.is_active)
+  if (active.length === 0) {
+    return { withinGeofence: true, geofence: null, distanceMeters: null }
+  }
+
+  const margin = Math.min(location.accuracy || 0, GEOLOCATION_CONFIG.DEFAULT_RADIUS_METERS)
+  const ranked = active
+    .map((geofence) => ({ geofence, distance: getDistanceMeters(location, geofence) }))
+    .sort((a, b) => a.distance - b.distance)
+
+  const inside = ranked.find(({ geofence, distance }) => distance - margin <= geofence.radius_meters)
+  const match = inside || ranked[0]
+
+  return {
+    withinGeofence: !!inside,
+    geofence: match.geofence,
+    distanceMeters: Math.round(match.distance),
+  }
+}
+
+/**
+ * Agrega a la ubicación el resultado de la validación de geocercas
+ */
+export function withGeofenceResult(location: LocationData, evaluation: GeofenceEvaluation): LocationData {
+  return {
+    ...location,
+    geofence_id: evaluation.geofence?.id,
+    geofence_name: evaluation.geofence?.name,
+    distance_meters: evaluation.distanceMeters ?? undefined,
+    within_geofence: evaluation.withinGeofence,
+  }
+}
+
+/**
+ * Convierte una posición del navegador a LocationData
+ */
+export function positionToLocationData(position: GeolocationPosition): LocationData {
+  return {
+    lat: position.coords.latitude,
+    lng: position.coords.longitude,
+    accuracy: Math.round(position.coords.accuracy),
+    timestamp: new Date(position.timestamp).toISOString(),
+  }
+}
+
+/**
+ * Obtiene la posición actual del navegador
+ * Devuelve null si no hay soporte o el usuario denegó el permiso
+ */
+export function getBrowserPosition(): Promise<GeolocationPosition | null> {
+  return new Promise((resolve) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null)
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(position),
+      () => resolve(null),
+      {
+        enableHighAccuracy: true,
+        timeout: GEOLOCATION_CONFIG.TIMEOUT_MS,
+        maximumAge: GEOLOCATION_CONFIG.MAX_AGE_MS,
+      }
+    )
+  })
+}
+
+/**
+ * Obtiene la ubicación actual lista para guardar en location_data
+ */
+export async function getCurrentLocationData(): Promise<LocationData | null> {
+  const position = await getBrowserPosition()
+  return position ? positionToLocationData(position) : null
+}
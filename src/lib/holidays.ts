@@ -0,0 +1,153 @@
+// =============================================
+// UTILIDADES DE FERIADOS
+// Descripción: Resolución de feriados (únicos o recurrentes, por
+// departamento) y lectura del CSV de importación
+// =============================================
+
+import Papa from 'papaparse'
+import type { Holiday } from '@/types/database'
+
+/**
+ * Fila de feriado lista para guardar (resultado de la importación CSV)
+ */
+export interface HolidayImportRow {
+  date: string
+  name: string
+  is_recurring: boolean
+  department_codes: string[]
+}
+
+/**
+ * Resultado de leer un CSV de feriados
+ */
+export interface HolidayCsvResult {
+  rows: HolidayImportRow[]
+  errors: string[]
+}
+
+type HolidayRule = Pick<Holiday, 'date' | 'is_recurring' | 'department_ids'>
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Indica si el feriado aplica a un departamento
+ * Sin departamento solo aplican los feriados de toda la organización
+ */
+export function holidayAppliesToDepartment(holiday: HolidayRule, departmentId?: string | null): boolean {
+  if (!holiday.department_ids || holiday.department_ids.length === 0) return true
+  return !!departmentId && holiday.department_ids.includes(departmentId)
+}
+
+/**
+ * Indica si el feriado cae en la fecha (YYYY-MM-DD)
+ * Los recurrentes se repiten cada año desde el año en que se crearon
+ */
+export function holidayFallsOn(holiday: HolidayRule, dateKey: string): boolean {
+  if (!holiday.is_recurring) return holiday.date === dateKey
+  return holiday.date.slice(5) === dateKey.slice(5) && holiday.date <= dateKey
+}
+
+/**
+ * Feriado que aplica en la fecha para el departamento (o null)
+ */
+export function findHoliday<T extends HolidayRule>(
+  holidays: T[],
+  dateKey: string,
+  departmentId?: string | null
+): T | null {
+  return holidays.find(holiday =>
+    holidayFallsOn(holiday, dateKey) && holidayAppliesToDepartment(holiday, departmentId)
+  ) || null
+}
+
+/**
+ * Indica si la fecha es feriado para el departamento
+ */
+export function isHoliday(holidays: HolidayRule[], dateKey: string, departmentId?: string | null): boolean {
+  return findHoliday(holidays, dateKey, departmentId) !== null
+}
+
+/**
+ * Cantidad de empleados para los que la fecha no es feriado
+ */
+export function countEmployeesWithoutHoliday(
+  employees: { department_id?: string | null }[],
+  holidays: HolidayRule[],
+  dateKey: string
+): number {
+  return employees.filter(employee => !isHoliday(holidays, dateKey, employee.department_id)).length
+}
+
+/**
+ * Valida una fecha YYYY-MM-DD existente (rechaza p. ej. 2025-02-30)
+ */
+function isValidDateKey(value: string): boolean {
+  if (!DATE_KEY_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+/**
+ * Interpreta valores de verdad del CSV (si/no, true/false, 1/0)
+ */
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase()
+  if (['', 'no', 'false', '0', 'n'].includes(normalized)) return false
+  if (['si', 'sí', 'yes', 'true', '1', 's', 'y'].includes(normalized)) return true
+  return null
+}
+
+/**
+ * Lee un CSV de feriados con columnas: fecha, nombre, recurrente, departamentos
+ * - fecha en formato YYYY-MM-DD
+ * - recurrente: si/no (opcional, por defecto no)
+ * - departamentos: códigos separados por ';' (opcional, vacío = toda la organización)
+ * Separado por comas, o por tabuladores si la primera línea los tiene (copiado
+ * de una hoja de cálculo); los campos entre comillas pueden contener el separador
+ * La primera fila se ignora si es un encabezado
+ */
+export function parseHolidayCsv(text: string): HolidayCsvResult {
+  const rows: HolidayImportRow[] = []
+  const errors: string[] = []
+
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.split(/\r?\n/, 1)[0]
+  const { data: records } = Papa.parse<string[]>(content, {
+    delimiter: firstLine.includes('\t') ? '\t' : ',',
+    skipEmptyLines: false,
+  })
+
+  records.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return
+
+    const [date = '', name = '', recurring = '', departments = ''] = cells.map(cell => cell.trim())
+
+    // Encabezado
+    if (index === 0 && !DATE_KEY_PATTERN.test(date)) return
+
+    const lineNumber = index + 1
+    if (!isValidDateKey(date)) {
+      errors.push(`Línea ${lineNumber}: fecha inválida "${date}" (use YYYY-MM-DD)`)
+      return
+    }
+    if (!name) {
+      errors.push(`Línea ${lineNumber}: falta el nombre del feriado`)
+      return
+    }
+
+    const isRecurring = parseBoolean(recurring)
+    if (isRecurring === null) {
+      errors.push(`Línea ${lineNumber}: valor de recurrente inválido "${recurring}" (use si/no)`)
+      return
+    }
+
+    rows.push({
+      date,
+      name,
+      is_recurring: isRecurring,
+      department_codes: departments.split(';').map(code => code.trim()).filter(Boolean)
+    })
+  })
+
+  return { rows, errors }
+}
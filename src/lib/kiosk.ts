@@ -0,0 +1,182 @@
+// =============================================
+// MODO QUIOSCO
+// Descripción: Autorización de terminales compartidas y verificación de la
+// identidad del empleado (código + PIN o QR rotativo)
+// Solo para servidor: usa node:crypto
+// =============================================
+
+import { NextRequest } from 'next/server'
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+import { z } from 'zod'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { KIOSK_CONFIG } from '@/lib/constants'
+import { apiError } from '@/lib/api'
+import type { KioskDevice } from '@/types/database'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+/**
+ * Encabezado con el que la terminal se identifica
+ */
+export const KIOSK_TOKEN_HEADER = 'X-Kiosk-Token'
+
+const KIOSK_TOKEN_PREFIX = 'kio_'
+const VISIBLE_PREFIX_LENGTH = 12
+const PIN_KEY_LENGTH = 32
+const QR_SIGNATURE_LENGTH = 22
+
+/**
+ * Terminal autenticada y cliente de servicio para operar en su nombre
+ */
+export interface KioskCaller {
+  kiosk: Pick<KioskDevice, 'id' | 'organization_id' | 'name'>
+  supabase: ReturnType<typeof createAdminSupabaseClient>
+}
+
+// =============================================
+// TOKEN DEL DISPOSITIVO
+// =============================================
+
+export function hashKioskToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Genera el token con el que se activa una terminal
+ * El token en claro solo se muestra al administrador que la registra
+ */
+export function generateKioskToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${KIOSK_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return {
+    token,
+    tokenHash: hashKioskToken(token),
+    tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+  }
+}
+
+/**
+ * IP del cliente según el proxy (primera entrada de X-Forwarded-For)
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) return forwardedFor.split(',')[0].trim()
+  return request.headers.get('x-real-ip')
+}
+
+/**
+ * Valida el token de la terminal y registra su última conexión
+ * Devuelve la terminal o la respuesta de error
+ */
+export async function authenticateKiosk(request: NextRequest): Promise<KioskCaller | Response> {
+  const token = request.headers.get(KIOSK_TOKEN_HEADER)?.trim()
+  if (!token || !token.startsWith(KIOSK_TOKEN_PREFIX)) {
+    return apiError('Terminal no autorizada', 401)
+  }
+
+  const supabase = createAdminSupabaseClient()
+  const { data: kiosk } = await supabase
+    .from('kiosk_devices')
+    .select('id, organization_id, name, revoked_at')
+    .eq('token_hash', hashKioskToken(token))
+    .maybeSingle()
+
+  if (!kiosk || kiosk.revoked_at) {
+    return apiError('Terminal no autorizada o revocada', 401)
+  }
+
+  // Registro de última conexión: un fallo aquí no debe impedir el marcaje
+  const { error: touchError } = await supabase
+    .from('kiosk_devices')
+    .update({ last_seen_at: new Date().toISOString(), last_ip_address: getClientIp(request) })
+    .eq('id', kiosk.id)
+  if (touchError) {
+    console.error('❌ Error registrando conexión de la terminal:', touchError.message)
+  }
+
+  return { kiosk: { id: kiosk.id, organization_id: kiosk.organization_id, name: kiosk.name }, supabase }
+}
+
+// =============================================
+// PIN DEL EMPLEADO
+// =============================================
+
+export const kioskPinSchema = z
+  .string()
+  .regex(
+    new RegExp(`^\\d{${KIOSK_CONFIG.PIN_MIN_LENGTH},${KIOSK_CONFIG.PIN_MAX_LENGTH}}$`),
+    `El PIN debe tener entre ${KIOSK_CONFIG.PIN_MIN_LENGTH} y ${KIOSK_CONFIG.PIN_MAX_LENGTH} dígitos`
+  )
+
+/**
+ * Hash del PIN con scrypt y sal aleatoria: scrypt$<sal>$<hash>
+ */
+export async function hashKioskPin(pin: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await scryptAsync(pin, salt, PIN_KEY_LENGTH)
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`
+}
+
+export async function verifyKioskPin(pin: string, storedHash: string): Promise<boolean> {
+  const [algorithm, salt, hash] = storedHash.split('$')
+  if (algorithm !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'base64url')
+  const key = await scryptAsync(pin, Buffer.from(salt, 'base64url'), expected.length)
+  return timingSafeEqual(key, expected)
+}
+
+// =============================================
+// QR ROTATIVO DEL EMPLEADO
+// =============================================
+
+/**
+ * Secreto del servidor con el que se firman los QR (KIOSK_QR_SECRET)
+ */
+function getQrSecret(): string {
+  const secret = process.env.KIOSK_QR_SECRET
+  if (!secret) {
+    throw new Error('KIOSK_QR_SECRET no está configurado')
+  }
+  return secret
+}
+
+function getQrWindow(now: Date): number {
+  return Math.floor(now.getTime() / (KIOSK_CONFIG.QR_PERIOD_SECONDS * 1000))
+}
+
+function signQrPayload(payload: string): string {
+  return createHmac('sha256', getQrSecret()).update(payload).digest('base64url').slice(0, QR_SIGNATURE_LENGTH)
+}
+
+/**
+ * Código del QR del empleado para el periodo actual: <employeeId>.<periodo>.<firma>
+ * Devuelve también cuándo caduca para que el cliente lo renueve
+ */
+export function createEmployeeQrCode(employeeId: string, now: Date = new Date()): { code: string; expiresAt: string } {
+  const window = getQrWindow(now)
+  const payload = `${employeeId}.${window}`
+  return {
+    code: `${payload}.${signQrPayload(payload)}`,
+    expiresAt: new Date((window + 1) * KIOSK_CONFIG.QR_PERIOD_SECONDS * 1000).toISOString(),
+  }
+}
+
+/**
+ * Verifica un QR escaneado y devuelve el id del empleado, o null si es inválido o caducó
+ * Se acepta también el periodo anterior para tolerar el desfase entre dispositivos
+ */
+export function verifyEmployeeQrCode(code: string, now: Date = new Date()): string | null {
+  const [employeeId, windowValue, signature] = code.trim().split('.')
+  if (!employeeId || !windowValue || !signature) return null
+
+  const window = Number(windowValue)
+  const currentWindow = getQrWindow(now)
+  if (!Number.isInteger(window) || window > currentWindow || window < currentWindow - 1) return null
+
+  const expected = Buffer.from(signQrPayload(`${employeeId}.${window}`))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null
+
+  return employeeId
+}
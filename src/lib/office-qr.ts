@@ -0,0 +1,105 @@
+// =============================================
+// QR DE LA OFICINA
+// Descripción: Código rotativo que muestra una pantalla en la oficina y que
+// el empleado escanea al registrar su entrada para probar que está presente
+// Solo para servidor: usa node:crypto y el cliente de servicio
+// =============================================
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { OFFICE_QR_CONFIG } from '@/lib/constants'
+
+type AdminClient = ReturnType<typeof createAdminSupabaseClient>
+
+const SIGNATURE_LENGTH = 22
+
+/**
+ * Resultado de verificar un código escaneado
+ */
+export type OfficeQrVerification = { valid: true } | { valid: false; message: string }
+
+/**
+ * Secreto de firma de la organización; se crea la primera vez que se necesita
+ */
+export async function getOfficeQrSecret(supabase: AdminClient, organizationId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('office_qr_secrets')
+    .select('secret')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (data?.secret) return data.secret
+
+  // ignoreDuplicates: si otra petición lo creó a la vez, se usa el suyo
+  const { error: insertError } = await supabase
+    .from('office_qr_secrets')
+    .upsert(
+      { organization_id: organizationId, secret: randomBytes(32).toString('base64url') },
+      { onConflict: 'organization_id', ignoreDuplicates: true }
+    )
+
+  if (insertError) throw insertError
+  return getOfficeQrSecret(supabase, organizationId)
+}
+
+function getWindow(now: Date): number {
+  return Math.floor(now.getTime() / (OFFICE_QR_CONFIG.PERIOD_SECONDS * 1000))
+}
+
+function sign(secret: string, organizationId: string, window: number): string {
+  return createHmac('sha256', secret)
+    .update(`${organizationId}.${window}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH)
+}
+
+/**
+ * Código del periodo actual: educa-office.<periodo>.<firma>
+ * Devuelve también cuándo caduca para que la pantalla lo renueve
+ */
+export function createOfficeQrCode(
+  secret: string,
+  organizationId: string,
+  now: Date = new Date()
+): { code: string; expiresAt: string } {
+  const window = getWindow(now)
+  return {
+    code: `${OFFICE_QR_CONFIG.CODE_PREFIX}.${window}.${sign(secret, organizationId, window)}`,
+    expiresAt: new Date((window + 1) * OFFICE_QR_CONFIG.PERIOD_SECONDS * 1000).toISOString(),
+  }
+}
+
+/**
+ * Verifica la firma y la vigencia de un código escaneado
+ * Se acepta también el periodo anterior para tolerar el tiempo de escaneo
+ */
+export function verifyOfficeQrCode(
+  secret: string,
+  organizationId: string,
+  code: string,
+  now: Date = new Date()
+): OfficeQrVerification {
+  const [prefix, windowValue, signature] = code.trim().split('.')
+  if (prefix !== OFFICE_QR_CONFIG.CODE_PREFIX || !windowValue || !signature) {
+    return { valid: false, message: 'El código escaneado no es el QR de la oficina' }
+  }
+
+  const window = Number(windowValue)
+  const currentWindow = getWindow(now)
+  if (!Number.isInteger(window) || window > currentWindow) {
+    return { valid: false, message: 'Código QR inválido' }
+  }
+
+  const expected = Buffer.from(sign(secret, organizationId, window))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, message: 'Código QR inválido o de otra organización' }
+  }
+
+  if (window < currentWindow - 1) {
+    return { valid: false, message: 'El código QR caducó: escanéalo de nuevo en la pantalla de la oficina' }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,100 @@
+// =============================================
+// COLA DE MARCAJES SIN CONEXIÓN
+// Descripción: Almacén IndexedDB con los marcajes registrados sin red,
+// pendientes de enviar a /api/v1/attendance/sync
+// Solo para navegador
+// =============================================
+
+import { OFFLINE_SYNC_CONFIG } from '@/lib/constants'
+import type { AttendanceSyncAction, LocationData } from '@/types/database'
+
+/**
+ * Marcaje guardado en el dispositivo
+ */
+export interface QueuedAttendanceEvent {
+  id: string                    // UUID del dispositivo: el servidor lo usa para descartar duplicados
+  employee_id: string
+  action: AttendanceSyncAction
+  recorded_at: string           // Hora del dispositivo al marcar
+  location: LocationData | null
+  office_qr_code?: string
+}
+
+const DB_VERSION = 1
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_SYNC_CONFIG.DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OFFLINE_SYNC_CONFIG.STORE_NAME, { keyPath: 'id' })
+      store.createIndex('employee_id', 'employee_id')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Ejecuta una operación en el almacén y cierra la conexión al terminar
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(OFFLINE_SYNC_CONFIG.STORE_NAME, mode)
+      const request = operation(transaction.objectStore(OFFLINE_SYNC_CONFIG.STORE_NAME))
+
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Guarda un marcaje en la cola
+ */
+export async function enqueueAttendanceEvent(event: QueuedAttendanceEvent): Promise<void> {
+  await withStore('readwrite', store => store.put(event))
+}
+
+/**
+ * Marcajes pendientes del empleado, del más antiguo al más reciente
+ */
+export async function getQueuedAttendanceEvents(employeeId: string): Promise<QueuedAttendanceEvent[]> {
+  const events = await withStore<QueuedAttendanceEvent[]>(
+    'readonly',
+    store => store.index('employee_id').getAll(employeeId)
+  )
+  return events.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+}
+
+/**
+ * Quita de la cola los marcajes que el servidor ya procesó
+ */
+export async function removeQueuedAttendanceEvents(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+
+  const db = await openDatabase()
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(OFFLINE_SYNC_CONFIG.STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(OFFLINE_SYNC_CONFIG.STORE_NAME)
+      ids.forEach(id => store.delete(id))
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
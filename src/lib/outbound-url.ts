@@ -0,0 +1,125 @@
+// =============================================
+// URLS DE SALIDA
+// Descripción: Validación de las URLs a las que el servidor envía datos
+// (webhooks y reportes programados por webhook)
+// Solo https y hosts que resuelven a direcciones públicas: nunca loopback,
+// redes privadas, link-local ni metadatos del proveedor (169.254.169.254)
+// Se comprueba al guardar la URL y otra vez en cada envío, sin seguir redirecciones
+// Solo para servidor: usa node:dns
+// =============================================
+
+import { lookup } from 'node:dns/promises'
+import { isIP } from 'node:net'
+
+/**
+ * Rangos IPv4 no públicos [dirección base, bits del prefijo]
+ */
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size)
+  })
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const normalized = address.toLowerCase()
+
+  // IPv4 mapeada o compatible (::ffff:10.0.0.1, o ::ffff:a00:1 tal como la normaliza URL)
+  const mapped = normalized.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isBlockedIpv4(mapped[1])
+
+  const mappedHex = normalized.match(/^::(?:ffff:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const value = parseInt(mappedHex[1], 16) * 65536 + parseInt(mappedHex[2], 16)
+    return isBlockedIpv4([24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.'))
+  }
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16)
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    (firstGroup & 0xfe00) === 0xfc00 || // fc00::/7 (ULA)
+    (firstGroup & 0xffc0) === 0xfe80 || // fe80::/10 (link-local)
+    (firstGroup & 0xff00) === 0xff00 || // ff00::/8 (multicast)
+    normalized.startsWith('64:ff9b:') || // NAT64 hacia IPv4 arbitrarias
+    normalized.startsWith('2001:db8:') // documentación
+  )
+}
+
+/**
+ * Indica si una dirección IP es pública (enrutable en Internet)
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return !isBlockedIpv4(address)
+  if (version === 6) return !isBlockedIpv6(address)
+  return false
+}
+
+/**
+ * Valida una URL de salida; devuelve el motivo del rechazo o null si es válida
+ */
+export async function checkOutboundUrl(url: string): Promise<string | null> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'URL inválida'
+  }
+
+  if (parsed.protocol !== 'https:') return 'La URL debe usar https'
+  if (parsed.username || parsed.password) return 'La URL no puede incluir credenciales'
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+
+  if (isIP(hostname)) {
+    addresses = [hostname]
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(item => item.address)
+    } catch {
+      return `No se pudo resolver ${hostname}`
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return `${hostname} apunta a una dirección interna`
+  }
+
+  return null
+}
+
+/**
+ * POST a una URL de salida ya validada al guardarla
+ * Se vuelve a validar (el DNS pudo cambiar) y una redirección cuenta como
+ * respuesta fallida en lugar de seguirse
+ */
+export async function postToOutboundUrl(url: string, init: Omit<RequestInit, 'method' | 'redirect'>): Promise<Response> {
+  const rejection = await checkOutboundUrl(url)
+  if (rejection) throw new Error(rejection)
+
+  return fetch(url, { ...init, method: 'POST', redirect: 'manual' })
+}
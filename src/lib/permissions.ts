@@ -0,0 +1,83 @@
+// =============================================
+// PERMISOS EFECTIVOS
+// Descripción: Punto único para decidir si un usuario puede realizar una
+// acción, tanto en servidor como en cliente
+// Principio: Permisos del rol (ROLE_PERMISSIONS) + concesiones y
+// revocaciones individuales guardadas en Employee.permissions
+// =============================================
+
+import { PERMISSIONS, ROLE_PERMISSIONS } from './constants'
+import type { Employee } from '@/types/database'
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS]
+
+/**
+ * Datos mínimos del usuario para evaluar permisos
+ */
+export type PermissionSubject = Pick<Employee, 'role'> &
+  Partial<Pick<Employee, 'permissions' | 'is_active'>>
+
+/**
+ * Prefijo que revoca un permiso del rol en Employee.permissions
+ * p. ej. ['reports:export', '-employees:edit'] concede exportar y quita editar
+ */
+export const PERMISSION_REVOKE_PREFIX = '-'
+
+const PERMISSION_VALUES = Object.values(PERMISSIONS) as string[]
+
+export function isPermission(value: string): value is Permission {
+  return PERMISSION_VALUES.includes(value)
+}
+
+/**
+ * Permisos efectivos de un usuario: los del rol, más las concesiones
+ * y menos las revocaciones individuales (la revocación prevalece)
+ */
+export function getEffectivePermissions(user?: PermissionSubject | null): Set<Permission> {
+  const effective = new Set<Permission>()
+  if (!user || user.is_active === false) return effective
+
+  const revoked = new Set<string>()
+  for (const entry of user.permissions || []) {
+    if (entry.startsWith(PERMISSION_REVOKE_PREFIX)) {
+      revoked.add(entry.slice(PERMISSION_REVOKE_PREFIX.length))
+    } else if (isPermission(entry)) {
+      effective.add(entry)
+    }
+  }
+
+  for (const permission of ROLE_PERMISSIONS[user.role] || []) {
+    if (isPermission(permission)) effective.add(permission)
+  }
+
+  revoked.forEach(permission => effective.delete(permission as Permission))
+  return effective
+}
+
+/**
+ * Indica si el usuario tiene el permiso indicado
+ * Un usuario inexistente o inactivo no tiene ningún permiso
+ */
+export function can(user: PermissionSubject | null | undefined, permission: Permission): boolean {
+  return getEffectivePermissions(user).has(permission)
+}
+
+/**
+ * Indica si el usuario tiene al menos uno de los permisos indicados
+ */
+export function canAny(user: PermissionSubject | null | undefined, permissions: Permission[]): boolean {
+  const effective = getEffectivePermissions(user)
+  return permissions.some(permission => effective.has(permission))
+}
+
+/**
+ * Permisos que dan acceso al panel de administración
+ * Son de alcance organizacional: el manager, con alcance de equipo,
+ * usa el panel de equipo (/dashboard/manager)
+ */
+export const ADMIN_PANEL_PERMISSIONS: Permission[] = [
+  PERMISSIONS.EMPLOYEES_VIEW,
+  PERMISSIONS.ATTENDANCE_VIEW_ALL,
+  PERMISSIONS.REPORTS_ANALYTICS,
+  PERMISSIONS.SETTINGS_VIEW,
+]
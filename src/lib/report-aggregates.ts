@@ -0,0 +1,193 @@
+// =============================================
+// AGREGADOS DE REPORTES
+// Descripción: Totales por empleado y por departamento y series de los
+// gráficos de los reportes exportados (tendencia diaria, distribución por
+// estado, comparación de departamentos e histograma de puntualidad)
+// Mismos criterios que ReportStats: presente si hay entrada; sin entrada es
+// permiso (LEAVE_STATUSES) o ausencia
+// =============================================
+
+import { LEAVE_STATUSES } from './constants'
+import type { AttendanceRecord } from '@/types/reports.types'
+
+/**
+ * Acumulado de un grupo de registros
+ */
+export interface AttendanceTotals {
+  records: number
+  present: number
+  absent: number
+  leave: number
+  incomplete: number
+  late: number
+  hours: number
+}
+
+export interface EmployeeAttendanceGroup {
+  employee_code: string
+  employee_name: string
+  department_name: string
+  records: AttendanceRecord[]
+  totals: AttendanceTotals
+}
+
+export interface DepartmentAttendanceGroup {
+  department_name: string
+  employees: number
+  totals: AttendanceTotals
+}
+
+export interface DailyTrendPoint {
+  date: string // YYYY-MM-DD
+  onTime: number
+  late: number
+  absent: number
+}
+
+export interface ChartBar {
+  label: string
+  value: number
+}
+
+const NO_DEPARTMENT = 'Sin Departamento'
+
+// Tramos del histograma de puntualidad (% de entradas a tiempo por empleado)
+const PUNCTUALITY_BINS = [0, 50, 60, 70, 80, 90, 100]
+
+export function emptyTotals(): AttendanceTotals {
+  return { records: 0, present: 0, absent: 0, leave: 0, incomplete: 0, late: 0, hours: 0 }
+}
+
+export function addToTotals(totals: AttendanceTotals, record: AttendanceRecord): void {
+  totals.records++
+  if (record.clock_in) {
+    totals.present++
+    if (!record.clock_out) totals.incomplete++
+  } else if (LEAVE_STATUSES.includes(record.status)) {
+    totals.leave++
+  } else {
+    totals.absent++
+  }
+  if (record.status === 'late') totals.late++
+  totals.hours += record.total_hours || 0
+}
+
+/**
+ * Presentes sobre días laborables (sin permisos), en %
+ */
+export function getAttendanceRate(totals: AttendanceTotals): number {
+  const workingRecords = totals.records - totals.leave
+  return workingRecords > 0 ? (totals.present / workingRecords) * 100 : 0
+}
+
+/**
+ * Entradas a tiempo sobre entradas registradas, en %
+ */
+export function getPunctualityRate(totals: AttendanceTotals): number {
+  return totals.present > 0 ? ((totals.present - totals.late) / totals.present) * 100 : 0
+}
+
+/**
+ * Registros agrupados por empleado, ordenados por nombre
+ */
+export function groupByEmployee(data: AttendanceRecord[]): EmployeeAttendanceGroup[] {
+  const groups = new Map<string, EmployeeAttendanceGroup>()
+
+  data.forEach(record => {
+    const key = record.employee_code || record.employee_name
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        employee_code: record.employee_code || '',
+        employee_name: record.employee_name,
+        department_name: record.department_name || NO_DEPARTMENT,
+        records: [],
+        totals: emptyTotals(),
+      }
+      groups.set(key, group)
+    }
+    group.records.push(record)
+    addToTotals(group.totals, record)
+  })
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.employee_name.localeCompare(b.employee_name, 'es'))
+}
+
+/**
+ * Registros agrupados por departamento, ordenados por nombre
+ */
+export function groupByDepartment(data: AttendanceRecord[]): DepartmentAttendanceGroup[] {
+  const groups = new Map<string, { employees: Set<string>; totals: AttendanceTotals }>()
+
+  data.forEach(record => {
+    const key = record.department_name || NO_DEPARTMENT
+    const group = groups.get(key) || { employees: new Set<string>(), totals: emptyTotals() }
+    group.employees.add(record.employee_code || record.employee_name)
+    addToTotals(group.totals, record)
+    groups.set(key, group)
+  })
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b, 'es'))
+    .map(([department_name, { employees, totals }]) => ({
+      department_name,
+      employees: employees.size,
+      totals,
+    }))
+}
+
+/**
+ * Entradas a tiempo, tardanzas y ausencias de cada día del período
+ */
+export function getDailyTrend(data: AttendanceRecord[]): DailyTrendPoint[] {
+  const days = new Map<string, AttendanceTotals>()
+
+  data.forEach(record => {
+    const totals = days.get(record.attendance_date) || emptyTotals()
+    addToTotals(totals, record)
+    days.set(record.attendance_date, totals)
+  })
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, totals]) => ({
+      date,
+      onTime: totals.present - totals.late,
+      late: totals.late,
+      absent: totals.absent,
+    }))
+}
+
+/**
+ * Número de registros de cada estado, de mayor a menor
+ */
+export function getStatusDistribution(data: AttendanceRecord[]): { status: string; count: number }[] {
+  const counts = new Map<string, number>()
+  data.forEach(record => counts.set(record.status, (counts.get(record.status) || 0) + 1))
+
+  return Array.from(counts.entries())
+    .map(([status, count]) => ({ status, count }))
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Empleados por tramo de puntualidad (0-50%, 50-60%, ..., 90-100%)
+ * Solo cuentan los empleados con al menos una entrada
+ */
+export function getPunctualityHistogram(data: AttendanceRecord[]): ChartBar[] {
+  const bins = PUNCTUALITY_BINS.slice(0, -1).map((from, index) => ({
+    label: `${from}-${PUNCTUALITY_BINS[index + 1]}%`,
+    value: 0,
+  }))
+
+  groupByEmployee(data)
+    .filter(group => group.totals.present > 0)
+    .forEach(group => {
+      const rate = getPunctualityRate(group.totals)
+      const index = PUNCTUALITY_BINS.findIndex((limit, i) => i > 0 && (rate < limit || i === PUNCTUALITY_BINS.length - 1))
+      bins[index - 1].value++
+    })
+
+  return bins
+}
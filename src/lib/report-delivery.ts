@@ -0,0 +1,163 @@
+// =============================================
+// ENTREGA DE REPORTES PROGRAMADOS
+// Descripción: Transportes intercambiables para el archivo generado:
+// correo SMTP, webhook (POST https) o una carpeta local del servidor
+// Para añadir un transporte basta con registrarlo en REPORT_DELIVERY_TRANSPORTS
+// Solo para servidor: usa node:fs y nodemailer
+// =============================================
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import nodemailer from 'nodemailer'
+import { REPORT_SCHEDULE_CONFIG } from './constants'
+import { checkOutboundUrl, postToOutboundUrl } from './outbound-url'
+import { formatReportSchedulePeriod } from './report-schedules'
+import type { ReportDeliveryTransportType } from '@/types/database'
+
+/**
+ * Reporte listo para entregar
+ */
+export interface ReportDelivery {
+  organizationId: string
+  scheduleName: string
+  period: { startDate: string; endDate: string }
+  recipients: string[]
+  fileName: string
+  contentType: string
+  content: Uint8Array
+}
+
+/**
+ * Un transporte entrega el archivo o lanza un Error con el motivo
+ * Devuelve un detalle legible para el historial de ejecuciones
+ */
+export interface ReportDeliveryTransport {
+  deliver(delivery: ReportDelivery): Promise<string>
+}
+
+/**
+ * Correo con el reporte adjunto
+ * Variables: SMTP_HOST, SMTP_PORT (587 por defecto; 465 usa TLS directo),
+ * SMTP_USER, SMTP_PASSWORD y SMTP_FROM
+ */
+const smtpTransport: ReportDeliveryTransport = {
+  async deliver(delivery) {
+    const host = process.env.SMTP_HOST
+    const from = process.env.SMTP_FROM
+    if (!host || !from) {
+      throw new Error('SMTP no configurado: define SMTP_HOST y SMTP_FROM')
+    }
+
+    const port = Number(process.env.SMTP_PORT || 587)
+    const transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    })
+
+    const period = formatReportSchedulePeriod(delivery.period.startDate, delivery.period.endDate)
+    const info = await transporter.sendMail({
+      from,
+      to: delivery.recipients,
+      subject: `${delivery.scheduleName} · ${period}`,
+      text: `Adjuntamos el reporte programado "${delivery.scheduleName}" del período ${period}.\n\n` +
+        'Mensaje generado automáticamente por el Sistema de Asistencia Educa-Crea.',
+      attachments: [{
+        filename: delivery.fileName,
+        content: Buffer.from(delivery.content),
+        contentType: delivery.contentType,
+      }],
+    })
+
+    if (info.rejected.length > 0) {
+      throw new Error(`Destinatarios rechazados: ${info.rejected.map(String).join(', ')}`)
+    }
+
+    return `Correo enviado a ${info.accepted.length} destinatario(s)`
+  },
+}
+
+/**
+ * POST JSON a cada URL con el archivo en base64
+ * Una respuesta distinta de 2xx en cualquier destino hace fallar la ejecución
+ * Las URLs se validan de nuevo antes de enviar y no se siguen redirecciones
+ */
+const webhookTransport: ReportDeliveryTransport = {
+  async deliver(delivery) {
+    const body = JSON.stringify({
+      event: 'scheduled_report',
+      organization_id: delivery.organizationId,
+      schedule: delivery.scheduleName,
+      period: { start_date: delivery.period.startDate, end_date: delivery.period.endDate },
+      file: {
+        name: delivery.fileName,
+        content_type: delivery.contentType,
+        content_base64: Buffer.from(delivery.content).toString('base64'),
+      },
+    })
+
+    const errors: string[] = []
+    for (const url of delivery.recipients) {
+      try {
+        const response = await postToOutboundUrl(url, {
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          signal: AbortSignal.timeout(REPORT_SCHEDULE_CONFIG.DELIVERY_TIMEOUT),
+        })
+        if (!response.ok) errors.push(`${url}: HTTP ${response.status}`)
+      } catch (error) {
+        errors.push(`${url}: ${error instanceof Error ? error.message : 'Error de red'}`)
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '))
+    }
+
+    return `Enviado a ${delivery.recipients.length} URL(s)`
+  },
+}
+
+/**
+ * Guarda el archivo en REPORT_OUTPUT_DIR/<organización>/
+ * Sustituto de un transporte real en desarrollo y pruebas
+ */
+const directoryTransport: ReportDeliveryTransport = {
+  async deliver(delivery) {
+    const baseDir = process.env.REPORT_OUTPUT_DIR || path.join(process.cwd(), REPORT_SCHEDULE_CONFIG.OUTPUT_DIR)
+    const directory = path.join(baseDir, delivery.organizationId)
+    const filePath = path.join(directory, delivery.fileName)
+
+    await mkdir(directory, { recursive: true })
+    await writeFile(filePath, delivery.content)
+
+    return `Guardado en ${filePath}`
+  },
+}
+
+/**
+ * Valida los destinos de un reporte por webhook al guardarlo: solo hosts
+ * públicos (ver lib/outbound-url). Devuelve el motivo del rechazo o null
+ */
+export async function checkReportRecipients(
+  transport: ReportDeliveryTransportType,
+  recipients: string[]
+): Promise<string | null> {
+  if (transport !== 'webhook') return null
+
+  for (const url of recipients) {
+    const rejection = await checkOutboundUrl(url)
+    if (rejection) return `${url}: ${rejection}`
+  }
+
+  return null
+}
+
+export const REPORT_DELIVERY_TRANSPORTS: Record<ReportDeliveryTransportType, ReportDeliveryTransport> = {
+  smtp: smtpTransport,
+  webhook: webhookTransport,
+  directory: directoryTransport,
+}
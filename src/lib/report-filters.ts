@@ -0,0 +1,144 @@
+// =============================================
+// FILTROS DE REPORTES GUARDADOS
+// Descripción: Rango de fechas de cada período relativo y conversión de los
+// filtros de Reportes Avanzados a presets y a la URL (?report=...&period=...)
+// =============================================
+
+import { z } from 'zod'
+import { addDaysToDateKey, addMonthsToDateKey, getTodayInTimezone } from './timezone'
+import type { ReportFilters, SavedReportFilters } from '@/types/reports.types'
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha inválida (YYYY-MM-DD)')
+
+/**
+ * Filtros guardables: las fechas solo son obligatorias (y se conservan) con
+ * period 'custom'
+ */
+export const savedReportFiltersSchema = z.object({
+  reportType: z.enum(['individual', 'department', 'general', 'attendance', 'punctuality']),
+  period: z.enum(['today', 'week', 'month', 'quarter', 'custom']),
+  startDate: dateKeySchema.optional(),
+  endDate: dateKeySchema.optional(),
+  status: z.enum(['present', 'absent', 'incomplete', 'late', 'leave']).optional(),
+  employeeId: z.string().uuid().optional(),
+  departmentId: z.string().uuid().optional(),
+}).superRefine((filters, context) => {
+  if (filters.period !== 'custom') return
+
+  if (!filters.startDate || !filters.endDate) {
+    context.addIssue({ code: 'custom', path: ['startDate'], message: 'Un período personalizado necesita fecha de inicio y fin' })
+  } else if (filters.startDate > filters.endDate) {
+    context.addIssue({ code: 'custom', path: ['endDate'], message: 'La fecha de fin es anterior a la de inicio' })
+  }
+})
+
+// Parámetros de la URL de Reportes Avanzados
+const QUERY_KEYS = {
+  reportType: 'report',
+  period: 'period',
+  startDate: 'from',
+  endDate: 'to',
+  status: 'status',
+  employeeId: 'employee',
+  departmentId: 'department',
+} as const satisfies Record<keyof SavedReportFilters, string>
+
+/**
+ * Rango (YYYY-MM-DD, inclusive) de un período relativo sobre el día de hoy
+ * en la zona indicada; null para 'custom'
+ */
+export function getReportPeriodRange(
+  period: ReportFilters['period'],
+  timezone: string
+): { startDate: string; endDate: string } | null {
+  const endDate = getTodayInTimezone(timezone)
+
+  switch (period) {
+    case 'today':
+      return { startDate: endDate, endDate }
+    case 'week':
+      return { startDate: addDaysToDateKey(endDate, -7), endDate }
+    case 'month':
+      return { startDate: addMonthsToDateKey(endDate, -1), endDate }
+    case 'quarter':
+      return { startDate: addMonthsToDateKey(endDate, -3), endDate }
+    case 'custom':
+      return null
+  }
+}
+
+/**
+ * Parte guardable de los filtros actuales
+ * Se descarta lo que el tipo de reporte no usa (empleado o departamento
+ * de una selección anterior) y el alcance fijo del manager (employeeIds)
+ */
+export function toSavedReportFilters(filters: ReportFilters): SavedReportFilters {
+  return {
+    reportType: filters.reportType,
+    period: filters.period,
+    ...(filters.period === 'custom' && { startDate: filters.startDate, endDate: filters.endDate }),
+    ...(filters.status && { status: filters.status }),
+    ...(filters.reportType === 'individual' && filters.employeeId && { employeeId: filters.employeeId }),
+    ...(filters.reportType === 'department' && filters.departmentId && { departmentId: filters.departmentId }),
+  }
+}
+
+/**
+ * Filtros listos para aplicar: resuelve el período relativo a fechas de hoy
+ * Los campos ausentes se limpian para no heredar los del reporte anterior
+ */
+export function resolveSavedReportFilters(
+  saved: SavedReportFilters,
+  timezone: string
+): Omit<ReportFilters, 'employeeIds'> {
+  const range = getReportPeriodRange(saved.period, timezone)
+
+  return {
+    reportType: saved.reportType,
+    period: saved.period,
+    startDate: range?.startDate ?? saved.startDate ?? getTodayInTimezone(timezone),
+    endDate: range?.endDate ?? saved.endDate ?? getTodayInTimezone(timezone),
+    status: saved.status,
+    employeeId: saved.employeeId,
+    departmentId: saved.departmentId,
+  }
+}
+
+/**
+ * Query string que reproduce los filtros (sin el "?")
+ */
+export function toReportFiltersQuery(filters: ReportFilters): string {
+  const params = new URLSearchParams()
+  const saved = toSavedReportFilters(filters)
+
+  for (const [field, key] of Object.entries(QUERY_KEYS) as [keyof SavedReportFilters, string][]) {
+    const value = saved[field]
+    if (value) params.set(key, value)
+  }
+
+  return params.toString()
+}
+
+/**
+ * Filtros de una URL compartida; null si no trae un reporte válido
+ */
+export function parseReportFiltersQuery(search: string): SavedReportFilters | null {
+  const params = new URLSearchParams(search)
+  if (!params.has(QUERY_KEYS.reportType)) return null
+
+  const values = Object.fromEntries(
+    (Object.entries(QUERY_KEYS) as [keyof SavedReportFilters, string][])
+      .flatMap(([field, key]) => params.get(key) ? [[field, params.get(key)]] : [])
+  )
+
+  // Sin período se usa el de la vista por defecto
+  const parsed = savedReportFiltersSchema.safeParse({ period: 'week', ...values })
+  return parsed.success ? parsed.data : null
+}
+
+/**
+ * Indica si la URL trae filtros de reporte (para abrir la pestaña de reportes)
+ */
+export function hasReportFiltersQuery(search: string): boolean {
+  return new URLSearchParams(search).has(QUERY_KEYS.reportType)
+}
@@ -0,0 +1,137 @@
+// =============================================
+// REPORTES PROGRAMADOS
+// Descripción: Validación de las definiciones, período relativo de cada
+// envío y cálculo del próximo envío en la zona horaria de la organización
+// =============================================
+
+import { z } from 'zod'
+import { REPORT_SCHEDULE_CONFIG } from './constants'
+import { addDaysToDateKey, addMonthsToDateKey, formatDateKey, getDateInTimezone, getWeekdayOfDateKey, zonedDateTimeToISO } from './timezone'
+import type { ReportSchedule, ReportSchedulePeriod } from '@/types/database'
+
+type ScheduleTiming = Pick<ReportSchedule, 'frequency' | 'run_hour' | 'day_of_week' | 'day_of_month'>
+
+// Un envío mensual ocurre como mucho en 31 días
+const MAX_DAYS_AHEAD = 62
+
+const emailSchema = z.string().email()
+// Solo el formato: el host se valida en el servidor (checkReportRecipients)
+const httpsUrlSchema = z.string().url().refine(url => url.startsWith('https://'))
+
+/**
+ * Definición de un reporte programado
+ * Las reglas entre campos (día según frecuencia, destinatarios según
+ * transporte) se validan juntas: en edición se valida la definición completa
+ */
+export const reportScheduleSchema = z.object({
+  name: z.string().trim().min(1, 'El nombre es obligatorio').max(120),
+  filters: z.object({
+    reportType: z.enum(['individual', 'department', 'general', 'attendance', 'punctuality']),
+    employeeId: z.string().uuid().optional(),
+    departmentId: z.string().uuid().optional(),
+    status: z.enum(['present', 'absent', 'incomplete', 'late', 'leave']).optional(),
+  }),
+  export_options: z.object({
+    format: z.enum(['pdf', 'excel']),
+    template: z.enum(['professional', 'simple', 'detailed']).optional(),
+    includeCharts: z.boolean().optional(),
+    includeStats: z.boolean().optional(),
+  }),
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  run_hour: z.number().int().min(0).max(23),
+  day_of_week: z.number().int().min(0).max(6).nullable().optional(),
+  day_of_month: z.number().int().min(1, 'El día del mes debe estar entre 1 y 28').max(28, 'El día del mes debe estar entre 1 y 28').nullable().optional(),
+  period: z.enum(['yesterday', 'last_7_days', 'last_week', 'last_month', 'month_to_date']),
+  transport: z.enum(['smtp', 'webhook', 'directory']),
+  recipients: z.array(z.string().trim().min(1)).max(REPORT_SCHEDULE_CONFIG.MAX_RECIPIENTS),
+}).superRefine((schedule, context) => {
+  if (schedule.frequency === 'weekly' && schedule.day_of_week == null) {
+    context.addIssue({ code: 'custom', path: ['day_of_week'], message: 'Indica el día de la semana del envío' })
+  }
+  if (schedule.frequency === 'monthly' && schedule.day_of_month == null) {
+    context.addIssue({ code: 'custom', path: ['day_of_month'], message: 'Indica el día del mes del envío' })
+  }
+
+  if (schedule.transport === 'directory') return
+
+  if (schedule.recipients.length === 0) {
+    context.addIssue({ code: 'custom', path: ['recipients'], message: 'Indica al menos un destinatario' })
+    return
+  }
+
+  const recipientSchema = schedule.transport === 'smtp' ? emailSchema : httpsUrlSchema
+  const invalid = schedule.recipients.filter(recipient => !recipientSchema.safeParse(recipient).success)
+  if (invalid.length > 0) {
+    context.addIssue({
+      code: 'custom',
+      path: ['recipients'],
+      message: schedule.transport === 'smtp'
+        ? `Correos no válidos: ${invalid.join(', ')}`
+        : `Las URLs deben usar https: ${invalid.join(', ')}`,
+    })
+  }
+})
+
+export type ReportScheduleInput = z.infer<typeof reportScheduleSchema>
+
+/**
+ * Fechas (YYYY-MM-DD, inclusive) que cubre un envío hecho en `now`
+ * Todos los períodos terminan como muy tarde ayer: el día en curso está incompleto
+ */
+export function getReportSchedulePeriod(
+  period: ReportSchedulePeriod,
+  timezone: string,
+  now: Date = new Date()
+): { startDate: string; endDate: string } {
+  const today = getDateInTimezone(now, timezone)
+  const yesterday = addDaysToDateKey(today, -1)
+
+  switch (period) {
+    case 'yesterday':
+      return { startDate: yesterday, endDate: yesterday }
+    case 'last_7_days':
+      return { startDate: addDaysToDateKey(today, -7), endDate: yesterday }
+    case 'last_week': {
+      // Lunes de la semana en curso
+      const monday = addDaysToDateKey(today, -((getWeekdayOfDateKey(today) + 6) % 7))
+      return { startDate: addDaysToDateKey(monday, -7), endDate: addDaysToDateKey(monday, -1) }
+    }
+    case 'last_month': {
+      const firstOfMonth = `${today.slice(0, 8)}01`
+      return { startDate: addMonthsToDateKey(firstOfMonth, -1), endDate: addDaysToDateKey(firstOfMonth, -1) }
+    }
+    case 'month_to_date':
+      // El día 1 cubre el mes anterior completo
+      return { startDate: `${yesterday.slice(0, 8)}01`, endDate: yesterday }
+  }
+}
+
+/**
+ * Período legible (dd/mm/aaaa - dd/mm/aaaa, o un solo día)
+ */
+export function formatReportSchedulePeriod(startDate: string, endDate: string): string {
+  const start = formatDateKey(startDate, 'es-ES')
+  return startDate === endDate ? start : `${start} - ${formatDateKey(endDate, 'es-ES')}`
+}
+
+/**
+ * Próximo envío estrictamente posterior a `after`
+ */
+export function getNextReportRunAt(schedule: ScheduleTiming, timezone: string, after: Date = new Date()): Date {
+  const time = `${String(schedule.run_hour).padStart(2, '0')}:00`
+  let dateKey = getDateInTimezone(after, timezone)
+
+  for (let day = 0; day <= MAX_DAYS_AHEAD; day++, dateKey = addDaysToDateKey(dateKey, 1)) {
+    const matches =
+      schedule.frequency === 'daily' ||
+      (schedule.frequency === 'weekly' && getWeekdayOfDateKey(dateKey) === schedule.day_of_week) ||
+      (schedule.frequency === 'monthly' && Number(dateKey.slice(8, 10)) === schedule.day_of_month)
+
+    if (!matches) continue
+
+    const runAt = new Date(zonedDateTimeToISO(dateKey, time, timezone))
+    if (runAt > after) return runAt
+  }
+
+  throw new Error('No se pudo calcular el próximo envío del reporte')
+}
@@ -7,6 +7,7 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
+import { canAny, type Permission } from '@/lib/permissions'
 
 /**
  * Cliente de Supabase para Server Components y API Routes
@@ -211,10 +212,11 @@ export async function getServerSession() {
 
 /**
  * Helper para verificar si el usuario tiene permisos específicos
- * Implementa el patrón Repository para escalabilidad
+ * Evalúa los permisos efectivos (rol + concesiones/revocaciones individuales);
+ * con varios permisos basta con tener uno
  */
 export async function checkUserPermissions(
-  requiredRole: string[] | string,
+  requiredPermission: Permission[] | Permission,
   userId?: string
 ) {
   try {
@@ -227,10 +229,10 @@ export async function checkUserPermissions(
       userId = user.id
     }
     
-    // Consultar el rol del usuario en la base de datos
+    // Consultar rol y permisos individuales del usuario
     const { data: employee, error } = await supabase
       .from('employees')
-      .select('role, is_active')
+      .select('role, permissions, is_active')
       .eq('id', userId)
       .single()
     
@@ -243,8 +245,8 @@ export async function checkUserPermissions(
     }
     
     // Verificar permisos
-    const allowedRoles = Array.isArray(requiredRole) ? requiredRole : [requiredRole]
-    const hasPermission = allowedRoles.includes(employee.role)
+    const requiredPermissions = Array.isArray(requiredPermission) ? requiredPermission : [requiredPermission]
+    const hasPermission = canAny(employee, requiredPermissions)
     
     return { 
       hasPermission, 
@@ -0,0 +1,47 @@
+// =============================================
+// EQUIPO DE UN MANAGER
+// Descripción: Alcance de las vistas de manager: reportes directos e
+// indirectos (Employee.manager_id) y empleados de los departamentos que
+// dirige (Department.manager_id), incluyendo a quienes les reportan
+// =============================================
+
+import type { Employee } from '@/types/database'
+
+export type TeamCandidate = Pick<Employee, 'id' | 'manager_id' | 'department_id'>
+
+/**
+ * IDs de los miembros del equipo de un manager (sin incluirlo a él)
+ */
+export function resolveTeamMemberIds(
+  managerId: string,
+  employees: TeamCandidate[],
+  managedDepartmentIds: string[] = []
+): string[] {
+  const reportsByManager = new Map<string, string[]>()
+  for (const employee of employees) {
+    if (!employee.manager_id) continue
+    const reports = reportsByManager.get(employee.manager_id) || []
+    reports.push(employee.id)
+    reportsByManager.set(employee.manager_id, reports)
+  }
+
+  const departments = new Set(managedDepartmentIds)
+  const pending = [
+    ...(reportsByManager.get(managerId) || []),
+    ...employees
+      .filter(employee => employee.department_id && departments.has(employee.department_id))
+      .map(employee => employee.id),
+  ]
+
+  // Recorrido de la jerarquía; el conjunto evita ciclos en manager_id
+  const team = new Set<string>()
+  while (pending.length > 0) {
+    const employeeId = pending.pop()!
+    if (employeeId === managerId || team.has(employeeId)) continue
+
+    team.add(employeeId)
+    pending.push(...(reportsByManager.get(employeeId) || []))
+  }
+
+  return [...team]
+}
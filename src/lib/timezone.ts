@@ -0,0 +1,221 @@
+// =============================================
+// UTILIDADES DE ZONA HORARIA
+// Descripción: Cálculo de fechas y horas en la zona horaria de la organización
+// Principio: Los instantes se guardan en UTC real; la fecha laboral
+// (attendance_date) y las horas de pantalla se derivan de Organization.timezone
+// =============================================
+
+import { DEFAULT_TIMEZONE } from './constants'
+
+/**
+ * Componentes de fecha/hora de un instante en una zona horaria
+ */
+export interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // 0 = domingo
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Cache de formateadores (crear Intl.DateTimeFormat es costoso)
+ */
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Valida un identificador IANA de zona horaria
+ */
+export function isValidTimezone(timeZone?: string | null): timeZone is string {
+  if (!timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Normaliza una zona horaria, usando la del sistema si no es válida
+ */
+export function resolveTimezone(timeZone?: string | null): string {
+  return isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE
+}
+
+/**
+ * Descompone un instante en sus componentes para la zona indicada
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = getPartsFormatter(resolveTimezone(timeZone)).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value || ''
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  }
+}
+
+/**
+ * Fecha calendario (YYYY-MM-DD) de un instante en la zona indicada
+ * Es la que se guarda en attendance_date
+ */
+export function getDateInTimezone(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Minutos desde medianoche de un instante en la zona indicada
+ */
+export function getMinutesOfDayInTimezone(date: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(date, timeZone)
+  return hour * 60 + minute
+}
+
+/**
+ * Hora local (HH:mm) de un instante en la zona indicada, p. ej. para inputs type="time"
+ */
+export function getTimeInTimezone(isoString: string, timeZone: string): string {
+  const { hour, minute } = getZonedParts(new Date(isoString), timeZone)
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+/**
+ * Convierte una fecha calendario y una hora local (HH:mm) de la zona indicada
+ * al instante UTC correspondiente (ISO)
+ */
+export function zonedDateTimeToISO(dateKey: string, time: string, timeZone: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const target = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Se corrige el desfase dos veces para cubrir cambios de horario
+  let instant = target
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(instant), timeZone)
+    const zoned = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+    instant += target - zoned
+  }
+
+  return new Date(instant).toISOString()
+}
+
+/**
+ * Fecha de hoy (YYYY-MM-DD) en la zona indicada
+ */
+export function getTodayInTimezone(timeZone: string): string {
+  return getDateInTimezone(new Date(), timeZone)
+}
+
+/**
+ * Suma días a una fecha calendario YYYY-MM-DD sin depender de la zona del navegador
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day + days))
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Suma meses a una fecha calendario YYYY-MM-DD (con desborde igual que Date.setMonth)
+ */
+export function addMonthsToDateKey(dateKey: string, months: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1 + months, day))
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Día de la semana (0 = domingo) de una fecha calendario YYYY-MM-DD
+ */
+export function getWeekdayOfDateKey(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+/**
+ * Días transcurridos entre dos fechas calendario YYYY-MM-DD (negativo si to < from)
+ */
+export function daysBetweenDateKeys(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number)
+  const [toYear, toMonth, toDay] = to.split('-').map(Number)
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000
+  )
+}
+
+/**
+ * Indica si un día de la semana (0 = domingo) es laborable
+ * Días por semana: 5 = lunes a viernes, 6 = lunes a sábado, 7 = todos
+ */
+export function isWorkingWeekday(weekday: number, workingDaysPerWeek: number): boolean {
+  return (weekday + 6) % 7 < workingDaysPerWeek
+}
+
+/**
+ * Convierte una fecha local del navegador (p. ej. celda de calendario) a YYYY-MM-DD
+ * sin pasar por UTC
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Formatea la hora de un timestamp ISO en la zona indicada
+ */
+export function formatTimeInTimezone(
+  isoString: string,
+  timeZone: string,
+  locale: string = 'es-MX',
+  options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' }
+): string {
+  return new Date(isoString).toLocaleTimeString(locale, {
+    ...options,
+    timeZone: resolveTimezone(timeZone),
+  })
+}
+
+/**
+ * Formatea una fecha calendario YYYY-MM-DD sin desplazarla por la zona del navegador
+ */
+export function formatDateKey(
+  dateKey: string,
+  locale: string = 'es-MX',
+  options: Intl.DateTimeFormatOptions = { day: '2-digit', month: '2-digit', year: 'numeric' }
+): string {
+  const [year, month, day] = dateKey.split('T')[0].split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(locale, {
+    ...options,
+    timeZone: 'UTC',
+  })
+}
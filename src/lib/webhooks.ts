@@ -0,0 +1,118 @@
+// =============================================
+// WEBHOOKS SALIENTES
+// Descripción: Firma HMAC de los envíos, cálculo de reintentos y eventos
+// que el navegador pide emitir
+// Solo para servidor: usa node:crypto y el cliente de servicio
+// =============================================
+
+import { createHmac, randomBytes } from 'node:crypto'
+import { z } from 'zod'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { WEBHOOK_CONFIG, WEBHOOK_EVENT_LABELS } from './constants'
+import type { WebhookEventType } from '@/types/database'
+
+type AdminClient = ReturnType<typeof createAdminSupabaseClient>
+
+/**
+ * Encabezados de cada envío
+ * La firma es HMAC-SHA256 de `${timestamp}.${body}` con el secreto del endpoint;
+ * el receptor debe recalcularla y rechazar timestamps antiguos
+ */
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-Educa-Event',
+  DELIVERY: 'X-Educa-Delivery',
+  TIMESTAMP: 'X-Educa-Timestamp',
+  SIGNATURE: 'X-Educa-Signature',
+} as const
+
+const SECRET_PREFIX = 'whsec_'
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * Firma del cuerpo: sha256=<hex>
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * Próximo intento tras `attempts` intentos fallidos
+ * Devuelve null cuando ya no quedan reintentos
+ */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= WEBHOOK_CONFIG.MAX_ATTEMPTS) return null
+
+  const delays = WEBHOOK_CONFIG.RETRY_DELAYS_MINUTES
+  const minutes = delays[Math.min(attempts, delays.length) - 1] ?? delays[0]
+  return new Date(now.getTime() + minutes * 60 * 1000)
+}
+
+const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENT_LABELS) as [WebhookEventType, ...WebhookEventType[]]
+
+/**
+ * Datos de un endpoint al registrarlo (en edición todos son opcionales)
+ * El host se valida aparte con checkOutboundUrl (lib/outbound-url): requiere DNS
+ */
+export const webhookEndpointSchema = z.object({
+  url: z.string().trim().url('URL inválida').refine(url => url.startsWith('https://'), 'La URL debe usar https'),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Selecciona al menos un evento'),
+})
+
+/**
+ * Datos del empleado que se envían en los webhooks
+ */
+const EMPLOYEE_EVENT_SELECT = 'id, employee_code, email, full_name, department_id, position_id, manager_id, role, hire_date, is_active'
+
+/**
+ * Eventos que el navegador pide emitir a /api/v1/webhooks/events
+ * Las entradas y salidas no se aceptan: solo las emite AttendanceService en el servidor
+ */
+export const webhookEventRequestSchema = z.discriminatedUnion('event', [
+  z.object({
+    event: z.enum(['employee_updated', 'employee_deactivated']),
+    employee_id: z.string().uuid(),
+  }),
+  z.object({
+    event: z.literal('settings_changed'),
+    section: z.string().trim().min(1).max(50),
+    changes: z.record(z.string(), z.unknown()),
+  }),
+  z.object({
+    event: z.literal('report_generated'),
+    report: z.string().trim().min(1).max(50),
+    format: z.enum(['pdf', 'excel']),
+    date_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    date_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    record_count: z.number().int().nonnegative(),
+  }),
+])
+
+export type WebhookEventRequest = z.infer<typeof webhookEventRequestSchema>
+
+/**
+ * Datos actuales de un empleado de la organización para su evento
+ * null si no existe o es de otra organización
+ */
+export async function getEmployeeEventPayload(
+  supabase: AdminClient,
+  organizationId: string,
+  employeeId: string
+): Promise<Record<string, unknown> | null> {
+  const { data: employee, error } = await supabase
+    .from('employees')
+    .select(EMPLOYEE_EVENT_SELECT)
+    .eq('id', employeeId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!employee) return null
+
+  const { id, ...data } = employee
+  return { employee_id: id, ...data }
+}
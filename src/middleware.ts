@@ -0,0 +1,107 @@
+// =============================================
+// MIDDLEWARE DE AUTENTICACIÓN Y ACCESO POR PERMISO
+// Descripción: Valida la sesión en cada petición y restringe las rutas
+// de administración según los permisos efectivos del usuario (lib/permissions)
+// =============================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createMiddlewareSupabaseClient } from '@/lib/supabase/server'
+import { PERMISSIONS } from '@/lib/constants'
+import { ADMIN_PANEL_PERMISSIONS, canAny, type Permission } from '@/lib/permissions'
+
+const LOGIN_PATH = '/auth/login'
+
+/**
+ * Rutas que no requieren sesión
+ * /api/jobs/* se autentica con CRON_SECRET (ver lib/cron)
+ * /api/v1/* admite además Authorization: Bearer y valida en cada endpoint (ver lib/api)
+ * /kiosk y /api/kiosk/* son de la terminal compartida, autenticada con X-Kiosk-Token (ver lib/kiosk)
+ */
+const PUBLIC_PATHS = ['/auth', '/api/jobs', '/api/v1', '/kiosk', '/api/kiosk']
+
+/**
+ * Permisos por prefijo de ruta: basta con uno (el primer prefijo que coincide aplica)
+ */
+const ROUTE_PERMISSIONS: { prefix: string; permissions: Permission[] }[] = [
+  { prefix: '/dashboard/admin', permissions: ADMIN_PANEL_PERMISSIONS },
+  { prefix: '/dashboard/manager', permissions: [PERMISSIONS.ATTENDANCE_VIEW_TEAM] },
+  { prefix: '/api/employee/create', permissions: [PERMISSIONS.EMPLOYEES_CREATE] },
+]
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+function isApiRoute(pathname: string): boolean {
+  return matchesPrefix(pathname, '/api')
+}
+
+/**
+ * Respuesta para peticiones sin sesión: 401 en API, redirección al login en páginas
+ */
+function unauthenticated(request: NextRequest): NextResponse {
+  const { pathname, search } = request.nextUrl
+
+  if (isApiRoute(pathname)) {
+    return NextResponse.json({ error: 'No autenticado' }, { status: 401 })
+  }
+
+  const loginUrl = new URL(LOGIN_PATH, request.url)
+  if (pathname !== '/') {
+    loginUrl.searchParams.set('redirectTo', `${pathname}${search}`)
+  }
+  return NextResponse.redirect(loginUrl)
+}
+
+/**
+ * Respuesta para usuarios sin permiso: 403 en API, panel del empleado en páginas
+ */
+function forbidden(request: NextRequest): NextResponse {
+  if (isApiRoute(request.nextUrl.pathname)) {
+    return NextResponse.json({ error: 'No tienes permisos para este recurso' }, { status: 403 })
+  }
+
+  return NextResponse.redirect(new URL('/dashboard/employee', request.url))
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  if (PUBLIC_PATHS.some(prefix => matchesPrefix(pathname, prefix))) {
+    return NextResponse.next()
+  }
+
+  const { supabase, response } = createMiddlewareSupabaseClient(request)
+
+  // getUser valida el token contra Supabase (getSession solo lee la cookie)
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user?.email) {
+    return unauthenticated(request)
+  }
+
+  const rule = ROUTE_PERMISSIONS.find(({ prefix }) => matchesPrefix(pathname, prefix))
+  if (!rule) {
+    return response
+  }
+
+  const { data: employee } = await supabase
+    .from('employees')
+    .select('role, permissions, is_active')
+    .eq('email', user.email)
+    .single()
+
+  if (!employee || !employee.is_active) {
+    return unauthenticated(request)
+  }
+
+  if (!canAny(employee, rule.permissions)) {
+    return forbidden(request)
+  }
+
+  return response
+}
+
+export const config = {
+  // Excluir archivos estáticos e imágenes optimizadas
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+}
@@ -0,0 +1,274 @@
+/**
+ * =============================================
+ * SERVICIO DE MATERIALIZACIÓN DE AUSENCIAS
+ * =============================================
+ *
+ * Descripción: Proceso de cierre de día que registra en attendances
+ * las ausencias (status 'absent') de los empleados activos, para que
+ * tasas de asistencia y reportes cuenten los días sin registro
+ *
+ * Se omiten:
+ * - Días libres del turno asignado al empleado ese día; sin turno,
+ *   días no laborables según work_schedule.days_per_week del empleado
+ *   (o working_days de la política activa)
+ * - Feriados del calendario de la organización (tabla holidays) que
+ *   aplican al departamento del empleado
+ * - Permisos aprobados que cubren la fecha
+ * - Empleados que ya tienen un registro ese día o aún no ingresaban
+ *
+ * USO EXCLUSIVO en backend: recibe un cliente con Service Role Key
+ * (ver /api/jobs/materialize-absences)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Attendance,
+  Employee,
+  EmployeeShiftAssignment,
+  Holiday,
+  LeaveRequest,
+  Organization
+} from '@/types/database';
+import { isHoliday } from '@/lib/holidays';
+import { isScheduledWorkingDay } from './work-schedule.service';
+import { addDaysToDateKey, getTodayInTimezone, resolveTimezone } from '@/lib/timezone';
+
+/**
+ * Opciones de ejecución del proceso
+ */
+export interface AbsenceJobOptions {
+  /** Fecha a cerrar (YYYY-MM-DD); por defecto, ayer en la zona de cada organización */
+  date?: string;
+  /** Limitar el proceso a una organización */
+  organizationId?: string;
+}
+
+/**
+ * Resultado del proceso para una organización
+ */
+export interface AbsenceJobResult {
+  organization_id: string;
+  attendance_date: string;
+  created: number;
+  skipped: {
+    non_working_day: number;
+    holiday: number;
+    on_leave: number;
+    already_recorded: number;
+    not_hired: number;
+  };
+  error?: string;
+}
+
+type EmployeeRow = Pick<Employee, 'id' | 'hire_date' | 'department_id' | 'work_schedule'>;
+
+/**
+ * Servicio para registrar ausencias al cierre del día
+ */
+export class AbsenceService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Registra las ausencias de todas las organizaciones activas (o de una)
+   * Es idempotente: volver a ejecutarlo para la misma fecha no duplica registros
+   */
+  async materializeAbsences(options: AbsenceJobOptions = {}): Promise<AbsenceJobResult[]> {
+    let query = this.supabase
+      .from('organizations')
+      .select('id, timezone')
+      .eq('is_active', true);
+
+    if (options.organizationId) {
+      query = query.eq('id', options.organizationId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const organizations = (data || []) as Pick<Organization, 'id' | 'timezone'>[];
+    const results: AbsenceJobResult[] = [];
+
+    // Secuencial para no saturar la base con organizaciones grandes
+    for (const organization of organizations) {
+      results.push(await this.materializeForOrganization(organization, options.date));
+    }
+
+    return results;
+  }
+
+  /**
+   * Registra las ausencias de una organización en la fecha indicada
+   */
+  private async materializeForOrganization(
+    organization: Pick<Organization, 'id' | 'timezone'>,
+    requestedDate?: string
+  ): Promise<AbsenceJobResult> {
+    const timezone = resolveTimezone(organization.timezone);
+    const today = getTodayInTimezone(timezone);
+    const date = requestedDate || addDaysToDateKey(today, -1);
+
+    const result: AbsenceJobResult = {
+      organization_id: organization.id,
+      attendance_date: date,
+      created: 0,
+      skipped: { non_working_day: 0, holiday: 0, on_leave: 0, already_recorded: 0, not_hired: 0 }
+    };
+
+    // Solo se cierran días terminados en la zona de la organización
+    if (date >= today) {
+      return { ...result, error: 'La fecha aún no ha terminado en la zona horaria de la organización' };
+    }
+
+    try {
+      const [employees, policyWorkingDays, holidays, recordedIds, onLeaveIds, assignments] = await Promise.all([
+        this.getActiveEmployees(organization.id),
+        this.getPolicyWorkingDays(organization.id),
+        this.getHolidays(organization.id, date),
+        this.getRecordedEmployeeIds(organization.id, date),
+        this.getEmployeeIdsOnLeave(organization.id, date),
+        this.getShiftAssignments(organization.id, date)
+      ]);
+
+      const absentIds: string[] = [];
+
+      for (const employee of employees) {
+        const isWorkingDay = isScheduledWorkingDay(
+          assignments.filter(item => item.employee_id === employee.id),
+          employee.work_schedule?.days_per_week || policyWorkingDays,
+          date
+        );
+
+        if (employee.hire_date && employee.hire_date > date) {
+          result.skipped.not_hired++;
+        } else if (!isWorkingDay) {
+          result.skipped.non_working_day++;
+        } else if (isHoliday(holidays, date, employee.department_id)) {
+          result.skipped.holiday++;
+        } else if (onLeaveIds.has(employee.id)) {
+          result.skipped.on_leave++;
+        } else if (recordedIds.has(employee.id)) {
+          result.skipped.already_recorded++;
+        } else {
+          absentIds.push(employee.id);
+        }
+      }
+
+      if (absentIds.length > 0) {
+        const now = new Date().toISOString();
+        const { error } = await this.supabase
+          .from('attendances')
+          .insert(absentIds.map(employeeId => ({
+            employee_id: employeeId,
+            organization_id: organization.id,
+            attendance_date: date,
+            status: 'absent',
+            work_hours: 0,
+            break_duration: 0,
+            overtime_hours: 0,
+            is_approved: true,
+            manager_notes: 'Ausencia registrada automáticamente al cierre del día',
+            created_at: now,
+            updated_at: now
+          })));
+
+        if (error) throw error;
+      }
+
+      result.created = absentIds.length;
+      return result;
+    } catch (error) {
+      console.error(`Error materializing absences for organization ${organization.id}:`, error);
+      return { ...result, error: 'Error al registrar ausencias' };
+    }
+  }
+
+  /**
+   * Empleados activos de la organización
+   */
+  private async getActiveEmployees(organizationId: string): Promise<EmployeeRow[]> {
+    const { data, error } = await this.supabase
+      .from('employees')
+      .select('id, hire_date, department_id, work_schedule')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return (data || []) as EmployeeRow[];
+  }
+
+  /**
+   * Días laborables por semana de la política activa (5 si no hay política)
+   */
+  private async getPolicyWorkingDays(organizationId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('work_policies')
+      .select('working_days')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true)
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data?.working_days || 5;
+  }
+
+  /**
+   * Feriados de la organización que pueden caer en la fecha (únicos o recurrentes)
+   */
+  private async getHolidays(organizationId: string, date: string): Promise<Holiday[]> {
+    const { data, error } = await this.supabase
+      .from('holidays')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .or(`is_recurring.eq.true,date.eq.${date}`);
+
+    if (error) throw error;
+    return (data || []) as Holiday[];
+  }
+
+  /**
+   * Turnos asignados de la organización vigentes hasta la fecha
+   */
+  private async getShiftAssignments(organizationId: string, date: string): Promise<EmployeeShiftAssignment[]> {
+    const { data, error } = await this.supabase
+      .from('employee_shift_assignments')
+      .select('*, shift_template:shift_templates(*)')
+      .eq('organization_id', organizationId)
+      .lte('effective_from', date);
+
+    if (error) throw error;
+    return (data || []) as EmployeeShiftAssignment[];
+  }
+
+  /**
+   * Empleados que ya tienen registro de asistencia en la fecha
+   */
+  private async getRecordedEmployeeIds(organizationId: string, date: string): Promise<Set<string>> {
+    const { data, error } = await this.supabase
+      .from('attendances')
+      .select('employee_id')
+      .eq('organization_id', organizationId)
+      .eq('attendance_date', date);
+
+    if (error) throw error;
+    const rows = (data || []) as Pick<Attendance, 'employee_id'>[];
+    return new Set(rows.map(row => row.employee_id));
+  }
+
+  /**
+   * Empleados con un permiso aprobado que cubre la fecha
+   */
+  private async getEmployeeIdsOnLeave(organizationId: string, date: string): Promise<Set<string>> {
+    const { data, error } = await this.supabase
+      .from('leave_requests')
+      .select('employee_id')
+      .eq('organization_id', organizationId)
+      .eq('status', 'approved')
+      .lte('start_date', date)
+      .gte('end_date', date);
+
+    if (error) throw error;
+    const rows = (data || []) as Pick<LeaveRequest, 'employee_id'>[];
+    return new Set(rows.map(row => row.employee_id));
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * =============================================
+ * SERVICIO DE TOKENS DE API
+ * =============================================
+ *
+ * Descripción: Gestión desde la UI de los tokens de integración de la
+ * organización a través de /api/v1/tokens
+ *
+ * El hash y la generación del token ocurren en el servidor (ver lib/api-tokens);
+ * el token en claro solo se recibe una vez, al crearlo
+ */
+
+import { ROUTES } from '@/lib/constants';
+import type { ApiResponse, ApiToken } from '@/types/database';
+
+/**
+ * Token tal como lo expone la API (sin hash)
+ */
+export type ApiTokenSummary = Pick<ApiToken, 'id' | 'name' | 'token_prefix' | 'scopes' | 'expires_at' | 'last_used_at' | 'revoked_at' | 'created_at'> & {
+  creator?: { id: string; full_name: string } | null;
+};
+
+/**
+ * Interface para respuestas de operaciones de tokens
+ */
+export interface ApiTokenResponse {
+  success: boolean;
+  message: string;
+  data?: ApiTokenSummary;
+  token?: string;
+}
+
+/**
+ * Datos de un nuevo token
+ */
+export interface ApiTokenFormData {
+  name: string;
+  scopes: string[];
+  expiresInDays: number;
+}
+
+/**
+ * Servicio para gestión de tokens de API
+ */
+export class ApiTokenService {
+  /**
+   * Obtener los tokens de la organización del usuario
+   */
+  async getTokens(): Promise<ApiTokenSummary[]> {
+    try {
+      const response = await fetch(ROUTES.API.TOKENS);
+      const result: ApiResponse<ApiTokenSummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Crear un token; la respuesta incluye el token en claro
+   */
+  async createToken(data: ApiTokenFormData): Promise<ApiTokenResponse> {
+    try {
+      const response = await fetch(ROUTES.API.TOKENS, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result: ApiResponse<ApiTokenSummary & { token: string }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || 'Error al crear el token' };
+      }
+
+      const { token, ...summary } = result.data;
+      return { success: true, message: 'Token creado', data: summary, token };
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      return { success: false, message: 'Error al crear el token' };
+    }
+  }
+
+  /**
+   * Revocar un token: deja de autenticar de inmediato
+   */
+  async revokeToken(id: string): Promise<ApiTokenResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.TOKENS}/${id}`, { method: 'DELETE' });
+      const result: ApiResponse<ApiTokenSummary> = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al revocar el token' };
+      }
+
+      return { success: true, message: 'Token revocado', data: result.data };
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      return { success: false, message: 'Error al revocar el token' };
+    }
+  }
+}
+
+// Instancia singleton
+export const apiTokenService = new ApiTokenService();
@@ -146,7 +146,8 @@ export class AttendanceAnalyticsService {
       // 6. Calcular tasas de asistencia y puntualidad
       const totalWorkingDays = this.calculateWorkingDays(startDate, endDate);
       const expectedAttendances = totalEmployees! * totalWorkingDays;
-      const actualAttendances = attendances.length;
+      // Los registros 'absent' del cierre diario no cuentan como asistencia
+      const actualAttendances = attendances.filter((att: AttendanceRecord) => att.check_in_time).length;
       
       const attendanceRate = expectedAttendances > 0 ? (actualAttendances / expectedAttendances) * 100 : 0;
       const punctualityRate = actualAttendances > 0 ? ((actualAttendances - lateArrivals) / actualAttendances) * 100 : 0;
@@ -0,0 +1,586 @@
+/**
+ * =============================================
+ * SERVICIO DE CORRECCIONES DE ASISTENCIA
+ * =============================================
+ *
+ * Descripción: Solicitudes de corrección de registros de días pasados
+ * (p. ej. una salida olvidada) con revisión de un manager
+ *
+ * Flujo:
+ * 1. El empleado propone horas de entrada/salida para un día pasado,
+ *    con una nota que se guarda en employee_notes
+ * 2. Un usuario con PERMISSIONS.ATTENDANCE_APPROVE aprueba o rechaza
+ *    con manager_notes
+ * 3. Al aprobar se recalculan horas y estado del registro de asistencia;
+ *    los valores que tenía justo antes quedan en original_values para auditoría
+ *    (el registro puede cambiar mientras la solicitud está pendiente)
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { PERMISSIONS } from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getDateInTimezone, getMinutesOfDayInTimezone, getTodayInTimezone } from '@/lib/timezone';
+import { calculateBreakMinutes } from './attendance.service';
+import { systemConfigService } from './system-config.service';
+import { teamService } from './team.service';
+import { classifyCheckIn, classifyCheckOut, workScheduleService } from './work-schedule.service';
+import type { Attendance, AttendanceCorrection, AttendanceSnapshot, RequestStatus } from '@/types/database';
+
+/**
+ * Interface para respuestas de operaciones de corrección
+ */
+export interface CorrectionResponse {
+  success: boolean;
+  message: string;
+  data?: AttendanceCorrection;
+}
+
+/**
+ * Datos de una nueva solicitud de corrección
+ * Las horas propuestas son instantes ISO (UTC)
+ */
+export interface CorrectionRequestFormData {
+  attendance_date: string;
+  proposed_check_in_time?: string | null;
+  proposed_check_out_time?: string | null;
+  employee_notes: string;
+}
+
+const EMPLOYEE_SELECT = 'employee:employees!employee_id(id, full_name, employee_code)';
+const ATTENDANCE_SELECT = 'attendance:attendances!attendance_id(check_in_time, check_out_time)';
+
+/**
+ * Servicio para gestión de correcciones de asistencia
+ */
+export class AttendanceCorrectionService {
+  private supabase = createSupabaseClient();
+
+  /**
+   * Obtener las correcciones solicitadas por un empleado (más recientes primero)
+   */
+  async getEmployeeCorrections(employeeId: string): Promise<AttendanceCorrection[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('attendance_corrections')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .order('attendance_date', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching employee corrections:', error);
+      throw new Error('Error al obtener solicitudes de corrección');
+    }
+  }
+
+  /**
+   * Obtener las correcciones de la organización, opcionalmente por estado
+   * y limitadas a ciertos empleados (equipo de un manager)
+   */
+  async getCorrections(organizationId: string, status?: RequestStatus, employeeIds?: string[]): Promise<AttendanceCorrection[]> {
+    try {
+      let query = this.supabase
+        .from('attendance_corrections')
+        .select(`*, ${EMPLOYEE_SELECT}, ${ATTENDANCE_SELECT}`)
+        .eq('organization_id', organizationId);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      // Vista de manager: solo su equipo
+      if (employeeIds) {
+        query = query.in('employee_id', employeeIds);
+      }
+
+      const { data, error } = await query.order('attendance_date', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching corrections:', error);
+      throw new Error('Error al obtener solicitudes de corrección');
+    }
+  }
+
+  /**
+   * Registrar una solicitud de corrección para un día pasado
+   */
+  async requestCorrection(
+    employeeId: string,
+    organizationId: string,
+    request: CorrectionRequestFormData
+  ): Promise<CorrectionResponse> {
+    try {
+      const notes = request.employee_notes?.trim();
+      const checkIn = request.proposed_check_in_time || null;
+      const checkOut = request.proposed_check_out_time || null;
+
+      if (!request.attendance_date) {
+        return { success: false, message: 'Debes indicar la fecha a corregir' };
+      }
+
+      if (!notes) {
+        return { success: false, message: 'Explica el motivo de la corrección' };
+      }
+
+      if (!checkIn && !checkOut) {
+        return { success: false, message: 'Indica al menos una hora de entrada o salida' };
+      }
+
+      if (checkIn && checkOut && new Date(checkOut) <= new Date(checkIn)) {
+        return { success: false, message: 'La salida debe ser posterior a la entrada' };
+      }
+
+      // Solo se corrigen días cerrados; el día en curso se registra con el reloj
+      const timezone = await systemConfigService.getOrganizationTimezone(organizationId);
+      if (request.attendance_date >= getTodayInTimezone(timezone)) {
+        return { success: false, message: 'Solo puedes corregir días anteriores a hoy' };
+      }
+
+      if (checkIn && getDateInTimezone(new Date(checkIn), timezone) !== request.attendance_date) {
+        return { success: false, message: 'La entrada debe corresponder a la fecha a corregir' };
+      }
+
+      // Una sola corrección pendiente por día
+      const { data: pending, error: pendingError } = await this.supabase
+        .from('attendance_corrections')
+        .select('id')
+        .eq('employee_id', employeeId)
+        .eq('attendance_date', request.attendance_date)
+        .eq('status', 'pending')
+        .limit(1);
+
+      if (pendingError) throw pendingError;
+      if (pending && pending.length > 0) {
+        return { success: false, message: 'Ya tienes una corrección pendiente para ese día' };
+      }
+
+      const attendance = await this.getAttendance(employeeId, request.attendance_date);
+
+      const timesError = this.validateCorrectedTimes(
+        { proposed_check_in_time: checkIn || undefined, proposed_check_out_time: checkOut || undefined },
+        attendance
+      );
+      if (timesError) {
+        return { success: false, message: timesError };
+      }
+
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('attendance_corrections')
+        .insert({
+          organization_id: organizationId,
+          employee_id: employeeId,
+          attendance_id: attendance?.id || null,
+          attendance_date: request.attendance_date,
+          proposed_check_in_time: checkIn,
+          proposed_check_out_time: checkOut,
+          employee_notes: notes,
+          status: 'pending',
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: 'Corrección enviada. Queda pendiente de revisión',
+        data
+      };
+    } catch (error) {
+      console.error('Error requesting correction:', error);
+      return {
+        success: false,
+        message: 'Error al registrar la solicitud de corrección'
+      };
+    }
+  }
+
+  /**
+   * Aprobar una corrección pendiente y aplicarla al registro de asistencia
+   */
+  async approveCorrection(correctionId: string, reviewerId: string, managerNotes?: string): Promise<CorrectionResponse> {
+    try {
+      const correction = await this.getPendingCorrection(correctionId);
+      if (!correction) {
+        return { success: false, message: 'La solicitud no existe o ya fue revisada' };
+      }
+
+      const reviewError = await this.validateReviewer(reviewerId, correction);
+      if (reviewError) {
+        return { success: false, message: reviewError };
+      }
+
+      // El registro pudo cambiar desde la solicitud (cierre automático, otra corrección)
+      const attendance = await this.getAttendance(correction.employee_id, correction.attendance_date);
+      const timesError = this.validateCorrectedTimes(correction, attendance);
+      if (timesError) {
+        return { success: false, message: timesError };
+      }
+
+      // Se reclama la solicitud antes de tocar el registro: una segunda
+      // aprobación (o una cancelación simultánea) no la aplica dos veces
+      const now = new Date().toISOString();
+      const { data: claimed, error } = await this.supabase
+        .from('attendance_corrections')
+        .update({
+          original_values: attendance ? this.snapshot(attendance) : null,
+          status: 'approved',
+          approved_by: reviewerId,
+          approved_at: now,
+          manager_notes: managerNotes?.trim() || null,
+          updated_at: now
+        })
+        .eq('id', correctionId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!claimed) {
+        return { success: false, message: 'La solicitud ya fue procesada' };
+      }
+
+      let attendanceId: string;
+      try {
+        attendanceId = await this.applyCorrection(correction, attendance, reviewerId, managerNotes?.trim() || null, now);
+      } catch (applyError) {
+        // Sin cambios en el registro, la solicitud vuelve a quedar pendiente
+        await this.supabase
+          .from('attendance_corrections')
+          .update({
+            original_values: null,
+            status: 'pending',
+            approved_by: null,
+            approved_at: null,
+            manager_notes: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', correctionId);
+        throw applyError;
+      }
+
+      let data = claimed;
+      if (claimed.attendance_id !== attendanceId) {
+        const { data: linked, error: linkError } = await this.supabase
+          .from('attendance_corrections')
+          .update({ attendance_id: attendanceId })
+          .eq('id', correctionId)
+          .select()
+          .single();
+
+        if (linkError) throw linkError;
+        data = linked;
+      }
+
+      return {
+        success: true,
+        message: 'Corrección aprobada y aplicada',
+        data
+      };
+    } catch (error) {
+      console.error('Error approving correction:', error);
+      return {
+        success: false,
+        message: 'Error al aprobar la corrección'
+      };
+    }
+  }
+
+  /**
+   * Rechazar una corrección pendiente; manager_notes es obligatorio
+   */
+  async rejectCorrection(correctionId: string, reviewerId: string, managerNotes: string): Promise<CorrectionResponse> {
+    try {
+      if (!managerNotes.trim()) {
+        return { success: false, message: 'Debes indicar el motivo del rechazo' };
+      }
+
+      const correction = await this.getPendingCorrection(correctionId);
+      if (!correction) {
+        return { success: false, message: 'La solicitud no existe o ya fue revisada' };
+      }
+
+      const reviewError = await this.validateReviewer(reviewerId, correction);
+      if (reviewError) {
+        return { success: false, message: reviewError };
+      }
+
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('attendance_corrections')
+        .update({
+          status: 'rejected',
+          rejected_by: reviewerId,
+          rejected_at: now,
+          manager_notes: managerNotes.trim(),
+          updated_at: now
+        })
+        .eq('id', correctionId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return { success: false, message: 'La solicitud ya fue procesada' };
+      }
+
+      return {
+        success: true,
+        message: 'Corrección rechazada',
+        data
+      };
+    } catch (error) {
+      console.error('Error rejecting correction:', error);
+      return {
+        success: false,
+        message: 'Error al rechazar la corrección'
+      };
+    }
+  }
+
+  /**
+   * Cancelar una corrección propia que aún no fue revisada
+   */
+  async cancelCorrection(correctionId: string, employeeId: string): Promise<CorrectionResponse> {
+    try {
+      const correction = await this.getPendingCorrection(correctionId);
+      if (!correction || correction.employee_id !== employeeId) {
+        return { success: false, message: 'Solo puedes cancelar tus solicitudes pendientes' };
+      }
+
+      const { data, error } = await this.supabase
+        .from('attendance_corrections')
+        .update({
+          status: 'cancelled',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', correctionId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return { success: false, message: 'La solicitud ya fue procesada' };
+      }
+
+      return {
+        success: true,
+        message: 'Solicitud cancelada',
+        data
+      };
+    } catch (error) {
+      console.error('Error cancelling correction:', error);
+      return {
+        success: false,
+        message: 'Error al cancelar la solicitud'
+      };
+    }
+  }
+
+  /**
+   * Verifica que el revisor tenga permiso de aprobación y no sea el solicitante
+   * Devuelve el mensaje de error o null si puede revisar
+   */
+  private async validateReviewer(reviewerId: string, correction: AttendanceCorrection): Promise<string | null> {
+    if (reviewerId === correction.employee_id) {
+      return 'No puedes revisar tu propia solicitud';
+    }
+
+    const { data: reviewer, error } = await this.supabase
+      .from('employees')
+      .select('role, permissions, is_active, organization_id')
+      .eq('id', reviewerId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+
+    if (
+      !reviewer ||
+      reviewer.organization_id !== correction.organization_id ||
+      !can(reviewer, PERMISSIONS.ATTENDANCE_APPROVE)
+    ) {
+      return 'No tienes permiso para revisar correcciones de asistencia';
+    }
+
+    // Sin visibilidad de toda la organización solo se revisa al propio equipo
+    if (
+      !can(reviewer, PERMISSIONS.ATTENDANCE_VIEW_ALL) &&
+      !(await teamService.isTeamMember(reviewerId, correction.organization_id, correction.employee_id))
+    ) {
+      return 'Solo puedes revisar correcciones de tu equipo';
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtener una corrección solo si sigue pendiente
+   */
+  private async getPendingCorrection(correctionId: string): Promise<AttendanceCorrection | null> {
+    const { data, error } = await this.supabase
+      .from('attendance_corrections')
+      .select('*')
+      .eq('id', correctionId)
+      .eq('status', 'pending')
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data || null;
+  }
+
+  /**
+   * Registro de asistencia de un empleado en una fecha
+   */
+  private async getAttendance(employeeId: string, attendanceDate: string): Promise<Attendance | null> {
+    const { data, error } = await this.supabase
+      .from('attendances')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('attendance_date', attendanceDate)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data || null;
+  }
+
+  /**
+   * Valores del registro que cambia una corrección
+   */
+  private snapshot(attendance: Attendance): AttendanceSnapshot {
+    return {
+      check_in_time: attendance.check_in_time,
+      check_out_time: attendance.check_out_time,
+      work_hours: attendance.work_hours,
+      regular_hours: attendance.regular_hours,
+      overtime_hours: attendance.overtime_hours,
+      status: attendance.status
+    };
+  }
+
+  /**
+   * Verifica que la salida resultante (propuesta o registrada) sea posterior
+   * a la entrada resultante. Devuelve el mensaje de error o null
+   */
+  private validateCorrectedTimes(
+    correction: Pick<AttendanceCorrection, 'proposed_check_in_time' | 'proposed_check_out_time'>,
+    attendance: Attendance | null
+  ): string | null {
+    const checkInTime = correction.proposed_check_in_time || attendance?.check_in_time;
+    const checkOutTime = correction.proposed_check_out_time || attendance?.check_out_time;
+
+    if (!checkInTime || !checkOutTime || new Date(checkOutTime) > new Date(checkInTime)) {
+      return null;
+    }
+
+    if (correction.proposed_check_in_time && correction.proposed_check_out_time) {
+      return 'La salida debe ser posterior a la entrada';
+    }
+
+    return correction.proposed_check_out_time
+      ? 'La hora de salida es anterior a la entrada registrada'
+      : 'La hora de entrada es posterior a la salida registrada';
+  }
+
+  /**
+   * Actualiza (o crea) el registro de asistencia con las horas corregidas,
+   * recalculando horas trabajadas y clasificación contra el horario efectivo
+   * Devuelve el id del registro
+   */
+  private async applyCorrection(
+    correction: AttendanceCorrection,
+    attendance: Attendance | null,
+    reviewerId: string,
+    managerNotes: string | null,
+    now: string
+  ): Promise<string> {
+    const checkInTime = correction.proposed_check_in_time || attendance?.check_in_time || null;
+    const checkOutTime = correction.proposed_check_out_time || attendance?.check_out_time || null;
+
+    const [timezone, schedule] = await Promise.all([
+      systemConfigService.getOrganizationTimezone(correction.organization_id),
+      workScheduleService.getEffectiveSchedule(
+        correction.employee_id,
+        correction.organization_id,
+        correction.attendance_date
+      )
+    ]);
+
+    const hoursFields: Partial<Attendance> = {};
+
+    if (checkInTime) {
+      const { status } = classifyCheckIn(getMinutesOfDayInTimezone(new Date(checkInTime), timezone), schedule);
+      hoursFields.status = status;
+    }
+
+    if (checkInTime && checkOutTime) {
+      // Los descansos registrados se conservan y se descuentan de las horas trabajadas
+      const breakMinutes = calculateBreakMinutes(attendance?.breaks || [], new Date(checkOutTime));
+      const elapsedHours = (new Date(checkOutTime).getTime() - new Date(checkInTime).getTime()) / (1000 * 60 * 60);
+      const workHours = Math.max(0, elapsedHours - breakMinutes / 60);
+
+      const classification = classifyCheckOut(
+        getMinutesOfDayInTimezone(new Date(checkOutTime), timezone),
+        workHours,
+        hoursFields.status,
+        schedule
+      );
+
+      hoursFields.work_hours = Math.round(workHours * 100) / 100;
+      hoursFields.regular_hours = classification.regular_hours;
+      hoursFields.overtime_hours = classification.overtime_hours;
+      hoursFields.status = classification.status;
+    }
+
+    const correctionFields = {
+      check_in_time: checkInTime,
+      check_out_time: checkOutTime,
+      ...hoursFields,
+      employee_notes: correction.employee_notes,
+      manager_notes: managerNotes || 'Corrección aprobada',
+      is_approved: true,
+      approved_by: reviewerId,
+      approved_at: now,
+      updated_at: now
+    };
+
+    if (attendance) {
+      const { error } = await this.supabase
+        .from('attendances')
+        .update(correctionFields)
+        .eq('id', attendance.id);
+
+      if (error) throw error;
+      return attendance.id;
+    }
+
+    const { data, error } = await this.supabase
+      .from('attendances')
+      .insert({
+        employee_id: correction.employee_id,
+        organization_id: correction.organization_id,
+        attendance_date: correction.attendance_date,
+        work_hours: 0,
+        break_duration: 0,
+        overtime_hours: 0,
+        status: 'present',
+        ...correctionFields,
+        created_at: now
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+}
+
+// Instancia singleton
+export const attendanceCorrectionService = new AttendanceCorrectionService();
@@ -0,0 +1,82 @@
+/**
+ * =============================================
+ * SERVICIO DE MARCAJES DEL NAVEGADOR
+ * =============================================
+ *
+ * Descripción: Entrada, salida y descansos del usuario con sesión
+ * - El navegador no escribe en attendances: /api/v1/attendance/punch aplica
+ *   el marcaje con AttendanceService en el servidor
+ * - El QR de la oficina y las geocercas se validan allí, no en el cliente
+ */
+
+import { ROUTES } from '@/lib/constants';
+import type { ApiResponse, BreakRecord, LocationData } from '@/types/database';
+import type { AttendanceResponse } from './attendance.service';
+
+type PunchAction = 'check_in' | 'check_out' | 'start_break' | 'end_break';
+
+interface PunchRequest {
+  action: PunchAction;
+  location?: LocationData | null;
+  office_qr_code?: string;
+  break_type?: BreakRecord['type'];
+}
+
+/**
+ * Servicio para marcajes del usuario con sesión
+ */
+export class AttendancePunchService {
+  /**
+   * Registra la entrada
+   * officeQrCode: código escaneado cuando la política exige el QR de la oficina
+   */
+  async checkIn(location: LocationData | null, officeQrCode?: string): Promise<AttendanceResponse> {
+    return this.punch({ action: 'check_in', location, office_qr_code: officeQrCode }, 'Error al registrar entrada');
+  }
+
+  /**
+   * Registra la salida
+   */
+  async checkOut(location: LocationData | null): Promise<AttendanceResponse> {
+    return this.punch({ action: 'check_out', location }, 'Error al registrar salida');
+  }
+
+  /**
+   * Inicia un descanso del tipo indicado
+   */
+  async startBreak(breakType: BreakRecord['type']): Promise<AttendanceResponse> {
+    return this.punch({ action: 'start_break', break_type: breakType }, 'Error al iniciar descanso');
+  }
+
+  /**
+   * Termina el descanso activo
+   */
+  async endBreak(): Promise<AttendanceResponse> {
+    return this.punch({ action: 'end_break' }, 'Error al terminar descanso');
+  }
+
+  private async punch(body: PunchRequest, fallbackMessage: string): Promise<AttendanceResponse> {
+    try {
+      const response = await fetch(ROUTES.API.ATTENDANCE_PUNCH, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const result: ApiResponse<{ message: string; attendance: Record<string, unknown> | null }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || fallbackMessage };
+      }
+
+      return { success: true, message: result.data.message, data: result.data.attendance ?? undefined };
+    } catch (error) {
+      console.error(`Error en ${body.action}:`, error);
+      return { success: false, message: fallbackMessage };
+    }
+  }
+}
+
+// Instancia singleton
+export const attendancePunchService = new AttendancePunchService();
@@ -5,9 +5,41 @@
  * 
  * Servicio simplificado que funciona con el esquema real de Supabase
  * Restaura la funcionalidad que funcionaba anteriormente
+ * 
+ * Zona horaria: los timestamps se guardan en UTC real y attendance_date
+ * se calcula con Organization.timezone, sin depender del navegador
+ * 
+ * Geolocalización: la entrada y la salida guardan coordenadas y precisión
+ * en location_data; si la política exige geolocalización, la entrada fuera
+ * de toda geocerca se rechaza o queda pendiente de revisión (is_approved = false)
+ * 
+ * Webhooks: la entrada y la salida emiten attendance_check_in / attendance_check_out
+ * 
+ * Solo servidor para escribir: el navegador marca con /api/v1/attendance/punch
+ * (attendancePunchService) y el quiosco con /api/kiosk/punch; ambos construyen
+ * el servicio con un cliente de servicio y registran la IP y el user agent
+ * (AttendanceSource). Las políticas RLS no deben dejar que un empleado
+ * inserte o modifique sus propios registros de attendances
+ * 
+ * QR de la oficina: si la política lo exige (require_office_qr), la entrada
+ * necesita el código rotativo escaneado en la oficina; la ruta que llama al
+ * servicio lo verifica (AttendanceSource.officeQrVerified). Prueba la presencia sin GPS
+ * 
+ * Sin conexión: /api/v1/attendance/sync reproduce los marcajes guardados en
+ * el dispositivo con su hora original (AttendanceSource.recordedAt)
+ * 
+ * Turnos nocturnos: la salida, los descansos y el estado del día usan el
+ * registro abierto del día anterior si su turno cruza la medianoche
  */
 
 import { createSupabaseClient } from '@/lib/supabase/client';
+import type { Attendance, AttendanceLocationData, AttendanceStatus, BreakRecord, LocationData } from '@/types/database';
+import { classifyCheckIn, classifyCheckOut, crossesMidnight, WorkScheduleService } from './work-schedule.service';
+import { SystemConfigService } from './system-config.service';
+import { addDaysToDateKey, getDateInTimezone, getMinutesOfDayInTimezone } from '@/lib/timezone';
+import { evaluateGeofences, withGeofenceResult } from '@/lib/geolocation';
+import { METRICS } from '@/lib/constants';
+import { WebhookService } from './webhook.service';
 
 /**
  * Interface para respuestas de operaciones de asistencia
@@ -18,24 +50,89 @@ export interface AttendanceResponse {
   data?: Record<string, unknown>;
 }
 
+/**
+ * Origen del marcaje: terminal de quiosco, QR de la oficina escaneado o
+ * marcaje sin conexión sincronizado después
+ */
+export interface AttendanceSource {
+  kioskId?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  officeQrCode?: string;
+  // El QR ya se verificó en el servidor contra la hora del marcaje (sincronización)
+  officeQrVerified?: boolean;
+  // Hora del dispositivo al marcar; por defecto, la hora actual
+  // El servidor no puede comprobarla: el registro queda pendiente de revisión
+  recordedAt?: string;
+}
+
+/**
+ * Registro de attendances tal como lo devuelve Supabase
+ */
+type AttendanceRow = Record<string, unknown> & Pick<
+  Attendance,
+  'id' | 'organization_id' | 'attendance_date' | 'check_in_time' | 'check_out_time' | 'status' | 'breaks' | 'location_data'
+>;
+
+/**
+ * Resultado de validar la ubicación de una entrada
+ */
+interface LocationCheckResult {
+  allowed: boolean;
+  message?: string;
+  location: LocationData | null;
+  flagged: boolean;
+}
+
+/**
+ * Datos del registro que se envían en los webhooks de asistencia
+ */
+function toAttendanceEventPayload(record: Record<string, unknown>): Record<string, unknown> {
+  return {
+    attendance_id: record.id,
+    employee_id: record.employee_id,
+    attendance_date: record.attendance_date,
+    check_in_time: record.check_in_time,
+    check_out_time: record.check_out_time ?? null,
+    status: record.status,
+    work_hours: record.work_hours,
+    overtime_hours: record.overtime_hours,
+    is_approved: record.is_approved
+  };
+}
+
 /**
  * Servicio para gestión de asistencias - Versión funcional simplificada
  */
 export class AttendanceService {
+  private systemConfig: SystemConfigService;
+  private workSchedule: WorkScheduleService;
+  private webhooks: WebhookService;
+
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {
+    this.systemConfig = new SystemConfigService(supabase);
+    this.workSchedule = new WorkScheduleService(supabase);
+    this.webhooks = new WebhookService(supabase);
+  }
+
   /**
    * Registra la entrada del empleado
    */
-  async checkIn(employeeId: string, organizationId: string): Promise<AttendanceResponse> {
+  async checkIn(
+    employeeId: string,
+    organizationId: string,
+    location: LocationData | null = null,
+    source: AttendanceSource = {}
+  ): Promise<AttendanceResponse> {
     try {
-      const supabase = createSupabaseClient();
-      
-      // Usar fecha/hora local en vez de UTC
+      // Fecha laboral según la zona horaria de la organización y la hora del marcaje
       const now = new Date();
-      const localDateTime = new Date(now.getTime() - now.getTimezoneOffset() * 60000);
-      const today = localDateTime.toISOString().split('T')[0];
+      const eventTime = source.recordedAt ? new Date(source.recordedAt) : now;
+      const timezone = await this.systemConfig.getOrganizationTimezone(organizationId);
+      const today = getDateInTimezone(eventTime, timezone);
 
       // Verificar si ya hay entrada registrada hoy
-      const { data: existing } = await supabase
+      const { data: existing } = await this.supabase
         .from('attendances')
         .select('id, check_in_time')
         .eq('employee_id', employeeId)
@@ -49,38 +146,67 @@ export class AttendanceService {
         };
       }
 
+      // Validar la ubicación contra la política y las geocercas de la organización
+      const locationCheck = await this.checkLocation(organizationId, location, source);
+      if (!locationCheck.allowed) {
+        return {
+          success: false,
+          message: locationCheck.message || 'Ubicación no permitida'
+        };
+      }
+
+      // Fuera de zona o con la hora del dispositivo: lo revisa un responsable
+      const needsReview = locationCheck.flagged || !!source.recordedAt;
+
+      const locationData: AttendanceLocationData | null = locationCheck.location
+        ? { check_in: locationCheck.location }
+        : null;
+
+      // Clasificar la entrada contra el horario efectivo del empleado (turno programado hoy)
+      const schedule = await this.workSchedule.getEffectiveSchedule(employeeId, organizationId, today);
+      const { status, minutesLate } = classifyCheckIn(getMinutesOfDayInTimezone(eventTime, timezone), schedule);
+
       // Registrar nueva entrada o actualizar registro existente
       const attendanceData = {
         employee_id: employeeId,
         organization_id: organizationId,
         attendance_date: today,
-        check_in_time: localDateTime.toISOString(),
-        status: 'present',
+        check_in_time: eventTime.toISOString(),
+        status,
         work_hours: 0,
         break_duration: 0,
         overtime_hours: 0,
-        location_data: null, // Se puede agregar geolocalización después
-        created_at: localDateTime.toISOString(),
-        updated_at: localDateTime.toISOString()
+        location_data: locationData,
+        ip_address: source.ipAddress ?? null,
+        user_agent: source.userAgent ?? null,
+        check_in_kiosk_id: source.kioskId ?? null,
+        is_approved: !needsReview,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
       };
 
       let result;
       
       if (existing) {
         // Actualizar registro existente
-        result = await supabase
+        result = await this.supabase
           .from('attendances')
           .update({
-            check_in_time: localDateTime.toISOString(),
-            status: 'present',
-            updated_at: localDateTime.toISOString()
+            check_in_time: eventTime.toISOString(),
+            status,
+            location_data: locationData,
+            ip_address: source.ipAddress ?? null,
+            user_agent: source.userAgent ?? null,
+            check_in_kiosk_id: source.kioskId ?? null,
+            is_approved: !needsReview,
+            updated_at: now.toISOString()
           })
           .eq('id', existing.id)
           .select()
           .single();
       } else {
         // Crear nuevo registro
-        result = await supabase
+        result = await this.supabase
           .from('attendances')
           .insert(attendanceData)
           .select()
@@ -91,9 +217,21 @@ export class AttendanceService {
         throw result.error;
       }
 
+      let message = status === 'late'
+        ? `Entrada registrada con ${minutesLate} minutos de retraso`
+        : 'Entrada registrada exitosamente';
+
+      if (locationCheck.flagged) {
+        message += '. Registrada fuera de la zona permitida: quedará pendiente de revisión';
+      } else if (source.recordedAt) {
+        message += '. Registrada sin conexión: quedará pendiente de revisión';
+      }
+
+      await this.webhooks.emit(organizationId, METRICS.EVENTS.ATTENDANCE_CHECK_IN, toAttendanceEventPayload(result.data));
+
       return {
         success: true,
-        message: 'Entrada registrada exitosamente',
+        message,
         data: result.data
       };
 
@@ -109,24 +247,22 @@ export class AttendanceService {
   /**
    * Registra la salida del empleado
    */
-  async checkOut(employeeId: string): Promise<AttendanceResponse> {
+  async checkOut(
+    employeeId: string,
+    location: LocationData | null = null,
+    source: AttendanceSource = {}
+  ): Promise<AttendanceResponse> {
     try {
-      const supabase = createSupabaseClient();
-      
-      // Usar fecha/hora local en vez de UTC
+      // Fecha laboral según la zona horaria de la organización y la hora del marcaje
       const now = new Date();
-      const localDateTime = new Date(now.getTime() - now.getTimezoneOffset() * 60000);
-      const today = localDateTime.toISOString().split('T')[0];
+      const eventTime = source.recordedAt ? new Date(source.recordedAt) : now;
+      const timezone = await this.systemConfig.getEmployeeTimezone(employeeId);
+      const today = getDateInTimezone(eventTime, timezone);
 
-      // Buscar registro de entrada del día
-      const { data: attendance, error: fetchError } = await supabase
-        .from('attendances')
-        .select('*')
-        .eq('employee_id', employeeId)
-        .eq('attendance_date', today)
-        .single();
+      // Registro de entrada del día (o del turno nocturno que empezó ayer)
+      const attendance = await this.findCurrentAttendance(employeeId, today);
 
-      if (fetchError || !attendance) {
+      if (!attendance) {
         return {
           success: false,
           message: 'No se encontró registro de entrada para hoy'
@@ -147,18 +283,60 @@ export class AttendanceService {
         };
       }
 
-      // Calcular horas trabajadas
       const checkInTime = new Date(attendance.check_in_time);
-      const workHours = (localDateTime.getTime() - checkInTime.getTime()) / (1000 * 60 * 60);
+      if (eventTime < checkInTime) {
+        return {
+          success: false,
+          message: 'La hora de salida es anterior a la entrada registrada'
+        };
+      }
+
+      // Cerrar un descanso que haya quedado abierto al momento de la salida
+      const breaks = closeActiveBreak(attendance.breaks || [], eventTime.toISOString());
+      const breakMinutes = calculateBreakMinutes(breaks);
+
+      // Calcular horas trabajadas descontando los descansos
+      const elapsedHours = (eventTime.getTime() - checkInTime.getTime()) / (1000 * 60 * 60);
+      const workHours = Math.max(0, elapsedHours - breakMinutes / 60);
+
+      // Clasificar la salida y separar horas regulares de horas extra
+      const schedule = await this.workSchedule.getEffectiveSchedule(
+        employeeId,
+        attendance.organization_id,
+        attendance.attendance_date
+      );
+      const classification = classifyCheckOut(
+        getMinutesOfDayInTimezone(eventTime, timezone),
+        workHours,
+        attendance.status as AttendanceStatus,
+        schedule
+      );
+
+      // Registrar la ubicación de salida (solo informativa, no bloquea la salida)
+      let locationData = (attendance.location_data as AttendanceLocationData | null) || null;
+      if (location) {
+        const { geofences } = await this.systemConfig.getGeofenceSettings(attendance.organization_id);
+        locationData = {
+          ...locationData,
+          check_out: withGeofenceResult(location, evaluateGeofences(location, geofences))
+        };
+      }
 
       // Actualizar registro con salida
-      const { data, error } = await supabase
+      const { data, error } = await this.supabase
         .from('attendances')
         .update({
-          check_out_time: localDateTime.toISOString(),
+          check_out_time: eventTime.toISOString(),
+          check_out_kiosk_id: source.kioskId ?? null,
+          location_data: locationData,
           work_hours: Math.round(workHours * 100) / 100,
-          status: 'present',
-          updated_at: localDateTime.toISOString()
+          breaks,
+          break_duration: breakMinutes,
+          regular_hours: classification.regular_hours,
+          overtime_hours: classification.overtime_hours,
+          status: classification.status,
+          ...(source.recordedAt && { is_approved: false }),
+          updated_at: now.toISOString()
         })
         .eq('id', attendance.id)
         .select()
@@ -168,6 +346,8 @@ export class AttendanceService {
         throw error;
       }
 
+      await this.webhooks.emit(data.organization_id, METRICS.EVENTS.ATTENDANCE_CHECK_OUT, toAttendanceEventPayload(data));
+
       return {
         success: true,
         message: `Salida registrada. Trabajaste ${Math.round(workHours * 100) / 100} horas`,
@@ -184,29 +364,232 @@ export class AttendanceService {
   }
 
   /**
-   * Obtiene la asistencia del día actual
+   * Inicia un descanso del tipo indicado
+   * Solo se permite un descanso activo a la vez
    */
-  async getTodayAttendance(employeeId: string): Promise<Record<string, unknown> | null> {
+  async startBreak(employeeId: string, breakType: BreakRecord['type']): Promise<AttendanceResponse> {
     try {
-      const supabase = createSupabaseClient();
-      
-      // Usar fecha local consistente
       const now = new Date();
-      const localDateTime = new Date(now.getTime() - now.getTimezoneOffset() * 60000);
-      const today = localDateTime.toISOString().split('T')[0];
+      const today = getDateInTimezone(now, await this.systemConfig.getEmployeeTimezone(employeeId));
+
+      const attendance = await this.findCurrentAttendance(employeeId, today);
+
+      if (!attendance?.check_in_time) {
+        return {
+          success: false,
+          message: 'Debes registrar tu entrada antes de tomar un descanso'
+        };
+      }
+
+      if (attendance.check_out_time) {
+        return {
+          success: false,
+          message: 'Ya registraste tu salida hoy'
+        };
+      }
 
-      const { data, error } = await supabase
+      const breaks: BreakRecord[] = attendance.breaks || [];
+
+      if (getActiveBreak(breaks)) {
+        return {
+          success: false,
+          message: 'Ya tienes un descanso en curso'
+        };
+      }
+
+      const { data, error } = await this.supabase
         .from('attendances')
-        .select('*')
-        .eq('employee_id', employeeId)
-        .eq('attendance_date', today)
+        .update({
+          breaks: [...breaks, { type: breakType, start_time: now.toISOString() }],
+          updated_at: now.toISOString()
+        })
+        .eq('id', attendance.id)
+        .select()
         .single();
 
-      if (error && error.code !== 'PGRST116') {
+      if (error) {
         throw error;
       }
 
-      return data || null;
+      return {
+        success: true,
+        message: 'Descanso iniciado',
+        data
+      };
+
+    } catch (error) {
+      console.error('Error iniciando descanso:', error);
+      return {
+        success: false,
+        message: 'Error al iniciar descanso'
+      };
+    }
+  }
+
+  /**
+   * Termina el descanso activo y acumula su duración
+   */
+  async endBreak(employeeId: string): Promise<AttendanceResponse> {
+    try {
+      const now = new Date();
+      const today = getDateInTimezone(now, await this.systemConfig.getEmployeeTimezone(employeeId));
+
+      const attendance = await this.findCurrentAttendance(employeeId, today);
+      const breaks: BreakRecord[] = attendance?.breaks || [];
+
+      if (!attendance || !getActiveBreak(breaks)) {
+        return {
+          success: false,
+          message: 'No tienes un descanso en curso'
+        };
+      }
+
+      const updatedBreaks = closeActiveBreak(breaks, now.toISOString());
+      const breakMinutes = calculateBreakMinutes(updatedBreaks);
+
+      const { data, error } = await this.supabase
+        .from('attendances')
+        .update({
+          breaks: updatedBreaks,
+          break_duration: breakMinutes,
+          updated_at: now.toISOString()
+        })
+        .eq('id', attendance.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        message: `Descanso terminado. Total de descansos hoy: ${breakMinutes} minutos`,
+        data
+      };
+
+    } catch (error) {
+      console.error('Error terminando descanso:', error);
+      return {
+        success: false,
+        message: 'Error al terminar descanso'
+      };
+    }
+  }
+
+  /**
+   * Registro en curso del empleado en la fecha laboral indicada
+   * Si ese día no tiene una entrada abierta, se usa la del día anterior cuando
+   * su turno cruza la medianoche (entrada 22:00, salida 06:00)
+   */
+  private async findCurrentAttendance(employeeId: string, dateKey: string): Promise<AttendanceRow | null> {
+    const previousDate = addDaysToDateKey(dateKey, -1);
+
+    const { data, error } = await this.supabase
+      .from('attendances')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .in('attendance_date', [previousDate, dateKey]);
+
+    if (error) throw error;
+
+    const rows = (data || []) as AttendanceRow[];
+    const current = rows.find(row => row.attendance_date === dateKey) || null;
+    if (current?.check_in_time && !current.check_out_time) return current;
+
+    const previous = rows.find(row => row.attendance_date === previousDate);
+    if (previous?.check_in_time && !previous.check_out_time) {
+      const schedule = await this.workSchedule.getEffectiveSchedule(employeeId, previous.organization_id, previousDate);
+      if (crossesMidnight(schedule)) return previous;
+    }
+
+    return current;
+  }
+
+  /**
+   * Valida la presencia en la entrada: QR de la oficina o ubicación
+   * Sin política de geolocalización la ubicación solo se registra; las terminales
+   * de quiosco están instaladas en la oficina y no envían ubicación
+   */
+  private async checkLocation(
+    organizationId: string,
+    location: LocationData | null,
+    source: AttendanceSource = {}
+  ): Promise<LocationCheckResult> {
+    if (!location && source.kioskId) {
+      return { allowed: true, location: null, flagged: false };
+    }
+
+    const [policy, geofenceSettings] = await Promise.all([
+      this.systemConfig.getActiveWorkPolicy(organizationId),
+      this.systemConfig.getGeofenceSettings(organizationId)
+    ]);
+    const requireGeolocation = policy?.require_geolocation ?? false;
+
+    // El QR de la oficina prueba la presencia: la ubicación, si llega, solo se registra
+    if (policy?.require_office_qr && !source.kioskId) {
+      if (!source.officeQrCode) {
+        return {
+          allowed: false,
+          message: 'Escanea el código QR de la oficina para registrar tu entrada',
+          location: null,
+          flagged: false
+        };
+      }
+
+      if (!source.officeQrVerified) {
+        return { allowed: false, message: 'No se pudo verificar el código QR', location: null, flagged: false };
+      }
+
+      return {
+        allowed: true,
+        location: location ? withGeofenceResult(location, evaluateGeofences(location, geofenceSettings.geofences)) : null,
+        flagged: false
+      };
+    }
+
+    if (!location) {
+      return requireGeolocation
+        ? {
+            allowed: false,
+            message: 'Debes permitir el acceso a tu ubicación para registrar tu entrada',
+            location: null,
+            flagged: false
+          }
+        : { allowed: true, location: null, flagged: false };
+    }
+
+    const evaluation = evaluateGeofences(location, geofenceSettings.geofences);
+    const result = withGeofenceResult(location, evaluation);
+
+    if (!requireGeolocation || evaluation.withinGeofence) {
+      return { allowed: true, location: result, flagged: false };
+    }
+
+    if (geofenceSettings.enforcement === 'flag') {
+      return { allowed: true, location: result, flagged: true };
+    }
+
+    return {
+      allowed: false,
+      message: evaluation.geofence
+        ? `Estás fuera de la zona permitida (a ${evaluation.distanceMeters} m de ${evaluation.geofence.name})`
+        : 'Estás fuera de la zona permitida',
+      location: result,
+      flagged: false
+    };
+  }
+
+  /**
+   * Obtiene la asistencia del día actual
+   */
+  async getTodayAttendance(employeeId: string): Promise<Record<string, unknown> | null> {
+    try {
+      // Fecha laboral según la zona horaria de la organización
+      const timezone = await this.systemConfig.getEmployeeTimezone(employeeId);
+      const today = getDateInTimezone(new Date(), timezone);
+
+      return await this.findCurrentAttendance(employeeId, today);
     } catch (error) {
       console.error('Error obteniendo asistencia del día:', error);
       return null;
@@ -218,9 +601,7 @@ export class AttendanceService {
    */
   async getAttendanceHistory(employeeId: string, limit: number = 10): Promise<Record<string, unknown>[]> {
     try {
-      const supabase = createSupabaseClient();
-
-      const { data, error } = await supabase
+      const { data, error } = await this.supabase
         .from('attendances')
         .select('*')
         .eq('employee_id', employeeId)
@@ -240,12 +621,40 @@ export class AttendanceService {
 }
 
 /**
- * Función utilitaria para obtener fecha/hora local consistente
- * Soluciona el problema de zona horaria UTC vs local
+ * Devuelve el descanso en curso (sin hora de fin), si existe
+ */
+export function getActiveBreak(breaks: BreakRecord[] = []): BreakRecord | null {
+  return breaks.find(item => !item.end_time) || null;
+}
+
+/**
+ * Cierra el descanso en curso con la hora indicada
+ */
+export function closeActiveBreak(breaks: BreakRecord[], endTime: string): BreakRecord[] {
+  return breaks.map(item => item.end_time ? item : { ...item, end_time: endTime });
+}
+
+/**
+ * Suma en minutos la duración de los descansos
+ * Los descansos abiertos se cuentan hasta el momento indicado
+ */
+export function calculateBreakMinutes(breaks: BreakRecord[] = [], until: Date = new Date()): number {
+  const totalMs = breaks.reduce((sum, item) => {
+    const start = new Date(item.start_time).getTime();
+    const end = item.end_time ? new Date(item.end_time).getTime() : until.getTime();
+    return sum + Math.max(0, end - start);
+  }, 0);
+
+  return Math.round(totalMs / 60000);
+}
+
+/**
+ * Segundos transcurridos de un descanso (hasta su fin o hasta ahora)
  */
-export function getLocalDateTime(): Date {
-  const now = new Date();
-  return new Date(now.getTime() - now.getTimezoneOffset() * 60000);
+export function getBreakElapsedSeconds(item: BreakRecord, now: Date = new Date()): number {
+  const start = new Date(item.start_time).getTime();
+  const end = item.end_time ? new Date(item.end_time).getTime() : now.getTime();
+  return Math.max(0, Math.floor((end - start) / 1000));
 }
 
 // Instancia singleton del servicio
@@ -24,6 +24,7 @@ import { createSupabaseClient } from '@/lib/supabase/client';
 import { Employee, AuthResponse, LoginCredentials } from '@/types/database';
 import { EmployeeRepository } from '@/repositories/employee.repository';
 import { Logger } from '@/utils/logger';
+import { ROLE_DASHBOARDS } from '@/lib/constants';
 
 /**
  * Interface que define el contrato del servicio de autenticación
@@ -268,17 +269,7 @@ export class AuthService implements IAuthService {
    * Implementa el patrón Strategy para routing
    */
   private getRedirectUrl(role: string): string {
-    const routeMap: Record<string, string> = {
-      'super_admin': '/dashboard/admin',
-      'admin': '/dashboard/admin',
-      'employee': '/dashboard/employee',
-      // Rutas futuras (comentadas por ahora):
-      // 'supervisor': '/dashboard/supervisor',
-      // 'manager': '/dashboard/manager',
-      // 'hr': '/dashboard/hr',
-    };
-
-    return routeMap[role] || '/dashboard/employee';
+    return ROLE_DASHBOARDS[role] || '/dashboard/employee';
   }
 
   /**
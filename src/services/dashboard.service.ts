@@ -8,6 +8,11 @@
  */
 
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { PRESENT_STATUSES, PUNCTUAL_STATUSES } from '@/lib/constants';
+import { getTodayInTimezone } from '@/lib/timezone';
+import { countEmployeesWithoutHoliday, isHoliday } from '@/lib/holidays';
+import { systemConfigService } from './system-config.service';
+import { holidayService } from './holiday.service';
 
 export interface DashboardStats {
   totalEmployees: number;
@@ -57,14 +62,21 @@ export class DashboardService {
    */
   async getDashboardStats(organizationId: string): Promise<DashboardStats> {
     try {
-      const today = new Date().toISOString().split('T')[0];
-
-      // Total de empleados activos
-      const { count: totalEmployees } = await this.supabase
-        .from('employees')
-        .select('*', { count: 'exact', head: true })
-        .eq('organization_id', organizationId)
-        .eq('is_active', true);
+      const today = getTodayInTimezone(await systemConfigService.getOrganizationTimezone(organizationId));
+
+      // Empleados activos y feriados de hoy
+      const [{ data: employees }, holidays] = await Promise.all([
+        this.supabase
+          .from('employees')
+          .select('id, department_id')
+          .eq('organization_id', organizationId)
+          .eq('is_active', true),
+        holidayService.getHolidays(organizationId, { startDate: today, endDate: today })
+      ]);
+
+      const totalEmployees = employees?.length || 0;
+      // Los empleados con feriado hoy no cuentan como esperados
+      const expectedToday = countEmployeesWithoutHoliday(employees || [], holidays, today);
 
       // Total de departamentos
       const { count: totalDepartments } = await this.supabase
@@ -82,21 +94,21 @@ export class DashboardService {
 
       // Calcular estadísticas
       const presentToday = todayAttendances?.filter((a: AttendanceResponse) => 
-        ['present', 'late', 'early_leave', 'remote'].includes(a.status)
+        PRESENT_STATUSES.includes(a.status)
       ).length || 0;
 
       const lateToday = todayAttendances?.filter((a: AttendanceResponse) => a.status === 'late').length || 0;
-      const absentToday = (totalEmployees || 0) - presentToday;
+      const absentToday = Math.max(0, expectedToday - presentToday);
 
-      const attendanceRate = totalEmployees ? 
-        Math.round((presentToday / totalEmployees) * 100) : 0;
+      const attendanceRate = expectedToday ? 
+        Math.round((presentToday / expectedToday) * 100) : 0;
 
       const overtimeHours = todayAttendances?.reduce((sum: number, a: AttendanceResponse) => 
         sum + (a.overtime_hours || 0), 0
       ) || 0;
 
       return {
-        totalEmployees: totalEmployees || 0,
+        totalEmployees,
         presentToday,
         lateToday,
         absentToday,
@@ -115,7 +127,7 @@ export class DashboardService {
    */
   async getTodayAttendance(organizationId: string): Promise<TodayAttendance> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = getTodayInTimezone(await systemConfigService.getOrganizationTimezone(organizationId));
 
       const { data: attendances } = await this.supabase
         .from('attendances')
@@ -143,12 +155,12 @@ export class DashboardService {
    */
   async getMonthlyTrends(organizationId: string): Promise<MonthlyTrends> {
     try {
-      const now = new Date();
-      const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const lastDayOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+      const today = getTodayInTimezone(await systemConfigService.getOrganizationTimezone(organizationId));
+      const [year, month] = today.split('-').map(Number);
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
 
-      const startDate = firstDayOfMonth.toISOString().split('T')[0];
-      const endDate = lastDayOfMonth.toISOString().split('T')[0];
+      const startDate = `${today.slice(0, 7)}-01`;
+      const endDate = `${today.slice(0, 7)}-${String(lastDay).padStart(2, '0')}`;
 
       const { data: monthlyAttendances } = await this.supabase
         .from('attendances')
@@ -168,7 +180,7 @@ export class DashboardService {
 
       const totalRecords = monthlyAttendances.length;
       const punctualRecords = monthlyAttendances.filter((a: AttendanceResponse) => 
-        a.status === 'present'
+        PUNCTUAL_STATUSES.includes(a.status)
       ).length;
       const absentRecords = monthlyAttendances.filter((a: AttendanceResponse) => 
         a.status === 'absent'
@@ -195,17 +207,21 @@ export class DashboardService {
 
   /**
    * Obtener lista de empleados ausentes hoy
+   * No incluye a quienes tienen feriado según su departamento
    */
   async getAbsentEmployeesToday(organizationId: string) {
     try {
-      const today = new Date().toISOString().split('T')[0];
-
-      // Obtener todos los empleados activos
-      const { data: allEmployees } = await this.supabase
-        .from('employees')
-        .select('id, first_name, last_name, email, department_id')
-        .eq('organization_id', organizationId)
-        .eq('is_active', true);
+      const today = getTodayInTimezone(await systemConfigService.getOrganizationTimezone(organizationId));
+
+      // Obtener todos los empleados activos y los feriados de hoy
+      const [{ data: allEmployees }, holidays] = await Promise.all([
+        this.supabase
+          .from('employees')
+          .select('id, first_name, last_name, email, department_id')
+          .eq('organization_id', organizationId)
+          .eq('is_active', true),
+        holidayService.getHolidays(organizationId, { startDate: today, endDate: today })
+      ]);
 
       // Obtener empleados que registraron asistencia hoy
       const { data: presentEmployees } = await this.supabase
@@ -213,13 +229,13 @@ export class DashboardService {
         .select('employee_id')
         .eq('organization_id', organizationId)
         .eq('attendance_date', today)
-        .in('status', ['present', 'late', 'early_leave', 'remote']);
+        .in('status', PRESENT_STATUSES);
 
       const presentEmployeeIds = presentEmployees?.map((a: { employee_id: string }) => a.employee_id) || [];
 
       // Filtrar empleados ausentes
       const absentEmployees = allEmployees?.filter((emp: Employee) => 
-        !presentEmployeeIds.includes(emp.id)
+        !presentEmployeeIds.includes(emp.id) && !isHoliday(holidays, today, emp.department_id)
       ) || [];
 
       return absentEmployees;
@@ -4,11 +4,18 @@
  * =============================================
  * 
  * SIN service_role, SIN complejidad, SOLO lo esencial
+ * 
+ * Webhooks: crear, actualizar y desactivar emiten employee_created,
+ * employee_updated y employee_deactivated. employee_created lo emite
+ * /api/employee/create; los demás se piden al servidor (webhookService.notify)
  */
 
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { METRICS } from '@/lib/constants';
 import { EmployeeFormData } from '@/types/employee.types';
 import { Employee } from '@/hooks/useEmployees';
+import { webhookService } from './webhook.service';
+
 
 export interface EmployeeService {
   createEmployee(data: EmployeeFormData & { organizationId: string }): Promise<boolean>;
@@ -36,6 +43,7 @@ export class EmployeeServiceImpl implements EmployeeService {
           email,
           full_name,
           phone,
+          manager_id,
           hire_date,
           role,
           is_active,
@@ -187,6 +195,7 @@ export class EmployeeServiceImpl implements EmployeeService {
     if (data.employeeCode) updateData.employee_code = data.employeeCode;
     if (data.departmentId) updateData.department_id = data.departmentId;
     if (data.positionId) updateData.position_id = data.positionId;
+    if (data.managerId) updateData.manager_id = data.managerId;
     if (data.phone) updateData.phone = data.phone.trim();
 
     if (Object.keys(updateData).length > 0) {
@@ -361,6 +370,7 @@ export class EmployeeServiceImpl implements EmployeeService {
       if (data.phone !== undefined) updateData.phone = data.phone?.trim() || null;
       if (data.departmentId !== undefined) updateData.department_id = data.departmentId || null;
       if (data.positionId !== undefined) updateData.position_id = data.positionId || null;
+      if (data.managerId !== undefined) updateData.manager_id = data.managerId || null;
       if (data.hireDate) updateData.hire_date = data.hireDate;
       if (data.role) updateData.role = data.role;
 
@@ -381,6 +391,7 @@ export class EmployeeServiceImpl implements EmployeeService {
       }
 
       console.log('✅ Empleado actualizado exitosamente');
+      await this.emitEmployeeEvent(METRICS.EVENTS.EMPLOYEE_UPDATED, id);
       return true;
     } catch (error) {
       console.error('💥 Error en updateEmployee:', error);
@@ -440,6 +451,7 @@ export class EmployeeServiceImpl implements EmployeeService {
       }
 
       console.log('✅ Empleado activado exitosamente');
+      await this.emitEmployeeEvent(METRICS.EVENTS.EMPLOYEE_UPDATED, id);
       return true;
     } catch (error) {
       console.error('💥 Error en activateEmployee:', error);
@@ -465,12 +477,28 @@ export class EmployeeServiceImpl implements EmployeeService {
       }
 
       console.log('✅ Empleado desactivado exitosamente');
+      await this.emitEmployeeEvent(METRICS.EVENTS.EMPLOYEE_DEACTIVATED, id);
       return true;
     } catch (error) {
       console.error('💥 Error en deactivateEmployee:', error);
       return false;
     }
   }
+
+  /**
+   * Pedir al servidor el evento de webhook del empleado
+   * El servidor lo emite con los datos actuales del empleado
+   * 
+   * @private
+   * @param event - Evento a emitir
+   * @param employeeId - ID del empleado
+   */
+  private async emitEmployeeEvent(
+    event: typeof METRICS.EVENTS.EMPLOYEE_UPDATED | typeof METRICS.EVENTS.EMPLOYEE_DEACTIVATED,
+    employeeId: string
+  ): Promise<void> {
+    await webhookService.notify({ event, employee_id: employeeId });
+  }
 }
 
 // Instancia única del servicio
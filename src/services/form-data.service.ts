@@ -118,12 +118,12 @@ export class FormDataServiceImpl implements FormDataService {
   getRoles(): FormDataOption[] {
     return [
       { value: 'employee', label: 'Empleado' },
+      { value: 'manager', label: 'Gerente' },
+      { value: 'hr', label: 'Recursos Humanos' },
       { value: 'admin', label: 'Administrador' },
       { value: 'super_admin', label: 'Super Administrador' }
       // Roles futuros (comentados por ahora):
-      // { value: 'supervisor', label: 'Supervisor' },
-      // { value: 'manager', label: 'Gerente' },
-      // { value: 'hr', label: 'Recursos Humanos' }
+      // { value: 'supervisor', label: 'Supervisor' }
     ];
   }
 
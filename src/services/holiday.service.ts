@@ -0,0 +1,186 @@
+/**
+ * =============================================
+ * SERVICIO DE CALENDARIO DE FERIADOS
+ * =============================================
+ *
+ * Descripción: Gestión de feriados de la organización (tabla holidays)
+ * Un feriado puede ser único o recurrente (mismo día cada año) y
+ * aplicar a toda la organización o solo a algunos departamentos
+ *
+ * Los feriados se consideran días no laborables en calendario,
+ * ausencias, permisos y reportes (ver lib/holidays)
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import type { HolidayImportRow } from '@/lib/holidays';
+import type { Holiday } from '@/types/database';
+
+/**
+ * Interface para respuestas de operaciones de feriados
+ */
+export interface HolidayResponse {
+  success: boolean;
+  message: string;
+  data?: Holiday;
+}
+
+/**
+ * Datos de un nuevo feriado
+ */
+export interface HolidayFormData {
+  name: string;
+  date: string;
+  is_recurring: boolean;
+  department_ids?: string[] | null;
+}
+
+/**
+ * Resultado de una importación CSV
+ */
+export interface HolidayImportResult {
+  success: boolean;
+  message: string;
+  imported: number;
+  errors: string[];
+}
+
+/**
+ * Servicio para gestión del calendario de feriados
+ * En servidor se construye con el cliente de la petición o del proceso
+ */
+export class HolidayService {
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {}
+
+  /**
+   * Obtener los feriados de la organización
+   * Con rango de fechas se incluyen siempre los recurrentes
+   */
+  async getHolidays(organizationId: string, range?: { startDate: string; endDate: string }): Promise<Holiday[]> {
+    try {
+      let query = this.supabase
+        .from('holidays')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('date', { ascending: true });
+
+      if (range) {
+        query = query.or(
+          `is_recurring.eq.true,and(date.gte.${range.startDate},date.lte.${range.endDate})`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Crear un feriado
+   */
+  async createHoliday(organizationId: string, data: HolidayFormData): Promise<HolidayResponse> {
+    try {
+      if (!data.name.trim() || !data.date) {
+        return { success: false, message: 'El nombre y la fecha del feriado son obligatorios' };
+      }
+
+      const { data: holiday, error } = await this.supabase
+        .from('holidays')
+        .insert({
+          organization_id: organizationId,
+          name: data.name.trim(),
+          date: data.date,
+          is_recurring: data.is_recurring,
+          department_ids: data.department_ids?.length ? data.department_ids : null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, message: 'Feriado agregado', data: holiday };
+    } catch (error) {
+      console.error('Error creating holiday:', error);
+      return { success: false, message: 'Error al guardar el feriado' };
+    }
+  }
+
+  /**
+   * Eliminar un feriado
+   */
+  async deleteHoliday(holidayId: string): Promise<HolidayResponse> {
+    try {
+      const { error } = await this.supabase
+        .from('holidays')
+        .delete()
+        .eq('id', holidayId);
+
+      if (error) throw error;
+
+      return { success: true, message: 'Feriado eliminado' };
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      return { success: false, message: 'Error al eliminar el feriado' };
+    }
+  }
+
+  /**
+   * Importar feriados leídos de un CSV (ver parseHolidayCsv)
+   * Los códigos de departamento se resuelven contra los departamentos
+   * de la organización; las filas con códigos desconocidos se omiten
+   */
+  async importHolidays(
+    organizationId: string,
+    rows: HolidayImportRow[],
+    departments: { id: string; code: string }[]
+  ): Promise<HolidayImportResult> {
+    const errors: string[] = [];
+    const departmentIdsByCode = new Map(departments.map(department => [department.code.toLowerCase(), department.id]));
+
+    const inserts = rows.flatMap(row => {
+      const unknownCodes = row.department_codes.filter(code => !departmentIdsByCode.has(code.toLowerCase()));
+      if (unknownCodes.length > 0) {
+        errors.push(`${row.date} ${row.name}: departamentos desconocidos (${unknownCodes.join(', ')})`);
+        return [];
+      }
+
+      const departmentIds = row.department_codes.map(code => departmentIdsByCode.get(code.toLowerCase()) as string);
+      return [{
+        organization_id: organizationId,
+        name: row.name,
+        date: row.date,
+        is_recurring: row.is_recurring,
+        department_ids: departmentIds.length > 0 ? departmentIds : null
+      }];
+    });
+
+    if (inserts.length === 0) {
+      return { success: false, message: 'No hay feriados válidos para importar', imported: 0, errors };
+    }
+
+    try {
+      const { error } = await this.supabase
+        .from('holidays')
+        .insert(inserts);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `${inserts.length} feriado(s) importado(s)`,
+        imported: inserts.length,
+        errors
+      };
+    } catch (error) {
+      console.error('Error importing holidays:', error);
+      return { success: false, message: 'Error al importar feriados', imported: 0, errors };
+    }
+  }
+}
+
+// Instancia singleton
+export const holidayService = new HolidayService();
@@ -7,12 +7,55 @@
  */
 
 // Exportar tipos principales
-export type { AttendanceResponse } from './attendance.service';
+export type { AttendanceResponse, AttendanceSource } from './attendance.service';
 export type { Department, Position, WorkPolicy, SystemSetting } from './system-config.service';
+export type { EffectiveSchedule, CheckOutClassification, ShiftTemplateFormData } from './work-schedule.service';
+export type { LeaveResponse, LeaveRequestFormData } from './leave.service';
+export type { CorrectionResponse, CorrectionRequestFormData } from './attendance-correction.service';
+export type { AbsenceJobOptions, AbsenceJobResult } from './absence.service';
+export type { ShiftAutoCloseResult } from './shift-auto-close.service';
+export type { HolidayResponse, HolidayFormData, HolidayImportResult } from './holiday.service';
+export type { TeamMember } from './team.service';
+export type { ApiTokenSummary, ApiTokenResponse, ApiTokenFormData } from './api-token.service';
+export type { WebhookEndpointSummary, WebhookDeliverySummary, WebhookResponse, WebhookEndpointFormData } from './webhook.service';
+export type {
+  KioskDeviceSummary,
+  KioskResponse,
+  KioskDeviceInfo,
+  KioskPinStatus,
+  KioskCredentials,
+  KioskPunchAction,
+  KioskPunchResponse
+} from './kiosk.service';
+export type { AttendanceSyncResult, OfflineSyncResponse } from './offline-attendance.service';
+export type { ReportDataResult } from './report-data.service';
+export type {
+  ReportScheduleSummary,
+  ReportRunSummary,
+  ReportScheduleFormData,
+  ReportScheduleResponse
+} from './report-schedule.service';
+export type { ReportFilterPresetSummary, ReportFilterPresetResponse } from './report-preset.service';
 
 // Exportar servicios
 export { AttendanceService } from './attendance.service';
 export { SystemConfigService, systemConfigService } from './system-config.service';
+export { WorkScheduleService, workScheduleService } from './work-schedule.service';
+export { LeaveService, leaveService } from './leave.service';
+export { AttendanceCorrectionService, attendanceCorrectionService } from './attendance-correction.service';
+export { AbsenceService } from './absence.service';
+export { ShiftAutoCloseService } from './shift-auto-close.service';
+export { NotificationService, notificationService } from './notification.service';
+export { HolidayService, holidayService } from './holiday.service';
+export { TeamService, teamService } from './team.service';
+export { ApiTokenService, apiTokenService } from './api-token.service';
+export { WebhookService, webhookService } from './webhook.service';
+export { KioskService, kioskService } from './kiosk.service';
+export { OfflineAttendanceService, offlineAttendanceService } from './offline-attendance.service';
+export { AttendancePunchService, attendancePunchService } from './attendance-punch.service';
+export { ReportDataService, reportDataService } from './report-data.service';
+export { ReportScheduleService, reportScheduleService } from './report-schedule.service';
+export { ReportPresetService, reportPresetService } from './report-preset.service';
 
 // Instancia del servicio de asistencia
 import { AttendanceService } from './attendance.service';
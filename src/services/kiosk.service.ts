@@ -0,0 +1,325 @@
+/**
+ * =============================================
+ * SERVICIO DE MODO QUIOSCO
+ * =============================================
+ *
+ * Descripción: Terminales compartidas de marcaje a la entrada
+ * - Administración: autorizar y revocar terminales (/api/v1/kiosks)
+ * - Empleado: PIN y QR rotativo con los que se identifica (/api/v1/auth/me/*)
+ * - Terminal: sus datos, el marcaje en nombre del empleado y el QR de la
+ *   oficina (/api/kiosk/*), autenticados con el token de la terminal (X-Kiosk-Token)
+ *
+ * El token de la terminal se genera al autorizarla y se muestra una sola vez
+ * como enlace de activación; la terminal lo guarda en localStorage
+ */
+
+import { ROUTES, STORAGE_KEYS } from '@/lib/constants';
+import type { ApiResponse, KioskDevice } from '@/types/database';
+
+const KIOSK_TOKEN_HEADER = 'X-Kiosk-Token';
+
+/**
+ * Terminal tal como la expone la API (sin hash)
+ */
+export type KioskDeviceSummary = Pick<KioskDevice, 'id' | 'name' | 'token_prefix' | 'last_seen_at' | 'last_ip_address' | 'revoked_at' | 'created_at'> & {
+  creator?: { id: string; full_name: string } | null;
+};
+
+/**
+ * Interface para respuestas de operaciones de terminales
+ */
+export interface KioskResponse {
+  success: boolean;
+  message: string;
+  data?: KioskDeviceSummary;
+  activationUrl?: string;
+}
+
+/**
+ * Datos de la terminal vistos desde ella misma
+ */
+export interface KioskDeviceInfo {
+  id: string;
+  name: string;
+  organization_name: string | null;
+  timezone: string;
+}
+
+/**
+ * Estado del PIN de quiosco del usuario
+ */
+export interface KioskPinStatus {
+  employee_code: string;
+  has_pin: boolean;
+  locked_until: string | null;
+}
+
+/**
+ * Identificación del empleado en la terminal
+ */
+export type KioskCredentials = { employee_code: string; pin: string } | { qr: string };
+
+export type KioskPunchAction = 'check_in' | 'check_out';
+
+/**
+ * Resultado de un marcaje en la terminal
+ */
+export interface KioskPunchResponse {
+  success: boolean;
+  message: string;
+  employeeName?: string;
+}
+
+/**
+ * Servicio para terminales de quiosco
+ */
+export class KioskService {
+  // =============================================
+  // ADMINISTRACIÓN DE TERMINALES
+  // =============================================
+
+  /**
+   * Obtener las terminales de la organización del usuario
+   */
+  async getKiosks(): Promise<KioskDeviceSummary[]> {
+    try {
+      const response = await fetch(ROUTES.API.KIOSKS);
+      const result: ApiResponse<KioskDeviceSummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching kiosks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Autorizar una terminal; la respuesta incluye su enlace de activación
+   */
+  async createKiosk(name: string): Promise<KioskResponse> {
+    try {
+      const response = await fetch(ROUTES.API.KIOSKS, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+      const result: ApiResponse<KioskDeviceSummary & { token: string }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || 'Error al autorizar la terminal' };
+      }
+
+      const { token, ...kiosk } = result.data;
+      return {
+        success: true,
+        message: 'Terminal autorizada',
+        data: kiosk,
+        activationUrl: this.getActivationUrl(token)
+      };
+    } catch (error) {
+      console.error('Error creating kiosk:', error);
+      return { success: false, message: 'Error al autorizar la terminal' };
+    }
+  }
+
+  /**
+   * Revocar una terminal: deja de poder marcar de inmediato
+   */
+  async revokeKiosk(id: string): Promise<KioskResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.KIOSKS}/${id}`, { method: 'DELETE' });
+      const result: ApiResponse<KioskDeviceSummary> = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al revocar la terminal' };
+      }
+
+      return { success: true, message: 'Terminal revocada', data: result.data };
+    } catch (error) {
+      console.error('Error revoking kiosk:', error);
+      return { success: false, message: 'Error al revocar la terminal' };
+    }
+  }
+
+  /**
+   * El token va en el fragmento (#) para que no llegue al servidor ni a sus registros
+   */
+  private getActivationUrl(token: string): string {
+    return `${window.location.origin}${ROUTES.KIOSK}#token=${encodeURIComponent(token)}`;
+  }
+
+  // =============================================
+  // CREDENCIALES DEL EMPLEADO
+  // =============================================
+
+  /**
+   * Estado del PIN de quiosco del usuario
+   */
+  async getPinStatus(): Promise<KioskPinStatus | null> {
+    try {
+      const response = await fetch(ROUTES.API.KIOSK_PIN);
+      const result: ApiResponse<KioskPinStatus> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || null;
+    } catch (error) {
+      console.error('Error fetching kiosk PIN status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Establecer o cambiar el PIN de quiosco del usuario
+   */
+  async setPin(pin: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await fetch(ROUTES.API.KIOSK_PIN, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ pin }),
+      });
+      const result: ApiResponse = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al guardar el PIN' };
+      }
+
+      return { success: true, message: 'PIN guardado' };
+    } catch (error) {
+      console.error('Error setting kiosk PIN:', error);
+      return { success: false, message: 'Error al guardar el PIN' };
+    }
+  }
+
+  /**
+   * Eliminar el PIN de quiosco del usuario
+   */
+  async removePin(): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await fetch(ROUTES.API.KIOSK_PIN, { method: 'DELETE' });
+      const result: ApiResponse = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al eliminar el PIN' };
+      }
+
+      return { success: true, message: 'PIN eliminado' };
+    } catch (error) {
+      console.error('Error removing kiosk PIN:', error);
+      return { success: false, message: 'Error al eliminar el PIN' };
+    }
+  }
+
+  /**
+   * Código actual del QR rotativo del usuario
+   */
+  async getQrCode(): Promise<{ code: string; expires_at: string } | null> {
+    try {
+      const response = await fetch(ROUTES.API.KIOSK_QR);
+      const result: ApiResponse<{ code: string; expires_at: string }> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || null;
+    } catch (error) {
+      console.error('Error fetching kiosk QR code:', error);
+      return null;
+    }
+  }
+
+  // =============================================
+  // TERMINAL
+  // =============================================
+
+  getStoredToken(): string | null {
+    return localStorage.getItem(STORAGE_KEYS.KIOSK_TOKEN);
+  }
+
+  storeToken(token: string): void {
+    localStorage.setItem(STORAGE_KEYS.KIOSK_TOKEN, token);
+  }
+
+  /**
+   * Guarda el token del enlace de activación (#token=...) y lo quita de la URL
+   */
+  consumeActivationToken(): void {
+    const token = new URLSearchParams(window.location.hash.slice(1)).get('token');
+    if (!token) return;
+
+    this.storeToken(token);
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+
+  clearStoredToken(): void {
+    localStorage.removeItem(STORAGE_KEYS.KIOSK_TOKEN);
+  }
+
+  /**
+   * Datos de esta terminal; null si el token no es válido o fue revocado
+   */
+  async getDevice(token: string): Promise<KioskDeviceInfo | null> {
+    try {
+      const response = await fetch(ROUTES.KIOSK_API.DEVICE, {
+        headers: { [KIOSK_TOKEN_HEADER]: token },
+      });
+      const result: ApiResponse<KioskDeviceInfo> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || null;
+    } catch (error) {
+      console.error('Error fetching kiosk device:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Código actual del QR de la oficina que muestra esta terminal
+   */
+  async getOfficeQrCode(token: string): Promise<{ code: string; expires_at: string } | null> {
+    try {
+      const response = await fetch(ROUTES.KIOSK_API.OFFICE_QR, {
+        headers: { [KIOSK_TOKEN_HEADER]: token },
+      });
+      const result: ApiResponse<{ code: string; expires_at: string }> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || null;
+    } catch (error) {
+      console.error('Error fetching office QR code:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Registrar la entrada o la salida de un empleado desde la terminal
+   */
+  async punch(token: string, action: KioskPunchAction, credentials: KioskCredentials): Promise<KioskPunchResponse> {
+    try {
+      const response = await fetch(ROUTES.KIOSK_API.PUNCH, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [KIOSK_TOKEN_HEADER]: token,
+        },
+        body: JSON.stringify({ action, ...credentials }),
+      });
+      const result: ApiResponse<{ message: string; employee: { full_name: string } }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || 'Error al registrar el marcaje' };
+      }
+
+      return { success: true, message: result.data.message, employeeName: result.data.employee.full_name };
+    } catch (error) {
+      console.error('Error punching from kiosk:', error);
+      return { success: false, message: 'Error de conexión con el servidor' };
+    }
+  }
+}
+
+// Instancia singleton
+export const kioskService = new KioskService();
@@ -0,0 +1,689 @@
+/**
+ * =============================================
+ * SERVICIO DE PERMISOS Y LICENCIAS
+ * =============================================
+ *
+ * Descripción: Solicitud, aprobación y saldos de vacaciones, enfermedad
+ * y días personales
+ *
+ * Flujo:
+ * 1. El empleado solicita un rango de fechas (queda 'pending', o 'approved'
+ *    si la política tiene aprobación automática)
+ * 2. Un usuario con PERMISSIONS.ATTENDANCE_APPROVE aprueba o rechaza con motivo
+ * 3. Al aprobar, cada día laborable del rango se registra en attendances
+ *    con estado vacation/sick_leave para calendario y reportes
+ *
+ * La aprobación escribe en attendances: solo se ejecuta en el servidor
+ * (/api/v1/leave-requests/:id/approve, cliente de servicio). El navegador
+ * la pide con submitApproval(), también para la aprobación automática
+ *
+ * Los días laborables se resuelven igual que en AbsenceService: turno
+ * asignado, si no work_schedule del empleado y si no la política activa
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { LEAVE_TYPE_CONFIG, PERMISSIONS, ROUTES } from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { addDaysToDateKey, getTodayInTimezone } from '@/lib/timezone';
+import { isHoliday } from '@/lib/holidays';
+import { SystemConfigService } from './system-config.service';
+import { HolidayService } from './holiday.service';
+import { TeamService } from './team.service';
+import { isScheduledWorkingDay, WorkScheduleService } from './work-schedule.service';
+import type {
+  ApiResponse,
+  Attendance,
+  EmployeeShiftAssignment,
+  Holiday,
+  LeaveBalance,
+  LeavePolicy,
+  LeaveRequest,
+  RequestStatus,
+  LeaveType
+} from '@/types/database';
+
+/**
+ * Interface para respuestas de operaciones de permisos
+ */
+export interface LeaveResponse {
+  success: boolean;
+  message: string;
+  data?: LeaveRequest;
+}
+
+/**
+ * Datos de una nueva solicitud de permiso
+ */
+export interface LeaveRequestFormData {
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  reason?: string;
+}
+
+const LEAVE_TYPES: LeaveType[] = ['vacation', 'sick_leave', 'personal'];
+
+const ALLOWANCE_KEYS: Record<LeaveType, keyof LeavePolicy> = {
+  vacation: 'annual_vacation_days',
+  sick_leave: 'annual_sick_days',
+  personal: 'annual_personal_days'
+};
+
+const EMPLOYEE_SELECT = 'employee:employees!employee_id(id, full_name, employee_code)';
+
+/**
+ * Calendario laboral del empleado con el que se cuentan los días de permiso
+ */
+export interface LeaveCalendar {
+  /** Días por semana sin turno asignado (work_schedule o política) */
+  daysPerWeek: number;
+  shiftAssignments: Pick<EmployeeShiftAssignment, 'effective_from' | 'shift_template'>[];
+  holidays: Holiday[];
+  departmentId: string | null;
+}
+
+const DEFAULT_LEAVE_CALENDAR: LeaveCalendar = {
+  daysPerWeek: 5,
+  shiftAssignments: [],
+  holidays: [],
+  departmentId: null
+};
+
+/**
+ * Días laborables (YYYY-MM-DD) comprendidos en un rango inclusivo
+ * Los feriados del departamento del empleado no cuentan como laborables
+ */
+export function getLeaveDates(
+  startDate: string,
+  endDate: string,
+  calendar: Partial<LeaveCalendar> = {}
+): string[] {
+  const { daysPerWeek, shiftAssignments, holidays, departmentId } = { ...DEFAULT_LEAVE_CALENDAR, ...calendar };
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDaysToDateKey(date, 1)) {
+    if (isScheduledWorkingDay(shiftAssignments, daysPerWeek, date) && !isHoliday(holidays, date, departmentId)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Cantidad de días laborables que consume un rango de permiso
+ */
+export function countLeaveDays(
+  startDate: string,
+  endDate: string,
+  calendar: Partial<LeaveCalendar> = {}
+): number {
+  return getLeaveDates(startDate, endDate, calendar).length;
+}
+
+/**
+ * Servicio para gestión de permisos y licencias
+ */
+export class LeaveService {
+  private systemConfig: SystemConfigService;
+  private holidays: HolidayService;
+  private team: TeamService;
+  private workSchedule: WorkScheduleService;
+
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {
+    this.systemConfig = new SystemConfigService(supabase);
+    this.holidays = new HolidayService(supabase);
+    this.team = new TeamService(supabase);
+    this.workSchedule = new WorkScheduleService(supabase);
+  }
+
+  /**
+   * Calendario laboral del empleado en el rango: turnos asignados,
+   * días por semana de su horario (o de la política) y feriados de su departamento
+   */
+  private async getLeaveCalendar(
+    employeeId: string,
+    organizationId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<LeaveCalendar> {
+    const [holidays, policy, shiftAssignments, { data, error }] = await Promise.all([
+      this.holidays.getHolidays(organizationId, { startDate, endDate }),
+      this.systemConfig.getActiveWorkPolicy(organizationId),
+      this.workSchedule.getEmployeeShiftAssignments(employeeId),
+      this.supabase
+        .from('employees')
+        .select('department_id, work_schedule')
+        .eq('id', employeeId)
+        .single()
+    ]);
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return {
+      daysPerWeek: data?.work_schedule?.days_per_week || policy?.working_days || 5,
+      shiftAssignments,
+      holidays,
+      departmentId: data?.department_id || null
+    };
+  }
+
+  /**
+   * Obtener las solicitudes de un empleado (más recientes primero)
+   */
+  async getEmployeeLeaveRequests(employeeId: string): Promise<LeaveRequest[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching employee leave requests:', error);
+      throw new Error('Error al obtener solicitudes de permiso');
+    }
+  }
+
+  /**
+   * Obtener las solicitudes de la organización, opcionalmente por estado
+   * y limitadas a ciertos empleados (equipo de un manager)
+   */
+  async getLeaveRequests(organizationId: string, status?: RequestStatus, employeeIds?: string[]): Promise<LeaveRequest[]> {
+    try {
+      let query = this.supabase
+        .from('leave_requests')
+        .select(`*, ${EMPLOYEE_SELECT}`)
+        .eq('organization_id', organizationId);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      // Vista de manager: solo su equipo
+      if (employeeIds) {
+        query = query.in('employee_id', employeeIds);
+      }
+
+      const { data, error } = await query.order('start_date', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching leave requests:', error);
+      throw new Error('Error al obtener solicitudes de permiso');
+    }
+  }
+
+  /**
+   * Calcular los saldos anuales de un empleado por tipo de permiso
+   * Los días se imputan al año de la fecha de inicio de la solicitud
+   */
+  async getLeaveBalances(employeeId: string, organizationId: string, year?: number): Promise<LeaveBalance[]> {
+    try {
+      const [policy, timezone] = await Promise.all([
+        this.systemConfig.getLeavePolicy(organizationId),
+        this.systemConfig.getOrganizationTimezone(organizationId)
+      ]);
+      const targetYear = year || Number(getTodayInTimezone(timezone).slice(0, 4));
+
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .select('leave_type, days_requested, status')
+        .eq('employee_id', employeeId)
+        .in('status', ['pending', 'approved'])
+        .gte('start_date', `${targetYear}-01-01`)
+        .lte('start_date', `${targetYear}-12-31`);
+
+      if (error) throw error;
+
+      const rows = (data || []) as Pick<LeaveRequest, 'leave_type' | 'days_requested' | 'status'>[];
+
+      return LEAVE_TYPES.map(leaveType => {
+        const requests = rows.filter(request => request.leave_type === leaveType);
+        const sumDays = (status: RequestStatus) => requests
+          .filter(request => request.status === status)
+          .reduce((sum, request) => sum + (request.days_requested || 0), 0);
+
+        const allowance = Number(policy[ALLOWANCE_KEYS[leaveType]]) || 0;
+        const used = sumDays('approved');
+        const pending = sumDays('pending');
+
+        return {
+          leave_type: leaveType,
+          allowance,
+          used,
+          pending,
+          available: Math.max(0, allowance - used - pending)
+        };
+      });
+    } catch (error) {
+      console.error('Error calculating leave balances:', error);
+      throw new Error('Error al calcular saldos de permisos');
+    }
+  }
+
+  /**
+   * Registrar una solicitud de permiso
+   */
+  async requestLeave(
+    employeeId: string,
+    organizationId: string,
+    request: LeaveRequestFormData
+  ): Promise<LeaveResponse> {
+    try {
+      if (!request.start_date || !request.end_date || request.end_date < request.start_date) {
+        return { success: false, message: 'El rango de fechas no es válido' };
+      }
+
+      const [policy, timezone, calendar] = await Promise.all([
+        this.systemConfig.getLeavePolicy(organizationId),
+        this.systemConfig.getOrganizationTimezone(organizationId),
+        this.getLeaveCalendar(employeeId, organizationId, request.start_date, request.end_date)
+      ]);
+
+      // La enfermedad no requiere aviso previo
+      if (policy.require_advance_notice && request.leave_type !== 'sick_leave') {
+        const earliestDate = addDaysToDateKey(getTodayInTimezone(timezone), policy.advance_notice_days);
+        if (request.start_date < earliestDate) {
+          return {
+            success: false,
+            message: `Debes solicitar este permiso con al menos ${policy.advance_notice_days} días de anticipación`
+          };
+        }
+      }
+
+      const daysRequested = countLeaveDays(request.start_date, request.end_date, calendar);
+      if (daysRequested === 0) {
+        return { success: false, message: 'El rango seleccionado no incluye días laborables' };
+      }
+
+      // No permitir solapamiento con otras solicitudes vigentes
+      const { data: overlapping, error: overlapError } = await this.supabase
+        .from('leave_requests')
+        .select('id')
+        .eq('employee_id', employeeId)
+        .in('status', ['pending', 'approved'])
+        .lte('start_date', request.end_date)
+        .gte('end_date', request.start_date)
+        .limit(1);
+
+      if (overlapError) throw overlapError;
+      if (overlapping && overlapping.length > 0) {
+        return { success: false, message: 'Ya tienes una solicitud para esas fechas' };
+      }
+
+      // Validar saldo disponible del año
+      const balances = await this.getLeaveBalances(
+        employeeId,
+        organizationId,
+        Number(request.start_date.slice(0, 4))
+      );
+      const balance = balances.find(item => item.leave_type === request.leave_type);
+      if (balance && daysRequested > balance.available) {
+        return {
+          success: false,
+          message: `Saldo insuficiente: solicitas ${daysRequested} días y tienes ${balance.available} disponibles`
+        };
+      }
+
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .insert({
+          organization_id: organizationId,
+          employee_id: employeeId,
+          leave_type: request.leave_type,
+          start_date: request.start_date,
+          end_date: request.end_date,
+          days_requested: daysRequested,
+          reason: request.reason?.trim() || null,
+          status: 'pending',
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (policy.auto_approve) {
+        const approval = await this.submitApproval(data.id);
+        if (approval.success) return approval;
+      }
+
+      return {
+        success: true,
+        message: `Solicitud enviada por ${daysRequested} días. Queda pendiente de aprobación`,
+        data
+      };
+    } catch (error) {
+      console.error('Error requesting leave:', error);
+      return {
+        success: false,
+        message: 'Error al registrar la solicitud de permiso'
+      };
+    }
+  }
+
+  /**
+   * Pedir al servidor la aprobación de una solicitud (desde el navegador)
+   * Sin revisor distinto del solicitante, el servidor solo la aprueba si la
+   * política tiene aprobación automática
+   */
+  async submitApproval(requestId: string, notes?: string): Promise<LeaveResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.LEAVE_REQUESTS}/${requestId}/approve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notes }),
+      });
+      const result: ApiResponse<{ message: string; request: LeaveRequest }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || 'Error al aprobar la solicitud' };
+      }
+
+      return { success: true, message: result.data.message, data: result.data.request };
+    } catch (error) {
+      console.error('Error submitting leave approval:', error);
+      return { success: false, message: 'Error al aprobar la solicitud' };
+    }
+  }
+
+  /**
+   * Aprobar una solicitud pendiente y registrar sus días en attendances
+   * Solo servidor, con el cliente de servicio (ver submitApproval)
+   * approverId es null cuando la aprobación es automática
+   */
+  async approveLeaveRequest(requestId: string, approverId: string | null, notes?: string): Promise<LeaveResponse> {
+    try {
+      const request = await this.getPendingRequest(requestId);
+      if (!request) {
+        return { success: false, message: 'La solicitud no existe o ya fue revisada' };
+      }
+
+      if (approverId) {
+        const approverError = await this.validateApprover(approverId, request);
+        if (approverError) return { success: false, message: approverError };
+      }
+
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .update({
+          status: 'approved',
+          approved_by: approverId,
+          approved_at: now,
+          manager_notes: notes?.trim() || null,
+          updated_at: now
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      // Otro revisor (o una cancelación) la procesó entre la lectura y la actualización
+      if (!data) {
+        return { success: false, message: 'La solicitud ya fue procesada' };
+      }
+
+      try {
+        await this.applyLeaveToAttendance(data, approverId);
+      } catch (applyError) {
+        // Sin los días registrados, la solicitud vuelve a quedar pendiente
+        await this.supabase
+          .from('leave_requests')
+          .update({
+            status: 'pending',
+            approved_by: null,
+            approved_at: null,
+            manager_notes: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', requestId);
+        throw applyError;
+      }
+
+      return {
+        success: true,
+        message: 'Solicitud aprobada',
+        data
+      };
+    } catch (error) {
+      console.error('Error approving leave request:', error);
+      return {
+        success: false,
+        message: 'Error al aprobar la solicitud'
+      };
+    }
+  }
+
+  /**
+   * Rechazar una solicitud pendiente con su motivo
+   */
+  async rejectLeaveRequest(requestId: string, rejecterId: string, reason: string): Promise<LeaveResponse> {
+    try {
+      if (!reason.trim()) {
+        return { success: false, message: 'Debes indicar el motivo del rechazo' };
+      }
+
+      const request = await this.getPendingRequest(requestId);
+      if (!request) {
+        return { success: false, message: 'La solicitud no existe o ya fue revisada' };
+      }
+
+      const rejecterError = await this.validateApprover(rejecterId, request);
+      if (rejecterError) return { success: false, message: rejecterError };
+
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .update({
+          status: 'rejected',
+          rejected_by: rejecterId,
+          rejected_at: now,
+          rejection_reason: reason.trim(),
+          updated_at: now
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return { success: false, message: 'La solicitud ya fue procesada' };
+      }
+
+      return {
+        success: true,
+        message: 'Solicitud rechazada',
+        data
+      };
+    } catch (error) {
+      console.error('Error rejecting leave request:', error);
+      return {
+        success: false,
+        message: 'Error al rechazar la solicitud'
+      };
+    }
+  }
+
+  /**
+   * Cancelar una solicitud propia que aún no fue revisada
+   */
+  async cancelLeaveRequest(requestId: string, employeeId: string): Promise<LeaveResponse> {
+    try {
+      const request = await this.getPendingRequest(requestId);
+      if (!request || request.employee_id !== employeeId) {
+        return { success: false, message: 'Solo puedes cancelar tus solicitudes pendientes' };
+      }
+
+      const { data, error } = await this.supabase
+        .from('leave_requests')
+        .update({
+          status: 'cancelled',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return { success: false, message: 'La solicitud ya fue procesada' };
+      }
+
+      return {
+        success: true,
+        message: 'Solicitud cancelada',
+        data
+      };
+    } catch (error) {
+      console.error('Error cancelling leave request:', error);
+      return {
+        success: false,
+        message: 'Error al cancelar la solicitud'
+      };
+    }
+  }
+
+  /**
+   * Verifica que quien revisa tenga permiso de aprobación y no sea el solicitante
+   * Devuelve el mensaje de error o null si puede revisar
+   */
+  private async validateApprover(approverId: string, request: LeaveRequest): Promise<string | null> {
+    if (approverId === request.employee_id) {
+      return 'No puedes revisar tu propia solicitud';
+    }
+
+    const { data: approver, error } = await this.supabase
+      .from('employees')
+      .select('role, permissions, is_active, organization_id')
+      .eq('id', approverId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+
+    if (
+      !approver ||
+      approver.organization_id !== request.organization_id ||
+      !can(approver, PERMISSIONS.ATTENDANCE_APPROVE)
+    ) {
+      return 'No tienes permiso para revisar solicitudes de permiso';
+    }
+
+    // Sin visibilidad de toda la organización solo se revisa al propio equipo
+    if (
+      !can(approver, PERMISSIONS.ATTENDANCE_VIEW_ALL) &&
+      !(await this.team.isTeamMember(approverId, request.organization_id, request.employee_id))
+    ) {
+      return 'Solo puedes revisar solicitudes de tu equipo';
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtener una solicitud solo si sigue pendiente
+   */
+  private async getPendingRequest(requestId: string): Promise<LeaveRequest | null> {
+    const { data, error } = await this.supabase
+      .from('leave_requests')
+      .select('*')
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data || null;
+  }
+
+  /**
+   * Registrar los días aprobados en attendances con estado vacation/sick_leave
+   * Los días en los que el empleado ya marcó entrada se conservan
+   * Si la actualización falla se eliminan los registros recién creados
+   */
+  private async applyLeaveToAttendance(request: LeaveRequest, approverId: string | null): Promise<void> {
+    const calendar = await this.getLeaveCalendar(
+      request.employee_id,
+      request.organization_id,
+      request.start_date,
+      request.end_date
+    );
+    const dates = getLeaveDates(request.start_date, request.end_date, calendar);
+    const status = LEAVE_TYPE_CONFIG[request.leave_type].attendanceStatus;
+    const now = new Date().toISOString();
+
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('attendances')
+      .select('id, attendance_date, check_in_time')
+      .eq('employee_id', request.employee_id)
+      .gte('attendance_date', request.start_date)
+      .lte('attendance_date', request.end_date);
+
+    if (fetchError) throw fetchError;
+
+    const leaveFields = {
+      status,
+      is_approved: true,
+      approved_by: approverId,
+      approved_at: now,
+      manager_notes: `${LEAVE_TYPE_CONFIG[request.leave_type].label} aprobado`,
+      updated_at: now
+    };
+
+    const existingRows = (existing || []) as Pick<Attendance, 'id' | 'attendance_date' | 'check_in_time'>[];
+    const existingByDate = new Map(existingRows.map(row => [row.attendance_date, row]));
+    const updateIds = dates
+      .map(date => existingByDate.get(date))
+      .filter(row => row && !row.check_in_time)
+      .map(row => row!.id);
+
+    const newRows = dates
+      .filter(date => !existingByDate.has(date))
+      .map(date => ({
+        employee_id: request.employee_id,
+        organization_id: request.organization_id,
+        attendance_date: date,
+        work_hours: 0,
+        break_duration: 0,
+        overtime_hours: 0,
+        created_at: now,
+        ...leaveFields
+      }));
+
+    let insertedIds: string[] = [];
+    if (newRows.length > 0) {
+      const { data: inserted, error } = await this.supabase
+        .from('attendances')
+        .insert(newRows)
+        .select('id');
+
+      if (error) throw error;
+      insertedIds = ((inserted || []) as Pick<Attendance, 'id'>[]).map(row => row.id);
+    }
+
+    if (updateIds.length > 0) {
+      const { error } = await this.supabase
+        .from('attendances')
+        .update(leaveFields)
+        .in('id', updateIds);
+
+      if (error) {
+        if (insertedIds.length > 0) {
+          await this.supabase.from('attendances').delete().in('id', insertedIds);
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+// Instancia singleton del servicio
+export const leaveService = new LeaveService();
@@ -0,0 +1,77 @@
+/**
+ * =============================================
+ * SERVICIO DE NOTIFICACIONES
+ * =============================================
+ *
+ * Descripción: Lectura de notificaciones dentro de la aplicación
+ * Las notificaciones las generan procesos del sistema (p. ej. el cierre
+ * automático de turnos) en la tabla notifications
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import type { Notification } from '@/types/database';
+
+/**
+ * Servicio para gestión de notificaciones
+ */
+export class NotificationService {
+  private supabase = createSupabaseClient();
+
+  /**
+   * Obtener las notificaciones más recientes de un destinatario
+   */
+  async getNotifications(recipientId: string, limit: number = 20): Promise<Notification[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('notifications')
+        .select('*')
+        .eq('recipient_id', recipientId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      throw new Error('Error al obtener notificaciones');
+    }
+  }
+
+  /**
+   * Marcar una notificación como leída
+   */
+  async markAsRead(notificationId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw new Error('Error al actualizar notificación');
+    }
+  }
+
+  /**
+   * Marcar como leídas todas las notificaciones pendientes de un destinatario
+   */
+  async markAllAsRead(recipientId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('recipient_id', recipientId)
+        .is('read_at', null);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      throw new Error('Error al actualizar notificaciones');
+    }
+  }
+}
+
+// Instancia singleton
+export const notificationService = new NotificationService();
@@ -0,0 +1,149 @@
+/**
+ * =============================================
+ * SERVICIO DE MARCAJES SIN CONEXIÓN
+ * =============================================
+ *
+ * Descripción: Registra la entrada y la salida cuando no hay red y las
+ * sincroniza al recuperar la conexión
+ * - El marcaje se guarda en IndexedDB (lib/offline-queue) con la hora del dispositivo
+ * - /api/v1/attendance/sync lo aplica con AttendanceService y rechaza
+ *   duplicados y marcajes antiguos (OFFLINE_SYNC_CONFIG)
+ * - Un evento sale de la cola cuando el servidor devuelve su resultado;
+ *   si falla la red, se reintenta en la siguiente sincronización
+ */
+
+import { OFFLINE_SYNC_CONFIG, ROUTES } from '@/lib/constants';
+import {
+  enqueueAttendanceEvent,
+  getQueuedAttendanceEvents,
+  removeQueuedAttendanceEvents,
+  type QueuedAttendanceEvent
+} from '@/lib/offline-queue';
+import type { ApiResponse, AttendanceSyncAction, AttendanceSyncStatus, LocationData } from '@/types/database';
+
+/**
+ * Resultado de un marcaje sincronizado
+ */
+export interface AttendanceSyncResult {
+  id: string;
+  status: AttendanceSyncStatus;
+  message: string;
+}
+
+/**
+ * Resultado de una sincronización
+ */
+export interface OfflineSyncResponse {
+  success: boolean;
+  message: string;
+  results: AttendanceSyncResult[];
+  pending: number;
+}
+
+/**
+ * Servicio para marcajes sin conexión
+ */
+export class OfflineAttendanceService {
+  /**
+   * El navegador informa que no hay red
+   */
+  isOffline(): boolean {
+    return typeof navigator !== 'undefined' && !navigator.onLine;
+  }
+
+  /**
+   * Guarda un marcaje para sincronizarlo después
+   */
+  async queueEvent(
+    employeeId: string,
+    action: AttendanceSyncAction,
+    location: LocationData | null,
+    officeQrCode?: string
+  ): Promise<QueuedAttendanceEvent> {
+    const event: QueuedAttendanceEvent = {
+      id: crypto.randomUUID(),
+      employee_id: employeeId,
+      action,
+      recorded_at: new Date().toISOString(),
+      location,
+      office_qr_code: officeQrCode
+    };
+
+    await enqueueAttendanceEvent(event);
+    return event;
+  }
+
+  /**
+   * Marcajes del empleado pendientes de sincronizar
+   */
+  async getPendingEvents(employeeId: string): Promise<QueuedAttendanceEvent[]> {
+    try {
+      return await getQueuedAttendanceEvents(employeeId);
+    } catch (error) {
+      console.error('Error reading offline attendance queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Envía los marcajes pendientes del empleado al servidor
+   */
+  async sync(employeeId: string): Promise<OfflineSyncResponse> {
+    const pendingEvents = await this.getPendingEvents(employeeId);
+    if (pendingEvents.length === 0) {
+      return { success: true, message: 'No hay marcajes pendientes', results: [], pending: 0 };
+    }
+
+    const batch = pendingEvents.slice(0, OFFLINE_SYNC_CONFIG.MAX_EVENTS_PER_SYNC);
+
+    try {
+      const response = await fetch(ROUTES.API.ATTENDANCE_SYNC, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          events: batch.map(event => ({
+            id: event.id,
+            action: event.action,
+            recorded_at: event.recorded_at,
+            location: event.location,
+            office_qr_code: event.office_qr_code
+          }))
+        }),
+      });
+      const result: ApiResponse<{ results: AttendanceSyncResult[] }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return {
+          success: false,
+          message: result.error || 'Error al sincronizar los marcajes',
+          results: [],
+          pending: pendingEvents.length
+        };
+      }
+
+      // Todo evento con resultado queda resuelto, también los rechazados
+      await removeQueuedAttendanceEvents(result.data.results.map(item => item.id));
+
+      const applied = result.data.results.filter(item => item.status === 'applied').length;
+      return {
+        success: true,
+        message: `${applied} de ${result.data.results.length} marcajes sincronizados`,
+        results: result.data.results,
+        pending: pendingEvents.length - result.data.results.length
+      };
+    } catch (error) {
+      console.error('Error syncing offline attendance:', error);
+      return {
+        success: false,
+        message: 'Sin conexión: los marcajes se enviarán más tarde',
+        results: [],
+        pending: pendingEvents.length
+      };
+    }
+  }
+}
+
+// Instancia singleton
+export const offlineAttendanceService = new OfflineAttendanceService();
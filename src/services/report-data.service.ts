@@ -0,0 +1,324 @@
+/**
+ * =============================================
+ * SERVICIO DE DATOS DE REPORTES
+ * =============================================
+ *
+ * Descripción: Registros de asistencia y estadísticas de un reporte según sus
+ * filtros (ReportFilters)
+ * - En el navegador lo usa useReportData con el cliente de la sesión (RLS)
+ * - En servidor (envíos programados) se construye con el cliente de Service
+ *   Role y la organización explícita
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { LEAVE_STATUSES } from '@/lib/constants';
+import { addDaysToDateKey, getWeekdayOfDateKey } from '@/lib/timezone';
+import { countEmployeesWithoutHoliday } from '@/lib/holidays';
+import { HolidayService } from './holiday.service';
+import { SystemConfigService } from './system-config.service';
+import type { AttendanceRecord, ReportFilters, ReportStats } from '@/types/reports.types';
+import type { Employee } from '@/types/database';
+
+/**
+ * Registros y estadísticas de un reporte
+ */
+export interface ReportDataResult {
+  data: AttendanceRecord[];
+  stats: ReportStats | null;
+}
+
+interface AttendanceQueryResult {
+  id: string;
+  attendance_date: string;
+  check_in_time?: string;
+  check_out_time?: string;
+  work_hours?: number;
+  overtime_hours?: number;
+  status?: string;
+  employee_id: string;
+}
+
+interface EmployeeQueryResult {
+  id: string;
+  full_name: string;
+  employee_code: string;
+  department_id: string;
+  departments: {
+    id: string;
+    name: string;
+    code: string;
+  } | null;
+}
+
+/**
+ * Filas por consulta: PostgREST limita el tamaño de cada respuesta
+ */
+const FETCH_BATCH_SIZE = 1000;
+
+/**
+ * Servicio para cargar los datos de los reportes
+ */
+export class ReportDataService {
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {}
+
+  /**
+   * Registros del período y sus estadísticas
+   * Sin organizationId se usa la del usuario con sesión activa
+   */
+  async getReportData(filters: ReportFilters, organizationId?: string): Promise<ReportDataResult> {
+    const orgId = organizationId ?? await new SystemConfigService(this.supabase).getCurrentUserOrganizationId();
+    const data = await this.getRecords(filters, orgId);
+
+    if (data.length === 0) {
+      return { data, stats: null };
+    }
+
+    return { data, stats: await this.getStats(data, filters, orgId) };
+  }
+
+  /**
+   * Registros de asistencia con el nombre, código y departamento del empleado
+   */
+  private async getRecords(filters: ReportFilters, organizationId: string | null): Promise<AttendanceRecord[]> {
+    const attendanceData = await this.getAttendances(filters, organizationId);
+
+    const employeeIds = [...new Set(attendanceData.map(a => a.employee_id))];
+    if (employeeIds.length === 0) {
+      return [];
+    }
+
+    const { data: employeeData, error: employeeError } = await this.supabase
+      .from('employees')
+      .select(`
+        id,
+        full_name,
+        employee_code,
+        department_id,
+        departments!inner(
+          id,
+          name,
+          code
+        )
+      `)
+      .in('id', employeeIds);
+
+    if (employeeError) {
+      console.error('❌ Error en consulta de empleados:', employeeError);
+      // No fallar completamente, usar datos sin nombres
+    }
+
+    const employees = (employeeData || []) as unknown as EmployeeQueryResult[];
+
+    // Filtrar por departamento si es necesario
+    let filteredAttendanceData = attendanceData;
+    if (filters.departmentId && employeeData) {
+      const employeesInDept = employees
+        .filter(emp => emp.department_id === filters.departmentId)
+        .map(emp => emp.id);
+
+      filteredAttendanceData = filteredAttendanceData.filter(att => employeesInDept.includes(att.employee_id));
+    }
+
+    // Crear un mapa de empleados para búsqueda rápida
+    const employeeMap = new Map(employees.map(emp => [emp.id, {
+      full_name: emp.full_name,
+      employee_code: emp.employee_code,
+      department_name: emp.departments?.name || 'Sin Departamento'
+    }]));
+
+    // Combinar cada asistencia con los datos del empleado
+    return filteredAttendanceData.map(record => {
+      const employeeInfo = employeeMap.get(record.employee_id) || {
+        full_name: 'Empleado Sin Nombre',
+        employee_code: 'N/A',
+        department_name: 'Sin Departamento'
+      };
+
+      let total_hours = 0;
+
+      // Usar work_hours si está disponible, sino calcular
+      if (record.work_hours) {
+        total_hours = record.work_hours;
+      } else if (record.check_in_time && record.check_out_time) {
+        const checkIn = new Date(`${record.attendance_date}T${record.check_in_time}`);
+        const checkOut = new Date(`${record.attendance_date}T${record.check_out_time}`);
+        total_hours = Math.abs((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60));
+      }
+
+      return {
+        id: record.id,
+        employee_name: employeeInfo.full_name,
+        department_name: employeeInfo.department_name,
+        clock_in: record.check_in_time || null,
+        clock_out: record.check_out_time || null,
+        status: record.status || (record.check_in_time ? 'present' : 'absent'),
+        total_hours: Math.round(total_hours * 100) / 100, // Redondear a 2 decimales
+        attendance_date: record.attendance_date,
+        employee_code: employeeInfo.employee_code
+      };
+    });
+  }
+
+  /**
+   * Asistencias del período con los filtros de empleado y estado
+   */
+  private async getAttendances(filters: ReportFilters, organizationId: string | null): Promise<AttendanceQueryResult[]> {
+    const rows: AttendanceQueryResult[] = [];
+
+    for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+      let attendanceQuery = this.supabase
+        .from('attendances')
+        .select(`
+          id,
+          attendance_date,
+          check_in_time,
+          check_out_time,
+          work_hours,
+          overtime_hours,
+          status,
+          employee_id
+        `)
+        .gte('attendance_date', filters.startDate)
+        .lte('attendance_date', filters.endDate);
+
+      if (organizationId) {
+        attendanceQuery = attendanceQuery.eq('organization_id', organizationId);
+      }
+
+      // Aplicar filtro de empleado específico
+      if (filters.employeeId) {
+        attendanceQuery = attendanceQuery.eq('employee_id', filters.employeeId);
+      }
+
+      // Limitar al alcance del reporte (equipo de un manager)
+      if (filters.employeeIds) {
+        attendanceQuery = attendanceQuery.in('employee_id', filters.employeeIds);
+      }
+
+      // Aplicar filtros de status
+      if (filters.status) {
+        switch (filters.status) {
+          case 'present':
+            attendanceQuery = attendanceQuery.not('check_in_time', 'is', null);
+            break;
+          case 'absent':
+            // Los días cubiertos por un permiso aprobado no son ausencias
+            attendanceQuery = attendanceQuery
+              .is('check_in_time', null)
+              .not('status', 'in', `(${LEAVE_STATUSES.join(',')})`);
+            break;
+          case 'leave':
+            attendanceQuery = attendanceQuery.in('status', LEAVE_STATUSES);
+            break;
+          case 'incomplete':
+            attendanceQuery = attendanceQuery.not('check_in_time', 'is', null).is('check_out_time', null);
+            break;
+          case 'late':
+            // Estado asignado al registrar la entrada según el horario del empleado
+            attendanceQuery = attendanceQuery.eq('status', 'late');
+            break;
+        }
+      }
+
+      const { data, error } = await attendanceQuery
+        .order('attendance_date', { ascending: false })
+        .order('id')
+        .range(from, from + FETCH_BATCH_SIZE - 1);
+
+      if (error) {
+        console.error('❌ Error en consulta de asistencias:', error);
+        throw new Error(`Error de base de datos: ${error.message}`);
+      }
+
+      const batch = (data || []) as AttendanceQueryResult[];
+      rows.push(...batch);
+      if (batch.length < FETCH_BATCH_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Estadísticas del período
+   * Devuelve null si fallan: el reporte se muestra igualmente sin ellas
+   */
+  private async getStats(
+    attendanceData: AttendanceRecord[],
+    filters: ReportFilters,
+    organizationId: string | null
+  ): Promise<ReportStats | null> {
+    try {
+      // Obtener empleados activos y feriados de la organización en el período
+      let employeeQuery = this.supabase
+        .from('employees')
+        .select('id, department_id')
+        .eq('is_active', true);
+      if (organizationId) {
+        employeeQuery = employeeQuery.eq('organization_id', organizationId);
+      }
+      if (filters.employeeIds) {
+        employeeQuery = employeeQuery.in('id', filters.employeeIds);
+      }
+
+      const [{ data: employeeData, error: employeeError }, holidays] = await Promise.all([
+        employeeQuery,
+        organizationId
+          ? new HolidayService(this.supabase).getHolidays(organizationId, { startDate: filters.startDate, endDate: filters.endDate })
+          : Promise.resolve([])
+      ]);
+
+      if (employeeError) {
+        throw employeeError;
+      }
+
+      const employees = (employeeData || []) as Pick<Employee, 'id' | 'department_id'>[];
+      const totalEmployees = employees.length;
+      const totalAttendances = attendanceData.length;
+      const presentDays = attendanceData.filter(a => a.clock_in).length;
+      const leaveDays = attendanceData.filter(a => !a.clock_in && LEAVE_STATUSES.includes(a.status)).length;
+      const absentDays = attendanceData.filter(a => !a.clock_in).length - leaveDays;
+      const incompleteDays = attendanceData.filter(a => a.clock_in && !a.clock_out).length;
+      const completeDays = attendanceData.filter(a => a.clock_in && a.clock_out).length;
+
+      const totalHours = attendanceData.reduce((sum, a) => sum + (a.total_hours || 0), 0);
+      const overtimeHours = 0; // Temporal - no tenemos overtime_hours en AttendanceRecord
+      const averageHours = completeDays > 0 ? totalHours / completeDays : 0;
+
+      // Calcular días-empleado laborables en el período
+      // Se excluyen fines de semana y feriados según el departamento de cada empleado
+      let workEmployeeDays = 0;
+      for (let date = filters.startDate; date && date <= filters.endDate; date = addDaysToDateKey(date, 1)) {
+        const weekday = getWeekdayOfDateKey(date);
+        if (weekday !== 0 && weekday !== 6) {
+          workEmployeeDays += countEmployeesWithoutHoliday(employees, holidays, date);
+        }
+      }
+
+      // Los días de permiso se descuentan de los días esperados
+      const expectedDays = workEmployeeDays - leaveDays;
+      const attendanceRate = expectedDays > 0 ? (presentDays / expectedDays) * 100 : 0;
+      const punctualDays = attendanceData.filter(a => a.clock_in && a.status !== 'late').length;
+      const punctualityRate = presentDays > 0 ? (punctualDays / presentDays) * 100 : 0;
+
+      return {
+        totalEmployees,
+        totalAttendances,
+        presentDays,
+        absentDays,
+        leaveDays,
+        incompleteDays,
+        attendanceRate,
+        punctualityRate,
+        totalHours,
+        overtimeHours,
+        averageHours
+      };
+    } catch (error) {
+      console.error('Error loading report stats:', error);
+      return null;
+    }
+  }
+}
+
+// Instancia singleton
+export const reportDataService = new ReportDataService();
@@ -4,8 +4,38 @@
  * =============================================
  * 
  * Servicio centralizado para exportar reportes a PDF y Excel
+ * Los archivos se generan sin DOM (createPdfFile / createExcelFile), así que
+ * también sirven en rutas de servidor; exportReport los descarga en el navegador
+ * 
+ * PDF: documento jsPDF con encabezado y pie en cada página, numeración,
+ * marca de la organización (ExportOptions.organizationInfo) y encabezados
+ * de tabla repetidos al cambiar de página
+ * - Con includeCharts, las plantillas profesional y detallada añaden los gráficos
+ *   del período (tendencia diaria, estados, departamentos y puntualidad)
+ * - La plantilla detallada agrupa los registros en una sección por empleado
+ * 
+ * Excel: libro .xlsx con celdas tipadas (fechas, horas y números) y la fila
+ * de encabezados fija; hojas Resumen, Detalle, Por Empleado y Por Departamento
+ * Las horas de entrada/salida se expresan en la zona horaria de la organización
  */
 
+import * as XLSX from 'xlsx';
+import { jsPDF } from 'jspdf';
+import {
+  getAttendanceRate,
+  getDailyTrend,
+  getPunctualityHistogram,
+  getPunctualityRate,
+  getStatusDistribution,
+  groupByDepartment,
+  groupByEmployee,
+  type AttendanceTotals,
+  type ChartBar,
+  type DailyTrendPoint,
+  type DepartmentAttendanceGroup,
+  type EmployeeAttendanceGroup
+} from '@/lib/report-aggregates';
+import { formatDateKey, getTimeInTimezone, getZonedParts, resolveTimezone } from '@/lib/timezone';
 import type { AttendanceRecord, ReportFilters, ReportStats } from '@/types/reports.types';
 
 // Tipos para exportación
@@ -16,7 +46,7 @@ export interface ExportOptions {
   includeStats?: boolean;
   organizationInfo?: {
     name: string;
-    logo?: string;
+    logo?: string;  // En PDF solo se usa si es una data URL (data:image/png;base64,...)
     address?: string;
     phone?: string;
   };
@@ -31,9 +61,120 @@ export interface ExportData {
     generatedBy: string;
     reportTitle: string;
     period: string;
+    timezone?: string;  // Zona de la organización para las horas (por defecto, la del sistema)
   };
 }
 
+type CellValue = string | number | Date | null;
+
+// Formatos numéricos de Excel
+const EXCEL_FORMATS = {
+  date: 'dd/mm/yyyy',
+  dateTime: 'dd/mm/yyyy hh:mm',
+  time: 'hh:mm',
+  hours: '0.00',
+  percent: '0.0%',
+  integer: '0'
+} as const;
+
+type ExcelFormat = keyof typeof EXCEL_FORMATS;
+
+type RGB = [number, number, number];
+
+// Página A4 vertical en milímetros
+const PDF_PAGE = {
+  margin: 14,
+  headerHeight: 20,
+  footerHeight: 10,
+  rowHeight: 7,
+  cellPadding: 1.5
+} as const;
+
+const PDF_COLORS: Record<'brand' | 'text' | 'muted' | 'border' | 'stripe' | 'panel', RGB> = {
+  brand: [236, 89, 113],   // #EC5971
+  text: [51, 51, 51],
+  muted: [102, 102, 102],
+  border: [221, 221, 221],
+  stripe: [249, 249, 249],
+  panel: [248, 249, 250]
+};
+
+// Colores de los gráficos (los mismos de DashboardCharts)
+const PDF_CHART_COLORS: Record<'onTime' | 'late' | 'absent' | 'attendance', RGB> = {
+  onTime: [16, 185, 129],    // #10b981
+  late: [245, 158, 11],      // #f59e0b
+  absent: [239, 68, 68],     // #ef4444
+  attendance: [59, 130, 246] // #3b82f6
+};
+
+// Departamentos como máximo en el gráfico comparativo (los de más registros)
+const PDF_CHART_MAX_DEPARTMENTS = 8;
+
+/**
+ * Área de un gráfico del PDF (mm)
+ */
+interface PdfChartArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Columna de una tabla del PDF (ancho en mm)
+ */
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * Columna de una hoja: encabezado, ancho y formato de sus celdas
+ */
+interface SheetColumn {
+  header: string;
+  width: number;
+  format?: ExcelFormat;
+}
+
+/**
+ * Número de serie de Excel (días desde 1899-12-30) de una fecha/hora local
+ * Se calcula desde los componentes para no depender de la zona del navegador
+ */
+function toExcelSerial(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): number {
+  return Date.UTC(year, month - 1, day, hour, minute, second) / 86400000 + 25569;
+}
+
+function dateKeyToExcelSerial(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return toExcelSerial(year, month, day);
+}
+
+function instantToExcelSerial(isoString: string, timezone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(new Date(isoString), timezone);
+  return toExcelSerial(year, month, day, hour, minute, second);
+}
+
+/**
+ * SheetJS (edición community) no escribe paneles fijos: se añade el panel
+ * <pane> a cada hoja del .xlsx generado para fijar la primera fila
+ */
+function freezeHeaderRows(workbookData: ArrayBuffer): Uint8Array {
+  const zip = XLSX.CFB.read(new Uint8Array(workbookData), { type: 'array' });
+  const pane = '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>';
+
+  zip.FileIndex.forEach((entry: { name: string; content: Uint8Array }, index: number) => {
+    if (!/^sheet\d+\.xml$/.test(entry.name) || !zip.FullPaths[index].includes('/worksheets/')) return;
+
+    const xml = new TextDecoder().decode(entry.content)
+      .replace(/<sheetView [^>]*?(?:\/>|>[\s\S]*?<\/sheetView>)/, pane);
+    entry.content = new TextEncoder().encode(xml);
+  });
+
+  return XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' });
+}
+
 export class ReportExportService {
   
   /**
@@ -63,617 +204,1006 @@ export class ReportExportService {
   }
 
   /**
-   * Exportar a PDF usando plantillas HTML
+   * Exportar a PDF y descargarlo
    */
   private static async exportToPDF(
     exportData: ExportData, 
     options: ExportOptions
   ): Promise<void> {
     console.log('📄 Generando PDF...');
-    
-    // Generar HTML desde plantilla
-    const htmlContent = await this.generateHTMLTemplate(exportData, options);
-    
-    // Convertir HTML a PDF (implementaremos esto)
-    await this.convertHTMLToPDF(htmlContent, exportData.metadata.reportTitle);
+
+    this.downloadFile(
+      new Blob([this.createPdfFile(exportData, options)], { type: 'application/pdf' }),
+      `${exportData.metadata.reportTitle}.pdf`
+    );
   }
 
   /**
-   * Exportar a Excel con datos estructurados
+   * Exportar a Excel y descargarlo
    */
   private static async exportToExcel(
     exportData: ExportData
   ): Promise<void> {
     console.log('📊 Generando Excel...');
-    
-    // Generar archivo Excel (implementaremos esto)
-    await this.generateExcelFile(exportData);
+
+    this.downloadFile(
+      new Blob([this.createExcelFile(exportData)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      `${exportData.metadata.reportTitle}.xlsx`
+    );
   }
 
+  // =============================================
+  // PDF
+  // =============================================
+
   /**
-   * Generar HTML desde plantillas
+   * Generar el PDF del reporte (sin DOM: válido en navegador y servidor)
    */
-  private static async generateHTMLTemplate(
-    exportData: ExportData,
-    options: ExportOptions
-  ): Promise<string> {
+  static createPdfFile(exportData: ExportData, options: ExportOptions): ArrayBuffer {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
     const template = options.template || 'professional';
-    
-    switch (template) {
-      case 'professional':
-        return this.generateProfessionalTemplate(exportData, options);
-      case 'simple':
-        return this.generateSimpleTemplate(exportData, options);
-      case 'detailed':
-        return this.generateDetailedTemplate(exportData, options);
-      default:
-        return this.generateProfessionalTemplate(exportData, options);
+    const timezone = resolveTimezone(exportData.metadata.timezone);
+
+    let y = this.drawPdfTitle(doc, exportData, timezone);
+
+    if (template !== 'simple') {
+      if (exportData.stats && options.includeStats !== false) {
+        y = this.drawPdfStats(doc, exportData.stats, y);
+      }
+      y = this.drawPdfFilters(doc, exportData.filters, y);
+      if (options.includeCharts) {
+        y = this.drawPdfCharts(doc, exportData.data, y);
+      }
     }
+
+    if (template === 'detailed') {
+      y = this.drawPdfEmployeeSections(doc, exportData.data, timezone, y);
+    } else {
+      y = this.drawPdfSectionTitle(doc, 'Registros de Asistencia', y);
+      y = this.drawPdfAttendanceTable(doc, exportData.data, timezone, y);
+    }
+
+    if (template === 'simple') {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(...PDF_COLORS.muted);
+      doc.text(`Total de registros: ${exportData.data.length}`, PDF_PAGE.margin, this.ensurePdfSpace(doc, y, 6) + 4);
+    }
+
+    // El encabezado y el pie se dibujan al final, cuando ya se conoce el total de páginas
+    this.drawPdfPageFrames(doc, exportData, options, timezone);
+
+    return doc.output('arraybuffer');
+  }
+
+  private static getPdfContentTop(): number {
+    return PDF_PAGE.margin + PDF_PAGE.headerHeight;
+  }
+
+  private static getPdfContentBottom(doc: jsPDF): number {
+    return doc.internal.pageSize.getHeight() - PDF_PAGE.margin - PDF_PAGE.footerHeight;
+  }
+
+  private static getPdfContentWidth(doc: jsPDF): number {
+    return doc.internal.pageSize.getWidth() - PDF_PAGE.margin * 2;
   }
 
   /**
-   * Plantilla profesional con diseño corporativo
+   * Salta de página si no caben `height` mm; devuelve la posición donde dibujar
    */
-  private static generateProfessionalTemplate(
-    exportData: ExportData,
-    options: ExportOptions
-  ): string {
-    const { data, stats, filters, metadata } = exportData;
-    const orgInfo = options.organizationInfo;
+  private static ensurePdfSpace(doc: jsPDF, y: number, height: number): number {
+    if (y + height <= this.getPdfContentBottom(doc)) return y;
+    doc.addPage();
+    return this.getPdfContentTop();
+  }
 
-    return `
-    <!DOCTYPE html>
-    <html lang="es">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${metadata.reportTitle}</title>
-      <style>
-        ${this.getProfessionalCSS()}
-      </style>
-    </head>
-    <body>
-      <!-- Header Corporativo -->
-      <div class="header">
-        <div class="header-left">
-          ${orgInfo?.logo ? `<img src="${orgInfo.logo}" alt="Logo" class="logo">` : ''}
-          <div class="org-info">
-            <h1>${orgInfo?.name || 'Sistema de Asistencia'}</h1>
-            ${orgInfo?.address ? `<p>${orgInfo.address}</p>` : ''}
-            ${orgInfo?.phone ? `<p>Tel: ${orgInfo.phone}</p>` : ''}
-          </div>
-        </div>
-        <div class="header-right">
-          <div class="report-info">
-            <h2>${metadata.reportTitle}</h2>
-            <p><strong>Período:</strong> ${metadata.period}</p>
-            <p><strong>Generado:</strong> ${new Date(metadata.generatedAt).toLocaleString('es-ES')}</p>
-            <p><strong>Por:</strong> ${metadata.generatedBy}</p>
-          </div>
-        </div>
-      </div>
-
-      <!-- Estadísticas Resumen -->
-      ${stats ? this.generateStatsSection(stats) : ''}
-
-      <!-- Filtros Aplicados -->
-      <div class="filters-section">
-        <h3>🔍 Filtros Aplicados</h3>
-        <div class="filters-grid">
-          <div class="filter-item">
-            <strong>Fecha Inicio:</strong> ${new Date(filters.startDate).toLocaleDateString('es-ES')}
-          </div>
-          <div class="filter-item">
-            <strong>Fecha Fin:</strong> ${new Date(filters.endDate).toLocaleDateString('es-ES')}
-          </div>
-          <div class="filter-item">
-            <strong>Tipo de Reporte:</strong> ${this.getReportTypeLabel(filters.reportType)}
-          </div>
-          ${filters.status ? `
-          <div class="filter-item">
-            <strong>Estado:</strong> ${this.getStatusLabel(filters.status)}
-          </div>
-          ` : ''}
-        </div>
-      </div>
-
-      <!-- Tabla de Datos -->
-      <div class="data-section">
-        <h3>📊 Registros de Asistencia</h3>
-        ${this.generateDataTable(data)}
-      </div>
-
-      <!-- Footer -->
-      <div class="footer">
-        <p>Este reporte fue generado automáticamente por el Sistema de Asistencia Educa-Crea</p>
-        <p>Página generada el ${new Date().toLocaleString('es-ES')}</p>
-      </div>
-    </body>
-    </html>
-    `;
-  }
-
-  /**
-   * Plantilla simple para reportes rápidos
-   */
-  private static generateSimpleTemplate(
-    exportData: ExportData,
-    options: ExportOptions
-  ): string {
-    const { data, metadata } = exportData;
-    // Se conserva 'options' para futuras expansiones
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const _useOptions = options;
-
-    return `
-    <!DOCTYPE html>
-    <html lang="es">
-    <head>
-      <meta charset="UTF-8">
-      <title>${metadata.reportTitle}</title>
-      <style>
-        ${this.getSimpleCSS()}
-      </style>
-    </head>
-    <body>
-      <h1>${metadata.reportTitle}</h1>
-      <p><strong>Generado:</strong> ${new Date(metadata.generatedAt).toLocaleString('es-ES')}</p>
-      
-      ${this.generateDataTable(data)}
-      
-      <footer>
-        <p>Total de registros: ${data.length}</p>
-      </footer>
-    </body>
-    </html>
-    `;
-  }
-
-  /**
-   * Plantilla detallada con análisis completo
-   */
-  private static generateDetailedTemplate(
-    exportData: ExportData,
-    options: ExportOptions
-  ): string {
-    // Similar a professional pero con más secciones de análisis
-    return this.generateProfessionalTemplate(exportData, options);
-  }
-
-  /**
-   * Generar sección de estadísticas
-   */
-  private static generateStatsSection(stats: ReportStats): string {
-    return `
-    <div class="stats-section">
-      <h3>📈 Estadísticas del Período</h3>
-      <div class="stats-grid">
-        <div class="stat-card primary">
-          <div class="stat-number">${stats.totalEmployees}</div>
-          <div class="stat-label">Total Empleados</div>
-        </div>
-        <div class="stat-card success">
-          <div class="stat-number">${stats.presentDays}</div>
-          <div class="stat-label">Días Presentes</div>
-        </div>
-        <div class="stat-card warning">
-          <div class="stat-number">${stats.incompleteDays}</div>
-          <div class="stat-label">Registros Incompletos</div>
-        </div>
-        <div class="stat-card danger">
-          <div class="stat-number">${stats.absentDays}</div>
-          <div class="stat-label">Días Ausentes</div>
-        </div>
-        <div class="stat-card info">
-          <div class="stat-number">${stats.attendanceRate.toFixed(1)}%</div>
-          <div class="stat-label">Tasa de Asistencia</div>
-        </div>
-        <div class="stat-card info">
-          <div class="stat-number">${stats.punctualityRate.toFixed(1)}%</div>
-          <div class="stat-label">Tasa de Puntualidad</div>
-        </div>
-        <div class="stat-card secondary">
-          <div class="stat-number">${stats.totalHours.toFixed(1)}h</div>
-          <div class="stat-label">Horas Totales</div>
-        </div>
-        <div class="stat-card secondary">
-          <div class="stat-number">${stats.averageHours.toFixed(1)}h</div>
-          <div class="stat-label">Promedio por Día</div>
-        </div>
-      </div>
-    </div>
-    `;
-  }
-
-  /**
-   * Generar tabla de datos
-   */
-  private static generateDataTable(data: AttendanceRecord[]): string {
-    if (data.length === 0) {
-      return '<p class="no-data">No hay registros para mostrar en el período seleccionado.</p>';
-    }
+  /**
+   * Recorta un texto con puntos suspensivos para que quepa en el ancho dado
+   */
+  private static fitPdfText(doc: jsPDF, text: string, maxWidth: number): string {
+    if (doc.getTextWidth(text) <= maxWidth) return text;
 
-    const tableRows = data.map(record => {
-      const statusClass = this.getStatusClass(record.status);
-      const statusLabel = this.getStatusLabel(record.status);
-      
-      return `
-      <tr>
-        <td>${new Date(record.attendance_date).toLocaleDateString('es-ES')}</td>
-        <td>
-          <div class="employee-info">
-            <strong>${record.employee_name}</strong>
-            <small>${record.employee_code}</small>
-          </div>
-        </td>
-        <td>${record.department_name || 'Sin Depto.'}</td>
-        <td class="time">${record.clock_in || '-'}</td>
-        <td class="time">${record.clock_out || '-'}</td>
-        <td class="hours">${record.total_hours ? record.total_hours.toFixed(1) + 'h' : '-'}</td>
-        <td><span class="status ${statusClass}">${statusLabel}</span></td>
-      </tr>
-      `;
-    }).join('');
-
-    return `
-    <div class="table-container">
-      <table class="data-table">
-        <thead>
-          <tr>
-            <th>Fecha</th>
-            <th>Empleado</th>
-            <th>Departamento</th>
-            <th>Entrada</th>
-            <th>Salida</th>
-            <th>Horas</th>
-            <th>Estado</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${tableRows}
-        </tbody>
-      </table>
-    </div>
-    `;
-  }
-
-  /**
-   * CSS para plantilla profesional
-   */
-  private static getProfessionalCSS(): string {
-    return `
-    * {
-      margin: 0;
-      padding: 0;
-      box-sizing: border-box;
-    }
-    
-    body {
-      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-      line-height: 1.6;
-      color: #333;
-      background: #fff;
-    }
-    
-    .header {
-      display: flex;
-      justify-content: space-between;
-      align-items: flex-start;
-      padding: 30px;
-      border-bottom: 3px solid #EC5971;
-      margin-bottom: 30px;
-      background: linear-gradient(135deg, #f8f9fa 0%, #e9ecef 100%);
-    }
-    
-    .header-left {
-      display: flex;
-      align-items: center;
-      gap: 20px;
-    }
-    
-    .logo {
-      max-height: 80px;
-      width: auto;
-    }
-    
-    .org-info h1 {
-      color: #EC5971;
-      font-size: 28px;
-      margin-bottom: 8px;
-    }
-    
-    .org-info p {
-      color: #666;
-      font-size: 14px;
-      margin: 2px 0;
+    let fitted = text;
+    while (fitted.length > 0 && doc.getTextWidth(`${fitted}...`) > maxWidth) {
+      fitted = fitted.slice(0, -1);
     }
-    
-    .header-right .report-info {
-      text-align: right;
-    }
-    
-    .report-info h2 {
-      color: #333;
-      font-size: 24px;
-      margin-bottom: 10px;
-    }
-    
-    .report-info p {
-      color: #666;
-      font-size: 14px;
-      margin: 3px 0;
-    }
-    
-    .stats-section,
-    .filters-section,
-    .data-section {
-      margin: 30px;
-      padding: 25px;
-      background: #fff;
-      border-radius: 8px;
-      box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-    }
-    
-    .stats-section h3,
-    .filters-section h3,
-    .data-section h3 {
-      color: #333;
-      font-size: 20px;
-      margin-bottom: 20px;
-      padding-bottom: 10px;
-      border-bottom: 2px solid #f0f0f0;
-    }
-    
-    .stats-grid {
-      display: grid;
-      grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-      gap: 20px;
-      margin-top: 20px;
-    }
-    
-    .stat-card {
-      padding: 20px;
-      border-radius: 8px;
-      text-align: center;
-      color: white;
-    }
-    
-    .stat-card.primary { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); }
-    .stat-card.success { background: linear-gradient(135deg, #4facfe 0%, #00f2fe 100%); }
-    .stat-card.warning { background: linear-gradient(135deg, #f093fb 0%, #f5576c 100%); }
-    .stat-card.danger { background: linear-gradient(135deg, #ff9a9e 0%, #fecfef 100%); }
-    .stat-card.info { background: linear-gradient(135deg, #a8edea 0%, #fed6e3 100%); }
-    .stat-card.secondary { background: linear-gradient(135deg, #d299c2 0%, #fef9d7 100%); }
-    
-    .stat-number {
-      font-size: 32px;
-      font-weight: bold;
-      margin-bottom: 8px;
-    }
-    
-    .stat-label {
-      font-size: 14px;
-      opacity: 0.9;
-    }
-    
-    .filters-grid {
-      display: grid;
-      grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
-      gap: 15px;
-      margin-top: 15px;
-    }
-    
-    .filter-item {
-      padding: 12px;
-      background: #f8f9fa;
-      border-radius: 6px;
-      border-left: 4px solid #EC5971;
-    }
-    
-    .table-container {
-      overflow-x: auto;
-      margin-top: 20px;
-    }
-    
-    .data-table {
-      width: 100%;
-      border-collapse: collapse;
-      background: white;
-      border-radius: 8px;
-      overflow: hidden;
-      box-shadow: 0 4px 6px rgba(0,0,0,0.1);
-    }
-    
-    .data-table th {
-      background: #EC5971;
-      color: white;
-      padding: 15px 12px;
-      text-align: left;
-      font-weight: 600;
-      font-size: 14px;
-    }
-    
-    .data-table td {
-      padding: 12px;
-      border-bottom: 1px solid #eee;
-      font-size: 14px;
-    }
-    
-    .data-table tr:nth-child(even) {
-      background: #f9f9f9;
-    }
-    
-    .data-table tr:hover {
-      background: #f0f8ff;
-    }
-    
-    .employee-info strong {
-      display: block;
-      color: #333;
-    }
-    
-    .employee-info small {
-      color: #666;
-      font-size: 12px;
-    }
-    
-    .time {
-      font-family: 'Courier New', monospace;
-      font-weight: bold;
-    }
-    
-    .hours {
-      text-align: center;
-      font-weight: bold;
-      color: #EC5971;
-    }
-    
-    .status {
-      padding: 4px 8px;
-      border-radius: 12px;
-      font-size: 12px;
-      font-weight: bold;
-      text-transform: uppercase;
-    }
-    
-    .status.present { background: #d4edda; color: #155724; }
-    .status.absent { background: #f8d7da; color: #721c24; }
-    .status.incomplete { background: #fff3cd; color: #856404; }
-    .status.late { background: #f0ad4e; color: #fff; }
-    
-    .footer {
-      margin-top: 50px;
-      padding: 20px 30px;
-      background: #f8f9fa;
-      border-top: 1px solid #ddd;
-      text-align: center;
-      color: #666;
-      font-size: 12px;
-    }
-    
-    .no-data {
-      text-align: center;
-      padding: 40px;
-      color: #666;
-      font-style: italic;
+    return `${fitted}...`;
+  }
+
+  private static formatPdfDateTime(isoString: string, timezone: string): string {
+    return new Date(isoString).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short', timeZone: timezone });
+  }
+
+  /**
+   * Título del reporte y datos de generación en la primera página
+   */
+  private static drawPdfTitle(doc: jsPDF, exportData: ExportData, timezone: string): number {
+    const { metadata } = exportData;
+    let y = this.getPdfContentTop() + 4;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor(...PDF_COLORS.text);
+    doc.text(metadata.reportTitle, PDF_PAGE.margin, y);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...PDF_COLORS.muted);
+    y += 6;
+    doc.text(`Período: ${metadata.period}`, PDF_PAGE.margin, y);
+    y += 4.5;
+    doc.text(`Generado: ${this.formatPdfDateTime(metadata.generatedAt, timezone)} por ${metadata.generatedBy}`, PDF_PAGE.margin, y);
+
+    return y + 8;
+  }
+
+  private static drawPdfSectionTitle(doc: jsPDF, title: string, y: number): number {
+    y = this.ensurePdfSpace(doc, y, 12);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...PDF_COLORS.text);
+    doc.text(title, PDF_PAGE.margin, y + 4);
+
+    doc.setDrawColor(...PDF_COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.line(PDF_PAGE.margin, y + 6, PDF_PAGE.margin + this.getPdfContentWidth(doc), y + 6);
+
+    return y + 9;
+  }
+
+  /**
+   * Estadísticas del período en una cuadrícula de 3 columnas
+   */
+  private static drawPdfStats(doc: jsPDF, stats: ReportStats, y: number): number {
+    const items: [string, string][] = [
+      ['Total Empleados', String(stats.totalEmployees)],
+      ['Días Presentes', String(stats.presentDays)],
+      ['Registros Incompletos', String(stats.incompleteDays)],
+      ['Días Ausentes', String(stats.absentDays)],
+      ['Días de Permiso', String(stats.leaveDays)],
+      ['Tasa de Asistencia', `${stats.attendanceRate.toFixed(1)}%`],
+      ['Tasa de Puntualidad', `${stats.punctualityRate.toFixed(1)}%`],
+      ['Horas Totales', `${stats.totalHours.toFixed(1)}h`],
+      ['Promedio por Día', `${stats.averageHours.toFixed(1)}h`]
+    ];
+
+    const columns = 3;
+    const gap = 4;
+    const boxHeight = 14;
+    const boxWidth = (this.getPdfContentWidth(doc) - gap * (columns - 1)) / columns;
+
+    y = this.drawPdfSectionTitle(doc, 'Estadísticas del Período', y);
+    y = this.ensurePdfSpace(doc, y, Math.ceil(items.length / columns) * (boxHeight + gap));
+
+    items.forEach(([label, value], index) => {
+      const x = PDF_PAGE.margin + (index % columns) * (boxWidth + gap);
+      const boxY = y + Math.floor(index / columns) * (boxHeight + gap);
+
+      doc.setFillColor(...PDF_COLORS.panel);
+      doc.rect(x, boxY, boxWidth, boxHeight, 'F');
+      doc.setFillColor(...PDF_COLORS.brand);
+      doc.rect(x, boxY, 1, boxHeight, 'F');
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(13);
+      doc.setTextColor(...PDF_COLORS.text);
+      doc.text(value, x + 4, boxY + 6.5);
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...PDF_COLORS.muted);
+      doc.text(label, x + 4, boxY + 11);
+    });
+
+    return y + Math.ceil(items.length / columns) * (boxHeight + gap) + 2;
+  }
+
+  /**
+   * Filtros aplicados al reporte
+   */
+  private static drawPdfFilters(doc: jsPDF, filters: ReportFilters, y: number): number {
+    const items: [string, string][] = [
+      ['Fecha Inicio', formatDateKey(filters.startDate, 'es-ES')],
+      ['Fecha Fin', formatDateKey(filters.endDate, 'es-ES')],
+      ['Tipo de Reporte', this.getReportTypeLabel(filters.reportType)],
+      ['Estado', filters.status ? this.getStatusLabel(filters.status) : 'Todos']
+    ];
+
+    y = this.drawPdfSectionTitle(doc, 'Filtros Aplicados', y);
+    y = this.ensurePdfSpace(doc, y, 10);
+
+    const itemWidth = this.getPdfContentWidth(doc) / items.length;
+    items.forEach(([label, value], index) => {
+      const x = PDF_PAGE.margin + index * itemWidth;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...PDF_COLORS.muted);
+      doc.text(label, x, y + 3);
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(9);
+      doc.setTextColor(...PDF_COLORS.text);
+      doc.text(this.fitPdfText(doc, value, itemWidth - 2), x, y + 7.5);
+    });
+
+    return y + 14;
+  }
+
+  /**
+   * Tabla de registros; el encabezado se repite en cada página
+   */
+  private static drawPdfAttendanceTable(
+    doc: jsPDF,
+    data: AttendanceRecord[],
+    timezone: string,
+    y: number
+  ): number {
+    if (data.length === 0) {
+      return this.drawPdfEmptyNote(doc, y);
     }
-    
-    @media print {
-      .header {
-        page-break-inside: avoid;
+
+    const columns: PdfColumn[] = [
+      { header: 'Fecha', width: 20 },
+      { header: 'Código', width: 18 },
+      { header: 'Empleado', width: 42 },
+      { header: 'Departamento', width: 32 },
+      { header: 'Entrada', width: 15, align: 'center' },
+      { header: 'Salida', width: 15, align: 'center' },
+      { header: 'Horas', width: 14, align: 'right' },
+      { header: 'Estado', width: 26 }
+    ];
+
+    const rows = data.map(record => [
+      formatDateKey(record.attendance_date, 'es-ES'),
+      record.employee_code || '',
+      record.employee_name,
+      record.department_name || 'Sin Depto.',
+      record.clock_in ? getTimeInTimezone(record.clock_in, timezone) : '-',
+      record.clock_out ? getTimeInTimezone(record.clock_out, timezone) : '-',
+      record.total_hours ? `${record.total_hours.toFixed(1)}h` : '-',
+      this.getStatusLabel(record.status)
+    ]);
+
+    return this.drawPdfTable(doc, columns, rows, y, (rowIndex, columnIndex) =>
+      columnIndex === columns.length - 1 ? this.getStatusColor(data[rowIndex].status) : null
+    );
+  }
+
+  /**
+   * Tabla genérica con filas alternas y encabezado repetido al saltar de página
+   * getCellColor permite destacar celdas (p. ej. el estado)
+   */
+  private static drawPdfTable(
+    doc: jsPDF,
+    columns: PdfColumn[],
+    rows: string[][],
+    y: number,
+    getCellColor: (rowIndex: number, columnIndex: number) => RGB | null = () => null
+  ): number {
+    const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+    const drawCells = (cells: string[], rowY: number, getColor: (columnIndex: number) => RGB) => {
+      let x = PDF_PAGE.margin;
+      cells.forEach((cell, columnIndex) => {
+        const column = columns[columnIndex];
+        doc.setTextColor(...getColor(columnIndex));
+        const text = this.fitPdfText(doc, cell, column.width - PDF_PAGE.cellPadding * 2);
+        const textX = column.align === 'right'
+          ? x + column.width - PDF_PAGE.cellPadding
+          : column.align === 'center'
+            ? x + column.width / 2
+            : x + PDF_PAGE.cellPadding;
+
+        doc.text(text, textX, rowY + PDF_PAGE.rowHeight - 2.2, { align: column.align || 'left' });
+        x += column.width;
+      });
+    };
+
+    const drawHeader = (headerY: number) => {
+      doc.setFillColor(...PDF_COLORS.brand);
+      doc.rect(PDF_PAGE.margin, headerY, tableWidth, PDF_PAGE.rowHeight, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(8.5);
+      drawCells(columns.map(column => column.header), headerY, () => [255, 255, 255]);
+      return headerY + PDF_PAGE.rowHeight;
+    };
+
+    y = drawHeader(this.ensurePdfSpace(doc, y, PDF_PAGE.rowHeight * 2));
+
+    rows.forEach((cells, rowIndex) => {
+      if (y + PDF_PAGE.rowHeight > this.getPdfContentBottom(doc)) {
+        doc.addPage();
+        y = drawHeader(this.getPdfContentTop());
       }
-      
-      .stats-section,
-      .filters-section,
-      .data-section {
-        page-break-inside: avoid;
-        box-shadow: none;
-        border: 1px solid #ddd;
+
+      if (rowIndex % 2 === 1) {
+        doc.setFillColor(...PDF_COLORS.stripe);
+        doc.rect(PDF_PAGE.margin, y, tableWidth, PDF_PAGE.rowHeight, 'F');
       }
-    }
-    `;
+      doc.setDrawColor(...PDF_COLORS.border);
+      doc.setLineWidth(0.1);
+      doc.line(PDF_PAGE.margin, y + PDF_PAGE.rowHeight, PDF_PAGE.margin + tableWidth, y + PDF_PAGE.rowHeight);
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      drawCells(cells, y, columnIndex => getCellColor(rowIndex, columnIndex) || PDF_COLORS.text);
+
+      y += PDF_PAGE.rowHeight;
+    });
+
+    return y + 4;
+  }
+
+  private static drawPdfEmptyNote(doc: jsPDF, y: number): number {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(9);
+    doc.setTextColor(...PDF_COLORS.muted);
+    doc.text('No hay registros para mostrar en el período seleccionado.', PDF_PAGE.margin, y + 5);
+    return y + 10;
   }
 
   /**
-   * CSS para plantilla simple
+   * Plantilla detallada: una sección por empleado con sus totales y sus registros
    */
-  private static getSimpleCSS(): string {
-    return `
-    body {
-      font-family: Arial, sans-serif;
-      margin: 20px;
-      line-height: 1.6;
+  private static drawPdfEmployeeSections(
+    doc: jsPDF,
+    data: AttendanceRecord[],
+    timezone: string,
+    y: number
+  ): number {
+    y = this.drawPdfSectionTitle(doc, 'Detalle por Empleado', y);
+    if (data.length === 0) {
+      return this.drawPdfEmptyNote(doc, y);
     }
-    
-    h1 {
-      color: #333;
-      border-bottom: 2px solid #EC5971;
-      padding-bottom: 10px;
+
+    const columns: PdfColumn[] = [
+      { header: 'Fecha', width: 34 },
+      { header: 'Entrada', width: 30, align: 'center' },
+      { header: 'Salida', width: 30, align: 'center' },
+      { header: 'Horas', width: 28, align: 'right' },
+      { header: 'Estado', width: 60 }
+    ];
+
+    groupByEmployee(data).forEach(group => {
+      // El encabezado de la sección no se separa de sus primeras filas
+      y = this.ensurePdfSpace(doc, y, 22 + PDF_PAGE.rowHeight * 3);
+      y = this.drawPdfEmployeeHeader(doc, group, y);
+
+      const records = [...group.records].sort((a, b) => a.attendance_date.localeCompare(b.attendance_date));
+      const rows = records.map(record => [
+        formatDateKey(record.attendance_date, 'es-ES'),
+        record.clock_in ? getTimeInTimezone(record.clock_in, timezone) : '-',
+        record.clock_out ? getTimeInTimezone(record.clock_out, timezone) : '-',
+        record.total_hours ? `${record.total_hours.toFixed(1)}h` : '-',
+        this.getStatusLabel(record.status)
+      ]);
+
+      y = this.drawPdfTable(doc, columns, rows, y, (rowIndex, columnIndex) =>
+        columnIndex === columns.length - 1 ? this.getStatusColor(records[rowIndex].status) : null
+      ) + 2;
+    });
+
+    return y;
+  }
+
+  /**
+   * Nombre, código, departamento y totales de un empleado
+   */
+  private static drawPdfEmployeeHeader(doc: jsPDF, group: EmployeeAttendanceGroup, y: number): number {
+    const { totals } = group;
+    const width = this.getPdfContentWidth(doc);
+    const right = PDF_PAGE.margin + width - 3;
+
+    doc.setFillColor(...PDF_COLORS.panel);
+    doc.rect(PDF_PAGE.margin, y, width, 12, 'F');
+    doc.setFillColor(...PDF_COLORS.brand);
+    doc.rect(PDF_PAGE.margin, y, 1, 12, 'F');
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(...PDF_COLORS.text);
+    doc.text(this.fitPdfText(doc, group.employee_name, width - 70), PDF_PAGE.margin + 4, y + 5);
+    doc.setFontSize(8.5);
+    doc.text(
+      `Asistencia ${getAttendanceRate(totals).toFixed(1)}% · Puntualidad ${getPunctualityRate(totals).toFixed(1)}%`,
+      right,
+      y + 5,
+      { align: 'right' }
+    );
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...PDF_COLORS.muted);
+    doc.text([group.employee_code, group.department_name].filter(Boolean).join(' · '), PDF_PAGE.margin + 4, y + 9.5);
+
+    const averageHours = totals.present > 0 ? totals.hours / totals.present : 0;
+    doc.text(
+      [
+        `Registros: ${totals.records}`,
+        `Presentes: ${totals.present}`,
+        `Ausencias: ${totals.absent}`,
+        `Permisos: ${totals.leave}`,
+        `Tardanzas: ${totals.late}`,
+        `Incompletos: ${totals.incomplete}`,
+        `Horas: ${totals.hours.toFixed(1)}h (${averageHours.toFixed(1)}h/día)`
+      ].join('   '),
+      PDF_PAGE.margin + 4,
+      y + 16.5
+    );
+
+    return y + 19;
+  }
+
+  // =============================================
+  // GRÁFICOS DEL PDF
+  // =============================================
+
+  /**
+   * Gráficos del período en una cuadrícula de 2x2: las mismas vistas de
+   * DashboardCharts y AdvancedAnalytics, dibujadas con primitivas de jsPDF
+   * (vectoriales y sin canvas, así que también se generan en el servidor)
+   */
+  private static drawPdfCharts(doc: jsPDF, data: AttendanceRecord[], y: number): number {
+    if (data.length === 0) return y;
+
+    const gap = 6;
+    const chartHeight = 72;
+    const chartWidth = (this.getPdfContentWidth(doc) - gap) / 2;
+    const charts: ((x: number, chartY: number) => void)[] = [
+      (x, chartY) => this.drawPdfTrendChart(doc, getDailyTrend(data), x, chartY, chartWidth, chartHeight),
+      (x, chartY) => this.drawPdfStatusChart(doc, getStatusDistribution(data), data.length, x, chartY, chartWidth, chartHeight),
+      (x, chartY) => this.drawPdfDepartmentChart(doc, groupByDepartment(data), x, chartY, chartWidth, chartHeight),
+      (x, chartY) => this.drawPdfPunctualityChart(doc, getPunctualityHistogram(data), x, chartY, chartWidth, chartHeight)
+    ];
+
+    // El título va en la misma página que la primera fila de gráficos
+    y = this.drawPdfSectionTitle(doc, 'Gráficos del Período', this.ensurePdfSpace(doc, y, 12 + chartHeight));
+
+    for (let index = 0; index < charts.length; index += 2) {
+      y = this.ensurePdfSpace(doc, y, chartHeight);
+      charts.slice(index, index + 2).forEach((draw, column) => {
+        draw(PDF_PAGE.margin + column * (chartWidth + gap), y);
+      });
+      y += chartHeight + gap;
     }
-    
-    table {
-      width: 100%;
-      border-collapse: collapse;
-      margin: 20px 0;
+
+    return y;
+  }
+
+  /**
+   * Fondo, título y leyenda de un gráfico; devuelve el área libre para dibujarlo
+   */
+  private static drawPdfChartFrame(
+    doc: jsPDF,
+    title: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    legend: [string, RGB][] = []
+  ): PdfChartArea {
+    doc.setFillColor(...PDF_COLORS.panel);
+    doc.rect(x, y, width, height, 'F');
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...PDF_COLORS.text);
+    doc.text(title, x + 3, y + 5.5);
+
+    let top = y + 9;
+    if (legend.length > 0) {
+      let legendX = x + 3;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7);
+      doc.setTextColor(...PDF_COLORS.muted);
+      legend.forEach(([label, color]) => {
+        doc.setFillColor(...color);
+        doc.rect(legendX, top - 2.2, 2.5, 2.5, 'F');
+        doc.text(label, legendX + 3.5, top);
+        legendX += 3.5 + doc.getTextWidth(label) + 4;
+      });
+      top += 4;
     }
-    
-    th, td {
-      padding: 8px 12px;
-      border: 1px solid #ddd;
-      text-align: left;
+
+    return { x: x + 3, y: top, width: width - 6, height: y + height - 3 - top };
+  }
+
+  /**
+   * Líneas guía y etiquetas del eje vertical (de 0 a `max` en 4 tramos)
+   * Devuelve el área de trazado, con espacio abajo para las etiquetas del eje horizontal
+   */
+  private static drawPdfValueAxis(
+    doc: jsPDF,
+    area: PdfChartArea,
+    max: number,
+    formatLabel: (value: number) => string
+  ): PdfChartArea {
+    const labelWidth = 8;
+    const plot = { x: area.x + labelWidth, y: area.y + 1, width: area.width - labelWidth, height: area.height - 6 };
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(6.5);
+    doc.setTextColor(...PDF_COLORS.muted);
+    doc.setDrawColor(...PDF_COLORS.border);
+    doc.setLineWidth(0.1);
+
+    for (let tick = 0; tick <= 4; tick++) {
+      const tickY = plot.y + plot.height - (plot.height * tick) / 4;
+      doc.line(plot.x, tickY, plot.x + plot.width, tickY);
+      doc.text(formatLabel((max / 4) * tick), plot.x - 1.5, tickY + 1, { align: 'right' });
     }
-    
-    th {
-      background: #f5f5f5;
-      font-weight: bold;
+
+    return plot;
+  }
+
+  /**
+   * Máximo del eje para conteos: múltiplo de 4 para que las guías sean enteras
+   */
+  private static getPdfCountAxisMax(value: number): number {
+    return Math.max(4, Math.ceil(value / 4) * 4);
+  }
+
+  /**
+   * Tendencia diaria: columnas apiladas de entradas a tiempo, tardanzas y ausencias
+   */
+  private static drawPdfTrendChart(
+    doc: jsPDF,
+    points: DailyTrendPoint[],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const area = this.drawPdfChartFrame(doc, 'Tendencia diaria de asistencia', x, y, width, height, [
+      ['A tiempo', PDF_CHART_COLORS.onTime],
+      ['Tardanzas', PDF_CHART_COLORS.late],
+      ['Ausencias', PDF_CHART_COLORS.absent]
+    ]);
+
+    const max = this.getPdfCountAxisMax(Math.max(...points.map(point => point.onTime + point.late + point.absent)));
+    const plot = this.drawPdfValueAxis(doc, area, max, value => String(value));
+    const bottom = plot.y + plot.height;
+    const slot = plot.width / points.length;
+    const barWidth = slot * 0.7;
+    // Como mucho 7 fechas en el eje para que no se solapen
+    const labelStep = Math.ceil(points.length / 7);
+
+    points.forEach((point, index) => {
+      const barX = plot.x + index * slot + (slot - barWidth) / 2;
+      let barTop = bottom;
+
+      const segments: [number, RGB][] = [
+        [point.onTime, PDF_CHART_COLORS.onTime],
+        [point.late, PDF_CHART_COLORS.late],
+        [point.absent, PDF_CHART_COLORS.absent]
+      ];
+      segments.forEach(([value, color]) => {
+        if (value === 0) return;
+        const segmentHeight = (value / max) * plot.height;
+        barTop -= segmentHeight;
+        doc.setFillColor(...color);
+        doc.rect(barX, barTop, barWidth, segmentHeight, 'F');
+      });
+
+      if (index % labelStep === 0) {
+        const [, month, day] = point.date.split('-');
+        doc.text(`${day}/${month}`, barX + barWidth / 2, bottom + 3.5, { align: 'center' });
+      }
+    });
+  }
+
+  /**
+   * Distribución por estado: barras horizontales con número y porcentaje de registros
+   */
+  private static drawPdfStatusChart(
+    doc: jsPDF,
+    distribution: { status: string; count: number }[],
+    total: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const area = this.drawPdfChartFrame(doc, 'Distribución por estado', x, y, width, height);
+    const labelWidth = 26;
+    const barMaxWidth = area.width - labelWidth - 16;
+    const rowHeight = Math.min(7, area.height / distribution.length);
+    const max = Math.max(...distribution.map(item => item.count));
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+
+    distribution.forEach((item, index) => {
+      const rowY = area.y + index * rowHeight;
+      const textY = rowY + rowHeight / 2 + 1;
+      const barWidth = Math.max(0.5, (item.count / max) * barMaxWidth);
+
+      doc.setTextColor(...PDF_COLORS.text);
+      doc.text(this.fitPdfText(doc, this.getStatusLabel(item.status), labelWidth - 2), area.x, textY);
+
+      doc.setFillColor(...this.getStatusColor(item.status));
+      doc.rect(area.x + labelWidth, rowY + rowHeight * 0.2, barWidth, rowHeight * 0.6, 'F');
+
+      doc.setTextColor(...PDF_COLORS.muted);
+      doc.text(`${item.count} (${((item.count / total) * 100).toFixed(0)}%)`, area.x + labelWidth + barWidth + 1.5, textY);
+    });
+  }
+
+  /**
+   * Comparación por departamento: tasas de asistencia y de puntualidad (0-100%)
+   */
+  private static drawPdfDepartmentChart(
+    doc: jsPDF,
+    departments: DepartmentAttendanceGroup[],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const area = this.drawPdfChartFrame(doc, 'Comparación por departamento', x, y, width, height, [
+      ['Asistencia', PDF_CHART_COLORS.attendance],
+      ['Puntualidad', PDF_CHART_COLORS.onTime]
+    ]);
+
+    const shown = [...departments]
+      .sort((a, b) => b.totals.records - a.totals.records)
+      .slice(0, PDF_CHART_MAX_DEPARTMENTS);
+    const hidden = departments.length - shown.length;
+    const labelWidth = 26;
+    const barMaxWidth = area.width - labelWidth - 10;
+    const rowHeight = Math.min(9, (area.height - (hidden > 0 ? 4 : 0)) / shown.length);
+    const barHeight = rowHeight * 0.32;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+
+    shown.forEach((department, index) => {
+      const rowY = area.y + index * rowHeight;
+      const rates: [number, RGB][] = [
+        [getAttendanceRate(department.totals), PDF_CHART_COLORS.attendance],
+        [getPunctualityRate(department.totals), PDF_CHART_COLORS.onTime]
+      ];
+
+      doc.setFontSize(7);
+      doc.setTextColor(...PDF_COLORS.text);
+      doc.text(this.fitPdfText(doc, department.department_name, labelWidth - 2), area.x, rowY + rowHeight / 2 + 1);
+
+      doc.setFontSize(6);
+      doc.setTextColor(...PDF_COLORS.muted);
+      rates.forEach(([rate, color], barIndex) => {
+        const barY = rowY + rowHeight * 0.15 + barIndex * (barHeight + rowHeight * 0.06);
+        const barWidth = Math.max(0.5, (rate / 100) * barMaxWidth);
+        doc.setFillColor(...color);
+        doc.rect(area.x + labelWidth, barY, barWidth, barHeight, 'F');
+        doc.text(`${rate.toFixed(0)}%`, area.x + labelWidth + barWidth + 1.2, barY + barHeight - 0.3);
+      });
+    });
+
+    if (hidden > 0) {
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(6.5);
+      doc.text(`y ${hidden} departamento(s) más`, area.x, area.y + area.height - 0.5);
     }
-    
-    tr:nth-child(even) {
-      background: #f9f9f9;
+  }
+
+  /**
+   * Histograma de puntualidad: empleados por tramo de entradas a tiempo
+   */
+  private static drawPdfPunctualityChart(
+    doc: jsPDF,
+    bins: ChartBar[],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const area = this.drawPdfChartFrame(doc, 'Histograma de puntualidad (empleados)', x, y, width, height);
+    const max = this.getPdfCountAxisMax(Math.max(...bins.map(bin => bin.value)));
+    const plot = this.drawPdfValueAxis(doc, area, max, value => String(value));
+    const bottom = plot.y + plot.height;
+    const slot = plot.width / bins.length;
+    const barWidth = slot * 0.8;
+
+    bins.forEach((bin, index) => {
+      const barX = plot.x + index * slot + (slot - barWidth) / 2;
+      const barHeight = (bin.value / max) * plot.height;
+
+      if (bin.value > 0) {
+        doc.setFillColor(...PDF_CHART_COLORS.attendance);
+        doc.rect(barX, bottom - barHeight, barWidth, barHeight, 'F');
+        doc.text(String(bin.value), barX + barWidth / 2, bottom - barHeight - 1, { align: 'center' });
+      }
+      doc.text(bin.label, barX + barWidth / 2, bottom + 3.5, { align: 'center' });
+    });
+  }
+
+  /**
+   * Encabezado (marca de la organización y título) y pie (numeración) de cada página
+   */
+  private static drawPdfPageFrames(
+    doc: jsPDF,
+    exportData: ExportData,
+    options: ExportOptions,
+    timezone: string
+  ): void {
+    const orgInfo = options.organizationInfo;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const right = pageWidth - PDF_PAGE.margin;
+    const accent = options.template === 'simple' ? PDF_COLORS.muted : PDF_COLORS.brand;
+    const totalPages = doc.getNumberOfPages();
+
+    for (let page = 1; page <= totalPages; page++) {
+      doc.setPage(page);
+
+      // Encabezado
+      let textX = PDF_PAGE.margin;
+      if (orgInfo?.logo?.startsWith('data:image/')) {
+        try {
+          const format = orgInfo.logo.slice('data:image/'.length, orgInfo.logo.indexOf(';')).toUpperCase();
+          doc.addImage(orgInfo.logo, format, PDF_PAGE.margin, PDF_PAGE.margin, 12, 12);
+          textX += 15;
+        } catch (error) {
+          console.error('Logo no válido para el PDF:', error);
+        }
+      }
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(...accent);
+      doc.text(orgInfo?.name || 'Sistema de Asistencia', textX, PDF_PAGE.margin + 4);
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7.5);
+      doc.setTextColor(...PDF_COLORS.muted);
+      const contact = [orgInfo?.address, orgInfo?.phone ? `Tel: ${orgInfo.phone}` : null].filter(Boolean).join(' · ');
+      if (contact) doc.text(contact, textX, PDF_PAGE.margin + 8.5);
+
+      doc.setFontSize(8);
+      doc.text(this.fitPdfText(doc, exportData.metadata.reportTitle, 80), right, PDF_PAGE.margin + 4, { align: 'right' });
+      doc.text(exportData.metadata.period, right, PDF_PAGE.margin + 8.5, { align: 'right' });
+
+      doc.setDrawColor(...accent);
+      doc.setLineWidth(0.6);
+      doc.line(PDF_PAGE.margin, PDF_PAGE.margin + 13, right, PDF_PAGE.margin + 13);
+
+      // Pie
+      const footerY = pageHeight - PDF_PAGE.margin;
+      doc.setDrawColor(...PDF_COLORS.border);
+      doc.setLineWidth(0.2);
+      doc.line(PDF_PAGE.margin, footerY - 5, right, footerY - 5);
+
+      doc.setFontSize(7.5);
+      doc.setTextColor(...PDF_COLORS.muted);
+      doc.text(
+        `Generado automáticamente por el Sistema de Asistencia Educa-Crea · ${this.formatPdfDateTime(exportData.metadata.generatedAt, timezone)}`,
+        PDF_PAGE.margin,
+        footerY
+      );
+      doc.text(`Página ${page} de ${totalPages}`, right, footerY, { align: 'right' });
     }
-    `;
   }
 
+  // =============================================
+  // EXCEL
+  // =============================================
+
   /**
-   * Convertir HTML a PDF (placeholder para implementación)
+   * Generar el libro Excel (.xlsx) del reporte (sin DOM: válido en navegador y servidor)
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private static async convertHTMLToPDF(htmlContent: string, _filename: string): Promise<void> {
-    // Por ahora, abrimos el HTML en una nueva ventana para impresión
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(htmlContent);
-      printWindow.document.close();
-      
-      // Esperar a que cargue y luego abrir diálogo de impresión
-      printWindow.onload = () => {
-        setTimeout(() => {
-          printWindow.print();
-        }, 500);
-      };
+  static createExcelFile(exportData: ExportData): Uint8Array {
+    const workbook = this.buildWorkbook(exportData);
+    const workbookData: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array', compression: true });
+    return freezeHeaderRows(workbookData);
+  }
+
+  /**
+   * Construir el libro con sus cuatro hojas
+   */
+  private static buildWorkbook(exportData: ExportData): XLSX.WorkBook {
+    const timezone = resolveTimezone(exportData.metadata.timezone);
+    const workbook = XLSX.utils.book_new();
+
+    XLSX.utils.book_append_sheet(workbook, this.buildSummarySheet(exportData, timezone), 'Resumen');
+    XLSX.utils.book_append_sheet(workbook, this.buildDetailSheet(exportData.data, timezone), 'Detalle');
+    XLSX.utils.book_append_sheet(workbook, this.buildEmployeeSheet(exportData.data), 'Por Empleado');
+    XLSX.utils.book_append_sheet(workbook, this.buildDepartmentSheet(exportData.data), 'Por Departamento');
+
+    workbook.Props = {
+      Title: exportData.metadata.reportTitle,
+      Author: exportData.metadata.generatedBy,
+      CreatedDate: new Date(exportData.metadata.generatedAt)
+    };
+
+    return workbook;
+  }
+
+  /**
+   * Hoja Resumen: datos del reporte y ReportStats
+   */
+  private static buildSummarySheet(exportData: ExportData, timezone: string): XLSX.WorkSheet {
+    const { data, stats, filters, metadata } = exportData;
+
+    const rows: [string, CellValue, ExcelFormat?][] = [
+      ['Reporte', metadata.reportTitle],
+      ['Tipo de reporte', this.getReportTypeLabel(filters.reportType)],
+      ['Período', metadata.period],
+      ['Fecha inicio', dateKeyToExcelSerial(filters.startDate), 'date'],
+      ['Fecha fin', dateKeyToExcelSerial(filters.endDate), 'date'],
+      ['Estado', filters.status ? this.getStatusLabel(filters.status) : 'Todos'],
+      ['Generado', instantToExcelSerial(metadata.generatedAt, timezone), 'dateTime'],
+      ['Generado por', metadata.generatedBy],
+      ['Zona horaria', timezone],
+      ['Total registros', data.length, 'integer']
+    ];
+
+    if (stats) {
+      rows.push(
+        ['Total empleados', stats.totalEmployees, 'integer'],
+        ['Total asistencias', stats.totalAttendances, 'integer'],
+        ['Días presentes', stats.presentDays, 'integer'],
+        ['Días ausentes', stats.absentDays, 'integer'],
+        ['Días de permiso', stats.leaveDays, 'integer'],
+        ['Registros incompletos', stats.incompleteDays, 'integer'],
+        ['Tasa de asistencia', stats.attendanceRate / 100, 'percent'],
+        ['Tasa de puntualidad', stats.punctualityRate / 100, 'percent'],
+        ['Horas totales', stats.totalHours, 'hours'],
+        ['Horas extra', stats.overtimeHours, 'hours'],
+        ['Promedio de horas por día', stats.averageHours, 'hours']
+      );
     }
+
+    const sheet = this.buildSheet(
+      [{ header: 'Indicador', width: 28 }, { header: 'Valor', width: 36 }],
+      rows.map(([label, value]) => [label, value])
+    );
+
+    // El formato depende de la fila, no de la columna
+    rows.forEach(([, value, format], index) => {
+      if (format && typeof value === 'number') {
+        this.setCellFormat(sheet, XLSX.utils.encode_cell({ r: index + 1, c: 1 }), format);
+      }
+    });
+
+    return sheet;
   }
 
   /**
-   * Generar archivo Excel (placeholder para implementación)
+   * Hoja Detalle: un registro de asistencia por fila
    */
-  private static async generateExcelFile(
-    exportData: ExportData
-  ): Promise<void> {
-    // Por ahora, generamos CSV
-    const csvContent = this.generateCSVContent(exportData.data);
-    this.downloadCSV(csvContent, `${exportData.metadata.reportTitle}.csv`);
+  private static buildDetailSheet(data: AttendanceRecord[], timezone: string): XLSX.WorkSheet {
+    return this.buildSheet(
+      [
+        { header: 'Fecha', width: 12, format: 'date' },
+        { header: 'Código', width: 12 },
+        { header: 'Empleado', width: 30 },
+        { header: 'Departamento', width: 22 },
+        { header: 'Entrada', width: 10, format: 'time' },
+        { header: 'Salida', width: 10, format: 'time' },
+        { header: 'Horas', width: 10, format: 'hours' },
+        { header: 'Estado', width: 18 }
+      ],
+      data.map(record => [
+        dateKeyToExcelSerial(record.attendance_date),
+        record.employee_code || '',
+        record.employee_name,
+        record.department_name || 'Sin Departamento',
+        // Fecha y hora completas: Salida - Entrada funciona aunque el turno cruce la medianoche
+        record.clock_in ? instantToExcelSerial(record.clock_in, timezone) : null,
+        record.clock_out ? instantToExcelSerial(record.clock_out, timezone) : null,
+        record.total_hours || 0,
+        this.getStatusLabel(record.status)
+      ])
+    );
   }
 
   /**
-   * Generar contenido CSV
+   * Hoja Por Empleado: totales de cada empleado en el período
    */
-  private static generateCSVContent(data: AttendanceRecord[]): string {
-    const headers = ['Fecha', 'Empleado', 'Código', 'Departamento', 'Entrada', 'Salida', 'Horas', 'Estado'];
-    
-    const rows = data.map(record => [
-      record.attendance_date,
-      record.employee_name,
-      record.employee_code || '',
-      record.department_name || '',
-      record.clock_in || '',
-      record.clock_out || '',
-      record.total_hours?.toString() || '',
-      record.status
+  private static buildEmployeeSheet(data: AttendanceRecord[]): XLSX.WorkSheet {
+    const rows = groupByEmployee(data).map(group => [
+      group.employee_code,
+      group.employee_name,
+      group.department_name,
+      ...this.totalsToCells(group.totals)
     ]);
 
-    const csvContent = [headers, ...rows]
-      .map(row => row.map(cell => `"${cell}"`).join(','))
-      .join('\n');
+    return this.buildSheet(
+      [
+        { header: 'Código', width: 12 },
+        { header: 'Empleado', width: 30 },
+        { header: 'Departamento', width: 22 },
+        ...this.totalsColumns()
+      ],
+      rows
+    );
+  }
+
+  /**
+   * Hoja Por Departamento: totales y número de empleados de cada departamento
+   */
+  private static buildDepartmentSheet(data: AttendanceRecord[]): XLSX.WorkSheet {
+    const rows = groupByDepartment(data).map(group => [
+      group.department_name,
+      group.employees,
+      ...this.totalsToCells(group.totals)
+    ]);
+
+    return this.buildSheet(
+      [
+        { header: 'Departamento', width: 24 },
+        { header: 'Empleados', width: 11, format: 'integer' },
+        ...this.totalsColumns()
+      ],
+      rows
+    );
+  }
+
+  private static totalsColumns(): SheetColumn[] {
+    return [
+      { header: 'Registros', width: 11, format: 'integer' },
+      { header: 'Presentes', width: 11, format: 'integer' },
+      { header: 'Ausencias', width: 11, format: 'integer' },
+      { header: 'Permisos', width: 11, format: 'integer' },
+      { header: 'Incompletos', width: 12, format: 'integer' },
+      { header: 'Tardanzas', width: 11, format: 'integer' },
+      { header: 'Horas totales', width: 14, format: 'hours' },
+      { header: 'Promedio horas/día', width: 18, format: 'hours' },
+      { header: 'Tasa de asistencia', width: 18, format: 'percent' }
+    ];
+  }
+
+  private static totalsToCells(totals: AttendanceTotals): number[] {
+    return [
+      totals.records,
+      totals.present,
+      totals.absent,
+      totals.leave,
+      totals.incomplete,
+      totals.late,
+      totals.hours,
+      totals.present > 0 ? totals.hours / totals.present : 0,
+      getAttendanceRate(totals) / 100
+    ];
+  }
 
-    return csvContent;
+  /**
+   * Hoja con encabezados, anchos, filtro y formato por columna
+   * Las celdas vacías (null) se dejan en blanco
+   */
+  private static buildSheet(columns: SheetColumn[], rows: CellValue[][]): XLSX.WorkSheet {
+    const sheet = XLSX.utils.aoa_to_sheet([columns.map(column => column.header), ...rows]);
+
+    sheet['!cols'] = columns.map(column => ({ wch: column.width }));
+    if (rows.length > 0) {
+      sheet['!autofilter'] = {
+        ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: columns.length - 1 } })
+      };
+    }
+
+    columns.forEach((column, columnIndex) => {
+      if (!column.format) return;
+      rows.forEach((_, rowIndex) => {
+        this.setCellFormat(sheet, XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex }), column.format!);
+      });
+    });
+
+    return sheet;
+  }
+
+  private static setCellFormat(sheet: XLSX.WorkSheet, address: string, format: ExcelFormat): void {
+    const cell = sheet[address] as XLSX.CellObject | undefined;
+    if (cell && cell.t === 'n') {
+      cell.z = EXCEL_FORMATS[format];
+    }
   }
 
   /**
-   * Descargar archivo CSV
+   * Descargar un archivo generado en el navegador
    */
-  private static downloadCSV(content: string, filename: string): void {
-    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+  private static downloadFile(blob: Blob, filename: string): void {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     
@@ -684,6 +1214,7 @@ export class ReportExportService {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   }
 
   /**
@@ -706,23 +1237,34 @@ export class ReportExportService {
   private static getStatusLabel(status: string): string {
     const labels: Record<string, string> = {
       'present': 'Presente',
+      'on_time': 'A Tiempo',
       'absent': 'Ausente',
       'incomplete': 'Incompleto',
-      'late': 'Tardío'
+      'late': 'Tardío',
+      'early_departure': 'Salida Temprana',
+      'overtime': 'Tiempo Extra',
+      'vacation': 'Vacaciones',
+      'sick_leave': 'Incapacidad',
+      'leave': 'Vacaciones y Permisos'
     };
     return labels[status] || status;
   }
 
   /**
-   * Obtener clase CSS del estado
+   * Color del estado en el PDF
    */
-  private static getStatusClass(status: string): string {
-    const classes: Record<string, string> = {
-      'present': 'present',
-      'absent': 'absent',
-      'incomplete': 'incomplete',
-      'late': 'late'
+  private static getStatusColor(status: string): RGB {
+    const colors: Record<string, RGB> = {
+      'present': [21, 87, 36],
+      'on_time': [21, 87, 36],
+      'overtime': [21, 87, 36],
+      'absent': [114, 28, 36],
+      'incomplete': [133, 100, 4],
+      'early_departure': [133, 100, 4],
+      'late': [204, 122, 0],
+      'vacation': [30, 64, 175],
+      'sick_leave': [30, 64, 175]
     };
-    return classes[status] || 'present';
+    return colors[status] || PDF_COLORS.text;
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * =============================================
+ * SERVICIO DE FILTROS DE REPORTE GUARDADOS
+ * =============================================
+ *
+ * Descripción: Presets con nombre de los filtros de Reportes Avanzados,
+ * personales o compartidos con la organización (/api/v1/report-presets)
+ */
+
+import { ROUTES } from '@/lib/constants';
+import type { ApiResponse, ReportFilterPreset, ReportFilterPresetScope } from '@/types/database';
+import type { SavedReportFilters } from '@/types/reports.types';
+
+/**
+ * Preset tal como lo expone la API
+ */
+export type ReportFilterPresetSummary = Pick<ReportFilterPreset, 'id' | 'name' | 'scope' | 'filters' | 'created_by' | 'created_at'> & {
+  /** Quien pide puede eliminarlo (propio, o compartido con SETTINGS_EDIT) */
+  can_delete: boolean;
+};
+
+/**
+ * Interface para respuestas de operaciones de presets
+ */
+export interface ReportFilterPresetResponse {
+  success: boolean;
+  message: string;
+  data?: ReportFilterPresetSummary;
+}
+
+/**
+ * Servicio para gestionar filtros de reporte guardados
+ */
+export class ReportPresetService {
+  /**
+   * Presets propios y de la organización
+   */
+  async getPresets(): Promise<ReportFilterPresetSummary[]> {
+    try {
+      const response = await fetch(ROUTES.API.REPORT_PRESETS);
+      const result: ApiResponse<ReportFilterPresetSummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching report presets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Guardar los filtros actuales con un nombre
+   */
+  async createPreset(
+    name: string,
+    scope: ReportFilterPresetScope,
+    filters: SavedReportFilters
+  ): Promise<ReportFilterPresetResponse> {
+    try {
+      const response = await fetch(ROUTES.API.REPORT_PRESETS, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, scope, filters }),
+      });
+      const result: ApiResponse<ReportFilterPresetSummary> = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al guardar el filtro' };
+      }
+
+      return { success: true, message: 'Filtro guardado', data: result.data };
+    } catch (error) {
+      console.error('Error creating report preset:', error);
+      return { success: false, message: 'Error al guardar el filtro' };
+    }
+  }
+
+  /**
+   * Eliminar un preset
+   */
+  async deletePreset(id: string): Promise<ReportFilterPresetResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.REPORT_PRESETS}/${id}`, { method: 'DELETE' });
+      const result: ApiResponse = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al eliminar el filtro guardado' };
+      }
+
+      return { success: true, message: 'Filtro guardado eliminado' };
+    } catch (error) {
+      console.error('Error deleting report preset:', error);
+      return { success: false, message: 'Error al eliminar el filtro guardado' };
+    }
+  }
+}
+
+// Instancia singleton
+export const reportPresetService = new ReportPresetService();
@@ -0,0 +1,248 @@
+/**
+ * =============================================
+ * SERVICIO DE ENVÍO DE REPORTES PROGRAMADOS
+ * =============================================
+ *
+ * Descripción: Genera y entrega los reportes programados cuyo envío venció
+ * - El período (p. ej. "semana pasada") se calcula en la zona de la organización
+ * - El archivo se genera con ReportExportService (PDF o Excel) y se entrega con
+ *   el transporte de la definición (lib/report-delivery)
+ * - Cada ejecución queda en report_runs con su resultado o su error; un fallo
+ *   no se reintenta: el reporte vuelve a salir en su siguiente envío
+ *
+ * USO EXCLUSIVO en backend: recibe un cliente con Service Role Key
+ * (ver /api/jobs/send-scheduled-reports)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { METRICS, REPORT_SCHEDULE_CONFIG } from '@/lib/constants';
+import { REPORT_DELIVERY_TRANSPORTS } from '@/lib/report-delivery';
+import { formatReportSchedulePeriod, getNextReportRunAt, getReportSchedulePeriod } from '@/lib/report-schedules';
+import { resolveTimezone } from '@/lib/timezone';
+import { ReportDataService } from './report-data.service';
+import { ReportExportService, type ExportData, type ExportOptions } from './report-export.service';
+import { WebhookService } from './webhook.service';
+import type { Organization, ReportRun, ReportSchedule } from '@/types/database';
+import type { ReportFilters } from '@/types/reports.types';
+
+/**
+ * Resultado de una ejecución del proceso
+ */
+export interface ScheduledReportsResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Largo máximo del error guardado en el historial
+ */
+const MAX_ERROR_LENGTH = 500;
+
+const FILE_TYPES = {
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  excel: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+} as const;
+
+/**
+ * Nombre de archivo sin acentos ni espacios
+ */
+function toFileSlug(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase() || 'reporte';
+}
+
+/**
+ * Servicio para enviar reportes programados
+ */
+export class ReportScheduleRunnerService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Ejecuta los reportes activos con next_run_at vencido
+   */
+  async runDueSchedules(organizationId?: string): Promise<ScheduledReportsResult> {
+    const now = new Date();
+    const result: ScheduledReportsResult = { processed: 0, succeeded: 0, failed: 0 };
+
+    let query = this.supabase
+      .from('report_schedules')
+      .select('*')
+      .eq('is_active', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at')
+      .limit(REPORT_SCHEDULE_CONFIG.BATCH_SIZE);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const organizations = new Map<string, Pick<Organization, 'name' | 'timezone'>>();
+
+    for (const schedule of (data || []) as ReportSchedule[]) {
+      const organization = organizations.get(schedule.organization_id) ?? await this.getOrganization(schedule.organization_id);
+      organizations.set(schedule.organization_id, organization);
+
+      // Reservar el envío: solo avanza next_run_at quien lo leyó con su valor actual,
+      // así dos ejecuciones simultáneas del proceso no envían el reporte dos veces
+      const timezone = resolveTimezone(organization.timezone);
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('report_schedules')
+        .update({
+          next_run_at: getNextReportRunAt(schedule, timezone, now).toISOString(),
+          last_run_at: now.toISOString(),
+          updated_at: now.toISOString()
+        })
+        .eq('id', schedule.id)
+        .eq('next_run_at', schedule.next_run_at)
+        .select('id')
+        .maybeSingle();
+
+      if (claimError) throw claimError;
+      if (!claimed) continue;
+
+      const run = await this.runSchedule(schedule, organization, 'schedule', now);
+      result.processed++;
+      if (run.status === 'succeeded') result.succeeded++;
+      else result.failed++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Ejecuta un reporte fuera de su calendario (botón "Enviar ahora")
+   * No cambia el próximo envío. Devuelve null si no existe en la organización
+   */
+  async runScheduleNow(scheduleId: string, organizationId: string): Promise<ReportRun | null> {
+    const { data, error } = await this.supabase
+      .from('report_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const organization = await this.getOrganization(organizationId);
+    return this.runSchedule(data as ReportSchedule, organization, 'manual', new Date());
+  }
+
+  private async getOrganization(organizationId: string): Promise<Pick<Organization, 'name' | 'timezone'>> {
+    const { data, error } = await this.supabase
+      .from('organizations')
+      .select('name, timezone')
+      .eq('id', organizationId)
+      .single();
+
+    if (error) throw error;
+    return data as Pick<Organization, 'name' | 'timezone'>;
+  }
+
+  /**
+   * Genera el archivo del período, lo entrega y registra la ejecución
+   */
+  private async runSchedule(
+    schedule: ReportSchedule,
+    organization: Pick<Organization, 'name' | 'timezone'>,
+    trigger: ReportRun['trigger'],
+    now: Date
+  ): Promise<ReportRun> {
+    const timezone = resolveTimezone(organization.timezone);
+    const { startDate, endDate } = getReportSchedulePeriod(schedule.period, timezone, now);
+
+    const { data: run, error: runError } = await this.supabase
+      .from('report_runs')
+      .insert({
+        organization_id: schedule.organization_id,
+        schedule_id: schedule.id,
+        status: 'running',
+        trigger,
+        period_start: startDate,
+        period_end: endDate,
+        started_at: now.toISOString()
+      })
+      .select('*')
+      .single();
+
+    if (runError) throw runError;
+
+    let update: Partial<ReportRun>;
+    try {
+      const filters: ReportFilters = { ...schedule.filters, startDate, endDate, period: 'custom' };
+      const { data, stats } = await new ReportDataService(this.supabase).getReportData(filters, schedule.organization_id);
+
+      const exportData: ExportData = {
+        data,
+        stats: stats ?? undefined,
+        filters,
+        metadata: {
+          generatedAt: now.toISOString(),
+          generatedBy: 'Envío programado',
+          reportTitle: schedule.name,
+          period: formatReportSchedulePeriod(startDate, endDate),
+          timezone
+        }
+      };
+      const options: ExportOptions = {
+        ...schedule.export_options,
+        organizationInfo: { name: organization.name }
+      };
+
+      const fileType = FILE_TYPES[schedule.export_options.format];
+      const content = schedule.export_options.format === 'pdf'
+        ? new Uint8Array(ReportExportService.createPdfFile(exportData, options))
+        : ReportExportService.createExcelFile(exportData);
+      const fileName = `${toFileSlug(schedule.name)}_${startDate}_${endDate}.${fileType.extension}`;
+
+      const deliveryDetail = await REPORT_DELIVERY_TRANSPORTS[schedule.transport].deliver({
+        organizationId: schedule.organization_id,
+        scheduleName: schedule.name,
+        period: { startDate, endDate },
+        recipients: schedule.recipients,
+        fileName,
+        contentType: fileType.contentType,
+        content
+      });
+
+      await new WebhookService(this.supabase).emit(schedule.organization_id, METRICS.EVENTS.REPORT_GENERATED, {
+        report: schedule.filters.reportType,
+        source: 'schedule',
+        schedule_id: schedule.id,
+        format: schedule.export_options.format,
+        date_from: startDate,
+        date_to: endDate,
+        record_count: data.length
+      });
+
+      update = { status: 'succeeded', record_count: data.length, file_name: fileName, delivery_detail: deliveryDetail };
+    } catch (error) {
+      console.error('❌ Error en reporte programado:', schedule.id, error);
+      const message = error instanceof Error ? error.message : 'Error desconocido';
+      update = { status: 'failed', error: message.slice(0, MAX_ERROR_LENGTH) };
+    }
+
+    const finishedAt = new Date().toISOString();
+    const { data: finished, error: finishError } = await this.supabase
+      .from('report_runs')
+      .update({ ...update, finished_at: finishedAt, updated_at: finishedAt })
+      .eq('id', run.id)
+      .select('*')
+      .single();
+
+    if (finishError) {
+      console.error('❌ Error registrando ejecución de reporte:', run.id, finishError.message);
+      return { ...(run as ReportRun), ...update, finished_at: finishedAt };
+    }
+
+    return finished as ReportRun;
+  }
+}
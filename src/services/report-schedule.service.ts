@@ -0,0 +1,173 @@
+/**
+ * =============================================
+ * SERVICIO DE REPORTES PROGRAMADOS
+ * =============================================
+ *
+ * Descripción: Gestión desde la UI de los reportes programados de la
+ * organización y de su historial de envíos (/api/v1/report-schedules)
+ *
+ * El envío lo hace el proceso /api/jobs/send-scheduled-reports
+ * (ver ReportScheduleRunnerService)
+ */
+
+import { ROUTES } from '@/lib/constants';
+import type { ReportScheduleInput } from '@/lib/report-schedules';
+import type { ApiResponse, ReportRun, ReportSchedule } from '@/types/database';
+
+/**
+ * Reporte programado tal como lo expone la API
+ */
+export type ReportScheduleSummary = Omit<ReportSchedule, 'organization_id' | 'created_by' | 'updated_at'>;
+
+/**
+ * Entrada del historial de envíos
+ */
+export type ReportRunSummary = Omit<ReportRun, 'organization_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Datos de un reporte programado
+ */
+export type ReportScheduleFormData = ReportScheduleInput;
+
+/**
+ * Interface para respuestas de operaciones de reportes programados
+ */
+export interface ReportScheduleResponse {
+  success: boolean;
+  message: string;
+  data?: ReportScheduleSummary;
+}
+
+/**
+ * Servicio para gestionar reportes programados
+ */
+export class ReportScheduleService {
+  /**
+   * Obtener los reportes programados de la organización del usuario
+   */
+  async getSchedules(): Promise<ReportScheduleSummary[]> {
+    try {
+      const response = await fetch(ROUTES.API.REPORT_SCHEDULES);
+      const result: ApiResponse<ReportScheduleSummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching report schedules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Crear un reporte programado
+   */
+  async createSchedule(data: ReportScheduleFormData): Promise<ReportScheduleResponse> {
+    try {
+      const response = await fetch(ROUTES.API.REPORT_SCHEDULES, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result: ApiResponse<ReportScheduleSummary> = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al crear el reporte programado' };
+      }
+
+      return { success: true, message: 'Reporte programado creado', data: result.data };
+    } catch (error) {
+      console.error('Error creating report schedule:', error);
+      return { success: false, message: 'Error al crear el reporte programado' };
+    }
+  }
+
+  /**
+   * Actualizar la definición o el estado de un reporte programado
+   */
+  async updateSchedule(
+    id: string,
+    data: Partial<ReportScheduleFormData> & { is_active?: boolean }
+  ): Promise<ReportScheduleResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.REPORT_SCHEDULES}/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result: ApiResponse<ReportScheduleSummary> = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al actualizar el reporte programado' };
+      }
+
+      return { success: true, message: 'Reporte programado actualizado', data: result.data };
+    } catch (error) {
+      console.error('Error updating report schedule:', error);
+      return { success: false, message: 'Error al actualizar el reporte programado' };
+    }
+  }
+
+  /**
+   * Eliminar un reporte programado y su historial
+   */
+  async deleteSchedule(id: string): Promise<ReportScheduleResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.REPORT_SCHEDULES}/${id}`, { method: 'DELETE' });
+      const result: ApiResponse = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al eliminar el reporte programado' };
+      }
+
+      return { success: true, message: 'Reporte programado eliminado' };
+    } catch (error) {
+      console.error('Error deleting report schedule:', error);
+      return { success: false, message: 'Error al eliminar el reporte programado' };
+    }
+  }
+
+  /**
+   * Generar y entregar el reporte ahora; devuelve la ejecución registrada
+   */
+  async runNow(id: string): Promise<{ success: boolean; message: string; run?: ReportRunSummary }> {
+    try {
+      const response = await fetch(`${ROUTES.API.REPORT_SCHEDULES}/${id}/run`, { method: 'POST' });
+      const result: ApiResponse<ReportRunSummary> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || 'Error al enviar el reporte' };
+      }
+
+      const run = result.data;
+      return run.status === 'succeeded'
+        ? { success: true, message: run.delivery_detail || 'Reporte enviado', run }
+        : { success: false, message: run.error || 'Error al enviar el reporte', run };
+    } catch (error) {
+      console.error('Error running report schedule:', error);
+      return { success: false, message: 'Error al enviar el reporte' };
+    }
+  }
+
+  /**
+   * Historial de envíos recientes de un reporte programado
+   */
+  async getRuns(scheduleId: string): Promise<ReportRunSummary[]> {
+    try {
+      const response = await fetch(`${ROUTES.API.REPORT_SCHEDULES}/${scheduleId}/runs`);
+      const result: ApiResponse<ReportRunSummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching report runs:', error);
+      return [];
+    }
+  }
+}
+
+// Instancia singleton
+export const reportScheduleService = new ReportScheduleService();
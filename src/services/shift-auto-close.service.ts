@@ -0,0 +1,384 @@
+/**
+ * =============================================
+ * SERVICIO DE CIERRE AUTOMÁTICO DE TURNOS
+ * =============================================
+ *
+ * Descripción: Cierra (o marca para revisión) los registros con entrada
+ * y sin salida, según la política activa de la organización
+ * (work_policies.auto_close_mode / auto_close_after_hours)
+ *
+ * La salida programada es la del turno asignado ese día, si el empleado
+ * tiene uno (último tramo en turnos partidos)
+ *
+ * Modos:
+ * - end_time: la salida se registra a la hora de salida programada
+ * - max_daily_hours: la salida se registra al cumplir max_daily_hours
+ * - flag: no se registra salida; el turno queda con is_approved = false
+ *
+ * El modo y el motivo quedan en el registro (auto_close_mode,
+ * auto_close_reason) y se notifica al empleado y a su manager
+ *
+ * USO EXCLUSIVO en backend: recibe un cliente con Service Role Key
+ * (ver /api/jobs/close-open-shifts)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Attendance,
+  AttendanceStatus,
+  Employee,
+  EmployeeShiftAssignment,
+  Notification,
+  Organization,
+  ShiftAutoCloseMode,
+  WorkPolicy
+} from '@/types/database';
+import {
+  addDaysToDateKey,
+  formatTimeInTimezone,
+  getMinutesOfDayInTimezone,
+  getTodayInTimezone,
+  resolveTimezone,
+  zonedDateTimeToISO
+} from '@/lib/timezone';
+import { calculateBreakMinutes, closeActiveBreak } from './attendance.service';
+import {
+  classifyCheckIn,
+  classifyCheckOut,
+  crossesMidnight,
+  findShiftAssignment,
+  resolveEffectiveSchedule,
+  resolveShiftSchedule
+} from './work-schedule.service';
+
+/**
+ * Resultado del proceso para una organización
+ */
+export interface ShiftAutoCloseResult {
+  organization_id: string;
+  mode: ShiftAutoCloseMode;
+  closed: number;
+  flagged: number;
+  pending: number;
+  error?: string;
+}
+
+type OpenShift = Pick<Attendance, 'id' | 'employee_id' | 'attendance_date' | 'check_in_time' | 'status' | 'breaks'> & {
+  employee: Pick<Employee, 'id' | 'full_name' | 'manager_id' | 'department_id' | 'work_schedule'> | null;
+};
+
+type PolicyRow = Pick<
+  WorkPolicy,
+  'start_time' | 'end_time' | 'break_duration' | 'late_threshold' | 'max_daily_hours' | 'auto_close_mode' | 'auto_close_after_hours'
+>;
+
+type NotificationInsert = Omit<Notification, 'id' | 'created_at' | 'updated_at' | 'read_at'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Servicio para cerrar turnos olvidados
+ */
+export class ShiftAutoCloseService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Procesa los turnos abiertos de todas las organizaciones activas (o de una)
+   * Los registros ya procesados no se vuelven a tocar
+   */
+  async closeOpenShifts(organizationId?: string): Promise<ShiftAutoCloseResult[]> {
+    let query = this.supabase
+      .from('organizations')
+      .select('id, timezone')
+      .eq('is_active', true);
+
+    if (organizationId) {
+      query = query.eq('id', organizationId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const organizations = (data || []) as Pick<Organization, 'id' | 'timezone'>[];
+    const results: ShiftAutoCloseResult[] = [];
+
+    for (const organization of organizations) {
+      results.push(await this.closeForOrganization(organization));
+    }
+
+    return results;
+  }
+
+  /**
+   * Procesa los turnos abiertos de una organización
+   */
+  private async closeForOrganization(organization: Pick<Organization, 'id' | 'timezone'>): Promise<ShiftAutoCloseResult> {
+    const result: ShiftAutoCloseResult = {
+      organization_id: organization.id,
+      mode: 'disabled',
+      closed: 0,
+      flagged: 0,
+      pending: 0
+    };
+
+    try {
+      const policy = await this.getPolicy(organization.id);
+      if (!policy || !policy.auto_close_mode || policy.auto_close_mode === 'disabled') {
+        return result;
+      }
+
+      result.mode = policy.auto_close_mode;
+
+      const timezone = resolveTimezone(organization.timezone);
+      const now = new Date();
+      const [shifts, departmentManagers, assignments] = await Promise.all([
+        this.getOpenShifts(organization.id, getTodayInTimezone(timezone)),
+        this.getDepartmentManagers(organization.id),
+        this.getShiftAssignments(organization.id)
+      ]);
+
+      const notifications: NotificationInsert[] = [];
+
+      for (const shift of shifts) {
+        const closed = await this.processShift(shift, policy, timezone, now, assignments.get(shift.employee_id) || []);
+        if (!closed) {
+          result.pending++;
+          continue;
+        }
+
+        if (closed.mode === 'flag') {
+          result.flagged++;
+        } else {
+          result.closed++;
+        }
+
+        const managerId = shift.employee?.manager_id
+          || (shift.employee?.department_id ? departmentManagers.get(shift.employee.department_id) : undefined);
+
+        notifications.push(...this.buildNotifications(organization.id, shift, closed, managerId));
+      }
+
+      if (notifications.length > 0) {
+        const { error } = await this.supabase.from('notifications').insert(notifications);
+        // Un fallo al notificar no revierte el cierre
+        if (error) console.error('Error creating shift notifications:', error);
+      }
+
+      return result;
+    } catch (error) {
+      console.error(`Error closing open shifts for organization ${organization.id}:`, error);
+      return { ...result, error: 'Error al cerrar turnos abiertos' };
+    }
+  }
+
+  /**
+   * Cierra o marca un turno si ya pasó el límite
+   * Devuelve null si el turno aún no debe procesarse
+   */
+  private async processShift(
+    shift: OpenShift,
+    policy: PolicyRow,
+    timezone: string,
+    now: Date,
+    assignments: EmployeeShiftAssignment[]
+  ): Promise<{ mode: Exclude<ShiftAutoCloseMode, 'disabled'>; reason: string } | null> {
+    if (!shift.check_in_time) return null;
+
+    const assignment = findShiftAssignment(assignments, shift.attendance_date);
+    const schedule = assignment?.shift_template
+      ? resolveShiftSchedule(assignment.shift_template, assignment.effective_from, shift.attendance_date, policy)
+      : resolveEffectiveSchedule(shift.employee?.work_schedule, policy);
+    const checkIn = new Date(shift.check_in_time);
+
+    // Salida programada; si termina antes de empezar es un turno nocturno
+    const endDate = crossesMidnight(schedule)
+      ? addDaysToDateKey(shift.attendance_date, 1)
+      : shift.attendance_date;
+    const scheduledEnd = new Date(zonedDateTimeToISO(endDate, schedule.end_time, timezone));
+
+    const cutoff = new Date(scheduledEnd.getTime() + (policy.auto_close_after_hours ?? 4) * HOUR_MS);
+    if (now < cutoff) return null;
+
+    const nowIso = now.toISOString();
+    const mode = policy.auto_close_mode as Exclude<ShiftAutoCloseMode, 'disabled'>;
+
+    if (mode === 'flag') {
+      const reason = `Sin registro de salida ${policy.auto_close_after_hours} h después de la salida programada (${schedule.end_time}); pendiente de revisión`;
+      const { error } = await this.supabase
+        .from('attendances')
+        .update({
+          is_approved: false,
+          auto_close_mode: mode,
+          auto_close_reason: reason,
+          auto_closed_at: nowIso,
+          updated_at: nowIso
+        })
+        .eq('id', shift.id);
+
+      if (error) throw error;
+      return { mode, reason };
+    }
+
+    const closedBreaks = (shift.breaks || []).filter(item => item.end_time);
+    const maxHoursCheckOut = new Date(
+      checkIn.getTime() + (policy.max_daily_hours || 8) * HOUR_MS + calculateBreakMinutes(closedBreaks) * 60 * 1000
+    );
+
+    let checkOut: Date;
+    let reason: string;
+    if (mode === 'end_time' && scheduledEnd > checkIn) {
+      checkOut = scheduledEnd;
+      reason = `Salida no registrada; se cerró a la hora de salida programada (${schedule.end_time})`;
+    } else {
+      checkOut = maxHoursCheckOut;
+      reason = `Salida no registrada; se cerró al cumplir el máximo de ${policy.max_daily_hours || 8} horas diarias`;
+    }
+
+    // No registrar salidas en el futuro; se cerrará en una próxima ejecución
+    if (checkOut > now) return null;
+
+    const breaks = closeActiveBreak(shift.breaks || [], checkOut.toISOString());
+    const breakMinutes = calculateBreakMinutes(breaks);
+    const elapsedHours = (checkOut.getTime() - checkIn.getTime()) / HOUR_MS;
+    const workHours = Math.max(0, elapsedHours - breakMinutes / 60);
+
+    const checkInStatus = (shift.status as AttendanceStatus | undefined)
+      || classifyCheckIn(getMinutesOfDayInTimezone(checkIn, timezone), schedule).status;
+    const classification = classifyCheckOut(
+      getMinutesOfDayInTimezone(checkOut, timezone),
+      workHours,
+      checkInStatus,
+      schedule
+    );
+
+    const { error } = await this.supabase
+      .from('attendances')
+      .update({
+        check_out_time: checkOut.toISOString(),
+        breaks,
+        break_duration: breakMinutes,
+        work_hours: Math.round(workHours * 100) / 100,
+        regular_hours: classification.regular_hours,
+        overtime_hours: classification.overtime_hours,
+        status: classification.status,
+        auto_close_mode: mode,
+        auto_close_reason: reason,
+        auto_closed_at: nowIso,
+        updated_at: nowIso
+      })
+      .eq('id', shift.id);
+
+    if (error) throw error;
+    return { mode, reason: `${reason} a las ${formatTimeInTimezone(checkOut.toISOString(), timezone)}` };
+  }
+
+  /**
+   * Notificaciones para el empleado y su manager
+   */
+  private buildNotifications(
+    organizationId: string,
+    shift: OpenShift,
+    closed: { mode: Exclude<ShiftAutoCloseMode, 'disabled'>; reason: string },
+    managerId?: string | null
+  ): NotificationInsert[] {
+    const type = closed.mode === 'flag' ? 'shift_flagged' : 'shift_auto_closed';
+    const title = closed.mode === 'flag' ? 'Turno pendiente de revisión' : 'Turno cerrado automáticamente';
+    const data = { attendance_id: shift.id, attendance_date: shift.attendance_date, mode: closed.mode };
+
+    const notifications: NotificationInsert[] = [{
+      organization_id: organizationId,
+      recipient_id: shift.employee_id,
+      type,
+      title,
+      message: `${shift.attendance_date}: ${closed.reason}. Si no es correcto, solicita una corrección.`,
+      data
+    }];
+
+    if (managerId && managerId !== shift.employee_id) {
+      notifications.push({
+        organization_id: organizationId,
+        recipient_id: managerId,
+        type,
+        title,
+        message: `${shift.employee?.full_name || 'Empleado'} (${shift.attendance_date}): ${closed.reason}.`,
+        data: { ...data, employee_id: shift.employee_id }
+      });
+    }
+
+    return notifications;
+  }
+
+  /**
+   * Política activa con la configuración de cierre automático
+   */
+  private async getPolicy(organizationId: string): Promise<PolicyRow | null> {
+    const { data, error } = await this.supabase
+      .from('work_policies')
+      .select('start_time, end_time, break_duration, late_threshold, max_daily_hours, auto_close_mode, auto_close_after_hours')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true)
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data || null;
+  }
+
+  /**
+   * Turnos con entrada y sin salida que aún no fueron procesados
+   */
+  private async getOpenShifts(organizationId: string, today: string): Promise<OpenShift[]> {
+    const { data, error } = await this.supabase
+      .from('attendances')
+      .select(`
+        id,
+        employee_id,
+        attendance_date,
+        check_in_time,
+        status,
+        breaks,
+        employee:employees!employee_id(id, full_name, manager_id, department_id, work_schedule)
+      `)
+      .eq('organization_id', organizationId)
+      .not('check_in_time', 'is', null)
+      .is('check_out_time', null)
+      .is('auto_close_mode', null)
+      .lte('attendance_date', today);
+
+    if (error) throw error;
+    return (data || []) as unknown as OpenShift[];
+  }
+
+  /**
+   * Turnos asignados de la organización, agrupados por empleado
+   */
+  private async getShiftAssignments(organizationId: string): Promise<Map<string, EmployeeShiftAssignment[]>> {
+    const { data, error } = await this.supabase
+      .from('employee_shift_assignments')
+      .select('*, shift_template:shift_templates(*)')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    const byEmployee = new Map<string, EmployeeShiftAssignment[]>();
+    for (const assignment of (data || []) as EmployeeShiftAssignment[]) {
+      byEmployee.set(assignment.employee_id, [...(byEmployee.get(assignment.employee_id) || []), assignment]);
+    }
+    return byEmployee;
+  }
+
+  /**
+   * Manager de cada departamento (para empleados sin manager_id)
+   */
+  private async getDepartmentManagers(organizationId: string): Promise<Map<string, string>> {
+    const { data, error } = await this.supabase
+      .from('departments')
+      .select('id, manager_id')
+      .eq('organization_id', organizationId)
+      .not('manager_id', 'is', null);
+
+    if (error) throw error;
+    const rows = (data || []) as { id: string; manager_id: string }[];
+    return new Map(rows.map(row => [row.id, row.manager_id]));
+  }
+}
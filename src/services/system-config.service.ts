@@ -4,9 +4,16 @@
  * =============================================
  * 
  * Descripción: Servicio para gestionar configuraciones reales desde Supabase
+ * 
+ * Webhooks: cada cambio de configuración pide al servidor settings_changed
+ * con la sección modificada y los valores nuevos
  */
 
 import { createSupabaseClient } from '@/lib/supabase/client';
+import { METRICS } from '@/lib/constants';
+import { resolveTimezone } from '@/lib/timezone';
+import type { GeofenceSettings, LeavePolicy, ShiftAutoCloseMode } from '@/types/database';
+import { webhookService } from './webhook.service';
 
 export interface Department {
   id: string;
@@ -36,7 +43,10 @@ export interface WorkPolicy {
   working_days: number;
   allow_remote: boolean;
   require_geolocation: boolean;
+  require_office_qr: boolean;
   max_daily_hours: number;
+  auto_close_mode: ShiftAutoCloseMode;
+  auto_close_after_hours: number;
   is_active: boolean;
 }
 
@@ -49,8 +59,104 @@ export interface SystemSetting {
   is_active: boolean;
 }
 
+/**
+ * Cache de zonas horarias por organización (cambian muy rara vez)
+ */
+const timezoneCache = new Map<string, string>();
+
+const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+  enforcement: 'reject',
+  geofences: []
+};
+
+const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  annual_vacation_days: 20,
+  annual_sick_days: 10,
+  annual_personal_days: 3,
+  auto_approve: false,
+  require_advance_notice: true,
+  advance_notice_days: 7
+};
+
 export class SystemConfigService {
-  private supabase = createSupabaseClient();
+  /**
+   * En servidor (API) se construye con el cliente de la petición
+   */
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {}
+
+  /**
+   * Obtener la zona horaria de la organización (Organization.timezone)
+   */
+  async getOrganizationTimezone(organizationId: string): Promise<string> {
+    const cached = timezoneCache.get(organizationId);
+    if (cached) return cached;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('organizations')
+        .select('timezone')
+        .eq('id', organizationId)
+        .single();
+
+      if (error) throw error;
+
+      const timezone = resolveTimezone(data?.timezone);
+      timezoneCache.set(organizationId, timezone);
+      return timezone;
+    } catch (error) {
+      console.error('Error fetching organization timezone:', error);
+      return resolveTimezone(null);
+    }
+  }
+
+  /**
+   * Obtener la organización del usuario con sesión activa
+   */
+  async getCurrentUserOrganizationId(): Promise<string | null> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user?.email) return null;
+
+      const { data, error } = await this.supabase
+        .from('employees')
+        .select('organization_id')
+        .eq('email', user.email)
+        .single();
+
+      if (error || !data) throw error;
+      return data.organization_id;
+    } catch (error) {
+      console.error('Error fetching current user organization:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Obtener la zona horaria de la organización del usuario con sesión activa
+   */
+  async getCurrentUserTimezone(): Promise<string> {
+    const organizationId = await this.getCurrentUserOrganizationId();
+    return organizationId ? this.getOrganizationTimezone(organizationId) : resolveTimezone(null);
+  }
+
+  /**
+   * Obtener la zona horaria de la organización a la que pertenece un empleado
+   */
+  async getEmployeeTimezone(employeeId: string): Promise<string> {
+    try {
+      const { data, error } = await this.supabase
+        .from('employees')
+        .select('organization_id')
+        .eq('id', employeeId)
+        .single();
+
+      if (error || !data) throw error;
+      return this.getOrganizationTimezone(data.organization_id);
+    } catch (error) {
+      console.error('Error fetching employee timezone:', error);
+      return resolveTimezone(null);
+    }
+  }
 
   /**
    * Obtener todos los departamentos activos
@@ -91,6 +197,7 @@ export class SystemConfigService {
         .single();
 
       if (error) throw error;
+      await this.notifySettingsChanged('departments', { created: newDept });
       return newDept;
     } catch (error) {
       console.error('Error creating department:', error);
@@ -112,6 +219,7 @@ export class SystemConfigService {
         .eq('id', id);
 
       if (error) throw error;
+      await this.notifySettingsChanged('departments', { department_id: id, ...data });
     } catch (error) {
       console.error('Error updating department:', error);
       throw new Error('Error al actualizar departamento');
@@ -158,6 +266,28 @@ export class SystemConfigService {
     }
   }
 
+  /**
+   * Obtener la política de trabajo activa de la organización
+   * Devuelve null si no hay ninguna configurada
+   */
+  async getActiveWorkPolicy(organizationId: string): Promise<WorkPolicy | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('work_policies')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('is_active', true)
+        .limit(1)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      console.error('Error fetching active work policy:', error);
+      return null;
+    }
+  }
+
   /**
    * Actualizar política de trabajo
    */
@@ -169,6 +299,7 @@ export class SystemConfigService {
         .eq('id', id);
 
       if (error) throw error;
+      await this.notifySettingsChanged('work_policy', data);
     } catch (error) {
       console.error('Error updating work policy:', error);
       throw new Error('Error al actualizar política de trabajo');
@@ -205,18 +336,130 @@ export class SystemConfigService {
    */
   async updateSystemSetting(id: string, value: string): Promise<void> {
     try {
-      const { error } = await this.supabase
+      const { data: setting, error } = await this.supabase
         .from('system_settings')
         .update({ value })
-        .eq('id', id);
+        .eq('id', id)
+        .select('category, key')
+        .single();
 
       if (error) throw error;
+      await this.notifySettingsChanged('system_setting', {
+        category: setting.category,
+        key: setting.key,
+        value
+      });
     } catch (error) {
       console.error('Error updating system setting:', error);
       throw new Error('Error al actualizar configuración');
     }
   }
 
+  /**
+   * Obtener las geocercas de la organización
+   * Se guardan en system_settings (category: 'attendance', key: 'geofences')
+   */
+  async getGeofenceSettings(organizationId: string): Promise<GeofenceSettings> {
+    try {
+      const { data, error } = await this.supabase
+        .from('system_settings')
+        .select('value')
+        .eq('organization_id', organizationId)
+        .eq('category', 'attendance')
+        .eq('key', 'geofences')
+        .eq('is_active', true)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      if (!data?.value) return DEFAULT_GEOFENCE_SETTINGS;
+
+      const value = (typeof data.value === 'string' ? JSON.parse(data.value) : data.value) as Partial<GeofenceSettings>;
+      return {
+        enforcement: value.enforcement === 'flag' ? 'flag' : 'reject',
+        geofences: Array.isArray(value.geofences) ? value.geofences : []
+      };
+    } catch (error) {
+      console.error('Error fetching geofence settings:', error);
+      return DEFAULT_GEOFENCE_SETTINGS;
+    }
+  }
+
+  /**
+   * Guardar las geocercas de la organización
+   */
+  async updateGeofenceSettings(organizationId: string, settings: GeofenceSettings): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('system_settings')
+        .upsert({
+          organization_id: organizationId,
+          category: 'attendance',
+          key: 'geofences',
+          value: settings,
+          description: 'Geocercas de oficina para validar la ubicación de entrada',
+          is_active: true,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'organization_id,category,key' });
+
+      if (error) throw error;
+      await this.notifySettingsChanged('geofences', { ...settings });
+    } catch (error) {
+      console.error('Error updating geofence settings:', error);
+      throw new Error('Error al guardar geocercas');
+    }
+  }
+
+  /**
+   * Obtener la política de permisos y licencias de la organización
+   * Se guarda en system_settings (category: 'leave', key: 'policy')
+   */
+  async getLeavePolicy(organizationId: string): Promise<LeavePolicy> {
+    try {
+      const { data, error } = await this.supabase
+        .from('system_settings')
+        .select('value')
+        .eq('organization_id', organizationId)
+        .eq('category', 'leave')
+        .eq('key', 'policy')
+        .eq('is_active', true)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      if (!data?.value) return DEFAULT_LEAVE_POLICY;
+
+      const value = (typeof data.value === 'string' ? JSON.parse(data.value) : data.value) as Partial<LeavePolicy>;
+      return { ...DEFAULT_LEAVE_POLICY, ...value };
+    } catch (error) {
+      console.error('Error fetching leave policy:', error);
+      return DEFAULT_LEAVE_POLICY;
+    }
+  }
+
+  /**
+   * Guardar la política de permisos y licencias
+   */
+  async updateLeavePolicy(organizationId: string, policy: LeavePolicy): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('system_settings')
+        .upsert({
+          organization_id: organizationId,
+          category: 'leave',
+          key: 'policy',
+          value: policy,
+          description: 'Días anuales de permiso y reglas de aprobación',
+          is_active: true,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'organization_id,category,key' });
+
+      if (error) throw error;
+      await this.notifySettingsChanged('leave_policy', { ...policy });
+    } catch (error) {
+      console.error('Error updating leave policy:', error);
+      throw new Error('Error al guardar política de permisos');
+    }
+  }
+
   /**
    * Obtener horarios de trabajo configurados
    */
@@ -400,6 +643,8 @@ export class SystemConfigService {
 
         if (error) throw error;
       }
+
+      await this.notifySettingsChanged('working_hours', { ...hours });
     } catch (error) {
       console.error('Error updating working hours:', error);
       throw new Error('Error al actualizar horarios de trabajo');
@@ -412,7 +657,10 @@ export class SystemConfigService {
       max_daily_hours?: number;
       allow_remote?: boolean;
       require_geolocation?: boolean;
+      require_office_qr?: boolean;
       working_days?: number;
+      auto_close_mode?: ShiftAutoCloseMode;
+      auto_close_after_hours?: number;
     }
   ): Promise<void> {
     try {
@@ -454,6 +702,8 @@ export class SystemConfigService {
 
         if (error) throw error;
       }
+
+      await this.notifySettingsChanged('work_policy', policies);
     } catch (error) {
       console.error('Error updating work policies:', error);
       // Proporcionar información más específica del error
@@ -472,12 +722,15 @@ export class SystemConfigService {
     max_daily_hours: number;
     allow_remote: boolean;
     require_geolocation: boolean;
+    require_office_qr: boolean;
     working_days: number;
+    auto_close_mode: ShiftAutoCloseMode;
+    auto_close_after_hours: number;
   }> {
     try {
       const { data, error } = await this.supabase
         .from('work_policies')
-        .select('late_threshold, max_daily_hours, allow_remote, require_geolocation, working_days')
+        .select('late_threshold, max_daily_hours, allow_remote, require_geolocation, require_office_qr, working_days, auto_close_mode, auto_close_after_hours')
         .eq('organization_id', organizationId)
         .eq('is_active', true)
         .limit(1)
@@ -490,7 +743,10 @@ export class SystemConfigService {
           max_daily_hours: 8,
           allow_remote: false,
           require_geolocation: true,
-          working_days: 5
+          require_office_qr: false,
+          working_days: 5,
+          auto_close_mode: 'disabled',
+          auto_close_after_hours: 4
         };
       }
 
@@ -498,8 +754,11 @@ export class SystemConfigService {
         late_threshold: data.late_threshold || 15,
         max_daily_hours: data.max_daily_hours || 8,
         allow_remote: data.allow_remote || false,
-        require_geolocation: data.require_geolocation || true,
-        working_days: data.working_days || 5
+        require_geolocation: data.require_geolocation ?? true,
+        require_office_qr: data.require_office_qr ?? false,
+        working_days: data.working_days || 5,
+        auto_close_mode: data.auto_close_mode || 'disabled',
+        auto_close_after_hours: data.auto_close_after_hours ?? 4
       };
     } catch (error) {
       console.error('Error fetching current work policies:', error);
@@ -508,10 +767,21 @@ export class SystemConfigService {
         max_daily_hours: 8,
         allow_remote: false,
         require_geolocation: true,
-        working_days: 5
+        require_office_qr: false,
+        working_days: 5,
+        auto_close_mode: 'disabled',
+        auto_close_after_hours: 4
       };
     }
   }
+
+  /**
+   * Pedir settings_changed con la sección y los valores modificados
+   * Lo emite el servidor en la organización del usuario (webhookService.notify)
+   */
+  private async notifySettingsChanged(section: string, changes: Record<string, unknown>): Promise<void> {
+    await webhookService.notify({ event: METRICS.EVENTS.SETTINGS_CHANGED, section, changes });
+  }
 }
 
 export const systemConfigService = new SystemConfigService();
@@ -0,0 +1,90 @@
+/**
+ * =============================================
+ * SERVICIO DE EQUIPOS
+ * =============================================
+ *
+ * Descripción: Miembros del equipo de un manager para limitar sus vistas
+ * de asistencia, aprobaciones y reportes
+ *
+ * El equipo se calcula con resolveTeamMemberIds (ver lib/team):
+ * reportes directos e indirectos y empleados de los departamentos que dirige
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { resolveTeamMemberIds, type TeamCandidate } from '@/lib/team';
+import type { Employee } from '@/types/database';
+
+/**
+ * Miembro del equipo con los datos que muestran las vistas del manager
+ */
+export type TeamMember = Pick<Employee, 'id' | 'full_name' | 'employee_code' | 'email' | 'department_id' | 'manager_id' | 'role' | 'is_active'> & {
+  department?: { name: string } | null;
+};
+
+/**
+ * Servicio para consultar el equipo de un manager
+ * En servidor (API) se construye con el cliente de la petición
+ */
+export class TeamService {
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {}
+
+  /**
+   * IDs de los miembros del equipo del manager
+   */
+  async getTeamMemberIds(managerId: string, organizationId: string): Promise<string[]> {
+    const [{ data: employees, error: employeesError }, { data: departments, error: departmentsError }] = await Promise.all([
+      this.supabase
+        .from('employees')
+        .select('id, manager_id, department_id')
+        .eq('organization_id', organizationId),
+      this.supabase
+        .from('departments')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .eq('manager_id', managerId)
+    ]);
+
+    if (employeesError) throw employeesError;
+    if (departmentsError) throw departmentsError;
+
+    return resolveTeamMemberIds(
+      managerId,
+      (employees || []) as TeamCandidate[],
+      ((departments || []) as { id: string }[]).map(department => department.id)
+    );
+  }
+
+  /**
+   * Miembros activos del equipo del manager, ordenados por nombre
+   */
+  async getTeamMembers(managerId: string, organizationId: string): Promise<TeamMember[]> {
+    try {
+      const memberIds = await this.getTeamMemberIds(managerId, organizationId);
+      if (memberIds.length === 0) return [];
+
+      const { data, error } = await this.supabase
+        .from('employees')
+        .select('id, full_name, employee_code, email, department_id, manager_id, role, is_active, department:departments(name)')
+        .in('id', memberIds)
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) throw error;
+      return (data || []) as TeamMember[];
+    } catch (error) {
+      console.error('Error fetching team members:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Indica si un empleado pertenece al equipo del manager
+   */
+  async isTeamMember(managerId: string, organizationId: string, employeeId: string): Promise<boolean> {
+    const memberIds = await this.getTeamMemberIds(managerId, organizationId);
+    return memberIds.includes(employeeId);
+  }
+}
+
+// Instancia singleton
+export const teamService = new TeamService();
@@ -0,0 +1,232 @@
+/**
+ * =============================================
+ * SERVICIO DE ENTREGA DE WEBHOOKS
+ * =============================================
+ *
+ * Descripción: Reparte los eventos de webhook_events a los endpoints
+ * activos suscritos y envía las entregas pendientes
+ *
+ * Cada envío es un POST JSON firmado con HMAC-SHA256 (ver lib/webhooks).
+ * Una respuesta 2xx completa la entrega; cualquier otra respuesta o error
+ * de red se reintenta con espera creciente (WEBHOOK_CONFIG) hasta agotar
+ * los intentos. Cada intento queda en webhook_deliveries
+ * La URL se vuelve a validar en cada envío y no se siguen redirecciones
+ * (ver lib/outbound-url)
+ *
+ * USO EXCLUSIVO en backend: recibe un cliente con Service Role Key
+ * (ver /api/jobs/deliver-webhooks)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WebhookDelivery, WebhookEndpoint, WebhookEvent } from '@/types/database';
+import { WEBHOOK_CONFIG } from '@/lib/constants';
+import { getNextAttemptAt, signWebhookPayload, WEBHOOK_HEADERS } from '@/lib/webhooks';
+import { postToOutboundUrl } from '@/lib/outbound-url';
+
+/**
+ * Resultado de una ejecución del proceso
+ */
+export interface WebhookProcessResult {
+  dispatched: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+type DueDelivery = Pick<WebhookDelivery, 'id' | 'organization_id' | 'event_id' | 'event' | 'attempts'> & {
+  endpoint: Pick<WebhookEndpoint, 'id' | 'url' | 'secret' | 'is_active'> | null;
+  webhook_event: Pick<WebhookEvent, 'payload' | 'created_at'> | null;
+};
+
+type DeliveryInsert = Pick<WebhookDelivery, 'organization_id' | 'endpoint_id' | 'event_id' | 'event' | 'status' | 'attempts' | 'next_attempt_at'>;
+
+/**
+ * Largo máximo del error guardado en el registro de entregas
+ */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Servicio para entregar webhooks
+ */
+export class WebhookDeliveryService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Reparte los eventos nuevos y envía las entregas pendientes cuyo turno llegó
+   */
+  async processWebhooks(organizationId?: string): Promise<WebhookProcessResult> {
+    const dispatched = await this.dispatchEvents(organizationId);
+    const result = await this.deliverDue(organizationId);
+    return { dispatched, ...result };
+  }
+
+  /**
+   * Crea una entrega por cada endpoint activo suscrito a cada evento nuevo
+   */
+  private async dispatchEvents(organizationId?: string): Promise<number> {
+    let eventsQuery = this.supabase
+      .from('webhook_events')
+      .select('id, organization_id, event')
+      .is('dispatched_at', null)
+      .order('created_at')
+      .limit(WEBHOOK_CONFIG.BATCH_SIZE);
+
+    if (organizationId) {
+      eventsQuery = eventsQuery.eq('organization_id', organizationId);
+    }
+
+    const { data: eventRows, error: eventsError } = await eventsQuery;
+    if (eventsError) throw eventsError;
+
+    const events = (eventRows || []) as Pick<WebhookEvent, 'id' | 'organization_id' | 'event'>[];
+    if (events.length === 0) return 0;
+
+    const organizationIds = Array.from(new Set(events.map(event => event.organization_id)));
+    const { data: endpointRows, error: endpointsError } = await this.supabase
+      .from('webhook_endpoints')
+      .select('id, organization_id, events')
+      .in('organization_id', organizationIds)
+      .eq('is_active', true);
+
+    if (endpointsError) throw endpointsError;
+
+    const endpoints = (endpointRows || []) as Pick<WebhookEndpoint, 'id' | 'organization_id' | 'events'>[];
+    const now = new Date().toISOString();
+
+    const deliveries: DeliveryInsert[] = events.flatMap(event =>
+      endpoints
+        .filter(endpoint => endpoint.organization_id === event.organization_id && endpoint.events.includes(event.event))
+        .map(endpoint => ({
+          organization_id: event.organization_id,
+          endpoint_id: endpoint.id,
+          event_id: event.id,
+          event: event.event,
+          status: 'pending' as const,
+          attempts: 0,
+          next_attempt_at: now
+        }))
+    );
+
+    if (deliveries.length > 0) {
+      const { error } = await this.supabase.from('webhook_deliveries').insert(deliveries);
+      if (error) throw error;
+    }
+
+    const { error: markError } = await this.supabase
+      .from('webhook_events')
+      .update({ dispatched_at: now })
+      .in('id', events.map(event => event.id));
+
+    if (markError) throw markError;
+
+    return events.length;
+  }
+
+  /**
+   * Envía las entregas pendientes con next_attempt_at vencido
+   */
+  private async deliverDue(organizationId?: string): Promise<Omit<WebhookProcessResult, 'dispatched'>> {
+    const result = { delivered: 0, retrying: 0, failed: 0 };
+
+    let query = this.supabase
+      .from('webhook_deliveries')
+      .select(`
+        id,
+        organization_id,
+        event_id,
+        event,
+        attempts,
+        endpoint:webhook_endpoints!endpoint_id(id, url, secret, is_active),
+        webhook_event:webhook_events!event_id(payload, created_at)
+      `)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at')
+      .limit(WEBHOOK_CONFIG.BATCH_SIZE);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const delivery of (data || []) as unknown as DueDelivery[]) {
+      const status = await this.attemptDelivery(delivery);
+      if (status === 'succeeded') result.delivered++;
+      else if (status === 'failed') result.failed++;
+      else result.retrying++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Un intento de envío; registra el resultado y programa el siguiente si falla
+   */
+  private async attemptDelivery(delivery: DueDelivery): Promise<WebhookDelivery['status']> {
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+
+    if (!delivery.endpoint || !delivery.endpoint.is_active || !delivery.webhook_event) {
+      lastError = 'Endpoint eliminado o desactivado';
+    } else {
+      const body = JSON.stringify({
+        id: delivery.event_id,
+        event: delivery.event,
+        organization_id: delivery.organization_id,
+        created_at: delivery.webhook_event.created_at,
+        data: delivery.webhook_event.payload
+      });
+      const timestamp = Math.floor(now.getTime() / 1000);
+
+      try {
+        const response = await postToOutboundUrl(delivery.endpoint.url, {
+          headers: {
+            'Content-Type': 'application/json',
+            [WEBHOOK_HEADERS.EVENT]: delivery.event,
+            [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+            [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+            [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(delivery.endpoint.secret, timestamp, body)
+          },
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_CONFIG.TIMEOUT)
+        });
+
+        responseStatus = response.status;
+        if (!response.ok) {
+          lastError = `HTTP ${response.status} ${response.statusText}`.trim();
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Error de red';
+      }
+    }
+
+    const succeeded = lastError === null;
+    // Sin endpoint no tiene sentido reintentar
+    const nextAttemptAt = succeeded || !delivery.endpoint?.is_active ? null : getNextAttemptAt(attempts, now);
+    const status: WebhookDelivery['status'] = succeeded ? 'succeeded' : nextAttemptAt ? 'pending' : 'failed';
+
+    const { error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({
+        status,
+        attempts,
+        last_attempt_at: now.toISOString(),
+        next_attempt_at: nextAttemptAt?.toISOString() ?? null,
+        response_status: responseStatus,
+        last_error: lastError?.slice(0, MAX_ERROR_LENGTH) ?? null,
+        delivered_at: succeeded ? now.toISOString() : null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', delivery.id);
+
+    if (error) {
+      console.error('❌ Error registrando entrega de webhook:', delivery.id, error.message);
+    }
+
+    return status;
+  }
+}
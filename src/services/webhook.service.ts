@@ -0,0 +1,208 @@
+/**
+ * =============================================
+ * SERVICIO DE WEBHOOKS
+ * =============================================
+ *
+ * Descripción: Emisión de eventos para los webhooks de la organización y
+ * gestión de sus endpoints desde la UI (/api/v1/webhooks)
+ *
+ * emit() solo guarda el evento en webhook_events; el proceso
+ * /api/jobs/deliver-webhooks lo reparte a los endpoints suscritos, firma
+ * cada envío y reintenta los fallidos (ver WebhookDeliveryService)
+ *
+ * Solo el servidor emite, con el cliente de servicio y tras aplicar el cambio:
+ * las políticas RLS no deben permitir insertar en webhook_events desde el
+ * navegador. Las acciones del navegador piden su evento con notify()
+ * (/api/v1/webhooks/events)
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { ROUTES } from '@/lib/constants';
+import type { WebhookEventRequest } from '@/lib/webhooks';
+import type { ApiResponse, WebhookDelivery, WebhookEndpoint, WebhookEventType } from '@/types/database';
+
+/**
+ * Endpoint tal como lo expone la API (sin secreto)
+ */
+export type WebhookEndpointSummary = Pick<WebhookEndpoint, 'id' | 'url' | 'description' | 'events' | 'is_active' | 'created_at'>;
+
+/**
+ * Entrada del registro de entregas
+ */
+export type WebhookDeliverySummary = Pick<
+  WebhookDelivery,
+  'id' | 'event_id' | 'event' | 'status' | 'attempts' | 'next_attempt_at' | 'last_attempt_at' | 'response_status' | 'last_error' | 'delivered_at' | 'created_at'
+>;
+
+/**
+ * Interface para respuestas de operaciones de webhooks
+ */
+export interface WebhookResponse {
+  success: boolean;
+  message: string;
+  data?: WebhookEndpointSummary;
+  secret?: string;
+}
+
+/**
+ * Datos de un endpoint
+ */
+export interface WebhookEndpointFormData {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+}
+
+/**
+ * Servicio para emitir eventos y gestionar endpoints de webhooks
+ * En servidor (API) se construye con el cliente de la petición
+ */
+export class WebhookService {
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {}
+
+  /**
+   * Registra un evento para su envío (solo servidor, cliente de servicio)
+   * Nunca lanza: un fallo aquí no debe interrumpir la operación que lo origina
+   */
+  async emit(organizationId: string, event: WebhookEventType, payload: Record<string, unknown>): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('webhook_events')
+        .insert({
+          organization_id: organizationId,
+          event,
+          payload
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Error emitting webhook event ${event}:`, error);
+    }
+  }
+
+  /**
+   * Pide al servidor el evento de una acción hecha desde el navegador
+   * Nunca lanza, igual que emit()
+   */
+  async notify(request: WebhookEventRequest): Promise<void> {
+    try {
+      const response = await fetch(ROUTES.API.WEBHOOK_EVENTS, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+      const result: ApiResponse = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+    } catch (error) {
+      console.error(`Error requesting webhook event ${request.event}:`, error);
+    }
+  }
+
+  /**
+   * Obtener los endpoints de la organización del usuario
+   */
+  async getEndpoints(): Promise<WebhookEndpointSummary[]> {
+    try {
+      const response = await fetch(ROUTES.API.WEBHOOKS);
+      const result: ApiResponse<WebhookEndpointSummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Registrar un endpoint; la respuesta incluye el secreto de firma
+   */
+  async createEndpoint(data: WebhookEndpointFormData): Promise<WebhookResponse> {
+    try {
+      const response = await fetch(ROUTES.API.WEBHOOKS, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result: ApiResponse<WebhookEndpointSummary & { secret: string }> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, message: result.error || 'Error al registrar el webhook' };
+      }
+
+      const { secret, ...endpoint } = result.data;
+      return { success: true, message: 'Webhook registrado', data: endpoint, secret };
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      return { success: false, message: 'Error al registrar el webhook' };
+    }
+  }
+
+  /**
+   * Actualizar eventos, URL o estado de un endpoint
+   */
+  async updateEndpoint(id: string, data: Partial<WebhookEndpointFormData> & { is_active?: boolean }): Promise<WebhookResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.WEBHOOKS}/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result: ApiResponse<WebhookEndpointSummary> = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al actualizar el webhook' };
+      }
+
+      return { success: true, message: 'Webhook actualizado', data: result.data };
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      return { success: false, message: 'Error al actualizar el webhook' };
+    }
+  }
+
+  /**
+   * Eliminar un endpoint y su registro de entregas
+   */
+  async deleteEndpoint(id: string): Promise<WebhookResponse> {
+    try {
+      const response = await fetch(`${ROUTES.API.WEBHOOKS}/${id}`, { method: 'DELETE' });
+      const result: ApiResponse = await response.json();
+
+      if (!response.ok || !result.success) {
+        return { success: false, message: result.error || 'Error al eliminar el webhook' };
+      }
+
+      return { success: true, message: 'Webhook eliminado' };
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      return { success: false, message: 'Error al eliminar el webhook' };
+    }
+  }
+
+  /**
+   * Registro de entregas recientes de un endpoint
+   */
+  async getDeliveries(endpointId: string): Promise<WebhookDeliverySummary[]> {
+    try {
+      const response = await fetch(`${ROUTES.API.WEBHOOKS}/${endpointId}/deliveries`);
+      const result: ApiResponse<WebhookDeliverySummary[]> = await response.json();
+
+      if (!response.ok || !result.success) throw new Error(result.error);
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return [];
+    }
+  }
+}
+
+// Instancia singleton
+export const webhookService = new WebhookService();
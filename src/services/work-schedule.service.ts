@@ -0,0 +1,473 @@
+/**
+ * =============================================
+ * SERVICIO DE HORARIO EFECTIVO Y CLASIFICACIÓN
+ * =============================================
+ *
+ * Descripción: Resuelve el horario que aplica a un empleado y clasifica
+ * la entrada/salida (a tiempo, tarde, salida temprana, tiempo extra)
+ *
+ * Prioridad del horario:
+ * 1. Turno asignado al empleado para ese día (shift_templates +
+ *    employee_shift_assignments): rotativo y/o partido
+ * 2. work_schedule del empleado (SystemConfigService.getEmployeeWorkSchedule)
+ * 3. Política de trabajo activa de la organización (work_policies)
+ * 4. Valores por defecto del sistema
+ */
+
+import { createSupabaseClient } from '@/lib/supabase/client';
+import { addDaysToDateKey, daysBetweenDateKeys, getWeekdayOfDateKey, isWorkingWeekday } from '@/lib/timezone';
+import { SystemConfigService } from './system-config.service';
+import type {
+  AttendanceStatus,
+  EmployeeShiftAssignment,
+  ShiftSegment,
+  ShiftTemplate,
+  WorkPolicy,
+  WorkScheduleConfig
+} from '@/types/database';
+
+/**
+ * Horario ya resuelto para un empleado
+ */
+export interface EffectiveSchedule {
+  start_time: string;
+  end_time: string;
+  hours_per_day: number;
+  break_duration: number;
+  late_threshold: number;
+  flexible_hours: boolean;
+  /** false si el turno asignado marca el día como libre */
+  is_working_day: boolean;
+  /** Tramos del turno asignado (varios en turnos partidos) */
+  segments?: ShiftSegment[];
+  shift_name?: string;
+}
+
+/**
+ * Datos para crear o editar una plantilla de turno
+ */
+export type ShiftTemplateFormData = Pick<ShiftTemplate, 'name' | 'description' | 'weeks' | 'break_duration'>;
+
+/**
+ * Resultado de clasificar una salida
+ */
+export interface CheckOutClassification {
+  status: AttendanceStatus;
+  regular_hours: number;
+  overtime_hours: number;
+}
+
+const DEFAULT_SCHEDULE: EffectiveSchedule = {
+  start_time: '08:00',
+  end_time: '17:00',
+  hours_per_day: 8,
+  break_duration: 60,
+  late_threshold: 15,
+  flexible_hours: false,
+  is_working_day: true
+};
+
+const ASSIGNMENT_SELECT = '*, shift_template:shift_templates(*)';
+
+/**
+ * Convierte "HH:mm" (o "HH:mm:ss") a minutos desde medianoche
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Clasifica la entrada según el horario y la tolerancia
+ */
+export function classifyCheckIn(checkInMinutes: number, schedule: EffectiveSchedule): {
+  status: AttendanceStatus;
+  minutesLate: number;
+} {
+  if (schedule.flexible_hours) {
+    return { status: 'on_time', minutesLate: 0 };
+  }
+
+  const minutesLate = Math.max(0, checkInMinutes - timeToMinutes(schedule.start_time));
+
+  return {
+    status: minutesLate > schedule.late_threshold ? 'late' : 'on_time',
+    minutesLate
+  };
+}
+
+/**
+ * Minutos del día contados desde el inicio del turno
+ * En un turno nocturno (22:00-06:00) la salida de las 06:00 queda 8 h
+ * después del inicio, no antes; en el resto se usan los minutos del día
+ */
+function minutesSinceShiftStart(minutes: number, schedule: EffectiveSchedule): number {
+  if (!crossesMidnight(schedule)) return minutes;
+
+  const elapsed = (minutes - timeToMinutes(schedule.start_time) + 1440) % 1440;
+  // La hora de fin de un turno de 24 h coincide con el inicio
+  return elapsed === 0 && minutes === timeToMinutes(schedule.end_time) ? 1440 : elapsed;
+}
+
+/**
+ * Clasifica la salida y separa horas regulares de horas extra
+ *
+ * Prioridad del estado: late > early_departure > overtime > on_time,
+ * para que la tardanza no se pierda en los reportes de puntualidad.
+ */
+export function classifyCheckOut(
+  checkOutMinutes: number,
+  workHours: number,
+  checkInStatus: AttendanceStatus | undefined,
+  schedule: EffectiveSchedule
+): CheckOutClassification {
+  const regularHours = Math.min(workHours, schedule.hours_per_day);
+  const overtimeHours = Math.max(0, workHours - schedule.hours_per_day);
+
+  const leftEarly = schedule.flexible_hours
+    ? workHours < schedule.hours_per_day
+    : minutesSinceShiftStart(checkOutMinutes, schedule) < minutesSinceShiftStart(timeToMinutes(schedule.end_time), schedule) - schedule.late_threshold;
+
+  let status: AttendanceStatus = 'on_time';
+  if (checkInStatus === 'late') {
+    status = 'late';
+  } else if (leftEarly) {
+    status = 'early_departure';
+  } else if (overtimeHours > 0) {
+    status = 'overtime';
+  }
+
+  return {
+    status,
+    regular_hours: Math.round(regularHours * 100) / 100,
+    overtime_hours: Math.round(overtimeHours * 100) / 100
+  };
+}
+
+/**
+ * Combina el horario individual con la política activa
+ * Los campos que falten en el horario individual se toman de la política
+ */
+export function resolveEffectiveSchedule(
+  employeeSchedule: Partial<WorkScheduleConfig> | null | undefined,
+  policy: Pick<WorkPolicy, 'start_time' | 'end_time' | 'break_duration' | 'late_threshold'> | null | undefined
+): EffectiveSchedule {
+  const schedule = employeeSchedule || {};
+
+  return {
+    start_time: schedule.start_time || policy?.start_time || DEFAULT_SCHEDULE.start_time,
+    end_time: schedule.end_time || policy?.end_time || DEFAULT_SCHEDULE.end_time,
+    hours_per_day: schedule.hours_per_day || DEFAULT_SCHEDULE.hours_per_day,
+    break_duration: schedule.break_duration ?? policy?.break_duration ?? DEFAULT_SCHEDULE.break_duration,
+    late_threshold: policy?.late_threshold ?? DEFAULT_SCHEDULE.late_threshold,
+    flexible_hours: schedule.flexible_hours ?? DEFAULT_SCHEDULE.flexible_hours,
+    is_working_day: true
+  };
+}
+
+/**
+ * Indica si el horario termina al día siguiente (turno nocturno)
+ */
+export function crossesMidnight(schedule: Pick<EffectiveSchedule, 'start_time' | 'end_time' | 'is_working_day'>): boolean {
+  return schedule.is_working_day && timeToMinutes(schedule.end_time) <= timeToMinutes(schedule.start_time);
+}
+
+/**
+ * Duración de un tramo en minutos (los que cruzan medianoche terminan al día siguiente)
+ */
+export function getSegmentMinutes(segment: ShiftSegment): number {
+  const minutes = timeToMinutes(segment.end_time) - timeToMinutes(segment.start_time);
+  return minutes > 0 ? minutes : minutes + 24 * 60;
+}
+
+/**
+ * Asignación vigente en la fecha: la más reciente con effective_from <= fecha
+ */
+export function findShiftAssignment<T extends Pick<EmployeeShiftAssignment, 'effective_from'>>(
+  assignments: T[],
+  dateKey: string
+): T | null {
+  return assignments
+    .filter(assignment => assignment.effective_from <= dateKey)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0] || null;
+}
+
+/**
+ * Tramos programados en la fecha según la plantilla
+ * La rotación cuenta semanas (de domingo a sábado) desde la semana de effective_from
+ */
+export function getShiftSegmentsForDate(
+  template: Pick<ShiftTemplate, 'weeks'>,
+  effectiveFrom: string,
+  dateKey: string
+): ShiftSegment[] {
+  if (!template.weeks || template.weeks.length === 0) return [];
+
+  const cycleStart = addDaysToDateKey(effectiveFrom, -getWeekdayOfDateKey(effectiveFrom));
+  const weekOffset = Math.floor(daysBetweenDateKeys(cycleStart, dateKey) / 7);
+  const weekIndex = ((weekOffset % template.weeks.length) + template.weeks.length) % template.weeks.length;
+
+  return template.weeks[weekIndex]?.[getWeekdayOfDateKey(dateKey)] || [];
+}
+
+/**
+ * Indica si la fecha es laborable para el empleado
+ * Con turno asignado ese día, si tiene tramos; sin turno, según los días por
+ * semana de su work_schedule (o working_days de la política activa)
+ */
+export function isScheduledWorkingDay(
+  assignments: Pick<EmployeeShiftAssignment, 'effective_from' | 'shift_template'>[],
+  daysPerWeek: number,
+  dateKey: string
+): boolean {
+  const assignment = findShiftAssignment(assignments, dateKey);
+  return assignment?.shift_template
+    ? getShiftSegmentsForDate(assignment.shift_template, assignment.effective_from, dateKey).length > 0
+    : isWorkingWeekday(getWeekdayOfDateKey(dateKey), daysPerWeek);
+}
+
+/**
+ * Horario efectivo de un día con turno asignado
+ * Inicio = primer tramo, fin = último tramo; horas = suma de tramos menos el descanso
+ */
+export function resolveShiftSchedule(
+  template: Pick<ShiftTemplate, 'name' | 'weeks' | 'break_duration'>,
+  effectiveFrom: string,
+  dateKey: string,
+  policy: Pick<WorkPolicy, 'late_threshold'> | null | undefined
+): EffectiveSchedule {
+  const segments = getShiftSegmentsForDate(template, effectiveFrom, dateKey);
+  const lateThreshold = policy?.late_threshold ?? DEFAULT_SCHEDULE.late_threshold;
+
+  // Día libre: cualquier hora trabajada cuenta como extra
+  if (segments.length === 0) {
+    return {
+      ...DEFAULT_SCHEDULE,
+      hours_per_day: 0,
+      break_duration: 0,
+      late_threshold: lateThreshold,
+      flexible_hours: true,
+      is_working_day: false,
+      segments: [],
+      shift_name: template.name
+    };
+  }
+
+  const breakDuration = template.break_duration || 0;
+  const scheduledMinutes = segments.reduce((sum, segment) => sum + getSegmentMinutes(segment), 0);
+
+  return {
+    start_time: segments[0].start_time,
+    end_time: segments[segments.length - 1].end_time,
+    hours_per_day: Math.max(0, scheduledMinutes - breakDuration) / 60,
+    break_duration: breakDuration,
+    late_threshold: lateThreshold,
+    flexible_hours: false,
+    is_working_day: true,
+    segments,
+    shift_name: template.name
+  };
+}
+
+/**
+ * Horas programadas de una asignación en la fecha (0 en días libres)
+ */
+export function getScheduledShiftHours(
+  assignment: Pick<EmployeeShiftAssignment, 'effective_from' | 'shift_template'>,
+  dateKey: string
+): number {
+  if (!assignment.shift_template) return 0;
+  return resolveShiftSchedule(assignment.shift_template, assignment.effective_from, dateKey, null).hours_per_day;
+}
+
+export class WorkScheduleService {
+  private systemConfig: SystemConfigService;
+
+  constructor(private supabase: ReturnType<typeof createSupabaseClient> = createSupabaseClient()) {
+    this.systemConfig = new SystemConfigService(supabase);
+  }
+
+  /**
+   * Obtiene el horario efectivo de un empleado
+   * Con fecha (YYYY-MM-DD) se usa el turno asignado que rige ese día, si existe;
+   * si no, los campos que falten en su horario individual se toman de la política activa
+   */
+  async getEffectiveSchedule(employeeId: string, organizationId: string, dateKey?: string): Promise<EffectiveSchedule> {
+    const [employeeSchedule, policy, assignments] = await Promise.all([
+      this.systemConfig.getEmployeeWorkSchedule(employeeId),
+      this.systemConfig.getActiveWorkPolicy(organizationId),
+      dateKey ? this.getEmployeeShiftAssignments(employeeId).catch(() => []) : Promise.resolve([])
+    ]);
+
+    const assignment = dateKey ? findShiftAssignment(assignments, dateKey) : null;
+    if (dateKey && assignment?.shift_template) {
+      return resolveShiftSchedule(assignment.shift_template, assignment.effective_from, dateKey, policy);
+    }
+
+    return resolveEffectiveSchedule(employeeSchedule, policy);
+  }
+
+  /**
+   * Obtener las plantillas de turno activas de la organización
+   */
+  async getShiftTemplates(organizationId: string): Promise<ShiftTemplate[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('shift_templates')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching shift templates:', error);
+      throw new Error('Error al obtener plantillas de turno');
+    }
+  }
+
+  /**
+   * Crear una plantilla de turno
+   */
+  async createShiftTemplate(organizationId: string, data: ShiftTemplateFormData): Promise<ShiftTemplate> {
+    try {
+      const { data: template, error } = await this.supabase
+        .from('shift_templates')
+        .insert({
+          organization_id: organizationId,
+          ...data,
+          is_active: true
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return template;
+    } catch (error) {
+      console.error('Error creating shift template:', error);
+      throw new Error('Error al crear plantilla de turno');
+    }
+  }
+
+  /**
+   * Actualizar una plantilla de turno
+   * Los cambios aplican también a las asignaciones existentes
+   */
+  async updateShiftTemplate(id: string, data: ShiftTemplateFormData): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('shift_templates')
+        .update({ ...data, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating shift template:', error);
+      throw new Error('Error al actualizar plantilla de turno');
+    }
+  }
+
+  /**
+   * Desactivar una plantilla de turno (se conserva para el historial de asignaciones)
+   */
+  async deactivateShiftTemplate(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('shift_templates')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deactivating shift template:', error);
+      throw new Error('Error al desactivar plantilla de turno');
+    }
+  }
+
+  /**
+   * Obtener las asignaciones de turno de un empleado (más recientes primero)
+   */
+  async getEmployeeShiftAssignments(employeeId: string): Promise<EmployeeShiftAssignment[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('employee_shift_assignments')
+        .select(ASSIGNMENT_SELECT)
+        .eq('employee_id', employeeId)
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching shift assignments:', error);
+      throw new Error('Error al obtener turnos asignados');
+    }
+  }
+
+  /**
+   * Obtener las asignaciones de turno de varios empleados
+   */
+  async getShiftAssignments(employeeIds: string[]): Promise<EmployeeShiftAssignment[]> {
+    if (employeeIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('employee_shift_assignments')
+        .select(ASSIGNMENT_SELECT)
+        .in('employee_id', employeeIds);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching shift assignments:', error);
+      throw new Error('Error al obtener turnos asignados');
+    }
+  }
+
+  /**
+   * Asignar un turno a un empleado a partir de una fecha
+   * Una asignación existente con la misma fecha se reemplaza
+   */
+  async assignShift(
+    employeeId: string,
+    organizationId: string,
+    shiftTemplateId: string,
+    effectiveFrom: string
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('employee_shift_assignments')
+        .upsert({
+          organization_id: organizationId,
+          employee_id: employeeId,
+          shift_template_id: shiftTemplateId,
+          effective_from: effectiveFrom,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'employee_id,effective_from' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error assigning shift:', error);
+      throw new Error('Error al asignar turno');
+    }
+  }
+
+  /**
+   * Eliminar una asignación de turno
+   */
+  async removeShiftAssignment(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('employee_shift_assignments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error removing shift assignment:', error);
+      throw new Error('Error al eliminar asignación de turno');
+    }
+  }
+}
+
+export const workScheduleService = new WorkScheduleService();
@@ -5,6 +5,8 @@
 // Nota: Estos tipos deben mantenerse sincronizados con la DB
 // =============================================
 
+import type { ReportFilters, SavedReportFilters } from './reports.types'
+
 /**
  * Tipos base para todas las entidades
  * Implementa patrón de auditoría escalable
@@ -123,6 +125,11 @@ export interface Employee extends BaseEntity {
   role: EmployeeRole
   permissions: string[]
   
+  // Modo quiosco: hash del PIN (nunca se expone) y bloqueo por intentos fallidos
+  kiosk_pin_hash?: string | null
+  kiosk_pin_failed_attempts?: number
+  kiosk_pin_locked_until?: string | null
+  
   // Auditoría
   created_by?: string
   
@@ -140,12 +147,12 @@ export interface Employee extends BaseEntity {
  */
 export type EmployeeRole = 
   | 'employee'      // Empleado básico - solo su asistencia
+  | 'manager'      // Gerente de equipo - asistencia y aprobaciones de su equipo
+  | 'hr'           // Recursos humanos - administración de empleados sin configuración
   | 'admin'        // Administrador - panel completo y CRUD
   | 'super_admin'  // Super administrador - control total
   // Roles futuros (comentados por ahora):
   // | 'supervisor'   // Supervisor de área
-  // | 'manager'      // Gerente de equipo
-  // | 'hr'          // Recursos humanos
 
 /**
  * Configuración de horario de trabajo
@@ -159,6 +166,46 @@ export interface WorkScheduleConfig {
   break_duration?: number
 }
 
+/**
+ * Tramo de un turno (un turno partido tiene varios tramos en el mismo día)
+ */
+export interface ShiftSegment {
+  start_time: string  // HH:mm
+  end_time: string    // HH:mm; si es anterior a start_time termina al día siguiente
+}
+
+/**
+ * Patrón semanal de un turno: 7 días (0 = domingo); sin tramos = día libre
+ */
+export type ShiftWeekPattern = ShiftSegment[][]
+
+/**
+ * Plantillas de turno (tabla shift_templates)
+ * Con varias semanas el patrón rota semana a semana desde la fecha de asignación
+ */
+export interface ShiftTemplate extends BaseEntity {
+  organization_id: string
+  name: string
+  description?: string
+  weeks: ShiftWeekPattern[]  // JSONB; ciclo de rotación
+  break_duration: number     // Minutos no pagados dentro del turno
+  is_active: boolean
+}
+
+/**
+ * Turno asignado a un empleado (tabla employee_shift_assignments)
+ * Rige desde effective_from hasta la siguiente asignación del empleado
+ */
+export interface EmployeeShiftAssignment extends BaseEntity {
+  organization_id: string
+  employee_id: string
+  shift_template_id: string
+  effective_from: string
+
+  // Relaciones
+  shift_template?: ShiftTemplate
+}
+
 // =============================================
 // INTERFACES PARA AUTENTICACIÓN
 // =============================================
@@ -216,10 +263,25 @@ export interface WorkPolicy extends BaseEntity {
   working_days: number
   allow_remote: boolean
   require_geolocation: boolean
+  require_office_qr: boolean // La entrada exige escanear el QR rotativo de la oficina
   max_daily_hours: number
+  
+  // Cierre automático de turnos sin salida
+  auto_close_mode: ShiftAutoCloseMode
+  auto_close_after_hours: number // Horas después de la salida programada
+  
   is_active: boolean
 }
 
+/**
+ * Qué hacer con un turno que quedó abierto (entrada sin salida)
+ */
+export type ShiftAutoCloseMode = 
+  | 'disabled'         // No cerrar
+  | 'end_time'         // Cerrar a la hora de salida programada
+  | 'max_daily_hours'  // Cerrar al cumplir el máximo de horas diarias
+  | 'flag'             // No cerrar; marcar para revisión
+
 /**
  * Registros de asistencia
  * Tabla principal del sistema
@@ -251,10 +313,14 @@ export interface Attendance extends BaseEntity {
   check_in_location?: string
   check_out_location?: string
   
-  // Ubicación y seguridad
+  // Ubicación y seguridad (IP y user agent de la entrada)
   ip_address?: string
   user_agent?: string
-  location_data?: LocationData
+  location_data?: AttendanceLocationData
+  
+  // Terminal de quiosco usada en cada marcaje (null si fue desde el dispositivo del empleado)
+  check_in_kiosk_id?: string | null
+  check_out_kiosk_id?: string | null
   
   // Aprobación y revisión
   is_approved?: boolean
@@ -264,6 +330,11 @@ export interface Attendance extends BaseEntity {
   rejected_at?: string
   rejection_reason?: string
   
+  // Cierre automático de turno olvidado
+  auto_close_mode?: Exclude<ShiftAutoCloseMode, 'disabled'>
+  auto_close_reason?: string
+  auto_closed_at?: string
+  
   // Notas
   employee_notes?: string
   manager_notes?: string
@@ -323,6 +394,361 @@ export interface LocationData {
   accuracy?: number
   address?: string
   timestamp?: string
+  
+  // Resultado de la validación contra geocercas
+  geofence_id?: string
+  geofence_name?: string
+  distance_meters?: number
+  within_geofence?: boolean
+}
+
+/**
+ * Ubicaciones registradas en una asistencia (Attendance.location_data)
+ */
+export interface AttendanceLocationData {
+  check_in?: LocationData
+  check_out?: LocationData
+}
+
+/**
+ * Geocerca de oficina (centro + radio en metros)
+ */
+export interface Geofence {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  radius_meters: number
+  is_active: boolean
+}
+
+/**
+ * Configuración de geocercas de la organización
+ * Se guarda en system_settings (category: 'attendance', key: 'geofences')
+ */
+export interface GeofenceSettings {
+  // reject: se rechaza la entrada fuera de zona; flag: se registra pendiente de revisión
+  enforcement: 'reject' | 'flag'
+  geofences: Geofence[]
+}
+
+/**
+ * Tipos de permiso/licencia que puede solicitar un empleado
+ */
+export type LeaveType = 
+  | 'vacation'       // Vacaciones
+  | 'sick_leave'     // Incapacidad / enfermedad
+  | 'personal'       // Día personal
+
+/**
+ * Estados de una solicitud con revisión (permisos, correcciones de asistencia)
+ */
+export type RequestStatus = 
+  | 'pending'        // Pendiente de revisión
+  | 'approved'       // Aprobada
+  | 'rejected'       // Rechazada
+  | 'cancelled'      // Cancelada por el empleado
+
+/**
+ * Solicitudes de permiso y licencia (tabla leave_requests)
+ */
+export interface LeaveRequest extends BaseEntity {
+  organization_id: string
+  employee_id: string
+  leave_type: LeaveType
+  start_date: string
+  end_date: string
+  days_requested: number
+  reason?: string
+  status: RequestStatus
+  
+  // Aprobación y revisión (mismos campos que Attendance)
+  approved_by?: string
+  approved_at?: string
+  rejected_by?: string
+  rejected_at?: string
+  rejection_reason?: string
+  manager_notes?: string
+  
+  // Relaciones
+  employee?: Pick<Employee, 'id' | 'full_name' | 'employee_code'>
+}
+
+/**
+ * Valores originales del registro de asistencia antes de una corrección
+ */
+export type AttendanceSnapshot = Pick<
+  Attendance,
+  'check_in_time' | 'check_out_time' | 'work_hours' | 'regular_hours' | 'overtime_hours' | 'status'
+>
+
+/**
+ * Solicitudes de corrección de asistencia (tabla attendance_corrections)
+ * Conserva los valores originales para auditoría
+ */
+export interface AttendanceCorrection extends BaseEntity {
+  organization_id: string
+  employee_id: string
+  attendance_id?: string
+  attendance_date: string
+  proposed_check_in_time?: string
+  proposed_check_out_time?: string
+  employee_notes: string
+  status: RequestStatus
+  original_values?: AttendanceSnapshot  // Registro justo antes de aplicarla (se guarda al aprobar)
+  
+  // Revisión
+  approved_by?: string
+  approved_at?: string
+  rejected_by?: string
+  rejected_at?: string
+  manager_notes?: string
+  
+  // Relaciones
+  employee?: Pick<Employee, 'id' | 'full_name' | 'employee_code'>
+  attendance?: Pick<Attendance, 'check_in_time' | 'check_out_time'> | null
+}
+
+/**
+ * Política de permisos de la organización
+ * Se guarda en system_settings (category: 'leave', key: 'policy')
+ */
+export interface LeavePolicy {
+  annual_vacation_days: number
+  annual_sick_days: number
+  annual_personal_days: number
+  auto_approve: boolean
+  require_advance_notice: boolean
+  advance_notice_days: number
+}
+
+/**
+ * Saldo anual de un tipo de permiso para un empleado
+ */
+export interface LeaveBalance {
+  leave_type: LeaveType
+  allowance: number
+  used: number
+  pending: number
+  available: number
+}
+
+/**
+ * Feriados del calendario de la organización (tabla holidays)
+ */
+export interface Holiday extends BaseEntity {
+  organization_id: string
+  name: string
+  date: string                      // YYYY-MM-DD
+  is_recurring: boolean             // Se repite cada año en el mismo día y mes
+  department_ids?: string[] | null  // null o vacío = toda la organización
+}
+
+/**
+ * Tipos de notificación dentro de la aplicación
+ */
+export type NotificationType = 
+  | 'shift_auto_closed'   // Turno cerrado automáticamente
+  | 'shift_flagged'       // Turno abierto marcado para revisión
+
+/**
+ * Notificaciones para empleados y managers (tabla notifications)
+ */
+export interface Notification extends BaseEntity {
+  organization_id: string
+  recipient_id: string
+  type: NotificationType
+  title: string
+  message: string
+  data?: Record<string, unknown> // JSONB (p. ej. attendance_id)
+  read_at?: string
+}
+
+/**
+ * Tokens de API para integraciones (tabla api_tokens)
+ * Solo se guarda el hash SHA-256; el token se muestra una única vez al crearlo
+ */
+export interface ApiToken extends BaseEntity {
+  organization_id: string
+  name: string
+  token_prefix: string    // Primeros caracteres, para identificarlo en la UI
+  token_hash: string
+  scopes: string[]        // Entradas de PERMISSIONS
+  expires_at: string
+  last_used_at?: string | null
+  revoked_at?: string | null
+  created_by: string      // El token actúa con los permisos de su creador
+}
+
+/**
+ * Terminales de quiosco autorizadas (tabla kiosk_devices)
+ * Como los tokens de API, solo se guarda el hash del token del dispositivo
+ */
+export interface KioskDevice extends BaseEntity {
+  organization_id: string
+  name: string
+  token_prefix: string
+  token_hash: string
+  last_seen_at?: string | null
+  last_ip_address?: string | null
+  revoked_at?: string | null
+  created_by: string
+}
+
+/**
+ * Secreto con el que se firma el QR de la oficina (tabla office_qr_secrets)
+ * Solo lo lee el servidor con Service Role Key: nunca se expone al navegador
+ */
+export interface OfficeQrSecret {
+  organization_id: string
+  secret: string
+  created_at: string
+}
+
+/**
+ * Marcaje registrado sin conexión y sincronizado después (tabla attendance_sync_events)
+ * id es el UUID que genera el dispositivo: un reenvío del mismo evento es un duplicado
+ */
+export type AttendanceSyncAction = 'check_in' | 'check_out'
+
+export type AttendanceSyncStatus = 'applied' | 'duplicate' | 'stale' | 'rejected'
+
+export interface AttendanceSyncEvent {
+  id: string
+  employee_id: string
+  organization_id: string
+  action: AttendanceSyncAction
+  recorded_at: string           // Hora del dispositivo al marcar
+  status: AttendanceSyncStatus
+  message?: string | null
+  attendance_id?: string | null
+  created_at: string            // Hora de llegada al servidor
+}
+
+/**
+ * Eventos que se pueden enviar por webhook (ver METRICS.EVENTS)
+ */
+export type WebhookEventType =
+  | 'attendance_check_in'
+  | 'attendance_check_out'
+  | 'employee_created'
+  | 'employee_updated'
+  | 'employee_deactivated'
+  | 'report_generated'
+  | 'settings_changed'
+
+/**
+ * Endpoint de webhook registrado por la organización (tabla webhook_endpoints)
+ * El secreto firma cada envío con HMAC-SHA256; no se expone después de crearlo
+ */
+export interface WebhookEndpoint extends BaseEntity {
+  organization_id: string
+  url: string
+  description?: string | null
+  events: WebhookEventType[]
+  secret: string
+  is_active: boolean
+  created_by: string
+}
+
+/**
+ * Evento emitido pendiente de repartir a los endpoints (tabla webhook_events)
+ */
+export interface WebhookEvent extends BaseEntity {
+  organization_id: string
+  event: WebhookEventType
+  payload: Record<string, unknown>  // JSONB
+  dispatched_at?: string | null     // Momento en que se crearon sus entregas
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+/**
+ * Entrega de un evento a un endpoint, con reintentos (tabla webhook_deliveries)
+ */
+export interface WebhookDelivery extends BaseEntity {
+  organization_id: string
+  endpoint_id: string
+  event_id: string
+  event: WebhookEventType
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at?: string | null
+  last_attempt_at?: string | null
+  response_status?: number | null
+  last_error?: string | null
+  delivered_at?: string | null
+}
+
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Período relativo de un envío programado, calculado en la zona de la organización
+ */
+export type ReportSchedulePeriod = 'yesterday' | 'last_7_days' | 'last_week' | 'last_month' | 'month_to_date'
+
+export type ReportDeliveryTransportType = 'smtp' | 'webhook' | 'directory'
+
+/**
+ * Definición de un reporte programado (tabla report_schedules)
+ * Se ejecuta a run_hour (hora local) según la frecuencia; next_run_at es el
+ * próximo envío en UTC y lo recalcula /api/jobs/send-scheduled-reports
+ */
+export interface ReportSchedule extends BaseEntity {
+  organization_id: string
+  name: string
+  filters: Omit<ReportFilters, 'startDate' | 'endDate' | 'period' | 'employeeIds'>  // JSONB
+  export_options: {                                // JSONB
+    format: 'pdf' | 'excel'
+    template?: 'professional' | 'simple' | 'detailed'
+    includeCharts?: boolean
+    includeStats?: boolean
+  }
+  frequency: ReportScheduleFrequency
+  run_hour: number                  // 0-23
+  day_of_week?: number | null       // 0 = domingo (semanal)
+  day_of_month?: number | null      // 1-28 (mensual)
+  period: ReportSchedulePeriod
+  transport: ReportDeliveryTransportType
+  recipients: string[]              // Correos (smtp) o URLs https (webhook); vacío en directory
+  is_active: boolean
+  next_run_at: string
+  last_run_at?: string | null
+  created_by: string
+}
+
+export type ReportRunStatus = 'running' | 'succeeded' | 'failed'
+
+/**
+ * Ejecución de un reporte programado (tabla report_runs)
+ */
+export interface ReportRun extends BaseEntity {
+  organization_id: string
+  schedule_id: string
+  status: ReportRunStatus
+  trigger: 'schedule' | 'manual'
+  period_start: string
+  period_end: string
+  record_count?: number | null
+  file_name?: string | null
+  delivery_detail?: string | null   // Respuesta del transporte (p. ej. ruta del archivo)
+  error?: string | null
+  started_at: string
+  finished_at?: string | null
+}
+
+export type ReportFilterPresetScope = 'personal' | 'organization'
+
+/**
+ * Filtros de reporte guardados con nombre (tabla report_filter_presets)
+ * Los personales solo los ve quien los creó; los de organización, todos
+ */
+export interface ReportFilterPreset extends BaseEntity {
+  organization_id: string
+  name: string
+  scope: ReportFilterPresetScope
+  filters: SavedReportFilters  // JSONB
+  created_by: string
 }
 
 /**
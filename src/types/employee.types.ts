@@ -19,6 +19,7 @@ export interface EmployeeWithRelations {
   phone?: string;
   department_id?: string;
   position_id?: string;
+  manager_id?: string;
   hire_date: string;
   role: string;
   status: string;
@@ -55,6 +56,7 @@ export interface EmployeeFormData {
   employeeCode: string;
   departmentId: string;
   positionId: string;
+  managerId: string;
   hireDate: string;
   role: string;
   password: string;
@@ -190,12 +192,12 @@ export interface EmployeeDeleteDialogState {
  */
 export const EMPLOYEE_ROLES = [
   { value: 'employee', label: 'Empleado' },
+  { value: 'manager', label: 'Gerente' },
+  { value: 'hr', label: 'Recursos Humanos' },
   { value: 'admin', label: 'Administrador' },
   { value: 'super_admin', label: 'Super Administrador' }
   // Roles futuros (comentados por ahora):
   // { value: 'supervisor', label: 'Supervisor' },
-  // { value: 'manager', label: 'Gerente' },
-  // { value: 'hr', label: 'Recursos Humanos' }
 ] as const;
 
 export const EMPLOYEE_STATUSES = [
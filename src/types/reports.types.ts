@@ -20,17 +20,28 @@ export interface ReportFilters {
   startDate: string;
   endDate: string;
   employeeId?: string;
+  employeeIds?: string[]; // Alcance fijo (equipo de un manager)
   departmentId?: string;
   reportType: 'individual' | 'department' | 'general' | 'attendance' | 'punctuality';
-  status?: 'present' | 'absent' | 'incomplete' | 'late';
+  status?: 'present' | 'absent' | 'incomplete' | 'late' | 'leave';
   period: 'today' | 'week' | 'month' | 'quarter' | 'custom';
 }
 
+/**
+ * Filtros guardados en un preset o en la URL del reporte
+ * Las fechas solo se guardan con period 'custom'; el resto de períodos se
+ * resuelven al aplicarlos, sobre la fecha de hoy
+ */
+export type SavedReportFilters =
+  Pick<ReportFilters, 'reportType' | 'period' | 'status' | 'employeeId' | 'departmentId'> &
+  Partial<Pick<ReportFilters, 'startDate' | 'endDate'>>;
+
 export interface ReportStats {
   totalEmployees: number;
   totalAttendances: number;
   presentDays: number;
   absentDays: number;
+  leaveDays: number;
   incompleteDays: number;
   attendanceRate: number;
   punctualityRate: number;